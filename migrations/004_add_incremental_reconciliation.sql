@@ -0,0 +1,6 @@
+-- Migration: Per-file incremental reconciliation
+-- Versions remember the preview they were built from, and knowledge links
+-- remember which file produced them, so unchanged files can be carried forward.
+
+ALTER TABLE autognostic.versions ADD COLUMN IF NOT EXISTS preview_json JSONB;
+ALTER TABLE autognostic.knowledge_link ADD COLUMN IF NOT EXISTS url TEXT;
@@ -0,0 +1,6 @@
+-- Migration: Document titles and sections
+-- Carries llms.txt link titles and H2 section names (or the page's own title)
+-- onto stored documents so listings can show them.
+
+ALTER TABLE autognostic.documents ADD COLUMN IF NOT EXISTS title TEXT;
+ALTER TABLE autognostic.documents ADD COLUMN IF NOT EXISTS section TEXT;
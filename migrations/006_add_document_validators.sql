@@ -0,0 +1,6 @@
+-- Migration: HTTP validators on stored documents
+-- Keeps the ETag and Last-Modified a document was fetched with, so the
+-- next reconcile can revalidate it with a conditional GET.
+
+ALTER TABLE autognostic.documents ADD COLUMN IF NOT EXISTS etag TEXT;
+ALTER TABLE autognostic.documents ADD COLUMN IF NOT EXISTS last_modified TEXT;
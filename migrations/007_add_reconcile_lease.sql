@@ -0,0 +1,9 @@
+-- Migration: per-source reconcile lease
+-- A reconcile claims the source row with a conditional UPDATE, so two
+-- processes can't reconcile one source at once. The lease carries an expiry
+-- so a crashed holder can't block the source forever; last_reconciled_at
+-- drives the reconcile cooldown.
+
+ALTER TABLE autognostic.sources ADD COLUMN IF NOT EXISTS lease_holder TEXT;
+ALTER TABLE autognostic.sources ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+ALTER TABLE autognostic.sources ADD COLUMN IF NOT EXISTS last_reconciled_at TIMESTAMPTZ;
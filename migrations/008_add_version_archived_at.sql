@@ -0,0 +1,7 @@
+-- Migration: version history retention
+-- Records when each version stopped being the active one. Archived versions
+-- and their stored documents are kept for the configured retention window,
+-- and the activated_at/archived_at span answers "which version was current
+-- on date X" for as-of quoting.
+
+ALTER TABLE autognostic.versions ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
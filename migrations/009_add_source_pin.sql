@@ -0,0 +1,9 @@
+-- Migration: pin a source to a version
+-- A pinned source keeps serving pinned_version_id. Scheduled syncs still
+-- probe it and record the newest upstream version they saw, without
+-- applying it, so the user can see what an unpin would bring in.
+
+ALTER TABLE autognostic.sources ADD COLUMN IF NOT EXISTS pinned_version_id TEXT;
+ALTER TABLE autognostic.sources ADD COLUMN IF NOT EXISTS pinned_at TIMESTAMPTZ;
+ALTER TABLE autognostic.sources ADD COLUMN IF NOT EXISTS upstream_version_id TEXT;
+ALTER TABLE autognostic.sources ADD COLUMN IF NOT EXISTS upstream_seen_at TIMESTAMPTZ;
@@ -0,0 +1,13 @@
+-- Migration: per-source sync health
+-- Each sync outcome updates these. Failures push next_attempt_at out
+-- exponentially; scheduled syncs skip a source until then, and after enough
+-- consecutive failures the source is disabled (auto_disabled_at set) until
+-- an explicit refresh succeeds.
+
+ALTER TABLE autognostic.sources ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE autognostic.sources ADD COLUMN IF NOT EXISTS last_error_code TEXT;
+ALTER TABLE autognostic.sources ADD COLUMN IF NOT EXISTS last_error TEXT;
+ALTER TABLE autognostic.sources ADD COLUMN IF NOT EXISTS last_failure_at TIMESTAMPTZ;
+ALTER TABLE autognostic.sources ADD COLUMN IF NOT EXISTS last_success_at TIMESTAMPTZ;
+ALTER TABLE autognostic.sources ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ;
+ALTER TABLE autognostic.sources ADD COLUMN IF NOT EXISTS auto_disabled_at TIMESTAMPTZ;
@@ -0,0 +1,9 @@
+-- Migration: per-source sync schedules
+-- A source syncs on its own cron expression or fixed interval when one is
+-- set, and on the sync_config cron otherwise. next_sync_at holds the next
+-- due time, with jitter already applied; the scheduler syncs sources whose
+-- next_sync_at has passed.
+
+ALTER TABLE autognostic.sources ADD COLUMN IF NOT EXISTS sync_cron TEXT;
+ALTER TABLE autognostic.sources ADD COLUMN IF NOT EXISTS sync_interval_minutes INTEGER;
+ALTER TABLE autognostic.sources ADD COLUMN IF NOT EXISTS sync_jitter_minutes INTEGER;
@@ -0,0 +1,41 @@
+-- Migration: persistent ingestion job queue
+-- Mirrors, refreshes and scheduled syncs run as jobs. A worker holds a job
+-- through a renewable lease; a job whose lease expired (its process died)
+-- is claimed again and resumes its staged version, reusing the files
+-- recorded in job_items instead of ingesting them a second time.
+
+CREATE TABLE IF NOT EXISTS autognostic.jobs (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL,
+  source_id TEXT NOT NULL,
+  status TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  result JSONB,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  lease_holder TEXT,
+  lease_expires_at TIMESTAMPTZ,
+  run_after TIMESTAMPTZ,
+  version_id TEXT,
+  items_total INTEGER NOT NULL DEFAULT 0,
+  items_done INTEGER NOT NULL DEFAULT 0,
+  items_failed INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS autognostic_jobs_status_idx ON autognostic.jobs(status);
+CREATE INDEX IF NOT EXISTS autognostic_jobs_source_idx ON autognostic.jobs(source_id);
+
+CREATE TABLE IF NOT EXISTS autognostic.job_items (
+  id TEXT PRIMARY KEY,
+  job_id TEXT NOT NULL REFERENCES autognostic.jobs(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  knowledge_document_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS autognostic_job_items_job_idx ON autognostic.job_items(job_id);
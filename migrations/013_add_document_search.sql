@@ -0,0 +1,9 @@
+-- Migration: full-text search over stored documents
+-- SEARCH_DOCUMENTS ranks documents with ts_rank_cd against this vector.
+-- The expression must match documentSearchVector() in src/db/schema.ts
+-- exactly, or the planner will not use the index. Content past 500k
+-- characters is left out because a tsvector is capped at 1 MB.
+
+CREATE INDEX IF NOT EXISTS autognostic_documents_search_idx
+  ON autognostic.documents
+  USING GIN (to_tsvector('english', coalesce(title, '') || ' ' || left(content, 500000)));
@@ -0,0 +1,13 @@
+-- Migration: user-assigned document aliases
+-- Documents can be named ("the attention paper") so actions find them
+-- without a URL. Aliases are stored normalized (lowercase, punctuation
+-- collapsed to single spaces) and point at a URL, so they keep working
+-- when a new version of the document is stored.
+
+CREATE TABLE IF NOT EXISTS autognostic.document_aliases (
+  alias TEXT PRIMARY KEY,
+  url TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS autognostic_document_aliases_url_idx ON autognostic.document_aliases(url);
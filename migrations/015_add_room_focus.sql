@@ -0,0 +1,18 @@
+-- Migration: per-room document focus
+-- Each room remembers the document last added, quoted or named in it, and
+-- the character span of the passage last returned, so follow-ups like
+-- "the next paragraph" stay in that room's document instead of whichever
+-- document was added last anywhere.
+
+CREATE TABLE IF NOT EXISTS autognostic.room_focus (
+  id TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL,
+  room_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  unit TEXT,
+  char_start INTEGER,
+  char_end INTEGER,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS autognostic_room_focus_url_idx ON autognostic.room_focus(url);
@@ -0,0 +1,24 @@
+-- Migration: share unchanged documents across versions
+-- Reconciliation used to copy every unchanged document (content and
+-- profile) into each new version. Versions now link to the documents row
+-- that first stored the content; documents.source_id/version_id keep naming
+-- that version. Existing rows each get a link to their own version; copies
+-- made before this migration stay as they are.
+
+CREATE TABLE IF NOT EXISTS autognostic.document_versions (
+  id TEXT PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES autognostic.documents(id) ON DELETE CASCADE,
+  source_id TEXT NOT NULL,
+  version_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS autognostic_document_versions_document_idx
+  ON autognostic.document_versions(document_id);
+CREATE INDEX IF NOT EXISTS autognostic_document_versions_source_version_idx
+  ON autognostic.document_versions(source_id, version_id);
+
+INSERT INTO autognostic.document_versions (id, document_id, source_id, version_id)
+SELECT source_id || ':' || version_id || ':' || id, id, source_id, version_id
+FROM autognostic.documents
+ON CONFLICT (id) DO NOTHING;
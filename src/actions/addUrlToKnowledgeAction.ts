@@ -7,6 +7,7 @@ import { resolveOpenAccess, extractDoiFromUrl } from "../services/UnpaywallResol
 import { createScientificPaperHandler } from "../services/ScientificPaperHandler";
 import { AutognosticSourcesRepository } from "../db/autognosticSourcesRepository";
 import { autognosticDocumentsRepository } from "../db/autognosticDocumentsRepository";
+import { rememberFocus } from "../integration/roomFocus";
 import { wrapError, ErrorCode } from "../errors";
 import { safeSerialize } from "../utils/safeSerialize";
 import { fromError, forCondition, formatForCallback } from "../services/ErrorMessageFactory";
@@ -269,6 +270,7 @@ export const AddUrlToKnowledgeAction: Action = {
           `Full-text ingestion is blocked to respect copyright. ` +
           `Use Unpaywall or your institution's access for the full text.`;
 
+        await rememberFocus(runtime, message.roomId, url, null);
         if (callback) await callback({ text: responseText, action: "ADD_URL_TO_KNOWLEDGE" });
         return {
           success: true,
@@ -304,6 +306,7 @@ export const AddUrlToKnowledgeAction: Action = {
         entityId: runtime.agentId,
         worldId: runtime.agentId,
         oaStatus,
+        storeResolvedUrl: true,
         metadata: {
           addedVia: "ADD_URL_TO_KNOWLEDGE",
           sourceId,
@@ -383,6 +386,8 @@ export const AddUrlToKnowledgeAction: Action = {
         responseText = `[STORED] ${url.split("/").pop() || url} — added to knowledge base${authStatus}. Use GET_EXACT_QUOTE to retrieve content.`;
       }
 
+      // Follow-ups in this conversation ("read me the first paragraph") mean this document
+      await rememberFocus(runtime, message.roomId, ingestUrl, null);
       if (callback) await callback({ text: responseText, action: "ADD_URL_TO_KNOWLEDGE" });
       return {
         success: true,
@@ -0,0 +1,118 @@
+import type { Action, ActionResult, IAgentRuntime, Memory, State, HandlerCallback, HandlerOptions, Content } from "@elizaos/core";
+import { requireValidToken, AutognosticAuthError } from "../auth/validateToken";
+import { describeProgress, getJobQueueService, type JobProgress } from "../services/JobQueueService";
+import { safeSerialize } from "../utils/safeSerialize";
+
+/**
+ * The running job the message refers to: one whose job id or source id it
+ * names (longest id first, so "eliza-docs" wins over "eliza"), or the only
+ * one running.
+ */
+function pickRunning(text: string, running: JobProgress[]): JobProgress | null {
+  const named = running
+    .filter((j) => text.includes(j.jobId.toLowerCase()) || text.includes(j.sourceId.toLowerCase()))
+    .sort((a, b) => b.sourceId.length - a.sourceId.length);
+  if (named.length) return named[0];
+  return running.length === 1 ? running[0] : null;
+}
+
+export const CancelMirrorAction: Action = {
+  name: "CANCEL_MIRROR",
+  description:
+    "Cancel an in-flight mirror, refresh or sync by job id or source id. Pending fetches are aborted and " +
+    "the source stays on its previous active version. Requires auth token.",
+  similes: ["STOP_MIRROR", "ABORT_MIRROR", "CANCEL_SYNC", "CANCEL_REFRESH", "STOP_INGESTION"],
+  parameters: {
+    type: "object",
+    properties: {
+      jobId: {
+        type: "string",
+        description: "ID of the job to cancel, as shown in progress updates",
+      },
+      sourceId: {
+        type: "string",
+        description: "Cancel whatever job is running or queued for this source",
+      },
+      authToken: {
+        type: "string",
+        description: "Autognostic auth token for write permissions",
+      },
+    },
+    required: ["authToken"],
+  },
+
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = ((message.content as Content)?.text || "").toLowerCase();
+    return /\b(cancel|abort|stop|halt)\b.*\b(mirror\w*|sync\w*|refresh\w*|ingest\w*|job)\b/i.test(text);
+  },
+
+  async handler(
+    runtime: IAgentRuntime,
+    _message: Memory,
+    _state: State | undefined,
+    _options: HandlerOptions | undefined,
+    callback: HandlerCallback | undefined
+  ): Promise<ActionResult> {
+    const args = (_message.content as Record<string, unknown>) || {};
+
+    try {
+      requireValidToken(runtime, args.authToken as string | undefined);
+    } catch (err) {
+      if (err instanceof AutognosticAuthError) {
+        const text = err.message;
+        if (callback) {
+          await callback({ text, action: "CANCEL_MIRROR" });
+        }
+        return { success: false, text, data: safeSerialize({ error: "auth_failed" }) };
+      }
+      throw err;
+    }
+
+    const queue = getJobQueueService(runtime);
+    const running = queue.listRunning();
+    let ref =
+      (typeof args.jobId === "string" && args.jobId.trim()) ||
+      (typeof args.sourceId === "string" && args.sourceId.trim()) ||
+      "";
+    if (!ref) {
+      const said = ((_message.content as Content)?.text || "").toLowerCase();
+      const picked = pickRunning(said, running);
+      if (!picked) {
+        const text = running.length
+          ? "Which job should I cancel? Running now:\n" +
+            running.map((j) => `- ${j.jobId} (${j.kind} of ${j.sourceId}): ${describeProgress(j)}`).join("\n")
+          : "No mirror is running.";
+        if (callback) {
+          await callback({ text, action: "CANCEL_MIRROR" });
+        }
+        return {
+          success: false,
+          text,
+          data: safeSerialize({ error: running.length ? "ambiguous_job" : "job_not_found", running }),
+        };
+      }
+      ref = picked.jobId;
+    }
+
+    const cancelled = await queue.cancel(ref);
+    if (!cancelled.length) {
+      const text = `No running or queued job matches ${ref}.`;
+      if (callback) {
+        await callback({ text, action: "CANCEL_MIRROR" });
+      }
+      return { success: false, text, data: safeSerialize({ error: "job_not_found", ref }) };
+    }
+
+    const stopped = running.filter((j) => cancelled.includes(j.jobId));
+    const progress = stopped.length
+      ? ` It had got through ${stopped.map((j) => `${describeProgress(j)} of ${j.sourceId}`).join("; ")}.`
+      : "";
+    const text =
+      `Cancelled ${cancelled.join(", ")}; pending fetches are stopped and the source stays on its ` +
+      `previous active version.${progress}`;
+    if (callback) {
+      await callback({ text, action: "CANCEL_MIRROR" });
+    }
+    return { success: true, text, data: safeSerialize({ ref, cancelled, running: stopped }) };
+  },
+};
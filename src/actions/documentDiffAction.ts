@@ -0,0 +1,251 @@
+import type { Action, ActionResult, IAgentRuntime, Memory, State, HandlerCallback, HandlerOptions, Content } from "@elizaos/core";
+import { autognosticDocumentsRepository, type DocumentVersionInfo } from "../db/autognosticDocumentsRepository";
+import { analyzeDocument } from "../services/DocumentAnalyzer";
+import { diffDocuments, type DiffChange } from "../services/DocumentDiff";
+import { safeSerialize } from "../utils/safeSerialize";
+import { inferAsOfDate, parseAsOfDate } from "../utils/asOfDate";
+import { resolveDocument, formatDocumentChoices } from "../integration/resolveDocument";
+import { rememberFocus } from "../integration/roomFocus";
+
+/** Line-level changes spelled out in the reply; the rest are counted */
+const MAX_DETAIL_LINES = 10;
+/** Longest quoted line in the reply */
+const MAX_QUOTE_CHARS = 120;
+
+type StoredVersion = { id: string; version: DocumentVersionInfo };
+
+function respond(
+  callback: HandlerCallback | undefined,
+  success: boolean,
+  text: string,
+  data: Record<string, unknown>
+): ActionResult {
+  if (callback) callback({ text, action: "DOCUMENT_DIFF" });
+  return { success, text, data: safeSerialize(data) };
+}
+
+function isoDay(d: Date | string | null | undefined): string | undefined {
+  return d ? new Date(d).toISOString().slice(0, 10) : undefined;
+}
+
+/** The stored copy that was being served at `at`. */
+function versionAt(versions: StoredVersion[], at: Date): StoredVersion | undefined {
+  return versions.find(({ version: v }) => {
+    if (!v.status) return !!v.storedAt && new Date(v.storedAt) <= at;
+    if (!v.activatedAt || new Date(v.activatedAt) > at) return false;
+    return v.status === "active" || (!!v.archivedAt && new Date(v.archivedAt) > at);
+  });
+}
+
+/** Resolve a version id (or unambiguous prefix) or a date to a stored copy. */
+function resolveVersion(versions: StoredVersion[], spec: string): StoredVersion | undefined {
+  const trimmed = spec.trim();
+  const byId = versions.filter((s) => s.version.versionId.startsWith(trimmed));
+  if (trimmed.length >= 6 && byId.length === 1) return byId[0];
+  const at = parseAsOfDate(trimmed);
+  return at ? versionAt(versions, at) : undefined;
+}
+
+function describeVersion({ version: v }: StoredVersion): string {
+  if (!v.status) return `copy stored ${isoDay(v.storedAt) ?? "earlier"}`;
+  const id = v.versionId.slice(0, 12);
+  const since = isoDay(v.activatedAt);
+  if (v.status === "active") return `version ${id} (current${since ? `, since ${since}` : ""})`;
+  const until = isoDay(v.archivedAt);
+  return since && until ? `version ${id} (in effect ${since} to ${until})` : `version ${id}`;
+}
+
+function quote(text: string): string {
+  const flat = text.replace(/\s+/g, " ");
+  return `"${flat.length > MAX_QUOTE_CHARS ? `${flat.slice(0, MAX_QUOTE_CHARS - 3)}...` : flat}"`;
+}
+
+function describeLine(c: DiffChange): string {
+  if (c.kind === "added") return `Line ${c.after!.index} added: ${quote(c.after!.text)}`;
+  if (c.kind === "removed") return `Line ${c.before!.index} removed: ${quote(c.before!.text)}`;
+  return `Line ${c.after!.index} changed: ${quote(c.before!.text)} → ${quote(c.after!.text)}`;
+}
+
+async function loadForDiff(runtime: IAgentRuntime, stored: StoredVersion) {
+  const row = await autognosticDocumentsRepository.getContentById(runtime, stored.id);
+  if (!row) return null;
+  return { content: row.content, profile: row.profile ?? analyzeDocument(row.content) };
+}
+
+export const DocumentDiffAction: Action = {
+  name: "DOCUMENT_DIFF",
+  description:
+    "Compare two stored versions of a knowledge document and report the paragraphs and lines that were " +
+    "added, removed or changed, summarised by section. Use when the user asks what changed in a document, " +
+    "'what's different since last month', or to compare versions. Defaults to the current version against " +
+    "the one before it. Works only on versions kept within the refresh policy's retention window.",
+  similes: [
+    "DIFF_DOCUMENT",
+    "COMPARE_VERSIONS",
+    "WHAT_CHANGED",
+    "DOCUMENT_CHANGES",
+    "SHOW_CHANGES",
+  ],
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: { text: "What changed in https://docs.example.com/auth.md since the last sync?" },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: 'Changes to https://docs.example.com/auth.md from version 9b8e21f0c3aa (in effect 2026-09-01 to 2026-10-01) to version 3f2a9c1b7d04 (current, since 2026-10-01):\n- 3 paragraphs changed in section Authentication\n- 1 paragraph added in section Tokens\nLines: 2 added, 0 removed, 4 changed.',
+          actions: ["DOCUMENT_DIFF"],
+        },
+      },
+    ],
+    [
+      {
+        name: "{{name1}}",
+        content: { text: "Diff https://docs.example.com/setup.md against last month" },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Changes to https://docs.example.com/setup.md from version 1c7d0e92ab45 (in effect 2026-08-20 to 2026-09-25) to version 3f2a9c1b7d04 (current, since 2026-10-01):\n- 1 paragraph removed in section Installation\nLines: 0 added, 3 removed, 0 changed.",
+          actions: ["DOCUMENT_DIFF"],
+        },
+      },
+    ],
+  ],
+
+  parameters: {
+    type: "object",
+    properties: {
+      url: { type: "string", description: "URL of the document" },
+      document: { type: "string", description: "Title, author, alias, DOI or filename of the document, when no URL is given" },
+      from: {
+        type: "string",
+        description: "Older version: a version id (or prefix) or a date; defaults to the version before `to`",
+      },
+      to: {
+        type: "string",
+        description: "Newer version: a version id (or prefix) or a date; defaults to the current version",
+      },
+    },
+    required: [],
+  },
+
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = ((message.content as Content)?.text || "").toLowerCase();
+    return /\b(diff|what(?:'s|\s+has|\s+have)?\s+changed|changes?\s+(?:in|to|between|since)|compare\s+(?:the\s+)?versions?|what(?:'s|\s+is)\s+different)\b/i.test(text);
+  },
+
+  async handler(
+    runtime: IAgentRuntime,
+    _message: Memory,
+    _state: State | undefined,
+    _options: HandlerOptions | undefined,
+    callback: HandlerCallback | undefined
+  ): Promise<ActionResult> {
+    const args = (_message.content as Record<string, unknown>) || {};
+    const messageText = (_message.content as Content)?.text || "";
+
+    const resolution = await resolveDocument(runtime, messageText, {
+      url: args.url as string | undefined,
+      reference: args.document as string | undefined,
+      roomId: _message.roomId,
+    });
+    if (resolution.status === "ambiguous") {
+      return respond(callback, false, formatDocumentChoices(resolution.candidates),
+        { error: "ambiguous_document", candidates: resolution.candidates });
+    }
+    if (resolution.status === "none") {
+      return respond(callback, false,
+        "Which document should I compare? Give me its URL, title or alias.",
+        { error: "no_url" });
+    }
+    const url = resolution.url;
+
+    const versions = await autognosticDocumentsRepository.listVersions(runtime, url);
+    if (versions.length === 0) {
+      return respond(callback, false, `Document not found: ${url}`, { error: "not_found", url });
+    }
+    await rememberFocus(runtime, _message.roomId, url);
+
+    let to: StoredVersion | undefined = versions[0];
+    if (args.to) {
+      to = resolveVersion(versions, String(args.to));
+      if (!to) {
+        return respond(callback, false,
+          `No stored version of ${url} matches "${String(args.to)}".`,
+          { error: "version_not_found", url, to: args.to });
+      }
+    }
+
+    let from: StoredVersion | undefined;
+    if (args.from) {
+      from = resolveVersion(versions, String(args.from));
+      if (!from) {
+        return respond(callback, false,
+          `No stored version of ${url} matches "${String(args.from)}".`,
+          { error: "version_not_found", url, from: args.from });
+      }
+    } else {
+      // "what changed since last month" names the older side; otherwise the
+      // last stored content that differs (unchanged versions share a copy)
+      const since = inferAsOfDate(messageText.replace(url, " "));
+      const { id: toId } = to;
+      const older = versions.slice(versions.indexOf(to) + 1);
+      from = since
+        ? versionAt(versions, since.date)
+        : older.find((v) => v.id !== toId) ?? older[0];
+    }
+
+    if (!from) {
+      return respond(callback, false,
+        `Only one version of ${url} is stored, so there is nothing to compare it with. ` +
+        "Earlier versions are kept for the refresh policy's retention window.",
+        { error: "no_previous_version", url, versions: versions.length });
+    }
+    if (from.id === to.id) {
+      return respond(callback, true,
+        `${url} has not changed: both sides are ${describeVersion(to)}.`,
+        { url, from: from.version, to: to.version, unchanged: true });
+    }
+
+    const [before, after] = await Promise.all([
+      loadForDiff(runtime, from),
+      loadForDiff(runtime, to),
+    ]);
+    if (!before || !after) {
+      return respond(callback, false, `Stored content for ${url} is no longer available.`,
+        { error: "not_found", url });
+    }
+
+    const diff = diffDocuments(before, after);
+    const header = `Changes to ${url} from ${describeVersion(from)} to ${describeVersion(to)}`;
+    if (diff.paragraphs.length === 0 && diff.lines.length === 0) {
+      const text = `${header}: no differences in the text.`;
+      return respond(callback, true, text, { url, from: from.version, to: to.version, diff });
+    }
+
+    const { lines } = diff.counts;
+    const parts = [
+      `${header}:`,
+      ...diff.summary.map((s) => `- ${s}`),
+      `Lines: ${lines.added} added, ${lines.removed} removed, ${lines.changed} changed.`,
+    ];
+    if (diff.lines.length > 0) {
+      parts.push("", ...diff.lines.slice(0, MAX_DETAIL_LINES).map(describeLine));
+      if (diff.lines.length > MAX_DETAIL_LINES) {
+        parts.push(`(${diff.lines.length - MAX_DETAIL_LINES} more line changes)`);
+      }
+    }
+
+    return respond(callback, true, parts.join("\n"), {
+      url,
+      from: from.version,
+      to: to.version,
+      summary: diff.summary,
+      counts: diff.counts,
+      diff,
+    });
+  },
+};
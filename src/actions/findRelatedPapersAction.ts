@@ -17,6 +17,8 @@ import {
   type S2Paper,
 } from "../services/SemanticScholarService";
 import { extractDoiFromUrl } from "../services/UnpaywallResolver";
+import { resolveDocument, formatDocumentChoices } from "../integration/resolveDocument";
+import { rememberFocus } from "../integration/roomFocus";
 import { safeSerialize } from "../utils/safeSerialize";
 import { fromError, forCondition, formatForCallback } from "../services/ErrorMessageFactory";
 
@@ -169,6 +171,10 @@ export const FindRelatedPapersAction: Action = {
         type: "string",
         description: "DOI of the paper (e.g. 10.1145/3597066)",
       },
+      document: {
+        type: "string",
+        description: "Title, author or alias of a stored paper, when no identifier is given",
+      },
       mode: {
         type: "string",
         enum: ["related", "citations", "references"],
@@ -189,7 +195,7 @@ export const FindRelatedPapersAction: Action = {
   },
 
   async handler(
-    _runtime: IAgentRuntime,
+    runtime: IAgentRuntime,
     message: Memory,
     _state: State | undefined,
     _options: HandlerOptions | undefined,
@@ -198,12 +204,32 @@ export const FindRelatedPapersAction: Action = {
     const args = (message.content as Record<string, unknown>) || {};
     const messageText = ((message.content as Content)?.text || "");
 
-    // 1. Extract identifier
-    const identifier =
+    // 1. Extract identifier, else take it from a stored paper the message names
+    let identifier =
       (args.doi as string | undefined) ||
       (args.paperUrl as string | undefined) ||
       extractIdentifier(messageText);
 
+    if (!identifier) {
+      const resolution = await resolveDocument(runtime, messageText, {
+        reference: args.document as string | undefined,
+        roomId: message.roomId,
+      });
+      if (resolution.status === "ambiguous") {
+        const text = formatDocumentChoices(resolution.candidates);
+        if (callback) await callback({ text, action: "FIND_RELATED_PAPERS" });
+        return {
+          success: false,
+          text,
+          data: safeSerialize({ error: "ambiguous_document", candidates: resolution.candidates }),
+        };
+      }
+      if (resolution.status === "resolved") {
+        identifier = resolution.candidate?.doi || extractIdentifier(resolution.url);
+        await rememberFocus(runtime, message.roomId, resolution.url);
+      }
+    }
+
     if (!identifier) {
       const text =
         "Please provide a paper identifier — a DOI, arXiv ID, Semantic Scholar URL, or publisher URL.";
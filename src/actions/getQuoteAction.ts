@@ -1,27 +1,56 @@
 import type { Action, ActionResult, IAgentRuntime, Memory, State, HandlerCallback, HandlerOptions, Content } from "@elizaos/core";
 import { getExactQuote, getExactQuoteAll } from "../integration/getExactQuote";
-import { autognosticDocumentsRepository } from "../db/autognosticDocumentsRepository";
+import { verifyQuote } from "../integration/verifyQuote";
+import { fuzzySearch, type FuzzyMatch } from "../integration/fuzzySearch";
+import { resolveDocument, formatDocumentChoices } from "../integration/resolveDocument";
+import { getRoomFocus, rememberFocus, stepFrom, unitSpan } from "../integration/roomFocus";
+import type { FocusPosition, FocusUnit } from "../db/autognosticRoomFocusRepository";
+import { autognosticDocumentsRepository, type DocumentVersionInfo } from "../db/autognosticDocumentsRepository";
 import { analyzeDocument } from "../services/DocumentAnalyzer";
 import type { DocumentProfile } from "../services/DocumentAnalyzer.types";
 import { safeSerialize } from "../utils/safeSerialize";
 import { detectSections, normalizeSectionName } from "../services/ScientificSectionDetector";
+import { inferAsOfDate, parseAsOfDate } from "../utils/asOfDate";
 
-/** Helper: get or lazily compute a profile for a URL */
+/** Helper: get or lazily compute a profile for a URL, optionally as of a past date */
 async function getOrComputeProfile(
   runtime: IAgentRuntime,
-  url: string
-): Promise<{ profile: DocumentProfile; content: string } | null> {
-  const row = await autognosticDocumentsRepository.getWithProfile(runtime, url);
+  url: string,
+  asOf?: Date
+): Promise<{ profile: DocumentProfile; content: string; version?: DocumentVersionInfo } | null> {
+  const row = await autognosticDocumentsRepository.getWithProfile(runtime, url, asOf);
   if (!row) return null;
 
-  if (row.profile) return { profile: row.profile, content: row.content };
+  if (row.profile) return { profile: row.profile, content: row.content, version: row.version };
 
   // Lazy computation for documents stored before profiling existed
   const profile = analyzeDocument(row.content);
   try {
-    await autognosticDocumentsRepository.updateProfile(runtime, url, profile);
+    await autognosticDocumentsRepository.updateProfile(runtime, url, profile, row.id);
   } catch { /* non-fatal */ }
-  return { profile, content: row.content };
+  return { profile, content: row.content, version: row.version };
+}
+
+function isoDay(d: Date | string | null | undefined): string | undefined {
+  return d ? new Date(d).toISOString().slice(0, 10) : undefined;
+}
+
+/** One-line note naming the stored version a quote came from */
+function versionNote(version: DocumentVersionInfo): string {
+  if (!version.status) {
+    const stored = isoDay(version.storedAt);
+    return stored ? `(Stored ${stored})` : "";
+  }
+  const id = version.versionId.slice(0, 12);
+  const since = isoDay(version.activatedAt);
+  if (version.status === "active") {
+    return since ? `(Current version ${id}, in effect since ${since})` : `(Current version ${id})`;
+  }
+  const until = isoDay(version.archivedAt);
+  if (version.status === "archived" && since && until) {
+    return `(Archived version ${id}, in effect ${since} to ${until})`;
+  }
+  return `(Version ${id}, ${version.status})`;
 }
 
 /** Sentinel for open-ended ranges */
@@ -66,6 +95,8 @@ type InferredMode = {
   sectionName?: string;
   countOnly?: boolean;
   parts?: InferredMode[];
+  /** relative mode: which way to step from the room's last passage */
+  direction?: "forward" | "back";
 };
 
 // Number word pattern for regex (cardinals)
@@ -83,6 +114,13 @@ const ORD_UNIT_RE = new RegExp(`\\b(${ORD_WORDS})\\s+(${UNIT_SINGULAR})\\b`, "i"
 const UNIT_NUM_RE = new RegExp(`\\b(${UNIT_SINGULAR})\\s+(${NUM_WORDS}|${ORD_WORDS})\\b`, "i");
 const SECTION_KW = /(abstract|summary|overview|introduction|background|methods?|methodology|results?|discussion|conclusions?|references?|bibliography|acknowledg\w*|appendix|supplementary|keywords?|literature)/i;
 const SECTION_MATCH_RE = new RegExp(`(?:show\\s+(?:me\\s+)?(?:the\\s+)?|read\\s+(?:the\\s+)?|what(?:'s|\\s+is)\\s+(?:in\\s+)?(?:the\\s+)?|(?:give|get)\\s+(?:me\\s+)?(?:the\\s+)?|the\\s+)(${SECTION_KW.source})(?:\\s+(?:section|part))?`, "i");
+const VERIFY_RE = /\b(?:verify|check|confirm|validate|fact[\s-]?check)\b[^"“]*\b(?:quote|quotation|quoted)\b|\bdid\s+(?:it|they|the\s+\w+)\s+(?:really|actually)\s+say\b|\bis\s+(?:this|that|it)\s+(?:an?\s+)?(?:accurate|exact|correct|real|verbatim)\s+quot|\bmisquot/i;
+const FUZZY_RE = /\b(?:fuzzy|approximate(?:ly)?|loose(?:ly)?|typo[\s-]?tolerant)\s+(?:search|find|match|look\s*up)\s+(?:for\s+)?(.+)|\b(?:search|find|look)\s+(?:for\s+)?(?:something|anything|text)\s+(?:like|similar\s+to)\s+(.+)/i;
+// Relative navigation from the room's last passage; "next to last" is not a step
+const STEP_UNIT = "sentences?|paragraphs?|lines?";
+const NEXT_RE = new RegExp(`\\b(?:next|following|(?:go|skip|move|jump)\\s+(?:forward|ahead))\\s+(?:(${NUM_WORDS}|an?)\\s+)?(${STEP_UNIT})\\b`, "i");
+const BACK_RE = new RegExp(`\\b(?:previous|prior|preceding|(?:go|skip|move|jump|step)\\s+back(?:wards?)?)\\s+(?:(${NUM_WORDS}|an?)\\s+)?(${STEP_UNIT})\\b|\\b(${NUM_WORDS}|an?)\\s+(${STEP_UNIT})\\s+back\\b`, "i");
+const CONTINUE_RE = /\b(?:keep|continue|carry\s+on)\s+reading\b|\bread\s+on\b|\bwhat\s+comes\s+next\b|^\s*(?:continue|go\s+on)\s*[.!]*$/i;
 const COMPOUND_RE = new RegExp(`\\b(${ORD_WORDS})\\s+and\\s+(${ORD_WORDS})\\s+(${UNIT_SINGULAR})s?\\b`, "i");
 
 /** Normalize a captured stat unit to its canonical form */
@@ -101,6 +139,41 @@ function cleanSearchText(raw: string): string {
     .trim();
 }
 
+/** The claimed quote in a verification request: the passage in double quotes, or whatever follows "quote:" */
+export function extractClaimedQuote(text: string): string | null {
+  const quoted = text.match(/“([^”]+)”|"([^"]+)"/);
+  if (quoted) return (quoted[1] ?? quoted[2]).trim() || null;
+  const afterColon = text.match(/\bquot(?:e|ation)\b[^:]*:\s*([\s\S]+)$/i);
+  if (afterColon) return afterColon[1].trim().replace(/^['‘]|['’]$/g, "") || null;
+  return null;
+}
+
+/** Index of the last item starting at or before `pos` (the first item if none does) */
+function indexAt(items: Array<{ start: number }>, pos: number): number {
+  let lo = 0, hi = items.length - 1, found = 0;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (items[mid].start <= pos) {
+      found = mid;
+      lo = mid + 1;
+    } else hi = mid - 1;
+  }
+  return found;
+}
+
+/** Line, sentence and paragraph of the passage at [start, end) */
+function locatePassage(profile: DocumentProfile, start: number, end: number) {
+  const sentence = profile.sentences[indexAt(profile.sentences, start)];
+  const paragraph = profile.paragraphs[indexAt(profile.paragraphs, start)];
+  return {
+    lineNumber: indexAt(profile.lines, start) + 1,
+    lineEnd: indexAt(profile.lines, Math.max(start, end - 1)) + 1,
+    sentenceNumber: sentence ? sentence.index + 1 : undefined,
+    sentence: sentence?.text,
+    paragraphNumber: paragraph ? paragraph.index + 1 : undefined,
+  };
+}
+
 /** Infer mode from natural language, returning structured mode info */
 export function inferMode(messageText: string, args: Record<string, unknown> = {}): InferredMode {
   const explicitMode = args.mode as string | undefined;
@@ -113,6 +186,31 @@ export function inferMode(messageText: string, args: Record<string, unknown> = {
 
   const text = messageText;
 
+  // --- Priority 0: Quote verification — before quoted-text search claims the quote ---
+  if (VERIFY_RE.test(text)) {
+    return { mode: "verify", searchText: extractClaimedQuote(text) ?? undefined };
+  }
+
+  // --- Priority 0b: Fuzzy search — before section and search phrasings read the query ---
+  const fuzzyMatch = text.match(FUZZY_RE);
+  if (fuzzyMatch) {
+    return { mode: "fuzzy", searchText: cleanSearchText(fuzzyMatch[1] ?? fuzzyMatch[2]) };
+  }
+
+  // --- Priority 0c: Relative navigation — "the next paragraph", "go back two sentences" ---
+  const nextMatch = text.match(NEXT_RE);
+  if (nextMatch) {
+    return { mode: "relative", direction: "forward", count: nextMatch[1] ? parseNumber(nextMatch[1]) : 1, unit: nextMatch[2].replace(/s$/, "") };
+  }
+  const backMatch = text.match(BACK_RE);
+  if (backMatch) {
+    const num = backMatch[1] ?? backMatch[3];
+    return { mode: "relative", direction: "back", count: num ? parseNumber(num) : 1, unit: (backMatch[2] ?? backMatch[4]).replace(/s$/, "") };
+  }
+  if (CONTINUE_RE.test(text)) {
+    return { mode: "relative", direction: "forward", count: 1 };
+  }
+
   // --- Priority 1a: Specific stat — user asked about ONE unit ---
   // "how many words", "how many lines", "how many sentences", "how many paragraphs", "how many characters"
   const howManyMatch = text.match(/how\s+many\s+(words?|lines?|sentences?|paragraphs?|characters?|chars?)/i);
@@ -386,6 +484,16 @@ export function inferMode(messageText: string, args: Record<string, unknown> = {
   return { mode: "" };
 }
 
+/** Ranked fuzzy-search candidates, one per line */
+function formatFuzzyMatches(matches: FuzzyMatch[]): string {
+  return matches.map((m, i) => {
+    const how = m.kind === "exact" ? "exact match"
+      : m.kind === "normalized" ? "exact once ligatures, hyphenation and spacing are normalized"
+        : `${Math.round(m.score * 100)}% similar`;
+    return `${i + 1}. Line ${m.lineNumber}, sentence ${m.sentenceNumber} (${how}): "${m.sentence.replace(/\s+/g, " ")}"`;
+  }).join("\n");
+}
+
 /** Respond helper — always calls callback before returning */
 function respond(
   callback: HandlerCallback | undefined,
@@ -412,7 +520,11 @@ export const GetQuoteAction: Action = {
     "'show me the abstract', 'the conclusion', 'the acknowledgements', 'read the methods', 'list sections', " +
     "'first and third sentences', 'how many times does X appear', " +
     "'full document', 'read it all', 'the second line', '5th sentence', " +
-    "'penultimate sentence', 'next to last paragraph', 'stats', 'overview'. " +
+    "'penultimate sentence', 'next to last paragraph', 'stats', 'overview', " +
+    "'verify this quote', 'did it really say \"...\"', 'fuzzy search for X', 'something like X', " +
+    "'the next paragraph', 'go back two sentences', 'keep reading'. " +
+    "With no document named, it reads the one this conversation last added, quoted or named. " +
+    "Before presenting text as a quote, verify it: verify mode returns the true verbatim text and where it is. " +
     "Do NOT attempt to recall document content from conversation context — only this action retrieves it. " +
     "This is the ONLY way to access stored document content. REPLY cannot access documents.",
   similes: [
@@ -426,7 +538,8 @@ export const GetQuoteAction: Action = {
     "PARAGRAPH_COUNT", "CHARACTER_COUNT",
     "GET_SECTION", "LIST_SECTIONS", "SHOW_ABSTRACT", "SHOW_INTRODUCTION",
     "SHOW_METHODS", "SHOW_RESULTS", "SHOW_CONCLUSION", "COMPOUND_QUERY",
-    "KEYWORD_FREQUENCY",
+    "KEYWORD_FREQUENCY", "VERIFY_QUOTE", "CHECK_QUOTE", "FUZZY_SEARCH",
+    "NEXT_PARAGRAPH", "NEXT_SENTENCE", "PREVIOUS_SENTENCE", "KEEP_READING",
   ],
   examples: [
     // 1. Last line
@@ -529,26 +642,40 @@ export const GetQuoteAction: Action = {
       { name: "{{name1}}", content: { text: "How many paragraphs are there?" } },
       { name: "{{name2}}", content: { text: "The document contains 8 paragraphs.", actions: ["GET_EXACT_QUOTE"] } },
     ],
+    // 21. Verify a claimed quote
+    [
+      { name: "{{name1}}", content: { text: 'Did it really say "models always generalise well"?' } },
+      { name: "{{name2}}", content: { text: 'Not an exact quote. The closest passage (74% similar) is at line 31, sentence 18, paragraph 6. Quote it as:\n"Models generalise well in most settings."', actions: ["GET_EXACT_QUOTE"] } },
+    ],
+    // 22. Continue from the last passage
+    [
+      { name: "{{name1}}", content: { text: "Read me the next paragraph" } },
+      { name: "{{name2}}", content: { text: 'Paragraph 4 (lines 19-24, 91 words):\n"To evaluate the model, we..."', actions: ["GET_EXACT_QUOTE"] } },
+    ],
   ],
 
   parameters: {
     type: "object",
     properties: {
       url: { type: "string", description: "URL of the document" },
+      document: { type: "string", description: "Title, author, alias, DOI or filename of the document, when no URL is given" },
       searchText: { type: "string", description: "Text to find for exact quote" },
+      claimedQuote: { type: "string", description: "verify mode: the quote to check against the document" },
       lineNumber: { type: "number", description: "Line number to retrieve" },
+      asOf: { type: "string", description: "Quote the version in effect at this date (e.g. 2026-09-01, 'last month')" },
       mode: {
         type: "string",
-        enum: ["search", "search_all", "line", "full", "stats", "stat_specific", "last_n", "first_n", "nth", "paragraph", "first_paragraph", "last_paragraph", "range", "sentence_range", "paragraph_range", "implicit_start", "implicit_end", "section", "section_list", "compound"],
-        description: "Retrieval mode — includes section retrieval, section listing, and compound requests",
+        enum: ["search", "search_all", "line", "full", "stats", "stat_specific", "last_n", "first_n", "nth", "paragraph", "first_paragraph", "last_paragraph", "range", "sentence_range", "paragraph_range", "implicit_start", "implicit_end", "section", "section_list", "compound", "verify", "fuzzy", "relative"],
+        description: "Retrieval mode — includes section retrieval, section listing, compound requests, verify (check a claimed quote), fuzzy (typo-tolerant search), and relative (step from the last passage read in this conversation)",
       },
+      direction: { type: "string", enum: ["forward", "back"], description: "relative mode: read on from the last passage, or go back" },
     },
-    required: ["url"],
+    required: [],
   },
 
   validate: async (_runtime: IAgentRuntime, message: Memory) => {
     const text = ((message.content as Content)?.text || "").toLowerCase();
-    return /\b(quote|line\s+\d+|exact|verbatim|repeat.*(?:line|sentence|paragraph|word)|read\s+(?:me\s+)?(?:the\s+)?(?:line|back|from|what|document|doc|file|paper|it)|(?:first|last|next|previous)\s+(?:line|sentence|paragraph|word|\d+\s+(?:words?|sentences?|paragraphs?|lines?))|what\s+does\s+(?:it|the\s+\w+)\s+say|recite|word\s+for\s+word|copy\s+(?:the\s+)?(?:text|line|content)|print\s+(?:the\s+)?(?:document|doc|file|contents?|text|it|full)|show\s+(?:me\s+)?(?:the\s+)?(?:document|doc|file|contents?|text|full|paragraph)|(?:give|get)\s+(?:me\s+)?(?:the\s+)?(?:text|contents?|full|document|last|first)|contents?\s+of|full\s+(?:document|text|contents?)|what(?:'s|\s+is)\s+in\s+(?:the\s+)?(?:document|doc|file|paper)|how\s+many\s+(?:words?|lines?|sentences?|paragraphs?|characters?|chars?)|word\s+count|line\s+count|sentence\s+count|paragraph\s+count|character\s+count|statistics?|stats|paragraph\s+\d+|lines?\s+\d+\s+(?:to|through|thru)|(?:second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|eleventh|twelfth|thirteenth|fourteenth|fifteenth|sixteenth|seventeenth|eighteenth|nineteenth|twentieth|\d+(?:st|nd|rd|th))\s+(?:sentence|paragraph|line|word)|(?:sentence|paragraph|line)\s+(?:\d+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty)|how\s+long\s+is|count\s+the\s+(?:words?|lines?|sentences?|paragraphs?|characters?)|length|number\s+of\s+(?:words?|lines?|sentences?|paragraphs?)|total\s+(?:words?|lines?|sentences?|paragraphs?)|(?:find|locate|search|look\s+for)|(?:is|does)\s+(?:it\s+)?(?:mention|discuss|reference|include)|(?:does\s+it\s+)?talk\s+about|every\s+(?:mention|occurrence|instance)\s+of|how\s+does\s+it\s+(?:start|begin|end)|(?:the\s+)?(?:opening|beginning|ending|conclusion)\s+of|(?:the\s+)?(?:abstract|summary|overview|introduction|methods?|results?|discussion|conclusions?|references?|acknowledg\w+|bibliography)|list\s+(?:the\s+)?sections|table\s+of\s+contents|how\s+many\s+times|penultimate|next\s+to\s+last|(?:go|skip)\s+to\s+(?:line|paragraph)|read\s+it|tell\s+me\s+about\s+(?:the\s+)?(?:document|doc)|sentences?\s+\d+\s+(?:to|through|thru)|paragraphs?\s+\d+\s+(?:to|through|thru)|from\s+line|everything\s+after|para\s+\d+)/i.test(text);
+    return /\b(quote|line\s+\d+|exact|verbatim|repeat.*(?:line|sentence|paragraph|word)|read\s+(?:me\s+)?(?:the\s+)?(?:line|back|from|what|document|doc|file|paper|it)|(?:first|last|next|previous)\s+(?:line|sentence|paragraph|word|\d+\s+(?:words?|sentences?|paragraphs?|lines?))|what\s+does\s+(?:it|the\s+\w+)\s+say|recite|word\s+for\s+word|copy\s+(?:the\s+)?(?:text|line|content)|print\s+(?:the\s+)?(?:document|doc|file|contents?|text|it|full)|show\s+(?:me\s+)?(?:the\s+)?(?:document|doc|file|contents?|text|full|paragraph)|(?:give|get)\s+(?:me\s+)?(?:the\s+)?(?:text|contents?|full|document|last|first)|contents?\s+of|full\s+(?:document|text|contents?)|what(?:'s|\s+is)\s+in\s+(?:the\s+)?(?:document|doc|file|paper)|how\s+many\s+(?:words?|lines?|sentences?|paragraphs?|characters?|chars?)|word\s+count|line\s+count|sentence\s+count|paragraph\s+count|character\s+count|statistics?|stats|paragraph\s+\d+|lines?\s+\d+\s+(?:to|through|thru)|(?:second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|eleventh|twelfth|thirteenth|fourteenth|fifteenth|sixteenth|seventeenth|eighteenth|nineteenth|twentieth|\d+(?:st|nd|rd|th))\s+(?:sentence|paragraph|line|word)|(?:sentence|paragraph|line)\s+(?:\d+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty)|how\s+long\s+is|count\s+the\s+(?:words?|lines?|sentences?|paragraphs?|characters?)|length|number\s+of\s+(?:words?|lines?|sentences?|paragraphs?)|total\s+(?:words?|lines?|sentences?|paragraphs?)|(?:find|locate|search|look\s+for)|(?:is|does)\s+(?:it\s+)?(?:mention|discuss|reference|include)|(?:does\s+it\s+)?talk\s+about|every\s+(?:mention|occurrence|instance)\s+of|how\s+does\s+it\s+(?:start|begin|end)|(?:the\s+)?(?:opening|beginning|ending|conclusion)\s+of|(?:the\s+)?(?:abstract|summary|overview|introduction|methods?|results?|discussion|conclusions?|references?|acknowledg\w+|bibliography)|list\s+(?:the\s+)?sections|table\s+of\s+contents|how\s+many\s+times|penultimate|next\s+to\s+last|(?:go|skip)\s+to\s+(?:line|paragraph)|read\s+it|tell\s+me\s+about\s+(?:the\s+)?(?:document|doc)|sentences?\s+\d+\s+(?:to|through|thru)|paragraphs?\s+\d+\s+(?:to|through|thru)|from\s+line|everything\s+after|para\s+\d+|did\s+(?:it|they|the\s+\w+)\s+(?:really|actually)\s+say|misquot\w*|fuzzy|typo[\s-]?tolerant|(?:next|previous|following|preceding)\s+(?:\w+\s+)?(?:sentences?|paragraphs?|lines?)|(?:go|skip|move|jump|step)\s+(?:back|forward|ahead)|(?:keep|continue|carry\s+on)\s+reading|read\s+on|what\s+comes\s+next|^\s*(?:continue|go\s+on)\s*[.!]*$)/i.test(text);
   },
 
   async handler(
@@ -561,18 +688,44 @@ export const GetQuoteAction: Action = {
     const args = (_message.content as Record<string, unknown>) || {};
     const messageText = ((_message.content as Content)?.text || "").toLowerCase();
 
-    // --- URL resolution: structured args first, then extract from text ---
-    let url = args.url as string | undefined;
-    if (!url) {
-      const urlMatch = messageText.match(/https?:\/\/[^\s<>"{}|\\^`[\]]+/gi);
-      if (urlMatch) url = urlMatch[0];
+    // --- Document resolution: url arg, a URL in the text, title/author/alias/DOI/filename, then the room's focus ---
+    const roomId = _message.roomId as string | undefined;
+    const resolution = await resolveDocument(runtime, (_message.content as Content)?.text || "", {
+      url: args.url as string | undefined,
+      reference: args.document as string | undefined,
+      roomId,
+    });
+    if (resolution.status === "ambiguous") {
+      return respond(callback, false, formatDocumentChoices(resolution.candidates),
+        { error: "ambiguous_document", candidates: resolution.candidates });
+    }
+    let url = resolution.status === "resolved" ? resolution.url : undefined;
+
+    // --- As-of date: explicit arg, else a date phrase in the message ---
+    let asOf: Date | undefined;
+    let modeText = messageText;
+    if (args.asOf) {
+      const parsed = parseAsOfDate(String(args.asOf));
+      if (!parsed) {
+        return respond(callback, false,
+          `Could not understand the date "${String(args.asOf)}". Try a date like 2026-09-01 or "last month".`,
+          { error: "invalid_as_of" });
+      }
+      asOf = parsed;
+    } else {
+      const found = inferAsOfDate(messageText);
+      if (found) {
+        asOf = found.date;
+        // Keep the date phrase out of search text and unit counting
+        modeText = messageText.replace(found.phrase, " ").replace(/\s+/g, " ").trim();
+      }
     }
 
     // --- Mode inference from natural language ---
-    const inferred = inferMode(messageText, args);
+    const inferred = inferMode(modeText, args);
 
-    // --- If still no URL, try most recent document ---
-    if (!url) {
+    // --- Outside a room there is no focus: use the most recent document ---
+    if (!url && !roomId) {
       try {
         const { getDb } = await import("../db/getDb");
         const { autognosticDocuments } = await import("../db/schema");
@@ -596,11 +749,120 @@ export const GetQuoteAction: Action = {
     }
 
     // --- Single DB fetch for all modes ---
-    const data = await getOrComputeProfile(runtime, url);
+    const data = await getOrComputeProfile(runtime, url, asOf);
     if (!data) {
+      if (asOf) {
+        return respond(callback, false,
+          `No stored version of ${url} as of ${isoDay(asOf)}.`,
+          { error: "not_found", url, asOf: asOf.toISOString() });
+      }
       return respond(callback, false, `Document not found: ${url}`, { error: "not_found" });
     }
-    const { profile, content } = data;
+    const { profile, content, version } = data;
+
+    // Every answer names the version it was read from, and a successful one
+    // moves the room's focus to the passage returned
+    const reply = async (
+      success: boolean,
+      text: string,
+      result: Record<string, unknown>,
+      position?: FocusPosition | null
+    ): Promise<ActionResult> => {
+      if (success) await rememberFocus(runtime, roomId, url!, position);
+      if (!version) return respond(callback, success, text, result);
+      const note = versionNote(version);
+      return respond(callback, success, note ? `${text}\n\n${note}` : text, {
+        ...result,
+        version: {
+          sourceId: version.sourceId,
+          versionId: version.versionId,
+          status: version.status,
+          activatedAt: version.activatedAt,
+          archivedAt: version.archivedAt,
+          ...(asOf ? { asOf: asOf.toISOString() } : {}),
+        },
+      });
+    };
+
+    // --- VERIFY mode: check a claimed quote against the stored text ---
+    if (inferred.mode === "verify") {
+      const claimed =
+        (args.claimedQuote as string | undefined) ??
+        (args.searchText as string | undefined) ??
+        extractClaimedQuote((_message.content as Content)?.text || "") ??
+        "";
+      if (!claimed.trim()) {
+        return reply(false,
+          "Which quote should I check? Put the claimed quote in double quotes.",
+          { error: "missing_quote" });
+      }
+
+      const result = verifyQuote(content, claimed);
+      const similar = `${Math.round(result.score * 100)}% similar`;
+      if (result.match === "none") {
+        return reply(false,
+          `No passage in ${url} matches the claimed quote${result.score > 0 ? ` (the closest is only ${similar})` : ""}. ` +
+            "Don't present it as a quote from this document.",
+          { error: "not_found", url, mode: "verify", verified: false, match: "none", score: result.score, claimedQuote: claimed });
+      }
+
+      const where = locatePassage(profile, result.charPosition!, result.charEnd!);
+      const lines = where.lineEnd > where.lineNumber ? `lines ${where.lineNumber}-${where.lineEnd}` : `line ${where.lineNumber}`;
+      const at = [lines,
+        where.sentenceNumber ? `sentence ${where.sentenceNumber}` : "",
+        where.paragraphNumber ? `paragraph ${where.paragraphNumber}` : ""].filter(Boolean).join(", ");
+      const text =
+        result.match === "exact"
+          ? `Verified: the quote appears verbatim at ${at}.\n"${result.verbatim}"`
+          : result.match === "normalized"
+            ? `Verified at ${at}, apart from whitespace, ligatures, hyphenation or quote marks. Verbatim text:\n"${result.verbatim}"`
+            : `Not an exact quote. The closest passage (${similar}) is at ${at}. Quote it as:\n"${result.verbatim}"`;
+      return reply(true, text, {
+        url, mode: "verify", verified: result.match !== "approximate", match: result.match,
+        score: result.score, claimedQuote: claimed, verbatim: result.verbatim,
+        charPosition: result.charPosition, charEnd: result.charEnd, ...where,
+      }, unitSpan(profile, "sentence",
+        indexAt(profile.sentences, result.charPosition!),
+        indexAt(profile.sentences, Math.max(result.charPosition!, result.charEnd! - 1))));
+    }
+
+    // --- RELATIVE mode: step from the room's last passage ---
+    if (inferred.mode === "relative") {
+      const focus = await getRoomFocus(runtime, roomId);
+      // A position in another document says nothing about this one
+      const from = focus?.url === url ? focus.position : null;
+      const unit = (inferred.unit ?? from?.unit ?? "paragraph") as FocusUnit;
+      const direction = inferred.direction ?? (args.direction as "forward" | "back" | undefined) ?? "forward";
+      const indexes = stepFrom(profile, from, unit, direction, inferred.count ?? 1);
+      if (indexes.length === 0) {
+        return reply(false,
+          direction === "forward"
+            ? `That was the end of the document — there is no next ${unit}.`
+            : from ? "Already at the start of the document." : "There is no previous passage to go back from yet.",
+          { error: "out_of_range", url, mode: "relative", direction, unit });
+      }
+
+      const first = indexes[0];
+      const last = indexes[indexes.length - 1];
+      let text: string;
+      if (unit === "sentence") {
+        const items = indexes.map((i) => profile.sentences[i]);
+        text = items.length === 1
+          ? `Sentence ${first + 1} (line ${items[0].lineNumber}): "${items[0].text}"`
+          : `Sentences ${first + 1}-${last + 1}:\n` +
+            items.map((s) => `${s.index + 1}. "${s.text}" (line ${s.lineNumber})`).join("\n");
+      } else if (unit === "paragraph") {
+        text = indexes.map((i) => {
+          const p = profile.paragraphs[i];
+          return `Paragraph ${i + 1} (lines ${p.lineStart}-${p.lineEnd}, ${p.wordCount} words):\n"${content.substring(p.start, p.end)}"`;
+        }).join("\n\n");
+      } else {
+        text = indexes.map((i) => `Line ${i + 1}: "${content.substring(profile.lines[i].start, profile.lines[i].end)}"`).join("\n");
+      }
+      return reply(true, text, {
+        url, mode: "relative", direction, unit, start: first + 1, end: last + 1,
+      }, unitSpan(profile, unit, first, last));
+    }
 
     // --- STAT_SPECIFIC mode: return just the one stat requested ---
     if (inferred.mode === "stat_specific") {
@@ -608,33 +870,33 @@ export const GetQuoteAction: Action = {
       const filename = url.split("/").pop() || url;
 
       if (unit === "word") {
-        return respond(callback, true,
+        return reply(true,
           `The document contains ${profile.wordCount.toLocaleString()} words.`,
           { url, wordCount: profile.wordCount });
       }
       if (unit === "line") {
-        return respond(callback, true,
+        return reply(true,
           `The document contains ${profile.lineCount.toLocaleString()} lines (${profile.nonBlankLineCount} non-blank).`,
           { url, lineCount: profile.lineCount, nonBlankLineCount: profile.nonBlankLineCount });
       }
       if (unit === "sentence") {
-        return respond(callback, true,
+        return reply(true,
           `The document contains ${profile.sentenceCount.toLocaleString()} sentences.`,
           { url, sentenceCount: profile.sentenceCount });
       }
       if (unit === "paragraph") {
-        return respond(callback, true,
+        return reply(true,
           `The document contains ${profile.paragraphCount.toLocaleString()} paragraphs.`,
           { url, paragraphCount: profile.paragraphCount });
       }
       if (unit === "character") {
-        return respond(callback, true,
+        return reply(true,
           `The document contains ${profile.charCount.toLocaleString()} characters.`,
           { url, charCount: profile.charCount });
       }
       // Fallback for unknown unit — give full stats
       const text = `Document stats for ${filename}: ${profile.wordCount.toLocaleString()} words, ${profile.sentenceCount.toLocaleString()} sentences, ${profile.paragraphCount.toLocaleString()} paragraphs, ${profile.lineCount.toLocaleString()} lines, ${profile.charCount.toLocaleString()} characters.`;
-      return respond(callback, true, text, {
+      return reply(true, text, {
         url, wordCount: profile.wordCount, sentenceCount: profile.sentenceCount,
         paragraphCount: profile.paragraphCount, lineCount: profile.lineCount, charCount: profile.charCount,
       });
@@ -649,7 +911,7 @@ export const GetQuoteAction: Action = {
         `- ${profile.lineCount.toLocaleString()} lines (${profile.nonBlankLineCount} non-blank)\n` +
         `- ${profile.charCount.toLocaleString()} characters\n` +
         `- Avg ${profile.avgWordsPerSentence} words/sentence, ${profile.avgSentencesPerParagraph} sentences/paragraph`;
-      return respond(callback, true, text, {
+      return reply(true, text, {
         url, wordCount: profile.wordCount, sentenceCount: profile.sentenceCount,
         paragraphCount: profile.paragraphCount, lineCount: profile.lineCount,
       });
@@ -679,11 +941,12 @@ export const GetQuoteAction: Action = {
           ? profile.sentences.slice(-count)
           : profile.sentences.slice(0, count);
         if (items.length === 0) {
-          return respond(callback, false, "No sentences found in this document.", { error: "no_sentences" });
+          return reply(false, "No sentences found in this document.", { error: "no_sentences" });
         }
         const formatted = items.map((s, i) => `${i + 1}. "${s.text}" (line ${s.lineNumber})`).join("\n");
         const text = `${direction} ${count} sentence${count > 1 ? "s" : ""}:\n${formatted}`;
-        return respond(callback, true, text, { url, mode: inferred.mode, count, unit, items: items.map(s => s.text) });
+        return reply(true, text, { url, mode: inferred.mode, count, unit, items: items.map(s => s.text) },
+          unitSpan(profile, "sentence", items[0].index, items[items.length - 1].index));
       }
 
       if (unit === "paragraph") {
@@ -691,14 +954,15 @@ export const GetQuoteAction: Action = {
           ? profile.paragraphs.slice(-count)
           : profile.paragraphs.slice(0, count);
         if (items.length === 0) {
-          return respond(callback, false, "No paragraphs found in this document.", { error: "no_paragraphs" });
+          return reply(false, "No paragraphs found in this document.", { error: "no_paragraphs" });
         }
         const formatted = items.map((p, i) => {
           const paraText = content.substring(p.start, p.end);
           return `Paragraph ${p.index + 1} (lines ${p.lineStart}-${p.lineEnd}, ${p.wordCount} words):\n"${paraText}"`;
         }).join("\n\n");
         const text = `${direction} ${count} paragraph${count > 1 ? "s" : ""}:\n\n${formatted}`;
-        return respond(callback, true, text, { url, mode: inferred.mode, count, unit });
+        return reply(true, text, { url, mode: inferred.mode, count, unit },
+          unitSpan(profile, "paragraph", items[0].index, items[items.length - 1].index));
       }
 
       if (unit === "word") {
@@ -707,7 +971,7 @@ export const GetQuoteAction: Action = {
           ? allWords.slice(-count)
           : allWords.slice(0, count);
         const text = `${direction} ${count} word${count > 1 ? "s" : ""}: ${items.join(" ")}`;
-        return respond(callback, true, text, { url, mode: inferred.mode, count, unit, words: items });
+        return reply(true, text, { url, mode: inferred.mode, count, unit, words: items });
       }
 
       if (unit === "line") {
@@ -719,7 +983,8 @@ export const GetQuoteAction: Action = {
           return `${l.index + 1}: "${lineText}"`;
         }).join("\n");
         const text = `${direction} ${count} line${count > 1 ? "s" : ""}:\n${formatted}`;
-        return respond(callback, true, text, { url, mode: inferred.mode, count, unit });
+        return reply(true, text, { url, mode: inferred.mode, count, unit },
+          items.length ? unitSpan(profile, "line", items[0].index, items[items.length - 1].index) : undefined);
       }
     }
 
@@ -728,13 +993,14 @@ export const GetQuoteAction: Action = {
       const paraNum = (inferred.count ?? 1) - 1;
       const para = profile.paragraphs[paraNum];
       if (!para) {
-        return respond(callback, false,
+        return reply(false,
           `Paragraph ${paraNum + 1} not found. Document has ${profile.paragraphCount} paragraphs.`,
           { error: "out_of_range", paragraphCount: profile.paragraphCount });
       }
       const paraText = content.substring(para.start, para.end);
       const text = `Paragraph ${paraNum + 1} (lines ${para.lineStart}-${para.lineEnd}, ${para.wordCount} words):\n"${paraText}"`;
-      return respond(callback, true, text, { url, paragraph: paraNum + 1, wordCount: para.wordCount });
+      return reply(true, text, { url, paragraph: paraNum + 1, wordCount: para.wordCount },
+        unitSpan(profile, "paragraph", paraNum, paraNum));
     }
 
     // --- FIRST/LAST PARAGRAPH mode ---
@@ -744,12 +1010,13 @@ export const GetQuoteAction: Action = {
         ? profile.paragraphs[0]
         : profile.paragraphs[profile.paragraphs.length - 1];
       if (!para) {
-        return respond(callback, false, "No paragraphs found in this document.", { error: "no_paragraphs" });
+        return reply(false, "No paragraphs found in this document.", { error: "no_paragraphs" });
       }
       const label = isFirst ? "First" : "Last";
       const paraText = content.substring(para.start, para.end);
       const text = `${label} paragraph (lines ${para.lineStart}-${para.lineEnd}, ${para.wordCount} words):\n"${paraText}"`;
-      return respond(callback, true, text, { url, paragraph: para.index + 1, wordCount: para.wordCount });
+      return reply(true, text, { url, paragraph: para.index + 1, wordCount: para.wordCount },
+        unitSpan(profile, "paragraph", para.index, para.index));
     }
 
     // --- NTH mode: specific Nth unit — every branch returns immediately ---
@@ -760,48 +1027,51 @@ export const GetQuoteAction: Action = {
       if (unit === "sentence") {
         const sentence = profile.sentences[n - 1];
         if (!sentence) {
-          return respond(callback, false,
+          return reply(false,
             `Sentence ${n} not found. Document has ${profile.sentenceCount} sentences.`,
             { error: "out_of_range", sentenceCount: profile.sentenceCount });
         }
         const text = `Sentence ${n} (line ${sentence.lineNumber}): "${sentence.text}"`;
-        return respond(callback, true, text, { url, sentenceNumber: n, lineNumber: sentence.lineNumber });
+        return reply(true, text, { url, sentenceNumber: n, lineNumber: sentence.lineNumber },
+          unitSpan(profile, "sentence", n - 1, n - 1));
       }
       if (unit === "paragraph") {
         const para = profile.paragraphs[n - 1];
         if (!para) {
-          return respond(callback, false,
+          return reply(false,
             `Paragraph ${n} not found. Document has ${profile.paragraphCount} paragraphs.`,
             { error: "out_of_range", paragraphCount: profile.paragraphCount });
         }
         const paraText = content.substring(para.start, para.end);
         const text = `Paragraph ${n} (lines ${para.lineStart}-${para.lineEnd}, ${para.wordCount} words):\n"${paraText}"`;
-        return respond(callback, true, text, { url, paragraph: n, wordCount: para.wordCount });
+        return reply(true, text, { url, paragraph: n, wordCount: para.wordCount },
+          unitSpan(profile, "paragraph", n - 1, n - 1));
       }
       if (unit === "line") {
         const line = profile.lines[n - 1];
         if (!line) {
-          return respond(callback, false,
+          return reply(false,
             `Line ${n} not found. Document has ${profile.lineCount} lines.`,
             { error: "out_of_range", lineCount: profile.lineCount });
         }
         const lineText = content.substring(line.start, line.end);
         const text = `Line ${n}: "${lineText}"`;
-        return respond(callback, true, text, { url, lineNumber: n, content: lineText });
+        return reply(true, text, { url, lineNumber: n, content: lineText },
+          unitSpan(profile, "line", n - 1, n - 1));
       }
       if (unit === "word") {
         const allWords = content.trim().split(/\s+/);
         const word = allWords[n - 1];
         if (!word) {
-          return respond(callback, false,
+          return reply(false,
             `Word ${n} not found. Document has ${allWords.length} words.`,
             { error: "out_of_range", wordCount: allWords.length });
         }
         const text = `Word ${n}: "${word}"`;
-        return respond(callback, true, text, { url, wordNumber: n, word });
+        return reply(true, text, { url, wordNumber: n, word });
       }
       // Unknown unit — should not happen, but return error rather than fallthrough
-      return respond(callback, false,
+      return reply(false,
         `Unknown unit "${unit}" for nth mode.`,
         { error: "unknown_unit", unit });
     }
@@ -812,7 +1082,7 @@ export const GetQuoteAction: Action = {
       const end = (inferred.lineEnd ?? start + 1) - 1;
       const items = profile.sentences.slice(start, end + 1);
       if (items.length === 0) {
-        return respond(callback, false,
+        return reply(false,
           `Sentences ${start + 1}-${end + 1} not found. Document has ${profile.sentenceCount} sentences.`,
           { error: "out_of_range", sentenceCount: profile.sentenceCount });
       }
@@ -820,7 +1090,8 @@ export const GetQuoteAction: Action = {
         `${s.index + 1}. "${s.text}" (line ${s.lineNumber})`
       ).join("\n");
       const text = `Sentences ${start + 1}-${end + 1}:\n${formatted}`;
-      return respond(callback, true, text, { url, sentenceStart: start + 1, sentenceEnd: end + 1 });
+      return reply(true, text, { url, sentenceStart: start + 1, sentenceEnd: end + 1 },
+        unitSpan(profile, "sentence", items[0].index, items[items.length - 1].index));
     }
 
     // --- PARAGRAPH_RANGE mode ---
@@ -832,7 +1103,7 @@ export const GetQuoteAction: Action = {
       );
       const items = profile.paragraphs.slice(start, actualEnd + 1);
       if (items.length === 0) {
-        return respond(callback, false,
+        return reply(false,
           `Paragraphs ${start + 1}-${actualEnd + 1} not found. Document has ${profile.paragraphCount} paragraphs.`,
           { error: "out_of_range", paragraphCount: profile.paragraphCount });
       }
@@ -841,7 +1112,8 @@ export const GetQuoteAction: Action = {
         return `Paragraph ${p.index + 1} (lines ${p.lineStart}-${p.lineEnd}, ${p.wordCount} words):\n"${paraText}"`;
       }).join("\n\n");
       const text = `Paragraphs ${start + 1}-${actualEnd + 1}:\n\n${formatted}`;
-      return respond(callback, true, text, { url, paragraphStart: start + 1, paragraphEnd: actualEnd + 1 });
+      return reply(true, text, { url, paragraphStart: start + 1, paragraphEnd: actualEnd + 1 },
+        unitSpan(profile, "paragraph", start, actualEnd));
     }
 
     // --- SECTION mode: retrieve specific section ---
@@ -855,37 +1127,39 @@ export const GetQuoteAction: Action = {
         if (para) {
           const paraText = content.substring(para.start, para.end);
           const text = `No labeled abstract found. Summary (first paragraph, lines ${para.lineStart}-${para.lineEnd}, ${para.wordCount} words):\n"${paraText}"`;
-          return respond(callback, true, text, {
+          return reply(true, text, {
             url, sectionName: "summary", fallback: true,
             startLine: para.lineStart, endLine: para.lineEnd, wordCount: para.wordCount,
-          });
+          }, unitSpan(profile, "paragraph", para.index, para.index));
         }
       }
 
       if (!section) {
         const available = sectionProfile.sectionNames.join(", ") || "none detected";
-        return respond(callback, false,
+        return reply(false,
           `Section "${inferred.sectionName}" not found. Available sections: ${available}.`,
           { error: "section_not_found", sectionName: inferred.sectionName, availableSections: sectionProfile.sectionNames });
       }
       const text = `${section.displayName} (lines ${section.startLine}-${section.endLine}, ${section.wordCount} words):\n"${section.text}"`;
-      return respond(callback, true, text, {
+      // Continue from a section a paragraph at a time
+      const lines = unitSpan(profile, "line", section.startLine - 1, section.endLine - 1);
+      return reply(true, text, {
         url, sectionName: section.name, displayName: section.displayName,
         startLine: section.startLine, endLine: section.endLine, wordCount: section.wordCount,
-      });
+      }, lines && { ...lines, unit: "paragraph" });
     }
 
     // --- SECTION_LIST mode: list all sections ---
     if (inferred.mode === "section_list") {
       const sectionProfile = detectSections(content);
       if (sectionProfile.sections.length === 0) {
-        return respond(callback, false, "No sections detected in this document.", { error: "no_sections" });
+        return reply(false, "No sections detected in this document.", { error: "no_sections" });
       }
       const formatted = sectionProfile.sections.map((s, i) =>
         `${i + 1}. ${s.displayName} (lines ${s.startLine}-${s.endLine}, ${s.wordCount} words)`
       ).join("\n");
       const text = `Document sections (${sectionProfile.sections.length}):\n${formatted}`;
-      return respond(callback, true, text, {
+      return reply(true, text, {
         url, sectionCount: sectionProfile.sections.length,
         sections: sectionProfile.sectionNames,
         isScientificFormat: sectionProfile.isScientificFormat,
@@ -920,26 +1194,49 @@ export const GetQuoteAction: Action = {
         }
       }
       const text = results.join("\n\n");
-      return respond(callback, true, text, { url, mode: "compound", partCount: inferred.parts.length });
+      return reply(true, text, { url, mode: "compound", partCount: inferred.parts.length });
+    }
+
+    // --- FUZZY mode: ranked sentence-level candidates, exact matches first ---
+    if (inferred.mode === "fuzzy") {
+      const query = inferred.searchText ?? (args.searchText as string | undefined);
+      if (!query) {
+        return reply(false, "What should I search for?", { error: "missing_search_text" });
+      }
+      const matches = fuzzySearch(content, profile, query);
+      if (matches.length === 0) {
+        return reply(false, `Nothing close to "${query}" found.`, { error: "not_found", searchText: query });
+      }
+      const text = `Closest matches for "${query}":\n${formatFuzzyMatches(matches)}`;
+      return reply(true, text, { url, mode: "fuzzy", searchText: query, matches },
+        unitSpan(profile, "sentence", matches[0].sentenceNumber - 1, matches[0].sentenceNumber - 1));
     }
 
     // --- SEARCH_ALL mode (with optional countOnly) ---
     if (inferred.mode === "search_all") {
       const result = getExactQuoteAll(content, inferred.searchText!);
+      if (result.totalCount === 0 && !inferred.countOnly) {
+        // PDF text often breaks words up; offer the closest passages instead
+        const matches = fuzzySearch(content, profile, inferred.searchText!);
+        if (matches.length > 0) {
+          const text = `No exact mentions of "${inferred.searchText}". Closest matches:\n${formatFuzzyMatches(matches)}`;
+          return reply(true, text, { url, searchText: inferred.searchText, totalCount: 0, fuzzy: true, matches });
+        }
+      }
       if (result.totalCount === 0) {
-        return respond(callback, false,
+        return reply(false,
           `No mentions of "${inferred.searchText}" found.`,
           { error: "not_found", searchText: inferred.searchText });
       }
       if (inferred.countOnly) {
         const text = `"${inferred.searchText}" appears ${result.totalCount} time(s).`;
-        return respond(callback, true, text, { url, searchText: inferred.searchText, totalCount: result.totalCount });
+        return reply(true, text, { url, searchText: inferred.searchText, totalCount: result.totalCount });
       }
       const formatted = result.matches.map((m, i) =>
         `${i + 1}. Line ${m.lineNumber}: "...${m.context}..."`
       ).join("\n");
       const text = `Found ${result.totalCount} mention(s) of "${inferred.searchText}":\n${formatted}`;
-      return respond(callback, true, text, { url, searchText: inferred.searchText, totalCount: result.totalCount });
+      return reply(true, text, { url, searchText: inferred.searchText, totalCount: result.totalCount });
     }
 
     // --- RANGE mode: lines N to M ---
@@ -951,7 +1248,7 @@ export const GetQuoteAction: Action = {
       );
       const lines = profile.lines.slice(start, actualEnd + 1);
       if (lines.length === 0) {
-        return respond(callback, false,
+        return reply(false,
           `Lines ${start + 1}-${actualEnd + 1} not found. Document has ${profile.lineCount} lines.`,
           { error: "out_of_range", lineCount: profile.lineCount });
       }
@@ -960,26 +1257,28 @@ export const GetQuoteAction: Action = {
         return `${l.index + 1}: "${lineText}"`;
       }).join("\n");
       const text = `Lines ${start + 1}-${actualEnd + 1}:\n${formatted}`;
-      return respond(callback, true, text, { url, lineStart: start + 1, lineEnd: actualEnd + 1 });
+      return reply(true, text, { url, lineStart: start + 1, lineEnd: actualEnd + 1 },
+        unitSpan(profile, "line", start, actualEnd));
     }
 
     // --- FULL mode ---
     if (inferred.mode === "full") {
       const text = `Full document (${content.length} chars):\n\n${content.slice(0, 5000)}${content.length > 5000 ? "\n...[truncated]" : ""}`;
-      return respond(callback, true, text, { url, charCount: content.length });
+      return reply(true, text, { url, charCount: content.length });
     }
 
     // --- LINE mode ---
     if (inferred.mode === "line" && inferred.lineNumber) {
       const lineInfo = profile.lines[inferred.lineNumber - 1];
       if (!lineInfo) {
-        return respond(callback, false,
+        return reply(false,
           `Line ${inferred.lineNumber} not found. Document has ${profile.lineCount} lines.`,
           { error: "out_of_range", lineCount: profile.lineCount });
       }
       const lineText = content.substring(lineInfo.start, lineInfo.end);
       const text = `Line ${inferred.lineNumber}: "${lineText}"`;
-      return respond(callback, true, text, { url, lineNumber: inferred.lineNumber, content: lineText });
+      return reply(true, text, { url, lineNumber: inferred.lineNumber, content: lineText },
+        unitSpan(profile, "line", lineInfo.index, lineInfo.index));
     }
 
     // --- SEARCH mode ---
@@ -987,18 +1286,24 @@ export const GetQuoteAction: Action = {
     if (searchText) {
       const result = getExactQuote(content, searchText);
       if (!result.found) {
-        return respond(callback, false, `Text not found in ${url}`, { error: "not_found" });
+        const matches = fuzzySearch(content, profile, searchText);
+        if (matches.length > 0) {
+          const text = `No exact match for "${searchText}". Closest matches:\n${formatFuzzyMatches(matches)}`;
+          return reply(true, text, { found: false, fuzzy: true, searchText, matches });
+        }
+        return reply(false, `Text not found in ${url}`, { error: "not_found" });
       }
       const text = `Found at line ${result.lineNumber}:\n"${result.quote}"\n\nContext: ...${result.context}...`;
-      return respond(callback, true, text, {
+      const sentence = indexAt(profile.sentences, result.charPosition!);
+      return reply(true, text, {
         found: result.found, quote: result.quote,
         lineNumber: result.lineNumber, charPosition: result.charPosition,
         context: result.context,
-      });
+      }, unitSpan(profile, "sentence", sentence, sentence));
     }
 
     // Default fallback: full doc
     const fallbackText = `Full document (${content.length} chars):\n\n${content.slice(0, 5000)}${content.length > 5000 ? "\n...[truncated]" : ""}`;
-    return respond(callback, true, fallbackText, { url, charCount: content.length, mode: "full-fallback" });
+    return reply(true, fallbackText, { url, charCount: content.length, mode: "full-fallback" });
   },
 };
@@ -88,6 +88,8 @@ export const ListDocumentsAction: Action = {
 
     const docSummaries = docs.map((d) => ({
       url: d.url,
+      title: d.title ?? undefined,
+      section: d.section ?? undefined,
       sourceId: d.sourceId,
       mimeType: d.mimeType,
       byteSize: d.byteSize,
@@ -96,7 +98,9 @@ export const ListDocumentsAction: Action = {
 
     const lines = docSummaries.map((d) => {
       const size = d.byteSize ? `${Math.round(d.byteSize / 1024)}KB` : "?KB";
-      return `- ${d.url} (${size}, source: ${d.sourceId})`;
+      const label = d.title ? `${d.title} — ${d.url}` : d.url;
+      const section = d.section ? `, section: ${d.section}` : "";
+      return `- ${label} (${size}, source: ${d.sourceId}${section})`;
     });
 
     const filterNote = sourceId ? ` for source ${sourceId}` : "";
@@ -0,0 +1,142 @@
+import type { Action, ActionResult, IAgentRuntime, Memory, State, HandlerCallback, HandlerOptions, Content } from "@elizaos/core";
+import { AutognosticSourcesRepository } from "../db/autognosticSourcesRepository";
+import { AutognosticVersionsRepository } from "../db/autognosticVersionsRepository";
+import { AutognosticDocumentsRepository } from "../db/autognosticDocumentsRepository";
+import type { AutognosticVersionRow } from "../db/schema";
+import type { SourcePreview } from "../orchestrator/previewSource";
+import { safeSerialize } from "../utils/safeSerialize";
+
+function stamp(d: Date | null | undefined): string | undefined {
+  return d ? `${d.toISOString().slice(0, 16).replace("T", " ")} UTC` : undefined;
+}
+
+function describeVersion(v: AutognosticVersionRow, storedDocs: number): string {
+  const id = v.versionId.slice(0, 12);
+  const files = (v.previewJson as SourcePreview | null)?.files?.length;
+  const fileNote = files !== undefined ? ` (${files} files)` : "";
+  switch (v.status) {
+    case "active":
+      return `${id} active since ${stamp(v.activatedAt) ?? "unknown"}${fileNote}`;
+    case "archived": {
+      const span = `${stamp(v.activatedAt) ?? "?"} → ${stamp(v.archivedAt) ?? "?"}`;
+      const retained = storedDocs > 0 ? "retained, can roll back" : "documents no longer retained";
+      return `${id} archived, in effect ${span}${fileNote}; ${retained}`;
+    }
+    case "failed":
+      return `${id} failed ${stamp(v.failedAt) ?? ""}: ${v.failureReason ?? "unknown error"}`.replace("  ", " ");
+    default:
+      return `${id} ${v.status} since ${stamp(v.createdAt) ?? "unknown"}`;
+  }
+}
+
+export const ListSourceVersionsAction: Action = {
+  name: "LIST_SOURCE_VERSIONS",
+  description:
+    "List the recorded versions of a knowledge source with their status, timestamps and failure reasons, " +
+    "and whether each archived version can still be rolled back to. Also shows a version pin and any " +
+    "upstream change waiting behind it. No auth required (read-only).",
+  similes: [
+    "SOURCE_VERSIONS",
+    "VERSION_HISTORY",
+    "SHOW_VERSIONS",
+    "LIST_VERSIONS",
+  ],
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: { text: "Show me the version history for source docs" },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Versions of docs (3):\n- 3f2a9c1b7d04 active since 2026-10-01 02:00 UTC (42 files)\n- 9b8e21f0c3aa archived, in effect 2026-09-01 02:00 UTC → 2026-10-01 02:00 UTC (41 files); retained, can roll back\n- 1c7d0e92ab45 failed 2026-08-31 02:00 UTC: No files discovered; keeping previous version",
+          actions: ["LIST_SOURCE_VERSIONS"],
+        },
+      },
+    ],
+  ],
+
+  parameters: {
+    type: "object",
+    properties: {
+      sourceId: {
+        type: "string",
+        description: "ID of the source whose versions to list",
+      },
+    },
+    required: ["sourceId"],
+  },
+
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = ((message.content as Content)?.text || "").toLowerCase();
+    return /\b(list|show|what).*\b(versions?|version\s+history|history)\b/i.test(text);
+  },
+
+  async handler(
+    runtime: IAgentRuntime,
+    _message: Memory,
+    _state: State | undefined,
+    _options: HandlerOptions | undefined,
+    callback: HandlerCallback | undefined
+  ): Promise<ActionResult> {
+    const args = (_message.content as Record<string, unknown>) || {};
+    const sourceId = args.sourceId as string | undefined;
+
+    if (!sourceId) {
+      const text = "sourceId is required.";
+      if (callback) {
+        await callback({ text, action: "LIST_SOURCE_VERSIONS" });
+      }
+      return { success: false, text, data: safeSerialize({ error: "missing_source_id" }) };
+    }
+
+    const source = await new AutognosticSourcesRepository(runtime).getById(sourceId);
+    if (!source) {
+      const text = `Source ${sourceId} not found.`;
+      if (callback) {
+        await callback({ text, action: "LIST_SOURCE_VERSIONS" });
+      }
+      return { success: false, text, data: safeSerialize({ error: "source_not_found" }) };
+    }
+
+    const versions = await new AutognosticVersionsRepository(runtime).listBySource(sourceId);
+    const docCounts = await new AutognosticDocumentsRepository(runtime).countByVersion(sourceId);
+
+    const pinNote = source.pinnedVersionId
+      ? `Pinned to ${source.pinnedVersionId.slice(0, 12)}` +
+        (source.upstreamVersionId
+          ? `; upstream moved to ${source.upstreamVersionId.slice(0, 12)} (seen ${stamp(source.upstreamSeenAt) ?? "recently"}) and is not applied.`
+          : ".")
+      : "";
+
+    const lines = versions.map((v) => `- ${describeVersion(v, docCounts.get(v.versionId) ?? 0)}`);
+    const text = versions.length
+      ? `Versions of ${sourceId} (${versions.length}):\n${lines.join("\n")}${pinNote ? `\n${pinNote}` : ""}`
+      : `No versions recorded for ${sourceId} yet.`;
+    if (callback) {
+      await callback({ text, action: "LIST_SOURCE_VERSIONS" });
+    }
+    return {
+      success: true,
+      text,
+      data: safeSerialize({
+        sourceId,
+        pinnedVersionId: source.pinnedVersionId,
+        upstreamVersionId: source.upstreamVersionId,
+        versions: versions.map((v) => ({
+          versionId: v.versionId,
+          status: v.status,
+          createdAt: v.createdAt,
+          activatedAt: v.activatedAt,
+          archivedAt: v.archivedAt,
+          failedAt: v.failedAt,
+          failureReason: v.failureReason,
+          fileCount: (v.previewJson as SourcePreview | null)?.files?.length,
+          storedDocuments: docCounts.get(v.versionId) ?? 0,
+          canRollBack: v.status === "archived" && (docCounts.get(v.versionId) ?? 0) > 0,
+        })),
+      }),
+    };
+  },
+};
@@ -1,6 +1,7 @@
 import type { Action, ActionResult, IAgentRuntime, Memory, State, HandlerCallback, HandlerOptions, Content } from "@elizaos/core";
 import { AutognosticSourcesRepository } from "../db/autognosticSourcesRepository";
 import { AutognosticVersionsRepository } from "../db/autognosticVersionsRepository";
+import { describeSourceHealth, formatSourceHealth } from "../orchestrator/sourceHealth";
 import { safeSerialize } from "../utils/safeSerialize";
 
 export const ListSourcesAction: Action = {
@@ -30,14 +31,19 @@ export const ListSourcesAction: Action = {
     _options: HandlerOptions | undefined,
     callback: HandlerCallback | undefined
   ): Promise<ActionResult> {
+    const args = (_message.content as Record<string, unknown>) || {};
     const sourcesRepo = new AutognosticSourcesRepository(runtime);
     const versionsRepo = new AutognosticVersionsRepository(runtime);
 
-    const sources = await sourcesRepo.listEnabled();
+    // Sources the health check switched off are always listed; they need attention
+    const sources = args.includeDisabled
+      ? await sourcesRepo.listAll()
+      : [...(await sourcesRepo.listEnabled()), ...(await sourcesRepo.listAutoDisabled())];
 
     const sourceDetails = await Promise.all(
       sources.map(async (src) => {
         const latestVersion = await versionsRepo.getLatestActive(src.id);
+        const health = describeSourceHealth(src);
         return {
           id: src.id,
           url: src.sourceUrl,
@@ -45,6 +51,12 @@ export const ListSourcesAction: Action = {
           enabled: src.enabled,
           lastVersion: latestVersion?.versionId?.slice(0, 12),
           lastUpdated: latestVersion?.activatedAt?.toISOString(),
+          pinnedVersion: src.pinnedVersionId?.slice(0, 12),
+          health: {
+            ...health,
+            lastError: src.lastError,
+            summary: formatSourceHealth(health),
+          },
         };
       })
     );
@@ -62,7 +74,11 @@ export const ListSourcesAction: Action = {
     }
 
     const lines = sourceDetails.map(
-      (s) => `- ${s.id}: ${s.url} (last: ${s.lastUpdated || "never"})`
+      (s) =>
+        `- ${s.id}: ${s.url} (last: ${s.lastUpdated || "never"}` +
+        `${s.pinnedVersion ? `, pinned @ ${s.pinnedVersion}` : ""}` +
+        `${!s.enabled && s.health.state !== "disabled" ? ", disabled" : ""})` +
+        `${s.health.summary ? `\n  ⚠ ${s.health.summary}` : ""}`
     );
 
     const text = `Mirrored sources (${sourceDetails.length}):\n${lines.join("\n")}`;
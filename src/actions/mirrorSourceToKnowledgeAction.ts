@@ -1,13 +1,30 @@
 import type { Action, ActionResult, IAgentRuntime, Memory, State, HandlerCallback, HandlerOptions, Content } from "@elizaos/core";
-import { ReconciliationService } from "../orchestrator/ReconciliationService";
 import { previewSourceFiles } from "../orchestrator/previewSource";
 import { createDiscoveryForRawUrl } from "../publicspace/discoveryFactory";
 import { AutognosticSettingsRepository } from "../db/autognosticSettingsRepository";
 import { DEFAULT_SIZE_POLICY } from "../config/SizePolicy";
 import type { SourceConfig } from "../orchestrator/SourceConfig";
+import { describeProgress, getJobQueueService } from "../services/JobQueueService";
 import { requireValidToken, AutognosticAuthError } from "../auth/validateToken";
 import { safeSerialize } from "../utils/safeSerialize";
 
+/**
+ * Discovery options travel on the source URL's query string so they persist
+ * with the source and apply to every later sync.
+ */
+export function withSourceOptions(
+  sourceUrl: string,
+  opts: { include?: string; exclude?: string; includeOptional?: boolean; crawl?: boolean }
+): string {
+  if (!opts.include && !opts.exclude && !opts.includeOptional && !opts.crawl) return sourceUrl;
+  const u = new URL(sourceUrl);
+  if (opts.include) u.searchParams.set("include", opts.include);
+  if (opts.exclude) u.searchParams.set("exclude", opts.exclude);
+  if (opts.includeOptional) u.searchParams.set("optional", "true");
+  if (opts.crawl) u.searchParams.set("crawl", "true");
+  return u.toString();
+}
+
 export const MirrorSourceToKnowledgeAction: Action = {
   name: "MIRROR_SOURCE_TO_KNOWLEDGE",
   description:
@@ -26,6 +43,23 @@ export const MirrorSourceToKnowledgeAction: Action = {
         type: "boolean",
         description: "Confirm ingestion of source exceeding auto-ingest threshold.",
       },
+      include: {
+        type: "string",
+        description: "GitHub sources only: comma-separated globs of files to mirror, e.g. docs/**/*.md",
+      },
+      exclude: {
+        type: "string",
+        description: "GitHub sources only: comma-separated globs of files to skip.",
+      },
+      includeOptional: {
+        type: "boolean",
+        description: "llms.txt sources only: also mirror links in the \"Optional\" section.",
+      },
+      crawl: {
+        type: "boolean",
+        description:
+          "Follow links from sourceUrl instead of using llms.txt or a sitemap. Site roots fall back to crawling automatically when neither exists.",
+      },
     },
     required: ["sourceUrl", "authToken"],
   },
@@ -63,7 +97,12 @@ export const MirrorSourceToKnowledgeAction: Action = {
     }
 
     const sourceId = (args.sourceId as string) || `source-${Date.now()}`;
-    const sourceUrl = args.sourceUrl as string;
+    const sourceUrl = withSourceOptions(args.sourceUrl as string, {
+      include: args.include as string | undefined,
+      exclude: args.exclude as string | undefined,
+      includeOptional: args.includeOptional === true,
+      crawl: args.crawl === true,
+    });
     const skipPreview = args.skipPreview === true;
     const confirmLargeIngest = args.confirmLargeIngest === true;
 
@@ -133,15 +172,50 @@ export const MirrorSourceToKnowledgeAction: Action = {
       };
     }
 
-    // Proceed with reconciliation
-    const reconciler = new ReconciliationService(runtime);
+    // Proceed with reconciliation, as a job that resumes if the process dies part-way
     const src: SourceConfig = { id: sourceId, sourceUrl, enabled: true };
 
-    await reconciler.verifyAndReconcileOne(src);
+    const result = await getJobQueueService(runtime).submit("mirror", src, {
+      ignoreCooldown: true,
+      onProgress: async (progress) => {
+        if (callback) {
+          await callback({
+            text: `Mirroring ${sourceId}: ${describeProgress(progress)} (job ${progress.jobId}).`,
+            action: "MIRROR_SOURCE_TO_KNOWLEDGE",
+          });
+        }
+      },
+    });
+
+    if (result.status === "cancelled") {
+      const text = `Mirror of ${sourceId} was cancelled; nothing from this run was added to Knowledge.`;
+      if (callback) await callback({ text, action: "MIRROR_SOURCE_TO_KNOWLEDGE" });
+      return {
+        success: false,
+        text,
+        data: safeSerialize({ sourceId, sourceUrl, status: result.status, error: "mirror_cancelled" }),
+      };
+    }
+
+    if (result.status === "failed" || result.status === "timed_out") {
+      const text =
+        result.status === "timed_out"
+          ? `Mirror of ${sourceId} timed out (${result.error ?? "no result"}); the next sync will pick it up.`
+          : `Mirror of ${sourceId} failed: ${result.error ?? "unknown error"}.`;
+      if (callback) await callback({ text, action: "MIRROR_SOURCE_TO_KNOWLEDGE" });
+      return {
+        success: false,
+        text,
+        data: safeSerialize({ sourceId, sourceUrl, status: result.status, error: result.error ?? result.status }),
+      };
+    }
 
     const text =
-      `Mirrored source ${sourceId} from ${sourceUrl} into Knowledge. ` +
-      `Total: ${totalMB} MB (${preview.files.length} files).`;
+      result.status === "skipped_in_progress"
+        ? `Source ${sourceId} is already being mirrored from ${sourceUrl}; it will be in Knowledge once that run finishes. ` +
+          `Total: ${totalMB} MB (${preview.files.length} files).`
+        : `Mirrored source ${sourceId} from ${sourceUrl} into Knowledge. ` +
+          `Total: ${totalMB} MB (${preview.files.length} files).`;
     if (callback) await callback({ text, action: "MIRROR_SOURCE_TO_KNOWLEDGE" });
     return {
       success: true,
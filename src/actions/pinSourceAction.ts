@@ -0,0 +1,139 @@
+import type { Action, ActionResult, IAgentRuntime, Memory, State, HandlerCallback, HandlerOptions, Content } from "@elizaos/core";
+import { requireValidToken, AutognosticAuthError } from "../auth/validateToken";
+import { AutognosticSourcesRepository } from "../db/autognosticSourcesRepository";
+import { AutognosticVersionsRepository } from "../db/autognosticVersionsRepository";
+import { safeSerialize } from "../utils/safeSerialize";
+
+export const PinSourceAction: Action = {
+  name: "PIN_KNOWLEDGE_SOURCE",
+  description:
+    "Pin a knowledge source to its current version, or unpin it. A pinned source keeps being checked " +
+    "on schedule and records upstream changes, but they are not applied until it is unpinned. " +
+    "To pin an older version, roll back to it instead. Requires auth token.",
+  similes: [
+    "PIN_SOURCE",
+    "UNPIN_SOURCE",
+    "FREEZE_SOURCE",
+    "LOCK_SOURCE_VERSION",
+  ],
+  parameters: {
+    type: "object",
+    properties: {
+      sourceId: {
+        type: "string",
+        description: "ID of the source to pin or unpin",
+      },
+      pinned: {
+        type: "boolean",
+        description: "true to pin (default), false to unpin",
+      },
+      versionId: {
+        type: "string",
+        description: "Optional: version expected to be active (id or prefix); pinning fails if it is not",
+      },
+      authToken: {
+        type: "string",
+        description: "Autognostic auth token for write permissions",
+      },
+    },
+    required: ["sourceId", "authToken"],
+  },
+
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = ((message.content as Content)?.text || "").toLowerCase();
+    return /\b(un)?pin\b.*\b(source|version|knowledge)\b|\b(freeze|lock)\b.*\bsource\b/i.test(text);
+  },
+
+  async handler(
+    runtime: IAgentRuntime,
+    _message: Memory,
+    _state: State | undefined,
+    _options: HandlerOptions | undefined,
+    callback: HandlerCallback | undefined
+  ): Promise<ActionResult> {
+    const args = (_message.content as Record<string, unknown>) || {};
+
+    try {
+      requireValidToken(runtime, args.authToken as string | undefined);
+    } catch (err) {
+      if (err instanceof AutognosticAuthError) {
+        const text = err.message;
+        if (callback) {
+          await callback({ text, action: "PIN_KNOWLEDGE_SOURCE" });
+        }
+        return { success: false, text, data: safeSerialize({ error: "auth_failed" }) };
+      }
+      throw err;
+    }
+
+    const sourceId = args.sourceId as string | undefined;
+    if (!sourceId) {
+      const text = "sourceId is required.";
+      if (callback) {
+        await callback({ text, action: "PIN_KNOWLEDGE_SOURCE" });
+      }
+      return { success: false, text, data: safeSerialize({ error: "missing_source_id" }) };
+    }
+
+    const sourcesRepo = new AutognosticSourcesRepository(runtime);
+    const source = await sourcesRepo.getById(sourceId);
+    if (!source) {
+      const text = `Source ${sourceId} not found.`;
+      if (callback) {
+        await callback({ text, action: "PIN_KNOWLEDGE_SOURCE" });
+      }
+      return { success: false, text, data: safeSerialize({ error: "source_not_found" }) };
+    }
+
+    if (args.pinned === false) {
+      await sourcesRepo.setPin(sourceId, null);
+      const text = source.pinnedVersionId
+        ? `Unpinned ${sourceId}; the next sync will apply upstream changes.`
+        : `Source ${sourceId} was not pinned.`;
+      if (callback) {
+        await callback({ text, action: "PIN_KNOWLEDGE_SOURCE" });
+      }
+      return {
+        success: true,
+        text,
+        data: safeSerialize({ sourceId, pinned: false, previousPin: source.pinnedVersionId }),
+      };
+    }
+
+    const versionsRepo = new AutognosticVersionsRepository(runtime);
+    const active = await versionsRepo.getLatestActive(sourceId);
+    if (!active) {
+      const text = `Source ${sourceId} has no active version to pin yet.`;
+      if (callback) {
+        await callback({ text, action: "PIN_KNOWLEDGE_SOURCE" });
+      }
+      return { success: false, text, data: safeSerialize({ error: "no_active_version" }) };
+    }
+
+    const requested = typeof args.versionId === "string" ? args.versionId.trim() : "";
+    if (requested && !active.versionId.startsWith(requested)) {
+      const text =
+        `Version ${requested} is not the active version of ${sourceId} ` +
+        `(${active.versionId.slice(0, 12)} is). Roll back to it to pin an older version.`;
+      if (callback) {
+        await callback({ text, action: "PIN_KNOWLEDGE_SOURCE" });
+      }
+      return {
+        success: false,
+        text,
+        data: safeSerialize({ error: "not_active_version", activeVersionId: active.versionId }),
+      };
+    }
+
+    await sourcesRepo.setPin(sourceId, active.versionId);
+    const text = `Pinned ${sourceId} to version ${active.versionId.slice(0, 12)}. Upstream changes will be recorded but not applied.`;
+    if (callback) {
+      await callback({ text, action: "PIN_KNOWLEDGE_SOURCE" });
+    }
+    return {
+      success: true,
+      text,
+      data: safeSerialize({ sourceId, pinned: true, versionId: active.versionId }),
+    };
+  },
+};
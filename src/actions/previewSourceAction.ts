@@ -0,0 +1,184 @@
+import type { Action, ActionResult, IAgentRuntime, Memory, State, HandlerCallback, HandlerOptions, Content } from "@elizaos/core";
+import { AutognosticSourcesRepository } from "../db/autognosticSourcesRepository";
+import { AutognosticVersionsRepository } from "../db/autognosticVersionsRepository";
+import { AutognosticSettingsRepository } from "../db/autognosticSettingsRepository";
+import { DEFAULT_SIZE_POLICY } from "../config/SizePolicy";
+import { createDiscoveryForRawUrl } from "../publicspace/discoveryFactory";
+import { previewSourceFiles, type SourcePreview } from "../orchestrator/previewSource";
+import { summarizePreview, type PreviewSummary } from "../orchestrator/previewSummary";
+import { withSourceOptions } from "./mirrorSourceToKnowledgeAction";
+import { safeSerialize } from "../utils/safeSerialize";
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(2)} MB`
+    : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+function formatSummary(
+  summary: PreviewSummary,
+  ctx: { sourceUrl: string; activeVersionId: string | null; pinnedVersionId: string | null }
+): string {
+  const lines = [
+    `Preview of ${summary.sourceId} (${ctx.sourceUrl}): ${summary.fileCount} files, ` +
+      `${formatBytes(summary.totalBytes)}, about ${summary.estimatedChunks} knowledge chunks.`,
+  ];
+  if (summary.unknownSizeFiles) {
+    lines.push(`${summary.unknownSizeFiles} file(s) did not report a size and are not counted in the totals.`);
+  }
+
+  const c = summary.changes;
+  lines.push(
+    c.comparedWith
+      ? `Compared with active version ${c.comparedWith.slice(0, 12)}: ${c.added} new, ${c.changed} changed, ` +
+          `${c.unchanged} unchanged, ${c.removed} removed.`
+      : ctx.activeVersionId
+        ? `Active version ${ctx.activeVersionId.slice(0, 12)} has no recorded file list; every file would be ingested again.`
+        : `Nothing mirrored yet; all ${c.added} files are new.`
+  );
+  if (ctx.pinnedVersionId) {
+    lines.push(
+      `The source is pinned to ${ctx.pinnedVersionId.slice(0, 12)}; syncs won't apply these changes until it is unpinned.`
+    );
+  }
+
+  if (summary.largestFiles.length) {
+    lines.push("", "Largest files:");
+    for (const f of summary.largestFiles) lines.push(`- ${f.path}: ${formatBytes(f.estBytes)}`);
+  }
+  if (summary.contentTypes.length) {
+    lines.push("", `Content types: ${summary.contentTypes.map((t) => `${t.contentType} ${t.count}`).join(", ")}`);
+  }
+
+  const p = summary.sizePolicy;
+  const auto = formatBytes(p.autoIngestBelowBytes);
+  const hard = formatBytes(p.maxBytesHardLimit);
+  lines.push(
+    "",
+    p.verdict === "exceeds_hard_limit"
+      ? `Size policy: over the hard limit (${hard}); a mirror would be refused.`
+      : p.verdict === "needs_confirmation"
+        ? `Size policy: ${p.previewAlways ? "previews are always required" : `over the auto-ingest limit (${auto})`}; ` +
+          `a first mirror needs confirmLargeIngest.`
+        : `Size policy: under the auto-ingest limit (${auto}); a mirror would ingest it straight away.`
+  );
+  return lines.join("\n");
+}
+
+export const PreviewSourceAction: Action = {
+  name: "PREVIEW_SOURCE",
+  description:
+    "Dry run of a mirror: discover and probe a source's files without ingesting anything, and report file count, " +
+    "total and largest files, content types, new/changed/unchanged files against the active version, estimated " +
+    "chunks, and which size-policy limit applies. No auth required (read-only).",
+  similes: ["DRY_RUN_MIRROR", "PREVIEW_MIRROR", "WHAT_WOULD_MIRROR", "SOURCE_PREVIEW"],
+  parameters: {
+    type: "object",
+    properties: {
+      sourceId: {
+        type: "string",
+        description: "ID of an existing source, or the ID a new source would get",
+      },
+      sourceUrl: {
+        type: "string",
+        description: "Root URL to preview; defaults to the existing source's URL",
+      },
+      include: {
+        type: "string",
+        description: "GitHub sources only: comma-separated globs of files to mirror",
+      },
+      exclude: {
+        type: "string",
+        description: "GitHub sources only: comma-separated globs of files to skip",
+      },
+      includeOptional: {
+        type: "boolean",
+        description: "llms.txt sources only: include links in the \"Optional\" section",
+      },
+      crawl: {
+        type: "boolean",
+        description: "Follow links from sourceUrl instead of using llms.txt or a sitemap",
+      },
+    },
+    required: [],
+  },
+
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = ((message.content as Content)?.text || "").toLowerCase();
+    return /\b(preview|dry[\s-]?run)\b/i.test(text) || /\bwhat\s+would\b.*\bmirror/i.test(text);
+  },
+
+  async handler(
+    runtime: IAgentRuntime,
+    _message: Memory,
+    _state: State | undefined,
+    _options: HandlerOptions | undefined,
+    callback: HandlerCallback | undefined
+  ): Promise<ActionResult> {
+    const args = (_message.content as Record<string, unknown>) || {};
+    const sourcesRepo = new AutognosticSourcesRepository(runtime);
+
+    let sourceId = typeof args.sourceId === "string" ? args.sourceId.trim() : "";
+    const rawUrl = typeof args.sourceUrl === "string" ? args.sourceUrl.trim() : "";
+    let existing = sourceId ? await sourcesRepo.getById(sourceId) : null;
+    const sourceUrl = rawUrl
+      ? withSourceOptions(rawUrl, {
+          include: args.include as string | undefined,
+          exclude: args.exclude as string | undefined,
+          includeOptional: args.includeOptional === true,
+          crawl: args.crawl === true,
+        })
+      : existing?.sourceUrl ?? "";
+
+    if (!sourceUrl) {
+      const text = sourceId ? `Source ${sourceId} not found.` : "Give a sourceUrl or sourceId to preview.";
+      if (callback) {
+        await callback({ text, action: "PREVIEW_SOURCE" });
+      }
+      return {
+        success: false,
+        text,
+        data: safeSerialize({ error: sourceId ? "source_not_found" : "missing_source" }),
+      };
+    }
+
+    // A URL already mirrored is compared with that source's active version
+    if (!sourceId) {
+      existing = (await sourcesRepo.listAll()).find((s) => s.sourceUrl === sourceUrl) ?? null;
+      sourceId = existing?.id ?? "preview";
+    }
+
+    try {
+      const active = existing ? await new AutognosticVersionsRepository(runtime).getLatestActive(existing.id) : null;
+      const activePreview = (active?.previewJson as SourcePreview | null) ?? null;
+
+      const { discovery } = createDiscoveryForRawUrl(runtime, sourceUrl);
+      // Probing against the active preview lets unchanged files answer 304
+      const preview = await previewSourceFiles(runtime, sourceId, discovery, activePreview);
+      const policy =
+        (await new AutognosticSettingsRepository(runtime).getPolicy(runtime.agentId)) ?? DEFAULT_SIZE_POLICY;
+
+      const summary = summarizePreview(
+        preview,
+        active && activePreview ? { versionId: active.versionId, preview: activePreview } : null,
+        policy
+      );
+      const text = formatSummary(summary, {
+        sourceUrl,
+        activeVersionId: active?.versionId ?? null,
+        pinnedVersionId: existing?.pinnedVersionId ?? null,
+      });
+      if (callback) {
+        await callback({ text, action: "PREVIEW_SOURCE" });
+      }
+      return { success: true, text, data: safeSerialize({ sourceUrl, ...summary }) };
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      const text = `Failed to preview ${sourceUrl}: ${errMsg}`;
+      if (callback) {
+        await callback({ text, action: "PREVIEW_SOURCE" });
+      }
+      return { success: false, text, data: safeSerialize({ error: "preview_failed", details: errMsg }) };
+    }
+  },
+};
@@ -1,10 +1,10 @@
 import type { Action, ActionResult, IAgentRuntime, Memory, State, HandlerCallback, HandlerOptions, Content } from "@elizaos/core";
 import { requireValidToken, AutognosticAuthError } from "../auth/validateToken";
 import { AutognosticSourcesRepository } from "../db/autognosticSourcesRepository";
-import { ReconciliationService } from "../orchestrator/ReconciliationService";
 import type { SourceConfig } from "../orchestrator/SourceConfig";
 import { safeSerialize } from "../utils/safeSerialize";
 import { getFetchCache } from "../services/FetchCache";
+import { describeProgress, getJobQueueService } from "../services/JobQueueService";
 
 export const RefreshSourceAction: Action = {
   name: "REFRESH_KNOWLEDGE_SOURCE",
@@ -80,14 +80,48 @@ export const RefreshSourceAction: Action = {
     }
 
     try {
-      const reconciler = new ReconciliationService(runtime);
       const sourceConfig: SourceConfig = {
         id: source.id,
         sourceUrl: source.sourceUrl,
         enabled: source.enabled,
       };
 
-      const result = await reconciler.verifyAndReconcileOne(sourceConfig);
+      // An explicit refresh skips the cooldown but still waits its turn behind a running reconcile
+      const result = await getJobQueueService(runtime).submit("refresh", sourceConfig, {
+        ignoreCooldown: true,
+        onProgress: async (progress) => {
+          if (callback) {
+            await callback({
+              text: `Refreshing ${sourceId}: ${describeProgress(progress)} (job ${progress.jobId}).`,
+              action: "REFRESH_KNOWLEDGE_SOURCE",
+            });
+          }
+        },
+      });
+
+      if (result.status === "cancelled") {
+        const text = `Refresh of ${sourceId} was cancelled; it stays on its previous version.`;
+        if (callback) {
+          await callback({ text, action: "REFRESH_KNOWLEDGE_SOURCE" });
+        }
+        return {
+          success: false,
+          text,
+          data: safeSerialize({ sourceId, status: result.status, error: "refresh_cancelled" }),
+        };
+      }
+
+      if (result.status === "skipped_in_progress") {
+        const text = `Source ${sourceId} is already being refreshed; try again once that run finishes.`;
+        if (callback) {
+          await callback({ text, action: "REFRESH_KNOWLEDGE_SOURCE" });
+        }
+        return {
+          success: false,
+          text,
+          data: safeSerialize({ sourceId, status: result.status, error: "refresh_in_progress" }),
+        };
+      }
 
       // Update sync timestamps
       const now = new Date();
@@ -96,9 +130,14 @@ export const RefreshSourceAction: Action = {
       // Invalidate cache for this source URL so next fetch gets fresh content
       getFetchCache().invalidate(source.sourceUrl);
 
+      const pinNote =
+        result.status === "pinned"
+          ? ` Pinned to version ${result.versionId?.slice(0, 12)}; upstream has moved to ` +
+            `${result.upstreamVersionId?.slice(0, 12)}. Unpin the source to apply it.`
+          : "";
       const text =
         `Refreshed source ${sourceId}: ${result.status}. ` +
-        `${result.fileCount ?? 0} files, ${((result.totalBytes ?? 0) / 1024 / 1024).toFixed(2)} MB.`;
+        `${result.fileCount ?? 0} files, ${((result.totalBytes ?? 0) / 1024 / 1024).toFixed(2)} MB.${pinNote}`;
       if (callback) {
         await callback({ text, action: "REFRESH_KNOWLEDGE_SOURCE" });
       }
@@ -109,6 +148,7 @@ export const RefreshSourceAction: Action = {
           sourceId,
           status: result.status,
           versionId: result.versionId,
+          upstreamVersionId: result.upstreamVersionId,
           totalBytes: result.totalBytes,
           fileCount: result.fileCount,
           error: result.error,
@@ -3,6 +3,7 @@ import { requireValidToken, AutognosticAuthError } from "../auth/validateToken";
 import { removeDocumentByUrl } from "../integration/removeFromKnowledge";
 import { safeSerialize } from "../utils/safeSerialize";
 import { getFetchCache } from "../services/FetchCache";
+import { resolveDocument, formatDocumentChoices } from "../integration/resolveDocument";
 
 export const RemoveDocumentAction: Action = {
   name: "REMOVE_KNOWLEDGE_DOCUMENT",
@@ -47,12 +48,13 @@ export const RemoveDocumentAction: Action = {
     type: "object",
     properties: {
       url: { type: "string", description: "URL of the document to remove" },
+      document: { type: "string", description: "Title, author, alias, DOI or filename of the document, when no URL is given" },
       authToken: {
         type: "string",
         description: "Autognostic auth token for write permissions",
       },
     },
-    required: ["url", "authToken"],
+    required: ["authToken"],
   },
 
   validate: async (_runtime: IAgentRuntime, message: Memory) => {
@@ -82,14 +84,30 @@ export const RemoveDocumentAction: Action = {
       throw err;
     }
 
-    const url = args.url as string;
-    if (!url) {
-      const text = "URL is required to identify the document to remove.";
+    const resolution = await resolveDocument(runtime, (_message.content as Content)?.text || "", {
+      url: args.url as string | undefined,
+      reference: args.document as string | undefined,
+    });
+    if (resolution.status === "ambiguous") {
+      // Never guess which document to delete
+      const text = formatDocumentChoices(resolution.candidates);
+      if (callback) {
+        await callback({ text, action: "REMOVE_KNOWLEDGE_DOCUMENT" });
+      }
+      return {
+        success: false,
+        text,
+        data: safeSerialize({ error: "ambiguous_document", candidates: resolution.candidates }),
+      };
+    }
+    if (resolution.status === "none") {
+      const text = "Which document should I remove? Give me its URL, title or alias.";
       if (callback) {
         await callback({ text, action: "REMOVE_KNOWLEDGE_DOCUMENT" });
       }
       return { success: false, text, data: safeSerialize({ error: "missing_url" }) };
     }
+    const url = resolution.url;
 
     const result = await removeDocumentByUrl(runtime, url);
 
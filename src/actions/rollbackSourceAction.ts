@@ -0,0 +1,149 @@
+import type { Action, ActionResult, IAgentRuntime, Memory, State, HandlerCallback, HandlerOptions, Content } from "@elizaos/core";
+import { requireValidToken, AutognosticAuthError } from "../auth/validateToken";
+import { AutognosticSourcesRepository } from "../db/autognosticSourcesRepository";
+import { AutognosticVersionsRepository } from "../db/autognosticVersionsRepository";
+import { ReconciliationService } from "../orchestrator/ReconciliationService";
+import { safeSerialize } from "../utils/safeSerialize";
+
+export const RollbackSourceAction: Action = {
+  name: "ROLLBACK_KNOWLEDGE_SOURCE",
+  description:
+    "Roll a knowledge source back to an earlier, still-retained version: its stored documents are " +
+    "re-added to knowledge and replace the current version's. The source is pinned to that version " +
+    "by default so the next scheduled sync does not undo the rollback. Requires auth token.",
+  similes: [
+    "ROLLBACK_SOURCE",
+    "REVERT_SOURCE",
+    "RESTORE_SOURCE_VERSION",
+    "ROLL_BACK",
+  ],
+  parameters: {
+    type: "object",
+    properties: {
+      sourceId: {
+        type: "string",
+        description: "ID of the source to roll back",
+      },
+      versionId: {
+        type: "string",
+        description: "Version to restore: its id or an unambiguous prefix (see LIST_SOURCE_VERSIONS)",
+      },
+      pin: {
+        type: "boolean",
+        description: "Keep the source on this version through later syncs (default true)",
+      },
+      authToken: {
+        type: "string",
+        description: "Autognostic auth token for write permissions",
+      },
+    },
+    required: ["sourceId", "versionId", "authToken"],
+  },
+
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = ((message.content as Content)?.text || "").toLowerCase();
+    return /\b(roll\s*back|revert|restore)\b.*\b(source|version|knowledge)\b/i.test(text);
+  },
+
+  async handler(
+    runtime: IAgentRuntime,
+    _message: Memory,
+    _state: State | undefined,
+    _options: HandlerOptions | undefined,
+    callback: HandlerCallback | undefined
+  ): Promise<ActionResult> {
+    const args = (_message.content as Record<string, unknown>) || {};
+
+    try {
+      requireValidToken(runtime, args.authToken as string | undefined);
+    } catch (err) {
+      if (err instanceof AutognosticAuthError) {
+        const text = err.message;
+        if (callback) {
+          await callback({ text, action: "ROLLBACK_KNOWLEDGE_SOURCE" });
+        }
+        return { success: false, text, data: safeSerialize({ error: "auth_failed" }) };
+      }
+      throw err;
+    }
+
+    const sourceId = args.sourceId as string | undefined;
+    const versionSpec = typeof args.versionId === "string" ? args.versionId.trim() : "";
+    if (!sourceId || !versionSpec) {
+      const text = "sourceId and versionId are required.";
+      if (callback) {
+        await callback({ text, action: "ROLLBACK_KNOWLEDGE_SOURCE" });
+      }
+      return { success: false, text, data: safeSerialize({ error: "missing_params" }) };
+    }
+
+    const source = await new AutognosticSourcesRepository(runtime).getById(sourceId);
+    if (!source) {
+      const text = `Source ${sourceId} not found.`;
+      if (callback) {
+        await callback({ text, action: "ROLLBACK_KNOWLEDGE_SOURCE" });
+      }
+      return { success: false, text, data: safeSerialize({ error: "source_not_found" }) };
+    }
+
+    const matches = await new AutognosticVersionsRepository(runtime).findByPrefix(sourceId, versionSpec);
+    if (matches.length !== 1) {
+      const text = matches.length
+        ? `"${versionSpec}" matches ${matches.length} versions of ${sourceId}: ` +
+          `${matches.map((v) => v.versionId.slice(0, 12)).join(", ")}. Give more of the id.`
+        : `No version of ${sourceId} matches "${versionSpec}".`;
+      if (callback) {
+        await callback({ text, action: "ROLLBACK_KNOWLEDGE_SOURCE" });
+      }
+      return {
+        success: false,
+        text,
+        data: safeSerialize({
+          error: matches.length ? "ambiguous_version" : "version_not_found",
+          candidates: matches.map((v) => v.versionId),
+        }),
+      };
+    }
+
+    const versionId = matches[0].versionId;
+    const result = await new ReconciliationService(runtime).rollbackToVersion(sourceId, versionId, {
+      pin: args.pin !== false,
+    });
+
+    const shortId = versionId.slice(0, 12);
+    const pinNote = result.pinned ? " The source is pinned to it; later syncs will not replace it." : "";
+    let text: string;
+    switch (result.status) {
+      case "rolled_back":
+        text =
+          `Rolled ${sourceId} back to version ${shortId}: ${result.restored} documents restored, ` +
+          `${result.reused} unchanged.${pinNote}`;
+        break;
+      case "already_active":
+        text = `Version ${shortId} is already the active version of ${sourceId}.${pinNote}`;
+        break;
+      case "skipped_in_progress":
+        text = `Source ${sourceId} is being refreshed right now; try the rollback again once that run finishes.`;
+        break;
+      case "not_retained":
+        text = `Cannot roll ${sourceId} back to ${shortId}: ${result.error}.`;
+        break;
+      default:
+        text = `Rollback of ${sourceId} to ${shortId} failed: ${result.error ?? "unknown error"}. The current version is still serving.`;
+    }
+
+    const success = result.status === "rolled_back" || result.status === "already_active";
+    if (callback) {
+      await callback({ text, action: "ROLLBACK_KNOWLEDGE_SOURCE" });
+    }
+    return {
+      success,
+      text,
+      data: safeSerialize({
+        ...result,
+        ...(success ? {} : { error: result.status === "failed" ? "rollback_failed" : result.status }),
+        details: result.error,
+      }),
+    };
+  },
+};
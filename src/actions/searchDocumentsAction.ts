@@ -0,0 +1,112 @@
+import type { Action, ActionResult, IAgentRuntime, Memory, State, HandlerCallback, HandlerOptions, Content } from "@elizaos/core";
+import { searchDocuments, type DocumentSearchResult } from "../integration/searchDocuments";
+import { SEARCH_DEFAULTS } from "../config/constants";
+import { safeSerialize } from "../utils/safeSerialize";
+
+const DOCS = String.raw`(?:documents?|docs?|sources?|pages?|files?|knowledge(?:\s+base)?)`;
+
+/** The search query in a natural-language request, or null if there isn't one */
+export function extractSearchQuery(text: string): string | null {
+  const patterns = [
+    new RegExp(String.raw`\b(?:which|what)\s+(?:of\s+(?:my|the|our)\s+)?${DOCS}\s+(?:mentions?|discuss(?:es)?|talks?\s+about|covers?|refers?\s+to|says?\s+anything\s+about|contains?|includes?)\s+(.+)`, "i"),
+    new RegExp(String.raw`\bsearch\s+(?:(?:in|through|across)\s+)?(?:(?:all\s+)?(?:of\s+)?(?:my|the|our|all)\s+)?${DOCS}\s+(?:for|about)\s+(.+)`, "i"),
+    new RegExp(String.raw`\bfind\s+(?:all\s+)?(?:the\s+)?${DOCS}\s+(?:about|on|mentioning|that\s+mention|discussing|that\s+discuss|covering)\s+(.+)`, "i"),
+    new RegExp(String.raw`\b(?:is|are)\s+(.+?)\s+(?:mentioned|discussed|covered)\s+(?:in|anywhere\s+in)\s+(?:any\s+of\s+)?(?:my|the|our)\s+${DOCS}`, "i"),
+  ];
+  for (const p of patterns) {
+    const m = text.match(p);
+    if (m) {
+      const query = m[1].trim().replace(/[?.!]+$/, "").replace(/^["'“]|["'”]$/g, "").trim();
+      if (query) return query;
+    }
+  }
+  return null;
+}
+
+function formatResult(result: DocumentSearchResult): string {
+  if (result.hits.length === 0) return `No stored documents match "${result.query}".`;
+  const lines = [
+    `Found ${result.hits.length} document${result.hits.length === 1 ? "" : "s"} matching "${result.query}":`,
+  ];
+  result.hits.forEach((hit, i) => {
+    lines.push("", `${i + 1}. ${hit.title ? `${hit.title} — ` : ""}${hit.url} (source ${hit.sourceId})`);
+    for (const s of hit.snippets) lines.push(`   Line ${s.lineNumber}: "${s.sentence}"`);
+  });
+  return lines.join("\n");
+}
+
+export const SearchDocumentsAction: Action = {
+  name: "SEARCH_DOCUMENTS",
+  description:
+    "Search across every stored document and rank the matches, quoting the matching sentences with line numbers. " +
+    "Use when the user asks which documents mention something without naming a URL. Supports quoted phrases, " +
+    "\"or\" and -excluded words. No auth required (read-only).",
+  similes: ["SEARCH_KNOWLEDGE", "FIND_DOCUMENTS", "WHICH_DOCUMENTS_MENTION", "FULL_TEXT_SEARCH"],
+  parameters: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Words or quoted phrases to search for",
+      },
+      sourceId: {
+        type: "string",
+        description: "Only search documents from this source",
+      },
+      limit: {
+        type: "number",
+        description: `Maximum documents to return (default ${SEARCH_DEFAULTS.MAX_RESULTS}, max ${SEARCH_DEFAULTS.MAX_RESULTS_LIMIT})`,
+      },
+    },
+    required: [],
+  },
+
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = (message.content as Content)?.text || "";
+    return extractSearchQuery(text) !== null;
+  },
+
+  async handler(
+    runtime: IAgentRuntime,
+    _message: Memory,
+    _state: State | undefined,
+    _options: HandlerOptions | undefined,
+    callback: HandlerCallback | undefined
+  ): Promise<ActionResult> {
+    const args = (_message.content as Record<string, unknown>) || {};
+    const query =
+      (typeof args.query === "string" && args.query.trim()) ||
+      extractSearchQuery(((_message.content as Content)?.text || "")) ||
+      "";
+
+    if (!query) {
+      const text = "What should I search the stored documents for?";
+      if (callback) {
+        await callback({ text, action: "SEARCH_DOCUMENTS" });
+      }
+      return { success: false, text, data: safeSerialize({ error: "missing_query" }) };
+    }
+
+    const rawLimit = Number(args.limit);
+    const limit = Number.isFinite(rawLimit) && rawLimit > 0
+      ? Math.min(Math.floor(rawLimit), SEARCH_DEFAULTS.MAX_RESULTS_LIMIT)
+      : SEARCH_DEFAULTS.MAX_RESULTS;
+    const sourceId = typeof args.sourceId === "string" && args.sourceId.trim() ? args.sourceId.trim() : undefined;
+
+    try {
+      const result = await searchDocuments(runtime, query, { limit, sourceId });
+      const text = formatResult(result);
+      if (callback) {
+        await callback({ text, action: "SEARCH_DOCUMENTS" });
+      }
+      return { success: true, text, data: safeSerialize(result) };
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      const text = `Search failed: ${errMsg}`;
+      if (callback) {
+        await callback({ text, action: "SEARCH_DOCUMENTS" });
+      }
+      return { success: false, text, data: safeSerialize({ error: "search_failed", details: errMsg }) };
+    }
+  },
+};
@@ -15,6 +15,7 @@ export const SetAutognosticRefreshPolicyAction: Action = {
       reconcileCooldownMinutes: { type: "number", description: "Cooldown between reconciles (minutes)." },
       maxConcurrentReconciles: { type: "number", description: "Max concurrent reconciles." },
       startupTimeoutSeconds: { type: "number", description: "Startup reconcile timeout (seconds)." },
+      versionRetentionDays: { type: "number", description: "How long to keep archived document versions (days; 0 keeps none)." },
       authToken: { type: "string", description: "Autognostic auth token for write permissions." },
     },
     required: ["authToken"],
@@ -62,11 +63,16 @@ export const SetAutognosticRefreshPolicyAction: Action = {
       (args.startupTimeoutSeconds as number | undefined) ??
       (current.startupReconcileTimeoutMs ?? 0) / 1000;
 
+    const versionRetentionDays =
+      (args.versionRetentionDays as number | undefined) ??
+      (current.versionRetentionMs ?? DEFAULT_REFRESH_POLICY.versionRetentionMs) / 86_400_000;
+
     const newPolicy = {
       previewCacheTtlMs: previewCacheTtlMinutes * 60 * 1000,
       reconcileCooldownMs: reconcileCooldownMinutes * 60 * 1000,
       maxConcurrentReconciles,
       startupReconcileTimeoutMs: startupTimeoutSeconds * 1000,
+      versionRetentionMs: versionRetentionDays * 86_400_000,
     };
 
     await repo.upsertPolicy(runtime.agentId, newPolicy);
@@ -75,7 +81,8 @@ export const SetAutognosticRefreshPolicyAction: Action = {
       `Updated refresh policy: previewCacheTtlMinutes=${previewCacheTtlMinutes}, ` +
       `reconcileCooldownMinutes=${reconcileCooldownMinutes}, ` +
       `maxConcurrentReconciles=${maxConcurrentReconciles}, ` +
-      `startupTimeoutSeconds=${startupTimeoutSeconds}.`;
+      `startupTimeoutSeconds=${startupTimeoutSeconds}, ` +
+      `versionRetentionDays=${versionRetentionDays}.`;
     if (callback) await callback({ text, action: "SET_AUTOGNOSTIC_REFRESH_POLICY" });
     return {
       success: true,
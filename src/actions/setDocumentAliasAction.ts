@@ -0,0 +1,149 @@
+import type { Action, ActionResult, IAgentRuntime, Memory, State, HandlerCallback, HandlerOptions, Content } from "@elizaos/core";
+import { requireValidToken, AutognosticAuthError } from "../auth/validateToken";
+import { autognosticDocumentsRepository } from "../db/autognosticDocumentsRepository";
+import { AutognosticDocumentAliasesRepository } from "../db/autognosticDocumentAliasesRepository";
+import { resolveDocument, formatDocumentChoices } from "../integration/resolveDocument";
+import { rememberFocus } from "../integration/roomFocus";
+import { foldPhrase } from "../utils/foldText";
+import { safeSerialize } from "../utils/safeSerialize";
+
+/** Longest alias accepted, after folding */
+const MAX_ALIAS_CHARS = 80;
+
+function respond(
+  callback: HandlerCallback | undefined,
+  success: boolean,
+  text: string,
+  data: Record<string, unknown>
+): ActionResult {
+  if (callback) callback({ text, action: "SET_DOCUMENT_ALIAS" });
+  return { success, text, data: safeSerialize(data) };
+}
+
+/**
+ * The alias a message gives a document: a quoted name, else whatever
+ * follows "as" or "call it" at the end of the message.
+ */
+export function extractAlias(text: string): string | null {
+  const quoted = text.match(/["“]([^"”]{2,})["”]/);
+  if (quoted) return quoted[1].trim();
+  const named = text.match(/\b(?:as|call(?:ed)?\s+it|name(?:d)?\s+it)\s+(.+?)\s*[.!?]?$/i);
+  return named ? named[1].trim() : null;
+}
+
+export const SetDocumentAliasAction: Action = {
+  name: "SET_DOCUMENT_ALIAS",
+  description:
+    "Give a stored document an alias (e.g. 'the attention paper') so later requests can name it " +
+    "without a URL, or remove an alias. Requires auth token.",
+  similes: [
+    "ALIAS_DOCUMENT",
+    "NAME_DOCUMENT",
+    "NICKNAME_DOCUMENT",
+    "REMOVE_DOCUMENT_ALIAS",
+  ],
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: { text: 'Call https://arxiv.org/pdf/1706.03762 "the transformer paper"' },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: 'Saved the alias "the transformer paper" for https://arxiv.org/pdf/1706.03762.',
+          actions: ["SET_DOCUMENT_ALIAS"],
+        },
+      },
+    ],
+  ],
+
+  parameters: {
+    type: "object",
+    properties: {
+      alias: { type: "string", description: "The name to give the document" },
+      url: { type: "string", description: "URL of the document" },
+      document: { type: "string", description: "Title, author, DOI or filename of the document, when no URL is given" },
+      remove: { type: "boolean", description: "true to delete the alias instead of setting it" },
+      authToken: {
+        type: "string",
+        description: "Autognostic auth token for write permissions",
+      },
+    },
+    required: ["alias", "authToken"],
+  },
+
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = ((message.content as Content)?.text || "").toLowerCase();
+    return /\b(alias|nickname)\b|\b(?:call|name)\s+(?:it|this|that|https?:\/\/\S+)\b/i.test(text);
+  },
+
+  async handler(
+    runtime: IAgentRuntime,
+    _message: Memory,
+    _state: State | undefined,
+    _options: HandlerOptions | undefined,
+    callback: HandlerCallback | undefined
+  ): Promise<ActionResult> {
+    const args = (_message.content as Record<string, unknown>) || {};
+    const messageText = (_message.content as Content)?.text || "";
+
+    try {
+      requireValidToken(runtime, args.authToken as string | undefined);
+    } catch (err) {
+      if (err instanceof AutognosticAuthError) {
+        return respond(callback, false, err.message, { error: "auth_failed" });
+      }
+      throw err;
+    }
+
+    const given = (args.alias as string | undefined) ?? extractAlias(messageText);
+    const alias = given ? foldPhrase(given) : "";
+    if (!alias || alias.length > MAX_ALIAS_CHARS || /^https?\b/.test(alias)) {
+      return respond(callback, false,
+        `Give the alias as a short name in quotes (at most ${MAX_ALIAS_CHARS} characters), e.g. "the transformer paper".`,
+        { error: "invalid_alias" });
+    }
+
+    const aliasesRepo = new AutognosticDocumentAliasesRepository(runtime);
+    const existing = await aliasesRepo.get(alias);
+
+    const removing = args.remove === true ||
+      (args.remove === undefined && /\b(remove|delete|drop|forget)\b.*\balias\b/i.test(messageText));
+    if (removing) {
+      if (!existing) {
+        return respond(callback, false, `No document has the alias "${alias}".`, { error: "not_found", alias });
+      }
+      await aliasesRepo.remove(alias);
+      return respond(callback, true, `Removed the alias "${alias}" from ${existing.url}.`,
+        { alias, url: existing.url, removed: true });
+    }
+
+    // The alias itself must not count as a reference to whatever it already names
+    const reference = (args.document as string | undefined) || (given ? messageText.replace(given, " ") : messageText);
+    const resolution = await resolveDocument(runtime, reference, {
+      url: args.url as string | undefined,
+      roomId: _message.roomId,
+    });
+    if (resolution.status === "ambiguous") {
+      return respond(callback, false, formatDocumentChoices(resolution.candidates),
+        { error: "ambiguous_document", candidates: resolution.candidates });
+    }
+    if (resolution.status === "none") {
+      return respond(callback, false, `Which document should be called "${alias}"? Give me its URL or title.`,
+        { error: "missing_url", alias });
+    }
+
+    const url = resolution.url;
+    const stored = await autognosticDocumentsRepository.getByUrl(runtime, url);
+    if (stored.length === 0) {
+      return respond(callback, false, `Document not found: ${url}`, { error: "not_found", url });
+    }
+
+    await aliasesRepo.set(alias, url);
+    await rememberFocus(runtime, _message.roomId, url);
+    const moved = existing && existing.url !== url ? ` It no longer names ${existing.url}.` : "";
+    return respond(callback, true, `Saved the alias "${alias}" for ${url}.${moved}`,
+      { alias, url, previousUrl: existing?.url ?? null });
+  },
+};
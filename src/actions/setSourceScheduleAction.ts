@@ -0,0 +1,192 @@
+import type { Action, ActionResult, IAgentRuntime, Memory, State, HandlerCallback, HandlerOptions, Content } from "@elizaos/core";
+import { requireValidToken, AutognosticAuthError } from "../auth/validateToken";
+import { AutognosticSourcesRepository } from "../db/autognosticSourcesRepository";
+import { getScheduledSyncService } from "../services/ScheduledSyncService";
+import { parseInterval, type SourceSchedule } from "../orchestrator/syncSchedule";
+import { nextCronTime } from "../utils/cronSchedule";
+import { AutognosticValidationError } from "../errors/ValidationError";
+import { SCHEDULE_DEFAULTS } from "../config/constants";
+import { safeSerialize } from "../utils/safeSerialize";
+
+export const SetSourceScheduleAction: Action = {
+  name: "SET_SOURCE_SCHEDULE",
+  description:
+    "Set how often a knowledge source is checked for updates: a cron expression (e.g. \"0 * * * *\") " +
+    "or an interval (e.g. \"6h\", \"weekly\"), with optional jitter in minutes. reset=true returns it " +
+    "to the default schedule. Requires auth token.",
+  similes: [
+    "SCHEDULE_SOURCE",
+    "SET_SYNC_SCHEDULE",
+    "CHANGE_SYNC_FREQUENCY",
+    "SET_REFRESH_INTERVAL",
+  ],
+  parameters: {
+    type: "object",
+    properties: {
+      sourceId: {
+        type: "string",
+        description: "ID of the source to schedule",
+      },
+      cron: {
+        type: "string",
+        description: "Five-field cron expression or @hourly/@daily/@weekly, in the sync timezone",
+      },
+      interval: {
+        type: "string",
+        description: "Interval between syncs, e.g. \"30m\", \"6h\", \"2d\", \"weekly\"",
+      },
+      jitterMinutes: {
+        type: "number",
+        description: `Random delay of up to this many minutes added to each sync (default ${SCHEDULE_DEFAULTS.JITTER_MINUTES})`,
+      },
+      reset: {
+        type: "boolean",
+        description: "Drop the source's own schedule and use the default one",
+      },
+      authToken: {
+        type: "string",
+        description: "Autognostic auth token for write permissions",
+      },
+    },
+    required: ["sourceId", "authToken"],
+  },
+
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = ((message.content as Content)?.text || "").toLowerCase();
+    return /\b(schedule|cron|interval|how often)\b.*\b(source|sync|check|refresh)/i.test(text) ||
+      /\b(sync|check|refresh)\b.*\b(hourly|daily|weekly)\b/i.test(text);
+  },
+
+  async handler(
+    runtime: IAgentRuntime,
+    _message: Memory,
+    _state: State | undefined,
+    _options: HandlerOptions | undefined,
+    callback: HandlerCallback | undefined
+  ): Promise<ActionResult> {
+    const args = (_message.content as Record<string, unknown>) || {};
+
+    try {
+      requireValidToken(runtime, args.authToken as string | undefined);
+    } catch (err) {
+      if (err instanceof AutognosticAuthError) {
+        const text = err.message;
+        if (callback) {
+          await callback({ text, action: "SET_SOURCE_SCHEDULE" });
+        }
+        return { success: false, text, data: safeSerialize({ error: "auth_failed" }) };
+      }
+      throw err;
+    }
+
+    const sourceId = args.sourceId as string | undefined;
+    if (!sourceId) {
+      const text = "sourceId is required.";
+      if (callback) {
+        await callback({ text, action: "SET_SOURCE_SCHEDULE" });
+      }
+      return { success: false, text, data: safeSerialize({ error: "missing_source_id" }) };
+    }
+
+    const sourcesRepo = new AutognosticSourcesRepository(runtime);
+    const source = await sourcesRepo.getById(sourceId);
+    if (!source) {
+      const text = `Source ${sourceId} not found.`;
+      if (callback) {
+        await callback({ text, action: "SET_SOURCE_SCHEDULE" });
+      }
+      return { success: false, text, data: safeSerialize({ error: "source_not_found" }) };
+    }
+
+    const cronArg = typeof args.cron === "string" ? args.cron.trim() : "";
+    const intervalArg = typeof args.interval === "string" ? args.interval.trim() : "";
+    const jitterArg = args.jitterMinutes;
+    const reset = args.reset === true;
+
+    // Each call picks one kind of schedule; jitter alone keeps the current one
+    if ([cronArg, intervalArg, reset].filter(Boolean).length > 1) {
+      const text = "Give either a cron expression, an interval, or reset — not more than one.";
+      if (callback) {
+        await callback({ text, action: "SET_SOURCE_SCHEDULE" });
+      }
+      return { success: false, text, data: safeSerialize({ error: "conflicting_schedule" }) };
+    }
+    if (!cronArg && !intervalArg && !reset && jitterArg === undefined) {
+      const text = "Give a cron expression, an interval, jitterMinutes, or reset=true.";
+      if (callback) {
+        await callback({ text, action: "SET_SOURCE_SCHEDULE" });
+      }
+      return { success: false, text, data: safeSerialize({ error: "missing_schedule" }) };
+    }
+
+    const schedule: SourceSchedule = {
+      syncCron: source.syncCron,
+      syncIntervalMinutes: source.syncIntervalMinutes,
+      syncJitterMinutes: source.syncJitterMinutes,
+    };
+
+    try {
+      if (cronArg) {
+        if (!nextCronTime(cronArg, new Date())) {
+          throw new AutognosticValidationError(`Cron expression "${cronArg}" never matches a date`);
+        }
+        schedule.syncCron = cronArg;
+        schedule.syncIntervalMinutes = null;
+      } else if (intervalArg) {
+        schedule.syncCron = null;
+        schedule.syncIntervalMinutes = parseInterval(intervalArg);
+      } else if (reset) {
+        schedule.syncCron = null;
+        schedule.syncIntervalMinutes = null;
+        schedule.syncJitterMinutes = null;
+      }
+
+      if (jitterArg !== undefined) {
+        const jitter = Number(jitterArg);
+        if (!Number.isInteger(jitter) || jitter < 0 || jitter > SCHEDULE_DEFAULTS.MAX_JITTER_MINUTES) {
+          throw new AutognosticValidationError(
+            `jitterMinutes must be a whole number from 0 to ${SCHEDULE_DEFAULTS.MAX_JITTER_MINUTES}`
+          );
+        }
+        schedule.syncJitterMinutes = jitter;
+      }
+    } catch (err) {
+      if (err instanceof AutognosticValidationError) {
+        const text = err.message;
+        if (callback) {
+          await callback({ text, action: "SET_SOURCE_SCHEDULE" });
+        }
+        return { success: false, text, data: safeSerialize({ error: "invalid_schedule" }) };
+      }
+      throw err;
+    }
+
+    const { nextSyncAt, description } = await getScheduledSyncService(runtime)
+      .setSourceSchedule(sourceId, schedule);
+
+    const notes: string[] = [];
+    if (!source.enabled) notes.push("the source is disabled");
+    if (source.isStaticContent) notes.push("it is marked as static content");
+    else if (!source.versionTrackingEnabled) notes.push("version tracking is off");
+    const caveat = notes.length ? ` Scheduled syncs skip it while ${notes.join(" and ")}.` : "";
+    const next = nextSyncAt
+      ? ` Next check around ${nextSyncAt.toISOString().slice(0, 16).replace("T", " ")} UTC.`
+      : "";
+    const text = `Sync schedule for ${sourceId} set to ${description}.${next}${caveat}`;
+    if (callback) {
+      await callback({ text, action: "SET_SOURCE_SCHEDULE" });
+    }
+    return {
+      success: true,
+      text,
+      data: safeSerialize({
+        sourceId,
+        cron: schedule.syncCron,
+        intervalMinutes: schedule.syncIntervalMinutes,
+        jitterMinutes: schedule.syncJitterMinutes,
+        schedule: description,
+        nextSyncAt: nextSyncAt?.toISOString() ?? null,
+      }),
+    };
+  },
+};
@@ -0,0 +1,178 @@
+import type { Action, ActionResult, IAgentRuntime, Memory, State, HandlerCallback, HandlerOptions, Content } from "@elizaos/core";
+import { AutognosticSourcesRepository } from "../db/autognosticSourcesRepository";
+import {
+  getSourceSyncStatus,
+  getSyncStatus,
+  type SourceSyncReport,
+  type SyncStatusReport,
+} from "../integration/syncStatus";
+import { safeSerialize } from "../utils/safeSerialize";
+
+const MAX_RUNS = 50;
+
+function when(date: Date | null): string {
+  return date ? `${date.toISOString().slice(0, 16).replace("T", " ")} UTC` : "never";
+}
+
+function nextLabel(date: Date | null, now: Date): string {
+  if (!date) return "not scheduled";
+  return date <= now ? "due now" : when(date);
+}
+
+/** Whether `text` names `sourceId` as a whole word (ids may contain dashes). */
+function mentionsSource(text: string, sourceId: string): boolean {
+  const escaped = sourceId.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\w-])${escaped}($|[^\\w-])`).test(text);
+}
+
+function formatOverview(report: SyncStatusReport, now: Date): string {
+  const { scheduler } = report;
+  const lines: string[] = [];
+
+  if (!scheduler.enabled) {
+    lines.push("Scheduled sync is disabled.");
+  } else {
+    lines.push(
+      `Scheduler ${scheduler.active ? "active" : "not running"}; default schedule "${scheduler.defaultCron}" (${scheduler.timezone}).`
+    );
+    if (scheduler.nextRunAt) {
+      lines.push(`Next sync: ${nextLabel(scheduler.nextRunAt, now)} (${scheduler.nextRunSourceId}).`);
+    }
+  }
+
+  const current = scheduler.currentRun;
+  if (current) {
+    lines.push(
+      `Running now: ${current.id}, ${current.checked} of ${current.total} source(s) done` +
+      `${current.currentSourceId ? `, syncing ${current.currentSourceId}` : ""}.`
+    );
+  }
+
+  if (report.recentRuns.length) {
+    lines.push("", "Recent runs:");
+    for (const run of report.recentRuns) {
+      const took = run.durationMs !== null ? ` in ${Math.round(run.durationMs / 1000)}s` : "";
+      lines.push(
+        `- ${when(run.startedAt)} ${run.status}${took}: checked ${run.sourcesChecked}, ` +
+        `updated ${run.sourcesUpdated}, skipped ${run.sourcesSkipped}` +
+        `${run.errors.length ? `, ${run.errors.length} error(s)` : ""}`
+      );
+    }
+  } else {
+    lines.push("", "No sync runs recorded yet.");
+  }
+
+  if (report.sources.length) {
+    lines.push("", "Sources:");
+    for (const s of report.sources) {
+      const outcome = s.health.state === "healthy"
+        ? `last synced ${when(s.lastSyncAt)}`
+        : `${s.health.consecutiveFailures} failed sync(s), last: ${s.health.reason}`;
+      lines.push(`- ${s.sourceId}: ${outcome}; next ${s.scheduled ? nextLabel(s.nextSyncAt, now) : "not scheduled"}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+function formatSource(report: SourceSyncReport, now: Date): string {
+  const lines = [
+    `Sync status for ${report.sourceId} (${report.url}):`,
+    `- Schedule: ${report.scheduled ? report.schedule : "not scheduled (disabled, static, or version tracking off)"}`,
+    `- Last sync: ${when(report.lastSyncAt)}; last success: ${when(report.lastSuccessAt)}`,
+  ];
+  if (report.health.state === "healthy") {
+    lines.push("- No failures since the last successful sync.");
+  } else {
+    lines.push(
+      `- Last failure ${when(report.lastFailureAt)}: ${report.health.reason}` +
+      `${report.lastError ? ` (${report.lastError})` : ""}`,
+      `- ${report.health.consecutiveFailures} failed sync(s) in a row` +
+      `${report.health.state === "disabled" ? "; the source has been disabled" : ""}. ${report.health.suggestion}.`
+    );
+  }
+  if (report.scheduled) {
+    lines.push(`- Next sync: ${nextLabel(report.nextSyncAt, now)}`);
+  }
+  if (report.recentErrors.length) {
+    lines.push("", "Errors in recent runs:");
+    for (const e of report.recentErrors) {
+      lines.push(`- ${when(e.at)}: ${e.error}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+export const SyncStatusAction: Action = {
+  name: "SYNC_STATUS",
+  description:
+    "Report scheduled sync status: recent runs, the run in progress, when the next sync is due, and " +
+    "each source's last result. With a sourceId, explain that source's sync history and why it failed. " +
+    "No auth required (read-only).",
+  similes: ["SYNC_HISTORY", "LAST_SYNC", "WHY_SYNC_FAILED", "SYNC_LOG"],
+  parameters: {
+    type: "object",
+    properties: {
+      sourceId: {
+        type: "string",
+        description: "Optional: report on this source only, including why its syncs failed",
+      },
+      limit: {
+        type: "number",
+        description: "How many recent runs to include (default 5)",
+      },
+    },
+    required: [],
+  },
+
+  validate: async (_runtime: IAgentRuntime, message: Memory) => {
+    const text = ((message.content as Content)?.text || "").toLowerCase();
+    return /\bsync(s|ed|ing)?\b.*\b(status|history|log|fail\w*|error\w*|last|next|running)\b/i.test(text) ||
+      /\b(last|next|recent|why)\b.*\bsync/i.test(text);
+  },
+
+  async handler(
+    runtime: IAgentRuntime,
+    _message: Memory,
+    _state: State | undefined,
+    _options: HandlerOptions | undefined,
+    callback: HandlerCallback | undefined
+  ): Promise<ActionResult> {
+    const args = (_message.content as Record<string, unknown>) || {};
+    const limit = Math.min(Math.max(1, Math.floor(Number(args.limit) || 5)), MAX_RUNS);
+    const now = new Date();
+
+    let sourceId = typeof args.sourceId === "string" ? args.sourceId.trim() : "";
+    if (!sourceId) {
+      // "why did the eliza-docs sync fail": pick up a source named in the message
+      const text = ((_message.content as Content)?.text || "").toLowerCase();
+      const sources = await new AutognosticSourcesRepository(runtime).listAll();
+      const named = sources
+        .filter((s) => mentionsSource(text, s.id))
+        .sort((a, b) => b.id.length - a.id.length);
+      sourceId = named[0]?.id ?? "";
+    }
+
+    if (sourceId) {
+      const report = await getSourceSyncStatus(runtime, sourceId, { limit });
+      if (!report) {
+        const text = `Source ${sourceId} not found.`;
+        if (callback) {
+          await callback({ text, action: "SYNC_STATUS" });
+        }
+        return { success: false, text, data: safeSerialize({ error: "source_not_found" }) };
+      }
+      const text = formatSource(report, now);
+      if (callback) {
+        await callback({ text, action: "SYNC_STATUS" });
+      }
+      return { success: true, text, data: safeSerialize({ source: report }) };
+    }
+
+    const report = await getSyncStatus(runtime, { limit });
+    const text = formatOverview(report, now);
+    if (callback) {
+      await callback({ text, action: "SYNC_STATUS" });
+    }
+    return { success: true, text, data: safeSerialize(report) };
+  },
+};
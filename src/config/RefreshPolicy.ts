@@ -3,11 +3,14 @@ export interface AutognosticRefreshPolicy {
   reconcileCooldownMs: number;
   maxConcurrentReconciles: number;
   startupReconcileTimeoutMs: number;
+  /** How long archived versions (and their stored documents) are kept; 0 keeps none */
+  versionRetentionMs: number;
 }
 
 export const DEFAULT_REFRESH_POLICY: AutognosticRefreshPolicy = {
   previewCacheTtlMs: 10 * 60 * 1000,   // 10 min
   reconcileCooldownMs: 5 * 60 * 1000,  // 5 min
   maxConcurrentReconciles: 2,
-  startupReconcileTimeoutMs: 60 * 1000 // 60 s
+  startupReconcileTimeoutMs: 60 * 1000, // 60 s
+  versionRetentionMs: 30 * 24 * 60 * 60 * 1000 // 30 days
 };
@@ -9,11 +9,123 @@ export const HTTP_DEFAULTS = {
   USER_AGENT: "elizaos-plugin-autognostic/1.x (+https://elizaos.ai)",
 } as const;
 
+export const ROBOTS_DEFAULTS = {
+  /** RFC 9309: cached rules should not be used for more than 24 hours */
+  CACHE_TTL_MS: 86_400_000,
+  /** Re-check sooner when robots.txt could not be fetched */
+  FAILURE_TTL_MS: 300_000,
+  /** RFC 9309 requires parsing at least 500 KiB */
+  MAX_BYTES: 512_000,
+  /** Crawl-delay values above this are clamped, so one host cannot stall a sync */
+  MAX_CRAWL_DELAY_SEC: 30,
+  /**
+   * Raw-file hosts reached for repositories the user named explicitly;
+   * their robots.txt targets page crawlers, not file downloads.
+   */
+  EXEMPT_HOSTS: ["raw.githubusercontent.com", "gist.githubusercontent.com"],
+} as const;
+
 export const RECONCILIATION_DEFAULTS = {
   MAX_FILES_PER_SOURCE: 1000,
   BATCH_SIZE: 10,
   RETRY_ATTEMPTS: 3,
   RETRY_DELAY_MS: 1000,
+  /** Per-source reconcile lease; renewed while held, so this only bounds a crashed holder */
+  LEASE_TTL_MS: 2 * 60 * 1000,
+  /**
+   * Share of a version's files that may fail to ingest (and keep serving their
+   * previous copy) before the whole version is abandoned for the prior one
+   */
+  MAX_FAILED_FILE_RATIO: 0.1,
+} as const;
+
+export const SOURCE_HEALTH_DEFAULTS = {
+  /** Wait after the first failed sync; doubles with each consecutive failure */
+  BACKOFF_BASE_MS: 60 * 60 * 1000,
+  /** Longest wait between attempts */
+  BACKOFF_MAX_MS: 7 * 24 * 60 * 60 * 1000,
+  /** Consecutive failed syncs before a source is disabled automatically */
+  MAX_CONSECUTIVE_FAILURES: 7,
+} as const;
+
+export const JOB_DEFAULTS = {
+  /** Job lease; renewed while the job runs, so this only bounds a crashed worker */
+  LEASE_TTL_MS: 2 * 60 * 1000,
+  /** How often the worker looks for queued jobs and ones whose worker died */
+  POLL_INTERVAL_MS: 30_000,
+  /** Claims (including resumes after a crash) before a job is given up */
+  MAX_ATTEMPTS: 3,
+  /** Wait before retrying a job that threw; doubles with each attempt */
+  RETRY_BASE_MS: 60_000,
+  /** Wait before retrying a resumed job whose source is still leased by the dead run */
+  BUSY_RETRY_MS: 30_000,
+  /** Finished jobs older than this are deleted */
+  RETENTION_MS: 7 * 24 * 60 * 60 * 1000,
+  /** Minimum gap between progress reports for a running job */
+  PROGRESS_INTERVAL_MS: 5_000,
+} as const;
+
+export const SCHEDULE_DEFAULTS = {
+  /** How often the scheduler looks for sources whose next sync is due */
+  TICK_CRON: "* * * * *",
+  /** Random delay added to each next sync time unless a source sets its own */
+  JITTER_MINUTES: 5,
+  MAX_JITTER_MINUTES: 24 * 60,
+  /** Shortest interval a source may sync on */
+  MIN_INTERVAL_MINUTES: 5,
+} as const;
+
+export const PREVIEW_DEFAULTS = {
+  /** Knowledge chunk size and overlap in tokens, for estimating chunk counts */
+  CHUNK_TOKENS: 500,
+  CHUNK_OVERLAP_TOKENS: 100,
+  /** Rough bytes per token of English prose */
+  BYTES_PER_TOKEN: 4,
+  /** Largest files listed in a preview */
+  LARGEST_FILES: 5,
+} as const;
+
+export const SEARCH_DEFAULTS = {
+  /** Documents returned by SEARCH_DOCUMENTS */
+  MAX_RESULTS: 10,
+  MAX_RESULTS_LIMIT: 50,
+  /** Matching sentences quoted per document */
+  SNIPPETS_PER_DOCUMENT: 3,
+  /** Longest snippet before it is trimmed around the match */
+  MAX_SNIPPET_CHARS: 240,
+  /** Documents the term-matching fallback scores when full-text search is unavailable */
+  FALLBACK_CANDIDATES: 200,
+} as const;
+
+export const QUOTE_VERIFY_DEFAULTS = {
+  /** Similarity (0-1) below which a claimed quote has no close match */
+  MIN_SCORE: 0.6,
+  /** Longest claimed quote compared character by character */
+  MAX_QUOTE_CHARS: 4_000,
+} as const;
+
+export const FUZZY_SEARCH_DEFAULTS = {
+  /** Edits allowed per character of the (compacted) query */
+  MAX_EDIT_RATIO: 0.25,
+  /** Share of the query's trigrams a sentence needs before it is edit-distance checked */
+  MIN_TRIGRAM_OVERLAP: 0.3,
+  /** Sentences edit-distance checked, best trigram overlap first */
+  MAX_CHECKED_SENTENCES: 200,
+  /** Ranked candidates returned */
+  MAX_RESULTS: 5,
+  /** Queries shorter than this (letters and digits) only match exactly */
+  MIN_QUERY_CHARS: 4,
+} as const;
+
+export const DOCUMENT_RESOLVER_DEFAULTS = {
+  /** Weakest match that still names a document */
+  MIN_SCORE: 0.5,
+  /** Documents scoring within this of the best are all offered for disambiguation */
+  AMBIGUITY_MARGIN: 0.05,
+  /** Share of a title's significant words a reference must contain */
+  MIN_TITLE_OVERLAP: 0.6,
+  /** Candidates listed in a disambiguation prompt */
+  MAX_CANDIDATES: 5,
 } as const;
 
 export const PROVIDER_DEFAULTS = {
@@ -39,6 +151,8 @@ export const RATE_LIMITS = {
   semanticScholar: { maxTokens: 10, refillRate: 3, refillIntervalMs: 1000 },
   openAlex: { maxTokens: 10, refillRate: 5, refillIntervalMs: 1000 },
   general: { maxTokens: 5, refillRate: 2, refillIntervalMs: 1000 },
+  /** Per-host budget for documentation sites (probes and page fetches) */
+  webHost: { maxTokens: 10, refillRate: 5, refillIntervalMs: 1000 },
 } as const;
 
 export const ANALYZER_DEFAULTS = {
@@ -53,3 +167,21 @@ export const ANALYZER_DEFAULTS = {
   /** Current analyzer version for migration tracking */
   VERSION: "1.0",
 } as const;
+
+export const SITEMAP_DEFAULTS = {
+  /** Nesting levels of <sitemapindex> followed below the root sitemap */
+  MAX_DEPTH: 3,
+  /** Page URLs collected across all nested sitemaps */
+  MAX_URLS: RECONCILIATION_DEFAULTS.MAX_FILES_PER_SOURCE,
+  /** Decompressed XML accepted per sitemap (spec limit is 50MB) */
+  MAX_XML_BYTES: 50_000_000,
+} as const;
+
+export const CRAWL_DEFAULTS = {
+  /** Link hops followed from the start page */
+  MAX_DEPTH: 3,
+  /** Pages collected before the crawl stops */
+  MAX_PAGES: 200,
+  /** HTML accepted per crawled page */
+  MAX_PAGE_BYTES: 2_000_000,
+} as const;
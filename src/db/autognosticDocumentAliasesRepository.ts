@@ -0,0 +1,60 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { eq } from "drizzle-orm";
+import {
+  autognosticDocumentAliases,
+  type AutognosticDocumentAliasRow,
+} from "./schema";
+import { getDb } from "./getDb";
+
+/** Aliases are stored normalized (see foldPhrase); callers pass them already folded. */
+export class AutognosticDocumentAliasesRepository {
+  constructor(private runtime: IAgentRuntime) {}
+
+  async list(): Promise<AutognosticDocumentAliasRow[]> {
+    const db = await getDb(this.runtime);
+    return db.select().from(autognosticDocumentAliases);
+  }
+
+  async get(alias: string): Promise<AutognosticDocumentAliasRow | null> {
+    const db = await getDb(this.runtime);
+    const rows: AutognosticDocumentAliasRow[] = await db
+      .select()
+      .from(autognosticDocumentAliases)
+      .where(eq(autognosticDocumentAliases.alias, alias))
+      .limit(1);
+    return rows[0] ?? null;
+  }
+
+  /** Point `alias` at `url`, replacing whatever it named before. */
+  async set(alias: string, url: string): Promise<void> {
+    const db = await getDb(this.runtime);
+    if (await this.get(alias)) {
+      await db
+        .update(autognosticDocumentAliases)
+        .set({ url })
+        .where(eq(autognosticDocumentAliases.alias, alias));
+    } else {
+      await db.insert(autognosticDocumentAliases).values({ alias, url });
+    }
+  }
+
+  async remove(alias: string): Promise<void> {
+    const db = await getDb(this.runtime);
+    if (!db.delete) {
+      throw new Error("Database adapter does not support delete operations");
+    }
+    await db
+      .delete(autognosticDocumentAliases)
+      .where(eq(autognosticDocumentAliases.alias, alias));
+  }
+
+  async deleteByUrl(url: string): Promise<void> {
+    const db = await getDb(this.runtime);
+    if (!db.delete) {
+      throw new Error("Database adapter does not support delete operations");
+    }
+    await db
+      .delete(autognosticDocumentAliases)
+      .where(eq(autognosticDocumentAliases.url, url));
+  }
+}
@@ -1,9 +1,93 @@
-import { eq, and, like } from "drizzle-orm";
-import { autognosticDocuments } from "./schema";
-import { getDb } from "./getDb";
+import { eq, and, desc, getTableColumns, ilike, inArray, isNull, like, lte, gt, notExists, notInArray, or, sql } from "drizzle-orm";
+import {
+  autognosticDocuments,
+  autognosticDocumentVersions,
+  autognosticPaperClassification,
+  autognosticVersions,
+  documentSearchVector,
+  type AutognosticDocumentsRow,
+  type PaperMetadata,
+} from "./schema";
+import { getDb, type DrizzleDbLike } from "./getDb";
 import type { IAgentRuntime } from "@elizaos/core";
 import type { DocumentProfile } from "../services/DocumentAnalyzer.types";
 
+/** Which stored version a document copy belongs to. */
+export interface DocumentVersionInfo {
+  sourceId: string;
+  versionId: string;
+  /** Version status; null for documents outside a tracked source (e.g. ADD_URL_TO_KNOWLEDGE) */
+  status: string | null;
+  activatedAt: Date | null;
+  archivedAt: Date | null;
+  storedAt: Date | null;
+}
+
+/** A current document copy matched by a search. */
+export interface DocumentSearchRow {
+  id: string;
+  url: string;
+  title: string | null;
+  sourceId: string;
+  versionId: string;
+  content: string;
+  profile: DocumentProfile | null;
+  /** ts_rank_cd score; 0 for term matches, which the caller ranks */
+  rank: number;
+}
+
+/** What a document resolver matches a reference against: names, never content. */
+export interface DocumentCatalogEntry {
+  id: string;
+  url: string;
+  title: string | null;
+  sourceId: string;
+  storedAt: Date | null;
+  /** Crossref/content metadata when the document was classified as a paper */
+  paperMetadata: PaperMetadata | null;
+}
+
+/**
+ * Copies belonging to the active version, or to no tracked version at all,
+ * outrank archived and staging copies of the same URL.
+ */
+const CURRENT_FIRST = sql`case when ${autognosticVersions.status} is null or ${autognosticVersions.status} = 'active' then 0 else 1 end`;
+
+/** The copy a reader sees today: in the active version, or in no tracked version at all. */
+const IS_CURRENT = or(isNull(autognosticVersions.id), eq(autognosticVersions.status, "active"));
+
+/** Joins a document to its version links: one row per version it serves. */
+const VERSION_LINK = eq(autognosticDocumentVersions.documentId, autognosticDocuments.id);
+
+/** Joins a version link to the version row, if the source tracks versions. */
+const LINKED_VERSION = and(
+  eq(autognosticVersions.sourceId, autognosticDocumentVersions.sourceId),
+  eq(autognosticVersions.versionId, autognosticDocumentVersions.versionId)
+);
+
+/** Delete a source's documents that no version links to any more; `db` may be a transaction. */
+export async function deleteUnlinkedDocuments(db: DrizzleDbLike, sourceId: string) {
+  await db.delete!(autognosticDocuments).where(
+    and(
+      eq(autognosticDocuments.sourceId, sourceId),
+      notExists(
+        db
+          .select({ id: autognosticDocumentVersions.id })
+          .from(autognosticDocumentVersions)
+          .where(VERSION_LINK)
+      )
+    )
+  );
+}
+
+/** Metadata of a current copy, for listings that must not load content. */
+export interface DocumentInventoryEntry {
+  url: string;
+  byteSize: number | null;
+  profile: DocumentProfile | null;
+  createdAt: Date | null;
+}
+
 export class AutognosticDocumentsRepository {
   constructor(private runtime: IAgentRuntime) {}
 
@@ -15,32 +99,69 @@ export class AutognosticDocumentsRepository {
     contentHash: string;
     mimeType?: string;
     byteSize?: number;
+    profile?: DocumentProfile | null;
     oaStatus?: string;
+    title?: string | null;
+    section?: string | null;
+    etag?: string | null;
+    lastModified?: string | null;
   }) {
     const db = await getDb(this.runtime);
-    return db.insert(autognosticDocuments).values(doc).returning();
+    const apply = async (tx: DrizzleDbLike) => {
+      const rows: AutognosticDocumentsRow[] = await tx
+        .insert(autognosticDocuments)
+        .values(doc)
+        .returning();
+      await tx.insert(autognosticDocumentVersions).values(
+        rows.map((row) => versionLink(row.id, doc.sourceId, doc.versionId))
+      );
+      return rows;
+    };
+    return db.transaction ? db.transaction(apply) : apply(db);
+  }
+
+  /**
+   * Serve an already stored document from another version of its source
+   * instead of storing a copy. `validators` from a revalidating fetch replace
+   * the stored ones.
+   */
+  async linkToVersion(
+    documentId: string,
+    sourceId: string,
+    versionId: string,
+    validators?: { etag: string | null; lastModified: string | null }
+  ) {
+    const db = await getDb(this.runtime);
+    await db
+      .insert(autognosticDocumentVersions)
+      .values(versionLink(documentId, sourceId, versionId))
+      .onConflictDoNothing();
+    if (validators) {
+      await db
+        .update(autognosticDocuments)
+        .set(validators)
+        .where(eq(autognosticDocuments.id, documentId));
+    }
   }
 
+  /** The current copy of a URL; an archived or staging copy only when there is none. */
   async getByUrl(url: string) {
     const db = await getDb(this.runtime);
-    return db
-      .select()
-      .from(autognosticDocuments)
+    return this.selectDocuments(db)
       .where(eq(autognosticDocuments.url, url))
+      .orderBy(CURRENT_FIRST, desc(autognosticDocuments.createdAt))
       .limit(1);
   }
 
+  /** Documents a version serves, whichever version first stored them. */
   async getBySourceAndVersion(sourceId: string, versionId: string) {
     const db = await getDb(this.runtime);
-    return db
-      .select()
-      .from(autognosticDocuments)
-      .where(
-        and(
-          eq(autognosticDocuments.sourceId, sourceId),
-          eq(autognosticDocuments.versionId, versionId)
-        )
-      );
+    return this.selectDocuments(db).where(
+      and(
+        eq(autognosticDocumentVersions.sourceId, sourceId),
+        eq(autognosticDocumentVersions.versionId, versionId)
+      )
+    );
   }
 
   async getFullContent(url: string): Promise<string | null> {
@@ -48,19 +169,38 @@ export class AutognosticDocumentsRepository {
     return docs.length > 0 ? docs[0].content : null;
   }
 
-  async deleteByVersion(sourceId: string, versionId: string) {
+  /**
+   * Unlink a version's documents, except those of the URLs in `keepUrls`,
+   * and delete the ones no other version still serves.
+   */
+  async deleteByVersion(sourceId: string, versionId: string, keepUrls: string[] = []) {
     const db = await getDb(this.runtime);
     if (!db.delete) {
       throw new Error("Database adapter does not support delete operations");
     }
-    return db
-      .delete(autognosticDocuments)
-      .where(
+    const apply = async (tx: DrizzleDbLike) => {
+      await tx.delete!(autognosticDocumentVersions).where(
         and(
-          eq(autognosticDocuments.sourceId, sourceId),
-          eq(autognosticDocuments.versionId, versionId)
+          eq(autognosticDocumentVersions.sourceId, sourceId),
+          eq(autognosticDocumentVersions.versionId, versionId),
+          keepUrls.length
+            ? inArray(
+                autognosticDocumentVersions.documentId,
+                tx
+                  .select({ id: autognosticDocuments.id })
+                  .from(autognosticDocuments)
+                  .where(notInArray(autognosticDocuments.url, keepUrls))
+              )
+            : undefined
         )
       );
+      await deleteUnlinkedDocuments(tx, sourceId);
+    };
+    if (db.transaction) {
+      await db.transaction(apply);
+    } else {
+      await apply(db);
+    }
   }
 
   async deleteByUrl(url: string) {
@@ -83,23 +223,63 @@ export class AutognosticDocumentsRepository {
       .where(eq(autognosticDocuments.sourceId, sourceId));
   }
 
+  /** Current copies of every document. */
   async listAll() {
     const db = await getDb(this.runtime);
-    return db.select().from(autognosticDocuments);
+    return this.selectDocuments(db).where(IS_CURRENT);
   }
 
+  /** Current copies of a source's documents. */
   async listBySourceId(sourceId: string) {
     const db = await getDb(this.runtime);
-    return db
-      .select()
+    return this.selectDocuments(db).where(
+      and(eq(autognosticDocuments.sourceId, sourceId), IS_CURRENT)
+    );
+  }
+
+  /** Current copies' metadata, newest first; no content is read. */
+  async listInventory(limit: number): Promise<DocumentInventoryEntry[]> {
+    const db = await getDb(this.runtime);
+    const rows = await db
+      .select({
+        url: autognosticDocuments.url,
+        byteSize: autognosticDocuments.byteSize,
+        profile: autognosticDocuments.profile,
+        createdAt: autognosticDocuments.createdAt,
+      })
       .from(autognosticDocuments)
-      .where(eq(autognosticDocuments.sourceId, sourceId));
+      .innerJoin(autognosticDocumentVersions, VERSION_LINK)
+      .leftJoin(autognosticVersions, LINKED_VERSION)
+      .where(IS_CURRENT)
+      .orderBy(desc(autognosticDocuments.createdAt))
+      .limit(limit);
+    return rows as DocumentInventoryEntry[];
   }
 
+  /** Count of documents each version of a source serves. */
+  async countByVersion(sourceId: string): Promise<Map<string, number>> {
+    const db = await getDb(this.runtime);
+    const rows: Array<{ versionId: string; count: number }> = await db
+      .select({
+        versionId: autognosticDocumentVersions.versionId,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(autognosticDocumentVersions)
+      .where(eq(autognosticDocumentVersions.sourceId, sourceId))
+      .groupBy(autognosticDocumentVersions.versionId);
+    return new Map(rows.map((r) => [r.versionId, Number(r.count)]));
+  }
+
+  /** Number of current copies. */
   async count(): Promise<number> {
     const db = await getDb(this.runtime);
-    const rows = await db.select().from(autognosticDocuments);
-    return rows.length;
+    const rows: Array<{ count: number }> = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(autognosticDocuments)
+      .innerJoin(autognosticDocumentVersions, VERSION_LINK)
+      .leftJoin(autognosticVersions, LINKED_VERSION)
+      .where(IS_CURRENT);
+    return Number(rows[0]?.count ?? 0);
   }
 
   async search(query: string) {
@@ -110,42 +290,267 @@ export class AutognosticDocumentsRepository {
       .where(like(autognosticDocuments.url, `%${query}%`));
   }
 
+  /**
+   * Current copies matching `query` by Postgres full-text search, best
+   * first. The query takes web-search syntax: quoted phrases, `or` and
+   * `-term`.
+   */
+  async searchFullText(
+    query: string,
+    opts: { limit: number; sourceId?: string }
+  ): Promise<DocumentSearchRow[]> {
+    const db = await getDb(this.runtime);
+    const vector = documentSearchVector(autognosticDocuments);
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const rank = sql<number>`ts_rank_cd(${vector}, ${tsQuery})`;
+    const rows = await this.selectWithVersion(db, { rank })
+      .where(
+        and(
+          sql`${vector} @@ ${tsQuery}`,
+          IS_CURRENT,
+          opts.sourceId ? eq(autognosticDocuments.sourceId, opts.sourceId) : undefined
+        )
+      )
+      .orderBy(desc(rank), desc(autognosticDocuments.createdAt))
+      .limit(opts.limit);
+    return rows.map(toSearchRow);
+  }
+
+  /**
+   * Current copies whose title or content contains every term
+   * (case-insensitive), for databases without full-text search. Rows come
+   * back unranked.
+   */
+  async searchTerms(
+    terms: string[],
+    opts: { limit: number; sourceId?: string }
+  ): Promise<DocumentSearchRow[]> {
+    if (terms.length === 0) return [];
+    const db = await getDb(this.runtime);
+    const rows = await this.selectWithVersion(db)
+      .where(
+        and(
+          ...terms.map((t) => {
+            const pattern = `%${t.replace(/[\\%_]/g, "\\$&")}%`;
+            return or(ilike(autognosticDocuments.content, pattern), ilike(autognosticDocuments.title, pattern));
+          }),
+          IS_CURRENT,
+          opts.sourceId ? eq(autognosticDocuments.sourceId, opts.sourceId) : undefined
+        )
+      )
+      .orderBy(desc(autognosticDocuments.createdAt))
+      .limit(opts.limit);
+    return rows.map(toSearchRow);
+  }
+
+  /** Current copies with their paper metadata, newest first; no content is read. */
+  async listCatalog(): Promise<DocumentCatalogEntry[]> {
+    const db = await getDb(this.runtime);
+    const rows: DocumentCatalogEntry[] = await db
+      .select({
+        id: autognosticDocuments.id,
+        url: autognosticDocuments.url,
+        title: autognosticDocuments.title,
+        sourceId: autognosticDocuments.sourceId,
+        storedAt: autognosticDocuments.createdAt,
+        paperMetadata: autognosticPaperClassification.paperMetadata,
+      })
+      .from(autognosticDocuments)
+      .innerJoin(autognosticDocumentVersions, VERSION_LINK)
+      .leftJoin(autognosticVersions, LINKED_VERSION)
+      .leftJoin(
+        autognosticPaperClassification,
+        eq(autognosticPaperClassification.documentId, autognosticDocuments.id)
+      )
+      .where(IS_CURRENT)
+      .orderBy(desc(autognosticDocuments.createdAt));
+    return rows.map((r) => ({
+      ...r,
+      title: r.title ?? null,
+      storedAt: r.storedAt ?? null,
+      paperMetadata: r.paperMetadata ?? null,
+    }));
+  }
+
   async getProfile(url: string): Promise<DocumentProfile | null> {
     const db = await getDb(this.runtime);
     const rows = await db
       .select({ profile: autognosticDocuments.profile })
       .from(autognosticDocuments)
+      .innerJoin(autognosticDocumentVersions, VERSION_LINK)
+      .leftJoin(autognosticVersions, LINKED_VERSION)
       .where(eq(autognosticDocuments.url, url))
+      .orderBy(CURRENT_FIRST, desc(autognosticDocuments.createdAt))
       .limit(1);
     return rows.length > 0 ? (rows[0].profile as DocumentProfile | null) : null;
   }
 
-  async updateProfile(url: string, profile: DocumentProfile) {
+  /** Store a computed profile; with `id` only that copy is updated, else every copy of the URL. */
+  async updateProfile(url: string, profile: DocumentProfile, id?: string) {
     const db = await getDb(this.runtime);
     return db
       .update(autognosticDocuments)
       .set({ profile })
-      .where(eq(autognosticDocuments.url, url));
+      .where(id ? eq(autognosticDocuments.id, id) : eq(autognosticDocuments.url, url));
+  }
+
+  /**
+   * Content and profile of the current copy of a URL. With `asOf`, the copy
+   * from the version that was active at that moment instead; documents
+   * outside a tracked source count from the time they were stored.
+   */
+  async getWithProfile(
+    url: string,
+    asOf?: Date
+  ): Promise<{
+    id: string;
+    content: string;
+    profile: DocumentProfile | null;
+    version: DocumentVersionInfo;
+  } | null> {
+    const db = await getDb(this.runtime);
+    const where = asOf
+      ? and(
+          eq(autognosticDocuments.url, url),
+          or(
+            and(
+              lte(autognosticVersions.activatedAt, asOf),
+              or(
+                eq(autognosticVersions.status, "active"),
+                gt(autognosticVersions.archivedAt, asOf)
+              )
+            ),
+            and(isNull(autognosticVersions.id), lte(autognosticDocuments.createdAt, asOf))
+          )
+        )
+      : eq(autognosticDocuments.url, url);
+
+    const rows = await this.selectWithVersion(db)
+      .where(where)
+      .orderBy(...(asOf ? [] : [CURRENT_FIRST]), desc(autognosticDocuments.createdAt))
+      .limit(1);
+    if (rows.length === 0) return null;
+
+    const row = rows[0];
+    return {
+      id: row.id,
+      content: row.content,
+      profile: row.profile as DocumentProfile | null,
+      version: toVersionInfo(row),
+    };
   }
 
-  async getWithProfile(url: string): Promise<{ content: string; profile: DocumentProfile | null } | null> {
+  /**
+   * Every retained copy of a URL with the version it belongs to, newest
+   * first (the current copy leads). Staging and failed copies are left out.
+   */
+  async listVersions(url: string): Promise<Array<{ id: string; version: DocumentVersionInfo }>> {
+    const db = await getDb(this.runtime);
+    const rows = await this.selectWithVersion(db)
+      .where(
+        and(
+          eq(autognosticDocuments.url, url),
+          or(IS_CURRENT, eq(autognosticVersions.status, "archived"))
+        )
+      )
+      .orderBy(
+        CURRENT_FIRST,
+        sql`${autognosticVersions.activatedAt} desc nulls last`,
+        desc(autognosticDocuments.createdAt)
+      );
+    return rows.map((row: VersionedRow) => ({ id: row.id, version: toVersionInfo(row) }));
+  }
+
+  /** Content and profile of one stored copy by row id. */
+  async getContentById(
+    id: string
+  ): Promise<{ content: string; profile: DocumentProfile | null } | null> {
     const db = await getDb(this.runtime);
     const rows = await db
+      .select({ content: autognosticDocuments.content, profile: autognosticDocuments.profile })
+      .from(autognosticDocuments)
+      .where(eq(autognosticDocuments.id, id))
+      .limit(1);
+    if (rows.length === 0) return null;
+    return { content: rows[0].content, profile: rows[0].profile as DocumentProfile | null };
+  }
+
+  /** Whole document rows, one per version they serve; callers add where/order/limit. */
+  private selectDocuments(db: Awaited<ReturnType<typeof getDb>>) {
+    return db
+      .select(getTableColumns(autognosticDocuments))
+      .from(autognosticDocuments)
+      .innerJoin(autognosticDocumentVersions, VERSION_LINK)
+      .leftJoin(autognosticVersions, LINKED_VERSION);
+  }
+
+  /** Documents with the version each row serves, plus any `extra` columns; callers add where/order/limit. */
+  private selectWithVersion(db: Awaited<ReturnType<typeof getDb>>, extra: Record<string, unknown> = {}) {
+    return db
       .select({
+        id: autognosticDocuments.id,
+        url: autognosticDocuments.url,
+        title: autognosticDocuments.title,
         content: autognosticDocuments.content,
         profile: autognosticDocuments.profile,
+        sourceId: autognosticDocumentVersions.sourceId,
+        versionId: autognosticDocumentVersions.versionId,
+        storedAt: autognosticDocuments.createdAt,
+        status: autognosticVersions.status,
+        activatedAt: autognosticVersions.activatedAt,
+        archivedAt: autognosticVersions.archivedAt,
+        ...extra,
       })
       .from(autognosticDocuments)
-      .where(eq(autognosticDocuments.url, url))
-      .limit(1);
-    if (rows.length === 0) return null;
-    return {
-      content: rows[0].content,
-      profile: rows[0].profile as DocumentProfile | null,
-    };
+      .innerJoin(autognosticDocumentVersions, VERSION_LINK)
+      .leftJoin(autognosticVersions, LINKED_VERSION);
   }
 }
 
+function versionLink(documentId: string, sourceId: string, versionId: string) {
+  return { id: `${sourceId}:${versionId}:${documentId}`, documentId, sourceId, versionId };
+}
+
+interface VersionedRow {
+  id: string;
+  sourceId: string;
+  versionId: string;
+  storedAt: Date | null;
+  status: string | null;
+  activatedAt: Date | null;
+  archivedAt: Date | null;
+}
+
+function toVersionInfo(row: VersionedRow): DocumentVersionInfo {
+  return {
+    sourceId: row.sourceId,
+    versionId: row.versionId,
+    status: row.status ?? null,
+    activatedAt: row.activatedAt ?? null,
+    archivedAt: row.archivedAt ?? null,
+    storedAt: row.storedAt ?? null,
+  };
+}
+
+function toSearchRow(row: VersionedRow & {
+  url: string;
+  title: string | null;
+  content: string;
+  profile: unknown;
+  rank?: number | string;
+}): DocumentSearchRow {
+  return {
+    id: row.id,
+    url: row.url,
+    title: row.title ?? null,
+    sourceId: row.sourceId,
+    versionId: row.versionId,
+    content: row.content,
+    profile: row.profile as DocumentProfile | null,
+    rank: Number(row.rank ?? 0),
+  };
+}
+
 // Backward-compatible object literal export
 export const autognosticDocumentsRepository = {
   async store(
@@ -178,12 +583,20 @@ export const autognosticDocumentsRepository = {
     return new AutognosticDocumentsRepository(runtime).getProfile(url);
   },
 
-  async updateProfile(runtime: IAgentRuntime, url: string, profile: DocumentProfile) {
-    return new AutognosticDocumentsRepository(runtime).updateProfile(url, profile);
+  async updateProfile(runtime: IAgentRuntime, url: string, profile: DocumentProfile, id?: string) {
+    return new AutognosticDocumentsRepository(runtime).updateProfile(url, profile, id);
+  },
+
+  async getWithProfile(runtime: IAgentRuntime, url: string, asOf?: Date) {
+    return new AutognosticDocumentsRepository(runtime).getWithProfile(url, asOf);
+  },
+
+  async listVersions(runtime: IAgentRuntime, url: string) {
+    return new AutognosticDocumentsRepository(runtime).listVersions(url);
   },
 
-  async getWithProfile(runtime: IAgentRuntime, url: string) {
-    return new AutognosticDocumentsRepository(runtime).getWithProfile(url);
+  async getContentById(runtime: IAgentRuntime, id: string) {
+    return new AutognosticDocumentsRepository(runtime).getContentById(id);
   },
 
   async deleteByVersion(
@@ -0,0 +1,248 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { and, asc, eq, inArray, isNull, lt, lte, or, sql } from "drizzle-orm";
+import {
+  autognosticJobItems,
+  autognosticJobs,
+  type AutognosticJobItemRow,
+  type AutognosticJobRow,
+  type JobKind,
+  type JobPayload,
+} from "./schema";
+import { getDb, sqlInterval } from "./getDb";
+
+export class AutognosticJobsRepository {
+  constructor(private runtime: IAgentRuntime) {}
+
+  /**
+   * Record a new job. With `lease` it is created already running under that
+   * holder, for callers that run it straight away; otherwise it is queued.
+   */
+  async create(
+    job: { id: string; kind: JobKind; sourceId: string; payload: JobPayload; maxAttempts: number },
+    lease?: { holder: string; ttlMs: number }
+  ): Promise<AutognosticJobRow> {
+    const db = await getDb(this.runtime);
+    const rows: AutognosticJobRow[] = await db
+      .insert(autognosticJobs)
+      .values({
+        ...job,
+        ...(lease
+          ? {
+              status: "running",
+              attempts: 1,
+              leaseHolder: lease.holder,
+              leaseExpiresAt: sql`now() + ${sqlInterval(lease.ttlMs)}::interval`,
+              startedAt: new Date(),
+            }
+          : { status: "queued" }),
+      })
+      .returning();
+    return rows[0];
+  }
+
+  async getById(id: string): Promise<AutognosticJobRow | null> {
+    const db = await getDb(this.runtime);
+    const rows: AutognosticJobRow[] = await db
+      .select()
+      .from(autognosticJobs)
+      .where(eq(autognosticJobs.id, id))
+      .limit(1);
+    return rows[0] ?? null;
+  }
+
+  /** Queued and running jobs, oldest first. */
+  async listUnfinished(): Promise<AutognosticJobRow[]> {
+    const db = await getDb(this.runtime);
+    const rows: AutognosticJobRow[] = await db
+      .select()
+      .from(autognosticJobs)
+      .where(inArray(autognosticJobs.status, ["queued", "running"]))
+      .orderBy(asc(autognosticJobs.createdAt));
+    return rows;
+  }
+
+  /**
+   * Claim the oldest runnable job: a queued one whose retry time has come,
+   * or a running one whose lease expired because its worker died. The claim
+   * is a conditional UPDATE timed by the database clock, so two workers
+   * can't both win it.
+   */
+  async claimNext(holder: string, ttlMs: number): Promise<AutognosticJobRow | null> {
+    const db = await getDb(this.runtime);
+    const runnable = or(
+      and(
+        eq(autognosticJobs.status, "queued"),
+        or(isNull(autognosticJobs.runAfter), lte(autognosticJobs.runAfter, sql`now()`))
+      ),
+      and(
+        eq(autognosticJobs.status, "running"),
+        or(isNull(autognosticJobs.leaseExpiresAt), lte(autognosticJobs.leaseExpiresAt, sql`now()`))
+      )
+    );
+
+    const candidates: Array<{ id: string }> = await db
+      .select({ id: autognosticJobs.id })
+      .from(autognosticJobs)
+      .where(runnable)
+      .orderBy(asc(autognosticJobs.createdAt))
+      .limit(5);
+
+    for (const { id } of candidates) {
+      const rows: AutognosticJobRow[] = await db
+        .update(autognosticJobs)
+        .set({
+          status: "running",
+          attempts: sql`${autognosticJobs.attempts} + 1`,
+          leaseHolder: holder,
+          leaseExpiresAt: sql`now() + ${sqlInterval(ttlMs)}::interval`,
+          runAfter: null,
+          startedAt: sql`coalesce(${autognosticJobs.startedAt}, now())`,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(autognosticJobs.id, id), runnable))
+        .returning();
+      if (rows[0]) return rows[0];
+    }
+    return null;
+  }
+
+  /** Push a held lease's expiry out; false if `holder` no longer owns the job. */
+  async renewLease(id: string, holder: string, ttlMs: number): Promise<boolean> {
+    const db = await getDb(this.runtime);
+    const rows: Array<{ id: string }> = await db
+      .update(autognosticJobs)
+      .set({ leaseExpiresAt: sql`now() + ${sqlInterval(ttlMs)}::interval` })
+      .where(and(eq(autognosticJobs.id, id), eq(autognosticJobs.leaseHolder, holder)))
+      .returning({ id: autognosticJobs.id });
+    return rows.length > 0;
+  }
+
+  /** Mark a held job finished and drop its lease. */
+  async finish(
+    id: string,
+    holder: string,
+    outcome: { status: "completed" | "failed" | "cancelled"; result?: unknown; error?: string | null }
+  ): Promise<void> {
+    const db = await getDb(this.runtime);
+    const now = new Date();
+    await db
+      .update(autognosticJobs)
+      .set({
+        status: outcome.status,
+        result: outcome.result ?? null,
+        error: outcome.error ?? null,
+        leaseHolder: null,
+        leaseExpiresAt: null,
+        finishedAt: now,
+        updatedAt: now,
+      })
+      .where(and(eq(autognosticJobs.id, id), eq(autognosticJobs.leaseHolder, holder)));
+  }
+
+  /**
+   * Cancel queued jobs matching a job id or source id; running jobs are
+   * cancelled by the worker holding them. Returns the ids cancelled.
+   */
+  async cancelQueued(ref: string): Promise<string[]> {
+    const db = await getDb(this.runtime);
+    const now = new Date();
+    const rows: Array<{ id: string }> = await db
+      .update(autognosticJobs)
+      .set({ status: "cancelled", runAfter: null, finishedAt: now, updatedAt: now })
+      .where(
+        and(
+          eq(autognosticJobs.status, "queued"),
+          or(eq(autognosticJobs.id, ref), eq(autognosticJobs.sourceId, ref))
+        )
+      )
+      .returning({ id: autognosticJobs.id });
+    return rows.map((r) => r.id);
+  }
+
+  /**
+   * Put a held job back in the queue until `runAfter`. With `refundAttempt`
+   * the claim doesn't count against its attempts.
+   */
+  async requeue(
+    id: string,
+    holder: string,
+    runAfter: Date,
+    opts: { error?: string; refundAttempt?: boolean } = {}
+  ): Promise<void> {
+    const db = await getDb(this.runtime);
+    await db
+      .update(autognosticJobs)
+      .set({
+        status: "queued",
+        runAfter,
+        leaseHolder: null,
+        leaseExpiresAt: null,
+        ...(opts.error !== undefined ? { error: opts.error } : {}),
+        ...(opts.refundAttempt ? { attempts: sql`${autognosticJobs.attempts} - 1` } : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(autognosticJobs.id, id), eq(autognosticJobs.leaseHolder, holder)));
+  }
+
+  /**
+   * Record the version a job is building and its file count. Files recorded
+   * for a different version no longer apply and are dropped.
+   */
+  async startVersion(id: string, versionId: string, total: number): Promise<void> {
+    const db = await getDb(this.runtime);
+    const job = await this.getById(id);
+    if (job?.versionId && job.versionId !== versionId) await this.clearItems(id);
+    await db
+      .update(autognosticJobs)
+      .set({ versionId, itemsTotal: total, itemsDone: 0, itemsFailed: 0, updatedAt: new Date() })
+      .where(eq(autognosticJobs.id, id));
+  }
+
+  async updateProgress(id: string, done: number, failed: number): Promise<void> {
+    const db = await getDb(this.runtime);
+    await db
+      .update(autognosticJobs)
+      .set({ itemsDone: done, itemsFailed: failed, updatedAt: new Date() })
+      .where(eq(autognosticJobs.id, id));
+  }
+
+  async addItem(jobId: string, url: string, knowledgeDocumentId: string): Promise<void> {
+    const db = await getDb(this.runtime);
+    await db.insert(autognosticJobItems).values({
+      id: `${jobId}:${url}`,
+      jobId,
+      url,
+      knowledgeDocumentId,
+    });
+  }
+
+  /** Forget the files a job recorded as ingested. */
+  async clearItems(jobId: string): Promise<void> {
+    const db = await getDb(this.runtime);
+    if (!db.delete) return;
+    await db.delete(autognosticJobItems).where(eq(autognosticJobItems.jobId, jobId));
+  }
+
+  async listItems(jobId: string): Promise<AutognosticJobItemRow[]> {
+    const db = await getDb(this.runtime);
+    const rows: AutognosticJobItemRow[] = await db
+      .select()
+      .from(autognosticJobItems)
+      .where(eq(autognosticJobItems.jobId, jobId));
+    return rows;
+  }
+
+  /** Delete jobs that finished before `before`; their items go with them. */
+  async pruneFinished(before: Date): Promise<void> {
+    const db = await getDb(this.runtime);
+    if (!db.delete) return;
+    await db
+      .delete(autognosticJobs)
+      .where(
+        and(
+          inArray(autognosticJobs.status, ["completed", "failed", "cancelled"]),
+          lt(autognosticJobs.finishedAt, before)
+        )
+      );
+  }
+}
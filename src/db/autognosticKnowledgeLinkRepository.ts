@@ -13,6 +13,7 @@ export class AutognosticKnowledgeLinkRepository {
     sourceId: string;
     versionId: string;
     knowledgeDocumentId: string;
+    url?: string;
   }): Promise<void> {
     const db = await getDb(this.runtime);
     const id = `${params.sourceId}:${params.versionId}:${params.knowledgeDocumentId}`;
@@ -28,6 +29,7 @@ export class AutognosticKnowledgeLinkRepository {
         sourceId: params.sourceId,
         versionId: params.versionId,
         knowledgeDocumentId: params.knowledgeDocumentId,
+        url: params.url ?? null,
       });
     }
   }
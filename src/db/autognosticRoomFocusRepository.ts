@@ -0,0 +1,76 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { eq } from "drizzle-orm";
+import {
+  autognosticRoomFocus,
+  type AutognosticRoomFocusRow,
+} from "./schema";
+import { getDb } from "./getDb";
+
+export type FocusUnit = "line" | "sentence" | "paragraph";
+
+/** A passage as a character span of the document, plus the unit it was read in. */
+export interface FocusPosition {
+  unit: FocusUnit;
+  charStart: number;
+  charEnd: number;
+}
+
+export interface DocumentFocus {
+  url: string;
+  /** Last passage returned; null when the document was only added or named */
+  position: FocusPosition | null;
+  updatedAt: Date;
+}
+
+export class AutognosticRoomFocusRepository {
+  constructor(private runtime: IAgentRuntime) {}
+
+  private key(roomId: string): string {
+    return `${this.runtime.agentId}:${roomId}`;
+  }
+
+  async get(roomId: string): Promise<DocumentFocus | null> {
+    const db = await getDb(this.runtime);
+    const rows: AutognosticRoomFocusRow[] = await db
+      .select()
+      .from(autognosticRoomFocus)
+      .where(eq(autognosticRoomFocus.id, this.key(roomId)))
+      .limit(1);
+
+    const row = rows[0];
+    if (!row) return null;
+    const position = row.unit && row.charStart !== null && row.charEnd !== null
+      ? { unit: row.unit as FocusUnit, charStart: row.charStart, charEnd: row.charEnd }
+      : null;
+    return { url: row.url, position, updatedAt: row.updatedAt };
+  }
+
+  /** Focus the room on `url` at `position` (null: no passage read yet). */
+  async set(roomId: string, url: string, position: FocusPosition | null): Promise<void> {
+    const db = await getDb(this.runtime);
+    const id = this.key(roomId);
+    const values = {
+      url,
+      unit: position?.unit ?? null,
+      charStart: position?.charStart ?? null,
+      charEnd: position?.charEnd ?? null,
+      updatedAt: new Date(),
+    };
+    // Upsert: two messages in one room at once must not race to insert
+    await db
+      .insert(autognosticRoomFocus)
+      .values({ id, agentId: this.runtime.agentId, roomId, ...values })
+      .onConflictDoUpdate({ target: autognosticRoomFocus.id, set: values });
+  }
+
+  /** Unfocus every room on a document that no longer exists. */
+  async deleteByUrl(url: string): Promise<void> {
+    const db = await getDb(this.runtime);
+    if (!db.delete) {
+      throw new Error("Database adapter does not support delete operations");
+    }
+    await db
+      .delete(autognosticRoomFocus)
+      .where(eq(autognosticRoomFocus.url, url));
+  }
+}
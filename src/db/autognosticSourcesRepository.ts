@@ -1,11 +1,11 @@
 import type { IAgentRuntime } from "@elizaos/core";
-import { eq } from "drizzle-orm";
+import { and, eq, isNotNull, isNull, lte, or, sql } from "drizzle-orm";
 import {
   autognosticSources,
   type AutognosticSourceRow,
   type StaticDetectionMetadata,
 } from "./schema";
-import { getDb } from "./getDb";
+import { getDb, sqlInterval } from "./getDb";
 
 export class AutognosticSourcesRepository {
   constructor(private runtime: IAgentRuntime) {}
@@ -50,6 +50,37 @@ export class AutognosticSourcesRepository {
     return rows;
   }
 
+  /** Sources the sync health check switched off; they need a user's attention. */
+  async listAutoDisabled(): Promise<AutognosticSourceRow[]> {
+    const db = await getDb(this.runtime);
+    const rows: AutognosticSourceRow[] = await db
+      .select()
+      .from(autognosticSources)
+      .where(isNotNull(autognosticSources.autoDisabledAt));
+    return rows;
+  }
+
+  /**
+   * Enabled, tracked, non-static sources whose next sync time has passed
+   * (or was never computed) and that are not backing off after failures.
+   */
+  async listDue(now: Date): Promise<AutognosticSourceRow[]> {
+    const db = await getDb(this.runtime);
+    const rows: AutognosticSourceRow[] = await db
+      .select()
+      .from(autognosticSources)
+      .where(
+        and(
+          eq(autognosticSources.enabled, true),
+          eq(autognosticSources.versionTrackingEnabled, true),
+          eq(autognosticSources.isStaticContent, false),
+          or(isNull(autognosticSources.nextSyncAt), lte(autognosticSources.nextSyncAt, now)),
+          or(isNull(autognosticSources.nextAttemptAt), lte(autognosticSources.nextAttemptAt, now))
+        )
+      );
+    return rows;
+  }
+
   async updateVersionTracking(
     id: string,
     versionTrackingEnabled: boolean
@@ -89,4 +120,176 @@ export class AutognosticSourcesRepository {
       .set({ lastSyncAt, nextSyncAt, updatedAt: new Date() })
       .where(eq(autognosticSources.id, id));
   }
+
+  /** Set when the source should next sync without recording a sync. */
+  async setNextSyncAt(id: string, nextSyncAt: Date | null): Promise<void> {
+    const db = await getDb(this.runtime);
+    await db
+      .update(autognosticSources)
+      .set({ nextSyncAt })
+      .where(eq(autognosticSources.id, id));
+  }
+
+  /**
+   * Replace a source's sync schedule; null cron and interval fall back to
+   * the sync_config cron. `nextSyncAt` is computed by the caller from the
+   * new schedule.
+   */
+  async setSchedule(
+    id: string,
+    schedule: {
+      syncCron: string | null;
+      syncIntervalMinutes: number | null;
+      syncJitterMinutes: number | null;
+    },
+    nextSyncAt: Date | null
+  ): Promise<void> {
+    const db = await getDb(this.runtime);
+    await db
+      .update(autognosticSources)
+      .set({ ...schedule, nextSyncAt, updatedAt: new Date() })
+      .where(eq(autognosticSources.id, id));
+  }
+
+  /**
+   * Pin a source to `versionId`, or unpin it with null. Either way the
+   * recorded upstream version is cleared; the next sync records it afresh.
+   */
+  async setPin(id: string, versionId: string | null): Promise<void> {
+    const db = await getDb(this.runtime);
+    const now = new Date();
+    await db
+      .update(autognosticSources)
+      .set({
+        pinnedVersionId: versionId,
+        pinnedAt: versionId ? now : null,
+        upstreamVersionId: null,
+        upstreamSeenAt: null,
+        updatedAt: now,
+      })
+      .where(eq(autognosticSources.id, id));
+  }
+
+  /** Record the upstream version a sync found while the source was pinned. */
+  async recordUpstreamVersion(id: string, versionId: string | null): Promise<void> {
+    const db = await getDb(this.runtime);
+    await db
+      .update(autognosticSources)
+      .set({ upstreamVersionId: versionId, upstreamSeenAt: versionId ? new Date() : null })
+      .where(eq(autognosticSources.id, id));
+  }
+
+  /** Clear the failure streak after a good sync, re-enabling an auto-disabled source. */
+  async recordSyncSuccess(id: string): Promise<void> {
+    const db = await getDb(this.runtime);
+    const now = new Date();
+    await db
+      .update(autognosticSources)
+      .set({
+        consecutiveFailures: 0,
+        lastErrorCode: null,
+        lastError: null,
+        lastSuccessAt: now,
+        nextAttemptAt: null,
+        enabled: sql`${autognosticSources.enabled} OR ${autognosticSources.autoDisabledAt} IS NOT NULL`,
+        autoDisabledAt: null,
+        updatedAt: now,
+      })
+      .where(eq(autognosticSources.id, id));
+  }
+
+  /** Record a failed sync, when to try next, and whether to disable the source. */
+  async recordSyncFailure(
+    id: string,
+    failure: {
+      consecutiveFailures: number;
+      code: string | null;
+      message: string;
+      nextAttemptAt: Date;
+      disable: boolean;
+    }
+  ): Promise<void> {
+    const db = await getDb(this.runtime);
+    const now = new Date();
+    await db
+      .update(autognosticSources)
+      .set({
+        consecutiveFailures: failure.consecutiveFailures,
+        lastErrorCode: failure.code,
+        lastError: failure.message,
+        lastFailureAt: now,
+        nextAttemptAt: failure.nextAttemptAt,
+        ...(failure.disable ? { enabled: false, autoDisabledAt: now } : {}),
+        updatedAt: now,
+      })
+      .where(eq(autognosticSources.id, id));
+  }
+
+  /**
+   * Claim the reconcile lease for a source. The claim is a single conditional
+   * UPDATE timed by the database clock, so concurrent processes on Postgres
+   * or PGlite can't both win, and a lease left behind by a crashed holder is
+   * reclaimable once it expires. With `cooldownMs`, a source reconciled more
+   * recently than that is refused as well.
+   */
+  async tryAcquireLease(
+    id: string,
+    holder: string,
+    ttlMs: number,
+    cooldownMs = 0
+  ): Promise<boolean> {
+    const db = await getDb(this.runtime);
+    const conditions = [
+      eq(autognosticSources.id, id),
+      or(
+        isNull(autognosticSources.leaseExpiresAt),
+        lte(autognosticSources.leaseExpiresAt, sql`now()`)
+      ),
+    ];
+    if (cooldownMs > 0) {
+      conditions.push(
+        or(
+          isNull(autognosticSources.lastReconciledAt),
+          lte(autognosticSources.lastReconciledAt, sql`now() - ${sqlInterval(cooldownMs)}::interval`)
+        )
+      );
+    }
+
+    const rows: Array<{ id: string }> = await db
+      .update(autognosticSources)
+      .set({
+        leaseHolder: holder,
+        leaseExpiresAt: sql`now() + ${sqlInterval(ttlMs)}::interval`,
+      })
+      .where(and(...conditions))
+      .returning({ id: autognosticSources.id });
+    return rows.length > 0;
+  }
+
+  /** Push a held lease's expiry out; false if `holder` no longer owns it. */
+  async renewLease(id: string, holder: string, ttlMs: number): Promise<boolean> {
+    const db = await getDb(this.runtime);
+    const rows: Array<{ id: string }> = await db
+      .update(autognosticSources)
+      .set({ leaseExpiresAt: sql`now() + ${sqlInterval(ttlMs)}::interval` })
+      .where(and(eq(autognosticSources.id, id), eq(autognosticSources.leaseHolder, holder)))
+      .returning({ id: autognosticSources.id });
+    return rows.length > 0;
+  }
+
+  /**
+   * Drop a held lease. After a `completed` reconcile the cooldown starts from
+   * now; a failed, cancelled or rolled-back run leaves it where it was.
+   */
+  async releaseLease(id: string, holder: string, completed = false): Promise<void> {
+    const db = await getDb(this.runtime);
+    await db
+      .update(autognosticSources)
+      .set({
+        leaseHolder: null,
+        leaseExpiresAt: null,
+        ...(completed ? { lastReconciledAt: sql`now()` } : {}),
+      })
+      .where(and(eq(autognosticSources.id, id), eq(autognosticSources.leaseHolder, holder)));
+  }
 }
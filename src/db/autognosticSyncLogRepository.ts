@@ -0,0 +1,32 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { desc, sql } from "drizzle-orm";
+import { autognosticSyncLog, type AutognosticSyncLogRow } from "./schema";
+import { getDb } from "./getDb";
+
+/** Read side of sync_log; ScheduledSyncService writes the entries. */
+export class AutognosticSyncLogRepository {
+  constructor(private runtime: IAgentRuntime) {}
+
+  /** The most recent runs, newest first. */
+  async listRecent(limit: number): Promise<AutognosticSyncLogRow[]> {
+    const db = await getDb(this.runtime);
+    const rows: AutognosticSyncLogRow[] = await db
+      .select()
+      .from(autognosticSyncLog)
+      .orderBy(desc(autognosticSyncLog.startedAt))
+      .limit(limit);
+    return rows;
+  }
+
+  /** Recent runs that recorded an error for `sourceId`, newest first. */
+  async listWithSourceErrors(sourceId: string, limit: number): Promise<AutognosticSyncLogRow[]> {
+    const db = await getDb(this.runtime);
+    const rows: AutognosticSyncLogRow[] = await db
+      .select()
+      .from(autognosticSyncLog)
+      .where(sql`${autognosticSyncLog.errors} @> ${JSON.stringify([{ sourceId }])}::jsonb`)
+      .orderBy(desc(autognosticSyncLog.startedAt))
+      .limit(limit);
+    return rows;
+  }
+}
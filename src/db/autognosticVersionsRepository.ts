@@ -1,10 +1,14 @@
 import type { IAgentRuntime } from "@elizaos/core";
-import { and, desc, eq } from "drizzle-orm";
+import { and, desc, eq, isNull, lt, or } from "drizzle-orm";
 import {
+  autognosticDocumentVersions,
+  autognosticKnowledgeLink,
   autognosticVersions,
   type AutognosticVersionRow,
 } from "./schema";
-import { getDb } from "./getDb";
+import type { SourcePreview } from "../orchestrator/previewSource";
+import { getDb, type DrizzleDbLike } from "./getDb";
+import { deleteUnlinkedDocuments } from "./autognosticDocumentsRepository";
 
 export class AutognosticVersionsRepository {
   constructor(private runtime: IAgentRuntime) {}
@@ -26,7 +30,47 @@ export class AutognosticVersionsRepository {
     return rows[0] ?? null;
   }
 
-  async createStaging(sourceId: string, versionId: string): Promise<string> {
+  async getVersion(sourceId: string, versionId: string): Promise<AutognosticVersionRow | null> {
+    const db = await getDb(this.runtime);
+    const rows: AutognosticVersionRow[] = await db
+      .select()
+      .from(autognosticVersions)
+      .where(
+        and(
+          eq(autognosticVersions.sourceId, sourceId),
+          eq(autognosticVersions.versionId, versionId)
+        )
+      )
+      .limit(1);
+    return rows[0] ?? null;
+  }
+
+  /** Every version recorded for a source, newest first. */
+  async listBySource(sourceId: string): Promise<AutognosticVersionRow[]> {
+    const db = await getDb(this.runtime);
+    const rows: AutognosticVersionRow[] = await db
+      .select()
+      .from(autognosticVersions)
+      .where(eq(autognosticVersions.sourceId, sourceId))
+      .orderBy(desc(autognosticVersions.createdAt));
+    return rows;
+  }
+
+  /**
+   * Versions whose id is `idOrPrefix` or starts with it; an exact match
+   * comes back alone. Lets users refer to versions by their short form.
+   */
+  async findByPrefix(sourceId: string, idOrPrefix: string): Promise<AutognosticVersionRow[]> {
+    const versions = await this.listBySource(sourceId);
+    const exact = versions.filter((v) => v.versionId === idOrPrefix);
+    return exact.length ? exact : versions.filter((v) => v.versionId.startsWith(idOrPrefix));
+  }
+
+  async createStaging(
+    sourceId: string,
+    versionId: string,
+    preview?: SourcePreview
+  ): Promise<string> {
     const db = await getDb(this.runtime);
     const id = `${sourceId}:${versionId}`;
     const rows: AutognosticVersionRow[] = await db
@@ -41,17 +85,35 @@ export class AutognosticVersionsRepository {
         sourceId,
         versionId,
         status: "staging",
+        previewJson: preview ?? null,
       });
+    } else if (preview) {
+      await db
+        .update(autognosticVersions)
+        .set({ previewJson: preview })
+        .where(eq(autognosticVersions.id, id));
     }
     return id;
   }
 
+  async updatePreview(
+    sourceId: string,
+    versionId: string,
+    preview: SourcePreview
+  ): Promise<void> {
+    const db = await getDb(this.runtime);
+    await db
+      .update(autognosticVersions)
+      .set({ previewJson: preview })
+      .where(eq(autognosticVersions.id, `${sourceId}:${versionId}`));
+  }
+
   async markActive(sourceId: string, versionId: string): Promise<void> {
     const db = await getDb(this.runtime);
     const now = new Date();
     await db
       .update(autognosticVersions)
-      .set({ status: "archived" })
+      .set({ status: "archived", archivedAt: now })
       .where(
         and(
           eq(autognosticVersions.sourceId, sourceId),
@@ -61,7 +123,7 @@ export class AutognosticVersionsRepository {
 
     await db
       .update(autognosticVersions)
-      .set({ status: "active", activatedAt: now })
+      .set({ status: "active", activatedAt: now, archivedAt: null })
       .where(
         and(
           eq(autognosticVersions.sourceId, sourceId),
@@ -70,6 +132,66 @@ export class AutognosticVersionsRepository {
       );
   }
 
+  /**
+   * Make a staged or archived version active with exactly `links` as its
+   * knowledge links. The current version is archived, the target's links are
+   * replaced and the target activated in one transaction, so readers see
+   * either the old version with its links or the new one with its own.
+   */
+  async activateWithLinks(
+    sourceId: string,
+    versionId: string,
+    links: Array<{ knowledgeDocumentId: string; url: string | null }>
+  ): Promise<void> {
+    const db = await getDb(this.runtime);
+    const now = new Date();
+    const apply = async (tx: DrizzleDbLike) => {
+      await tx
+        .update(autognosticVersions)
+        .set({ status: "archived", archivedAt: now })
+        .where(
+          and(
+            eq(autognosticVersions.sourceId, sourceId),
+            eq(autognosticVersions.status, "active")
+          )
+        );
+      if (tx.delete) {
+        await tx
+          .delete(autognosticKnowledgeLink)
+          .where(
+            and(
+              eq(autognosticKnowledgeLink.sourceId, sourceId),
+              eq(autognosticKnowledgeLink.versionId, versionId)
+            )
+          );
+      }
+      const rows = [...new Map(links.map((l) => [l.knowledgeDocumentId, l])).values()].map((l) => ({
+        id: `${sourceId}:${versionId}:${l.knowledgeDocumentId}`,
+        sourceId,
+        versionId,
+        knowledgeDocumentId: l.knowledgeDocumentId,
+        url: l.url,
+      }));
+      if (rows.length) await tx.insert(autognosticKnowledgeLink).values(rows);
+      await tx
+        .update(autognosticVersions)
+        .set({ status: "active", activatedAt: now, archivedAt: null })
+        .where(
+          and(
+            eq(autognosticVersions.sourceId, sourceId),
+            eq(autognosticVersions.versionId, versionId)
+          )
+        );
+    };
+
+    // Adapters without transactions (e.g. minimal test doubles) apply in order
+    if (db.transaction) {
+      await db.transaction(apply);
+    } else {
+      await apply(db);
+    }
+  }
+
   async markFailed(sourceId: string, versionId: string, reason: string): Promise<void> {
     const db = await getDb(this.runtime);
     const now = new Date();
@@ -88,16 +210,53 @@ export class AutognosticVersionsRepository {
       );
   }
 
-  async deleteArchivedBySource(sourceId: string): Promise<void> {
+  /**
+   * Archived versions that left service before `cutoff`. Versions archived
+   * before archive times were recorded have no `archivedAt` and always qualify.
+   */
+  async listArchivedBefore(sourceId: string, cutoff: Date): Promise<AutognosticVersionRow[]> {
     const db = await getDb(this.runtime);
-    if (!db.delete) return;
-    await db
-      .delete(autognosticVersions)
+    const rows: AutognosticVersionRow[] = await db
+      .select()
+      .from(autognosticVersions)
       .where(
         and(
           eq(autognosticVersions.sourceId, sourceId),
-          eq(autognosticVersions.status, "archived")
+          eq(autognosticVersions.status, "archived"),
+          or(isNull(autognosticVersions.archivedAt), lt(autognosticVersions.archivedAt, cutoff))
+        )
+      );
+    return rows;
+  }
+
+  /**
+   * Delete a version along with its knowledge links and the stored documents
+   * only it served, in one transaction so no link or document outlives its
+   * version row.
+   */
+  async deleteVersion(sourceId: string, versionId: string): Promise<void> {
+    const db = await getDb(this.runtime);
+    if (!db.delete) return;
+    const apply = async (tx: DrizzleDbLike) => {
+      await tx.delete!(autognosticDocumentVersions).where(
+        and(
+          eq(autognosticDocumentVersions.sourceId, sourceId),
+          eq(autognosticDocumentVersions.versionId, versionId)
         )
       );
+      await deleteUnlinkedDocuments(tx, sourceId);
+      await tx.delete!(autognosticKnowledgeLink).where(
+        and(eq(autognosticKnowledgeLink.sourceId, sourceId), eq(autognosticKnowledgeLink.versionId, versionId))
+      );
+      await tx.delete!(autognosticVersions).where(
+        and(eq(autognosticVersions.sourceId, sourceId), eq(autognosticVersions.versionId, versionId))
+      );
+    };
+
+    if (db.transaction) {
+      await db.transaction(apply);
+    } else {
+      await apply(db);
+    }
   }
 }
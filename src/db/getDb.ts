@@ -13,6 +13,7 @@ export type DrizzleDbLike = {
   insert: (...args: unknown[]) => any;
   update: (...args: unknown[]) => any;
   delete?: (...args: unknown[]) => any;
+  transaction?: <T>(fn: (tx: DrizzleDbLike) => Promise<T>) => Promise<T>;
 };
 /* eslint-enable @typescript-eslint/no-explicit-any */
 
@@ -122,6 +123,11 @@ async function tryResolveDb(runtime: IAgentRuntime): Promise<DrizzleDbLike | nul
   return null;
 }
 
+/** Postgres interval literal for a millisecond span, bound as a parameter. */
+export function sqlInterval(ms: number): string {
+  return `${Math.max(0, Math.round(ms))} milliseconds`;
+}
+
 /**
  * Get database handle from runtime with retry/polling for async initialization.
  * Caches the result per runtime for subsequent calls.
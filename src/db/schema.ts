@@ -9,6 +9,7 @@ import {
   index,
   real,
 } from "drizzle-orm/pg-core";
+import { sql, type AnyColumn, type SQL } from "drizzle-orm";
 
 // Create dedicated schema for plugin isolation
 const autognostic = pgSchema("autognostic");
@@ -55,6 +56,27 @@ export const autognosticSources = autognostic.table("sources", {
   staticDetectionMetadata: jsonb("static_detection_metadata").$type<StaticDetectionMetadata | null>(),
   lastSyncAt: timestamp("last_sync_at", { withTimezone: true }),
   nextSyncAt: timestamp("next_sync_at", { withTimezone: true }),
+  // Reconcile lease: one holder at a time across processes; expires if the holder dies
+  leaseHolder: text("lease_holder"),
+  leaseExpiresAt: timestamp("lease_expires_at", { withTimezone: true }),
+  lastReconciledAt: timestamp("last_reconciled_at", { withTimezone: true }),
+  // Pin: scheduled syncs keep this version and only record what upstream moved to
+  pinnedVersionId: text("pinned_version_id"),
+  pinnedAt: timestamp("pinned_at", { withTimezone: true }),
+  upstreamVersionId: text("upstream_version_id"),
+  upstreamSeenAt: timestamp("upstream_seen_at", { withTimezone: true }),
+  // Sync health: failures back off exponentially and eventually disable the source
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  lastErrorCode: text("last_error_code"),
+  lastError: text("last_error"),
+  lastFailureAt: timestamp("last_failure_at", { withTimezone: true }),
+  lastSuccessAt: timestamp("last_success_at", { withTimezone: true }),
+  nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }),
+  autoDisabledAt: timestamp("auto_disabled_at", { withTimezone: true }),
+  // Own sync schedule (cron or interval); null for both means the sync_config cron
+  syncCron: text("sync_cron"),
+  syncIntervalMinutes: integer("sync_interval_minutes"),
+  syncJitterMinutes: integer("sync_jitter_minutes"),
 });
 export type AutognosticSourceRow = typeof autognosticSources.$inferSelect;
 
@@ -67,8 +89,11 @@ export const autognosticVersions = autognostic.table("versions", {
   status: text("status").notNull(), // 'staging' | 'active' | 'archived' | 'failed'
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   activatedAt: timestamp("activated_at", { withTimezone: true }),
+  archivedAt: timestamp("archived_at", { withTimezone: true }), // when a newer version replaced it
   failedAt: timestamp("failed_at", { withTimezone: true }),
   failureReason: text("failure_reason"),
+  // Preview this version was built from; diffed against on the next reconcile
+  previewJson: jsonb("preview_json"),
 }, (table) => ({
   sourceStatusIdx: index("autognostic_versions_source_status_idx").on(table.sourceId, table.status),
 }));
@@ -81,11 +106,22 @@ export const autognosticKnowledgeLink = autognostic.table("knowledge_link", {
     .references(() => autognosticSources.id, { onDelete: "cascade" }),
   versionId: text("version_id").notNull(),
   knowledgeDocumentId: text("knowledge_document_id").notNull(),
+  url: text("url"), // file URL that produced the knowledge doc (null for legacy links)
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
 });
 export type AutognosticKnowledgeLinkRow =
   typeof autognosticKnowledgeLink.$inferSelect;
 
+/**
+ * Full-text search vector of a stored document: its title plus the first
+ * 500k characters of content, since a tsvector is capped at 1 MB. The GIN
+ * index and SEARCH_DOCUMENTS must share this expression for the index to
+ * be used.
+ */
+export function documentSearchVector(doc: { title: AnyColumn; content: AnyColumn }): SQL {
+  return sql`to_tsvector('english', coalesce(${doc.title}, '') || ' ' || left(${doc.content}, 500000))`;
+}
+
 export const autognosticDocuments = autognostic.table("documents", {
   id: uuid("id").defaultRandom().primaryKey(),
   sourceId: text("source_id").notNull(),
@@ -97,13 +133,71 @@ export const autognosticDocuments = autognostic.table("documents", {
   byteSize: integer("byte_size"),
   profile: jsonb("profile").$type<import("../services/DocumentAnalyzer.types").DocumentProfile | null>(),
   oaStatus: text("oa_status"), // null = not a paper / not checked; "gold"|"green"|"bronze"|"hybrid"|"closed"|"unknown"
+  title: text("title"), // llms.txt link title, else the page's own title
+  section: text("section"), // llms.txt H2 section the link was listed under
+  etag: text("etag"), // validators from the fetch that produced this content
+  lastModified: text("last_modified"),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
 }, (table) => ({
   urlIdx: index("autognostic_documents_url_idx").on(table.url),
   sourceVersionIdx: index("autognostic_documents_source_version_idx").on(table.sourceId, table.versionId),
+  searchIdx: index("autognostic_documents_search_idx").using("gin", documentSearchVector(table)),
 }));
 export type AutognosticDocumentsRow = typeof autognosticDocuments.$inferSelect;
 
+/**
+ * Versions that serve a stored document. A file unchanged between versions
+ * keeps its one documents row (source_id/version_id there name the version
+ * that fetched it) and each later version links to it, so content and
+ * profile are stored once rather than copied per version.
+ */
+export const autognosticDocumentVersions = autognostic.table("document_versions", {
+  id: text("id").primaryKey(), // `${sourceId}:${versionId}:${documentId}`
+  documentId: uuid("document_id")
+    .notNull()
+    .references(() => autognosticDocuments.id, { onDelete: "cascade" }),
+  sourceId: text("source_id").notNull(),
+  versionId: text("version_id").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  documentIdx: index("autognostic_document_versions_document_idx").on(table.documentId),
+  sourceVersionIdx: index("autognostic_document_versions_source_version_idx").on(table.sourceId, table.versionId),
+}));
+export type AutognosticDocumentVersionRow = typeof autognosticDocumentVersions.$inferSelect;
+
+/**
+ * Names users gave documents ("the attention paper"). Keyed by URL rather
+ * than document id so an alias survives new versions of the document.
+ */
+export const autognosticDocumentAliases = autognostic.table("document_aliases", {
+  alias: text("alias").primaryKey(), // normalized: folded, lowercased, punctuation as single spaces
+  url: text("url").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  urlIdx: index("autognostic_document_aliases_url_idx").on(table.url),
+}));
+export type AutognosticDocumentAliasRow = typeof autognosticDocumentAliases.$inferSelect;
+
+/**
+ * The document a conversation is about, per agent and room: the one last
+ * added, quoted or named there, and the passage last returned from it so
+ * "the next paragraph" continues from the right place.
+ */
+export const autognosticRoomFocus = autognostic.table("room_focus", {
+  id: text("id").primaryKey(), // `${agentId}:${roomId}`
+  agentId: text("agent_id").notNull(),
+  roomId: text("room_id").notNull(),
+  url: text("url").notNull(),
+  // Last passage returned, as a character span; null until something is quoted
+  unit: text("unit"), // 'line' | 'sentence' | 'paragraph'
+  charStart: integer("char_start"),
+  charEnd: integer("char_end"),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  urlIdx: index("autognostic_room_focus_url_idx").on(table.url),
+}));
+export type AutognosticRoomFocusRow = typeof autognosticRoomFocus.$inferSelect;
+
 // ============================================================================
 // SCIENTIFIC PAPER CLASSIFICATION TABLES
 // ============================================================================
@@ -191,6 +285,57 @@ export const autognosticControlledVocab = autognostic.table("controlled_vocab",
 }));
 export type AutognosticControlledVocabRow = typeof autognosticControlledVocab.$inferSelect;
 
+// ============================================================================
+// JOB QUEUE
+// ============================================================================
+
+/**
+ * Mirrors, refreshes and scheduled syncs run as jobs so a run cut short by
+ * a restart is picked up again instead of leaving its staging version behind.
+ */
+export const autognosticJobs = autognostic.table("jobs", {
+  id: text("id").primaryKey(),
+  kind: text("kind").notNull(), // 'mirror' | 'refresh' | 'sync'
+  sourceId: text("source_id").notNull(),
+  status: text("status").notNull(), // 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+  payload: jsonb("payload").$type<JobPayload>().notNull(),
+  result: jsonb("result"),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  // Lease: the worker running the job renews it; an expired lease means the worker died
+  leaseHolder: text("lease_holder"),
+  leaseExpiresAt: timestamp("lease_expires_at", { withTimezone: true }),
+  runAfter: timestamp("run_after", { withTimezone: true }),
+  // Progress through the staged version's files
+  versionId: text("version_id"),
+  itemsTotal: integer("items_total").notNull().default(0),
+  itemsDone: integer("items_done").notNull().default(0),
+  itemsFailed: integer("items_failed").notNull().default(0),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  startedAt: timestamp("started_at", { withTimezone: true }),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+  finishedAt: timestamp("finished_at", { withTimezone: true }),
+}, (table) => ({
+  statusIdx: index("autognostic_jobs_status_idx").on(table.status),
+  sourceIdx: index("autognostic_jobs_source_idx").on(table.sourceId),
+}));
+export type AutognosticJobRow = typeof autognosticJobs.$inferSelect;
+
+/** Files a job has ingested into its staged version, reused when it resumes */
+export const autognosticJobItems = autognostic.table("job_items", {
+  id: text("id").primaryKey(), // `${jobId}:${url}`
+  jobId: text("job_id")
+    .notNull()
+    .references(() => autognosticJobs.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  knowledgeDocumentId: text("knowledge_document_id").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  jobIdx: index("autognostic_job_items_job_idx").on(table.jobId),
+}));
+export type AutognosticJobItemRow = typeof autognosticJobItems.$inferSelect;
+
 // ============================================================================
 // SYNC TABLES
 // ============================================================================
@@ -215,14 +360,31 @@ export const autognosticSyncLog = autognostic.table("sync_log", {
   sourcesSkipped: integer("sources_skipped").default(0),
   documentsAdded: integer("documents_added").default(0),
   documentsRemoved: integer("documents_removed").default(0),
-  errors: jsonb("errors"),
+  errors: jsonb("errors").$type<SyncLogError[] | null>(),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow(),
 });
+export type AutognosticSyncLogRow = typeof autognosticSyncLog.$inferSelect;
+
+/** One entry in sync_log.errors; sourceId is absent for a run-level failure */
+export interface SyncLogError {
+  sourceId?: string;
+  error: string;
+}
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
+export type JobKind = "mirror" | "refresh" | "sync";
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+/** What a job needs to run again after a restart */
+export interface JobPayload {
+  sourceUrl: string;
+  /** Explicit user requests skip the reconcile cooldown and sync backoff */
+  ignoreCooldown?: boolean;
+}
+
 /** Static detection metadata (for version tracking decisions) */
 export interface StaticDetectionMetadata {
   detectedAt: string;
@@ -16,6 +16,7 @@ export enum ErrorCode {
   CROSSREF_API_ERROR = 2010,
   CROSSREF_NOT_FOUND = 2011,
   HTTP_FETCH_FAILED = 2020,
+  HTTP_ROBOTS_DISALLOWED = 2021,
 
   // Database errors (3xxx)
   DB_CONNECTION_FAILED = 3001,
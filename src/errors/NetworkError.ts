@@ -52,6 +52,17 @@ export class AutognosticNetworkError extends AutognosticError {
     );
   }
 
+  static robotsDisallowed(url: string, context: Partial<ErrorContext> = {}) {
+    let endpoint = url;
+    try { endpoint = new URL(url).origin; } catch { /* keep raw URL */ }
+    return new AutognosticNetworkError(
+      `robots.txt for ${endpoint} disallows fetching ${url}`,
+      ErrorCode.HTTP_ROBOTS_DISALLOWED,
+      { ...context, url, endpoint },
+      { isRetryable: false }
+    );
+  }
+
   static crossrefError(doi: string, cause?: Error, context: Partial<ErrorContext> = {}) {
     return new AutognosticNetworkError(
       `Crossref API error for DOI ${doi}`,
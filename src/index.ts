@@ -13,10 +13,20 @@ import { SetAutognosticSizePolicyAction } from "./actions/setAutognosticSizePoli
 import { ListSourcesAction } from "./actions/listSourcesAction";
 import { RemoveSourceAction } from "./actions/removeSourceAction";
 import { GetQuoteAction } from "./actions/getQuoteAction";
+import { DocumentDiffAction } from "./actions/documentDiffAction";
 import { ListDocumentsAction } from "./actions/listDocumentsAction";
 import { RemoveDocumentAction } from "./actions/removeDocumentAction";
 import { SetVersionTrackingAction } from "./actions/setVersionTrackingAction";
 import { RefreshSourceAction } from "./actions/refreshSourceAction";
+import { ListSourceVersionsAction } from "./actions/listSourceVersionsAction";
+import { RollbackSourceAction } from "./actions/rollbackSourceAction";
+import { PinSourceAction } from "./actions/pinSourceAction";
+import { SetSourceScheduleAction } from "./actions/setSourceScheduleAction";
+import { SyncStatusAction } from "./actions/syncStatusAction";
+import { CancelMirrorAction } from "./actions/cancelMirrorAction";
+import { PreviewSourceAction } from "./actions/previewSourceAction";
+import { SearchDocumentsAction } from "./actions/searchDocumentsAction";
+import { SetDocumentAliasAction } from "./actions/setDocumentAliasAction";
 import { FindRelatedPapersAction } from "./actions/findRelatedPapersAction";
 import { SearchPapersAction } from "./actions/searchPapersAction";
 
@@ -79,11 +89,21 @@ export const autognosticPlugin: Plugin = {
     ListSourcesAction,
     ListDocumentsAction,
     GetQuoteAction,
+    DocumentDiffAction,
     RemoveSourceAction,
     RemoveDocumentAction,
     SetAutognosticSizePolicyAction,
     SetVersionTrackingAction,
     RefreshSourceAction,
+    ListSourceVersionsAction,
+    RollbackSourceAction,
+    PinSourceAction,
+    SetSourceScheduleAction,
+    SyncStatusAction,
+    CancelMirrorAction,
+    PreviewSourceAction,
+    SearchDocumentsAction,
+    SetDocumentAliasAction,
     FindRelatedPapersAction,
     SearchPapersAction,
   ],
@@ -104,8 +124,42 @@ export default autognosticPlugin;
 // ============================================================================
 
 export { removeFromKnowledge, removeDocumentByUrl } from "./integration/removeFromKnowledge";
-export { getScheduledSyncService } from "./services/ScheduledSyncService";
+export {
+  getScheduledSyncService,
+  type SchedulerStatus,
+  type SyncRunProgress,
+} from "./services/ScheduledSyncService";
+export {
+  getJobQueueService,
+  describeProgress,
+  type JobProgress,
+  type JobProgressListener,
+} from "./services/JobQueueService";
+export {
+  getSyncStatus,
+  getSourceSyncStatus,
+  type SyncStatusReport,
+  type SyncRunSummary,
+  type SourceSyncStatus,
+  type SourceSyncReport,
+} from "./integration/syncStatus";
 export { getExactQuote, getExactQuoteAll } from "./integration/getExactQuote";
+export { verifyQuote, type QuoteVerification } from "./integration/verifyQuote";
+export { fuzzySearch, type FuzzyMatch } from "./integration/fuzzySearch";
+export {
+  resolveDocument,
+  matchDocuments,
+  type DocumentResolution,
+  type DocumentCandidate,
+} from "./integration/resolveDocument";
+export { getRoomFocus, rememberFocus } from "./integration/roomFocus";
+export type { DocumentFocus, FocusPosition, FocusUnit } from "./db/autognosticRoomFocusRepository";
+export {
+  searchDocuments,
+  type DocumentSearchResult,
+  type DocumentSearchHit,
+  type SearchSnippet,
+} from "./integration/searchDocuments";
 
 // Scientific paper detection & classification
 export { 
@@ -154,6 +208,9 @@ export type {
   ResearchFocus,
   ClassificationEvidence,
   PaperMetadata,
+  AutognosticJobRow,
+  JobKind,
+  JobStatus,
 } from "./db/schema";
 
 export type {
@@ -0,0 +1,171 @@
+/**
+ * Typo-tolerant search within one document, sentence by sentence.
+ * Pure function — no DB access; caller provides content and profile.
+ *
+ * Each sentence is tried three ways, best first:
+ * - exact: the query as a case-insensitive substring
+ * - normalized: the query after folding (ligatures, hyphenation, quote
+ *   marks, whitespace; see foldText), or with spaces and punctuation
+ *   dropped so merged and split words line up
+ * - fuzzy: part of the sentence within a bounded edit distance of the
+ *   query. Sentences sharing few of the query's trigrams are skipped first.
+ */
+
+import type { DocumentProfile } from "../services/DocumentAnalyzer.types";
+import { FUZZY_SEARCH_DEFAULTS } from "../config/constants";
+import { compactText, foldText, originalRange, type FoldedText } from "../utils/foldText";
+
+export interface FuzzyMatch {
+  kind: "exact" | "normalized" | "fuzzy";
+  /** 1 for exact and normalized matches, else 1 - edits / query length */
+  score: number;
+  edits: number;
+  /** The matched passage, verbatim from the document */
+  quote: string;
+  charPosition: number;
+  lineNumber: number;
+  /** 1-based */
+  sentenceNumber: number;
+  sentence: string;
+}
+
+const KIND_RANK: Record<FuzzyMatch["kind"], number> = { exact: 0, normalized: 1, fuzzy: 2 };
+
+function trigrams(s: string): Set<string> {
+  const out = new Set<string>();
+  if (s.length < 3) {
+    if (s) out.add(s);
+    return out;
+  }
+  for (let i = 0; i + 3 <= s.length; i++) out.add(s.slice(i, i + 3));
+  return out;
+}
+
+/**
+ * Substring of `text` with the fewest edits against `query` (approximate
+ * substring matching, O(query × text)); earliest wins ties.
+ */
+function closestSubstring(text: string, query: string): { from: number; to: number; edits: number } {
+  const m = query.length;
+  let col = Int32Array.from({ length: m + 1 }, (_, i) => i);
+  let starts = new Int32Array(m + 1);
+  let next = new Int32Array(m + 1);
+  let nextStarts = new Int32Array(m + 1);
+  let best = { from: 0, to: 0, edits: m };
+
+  for (let j = 1; j <= text.length; j++) {
+    next[0] = 0;
+    nextStarts[0] = j;
+    for (let i = 1; i <= m; i++) {
+      const substitute = col[i - 1] + (query[i - 1] === text[j - 1] ? 0 : 1);
+      const skipText = col[i] + 1;
+      const skipQuery = next[i - 1] + 1;
+      if (substitute <= skipText && substitute <= skipQuery) {
+        next[i] = substitute;
+        nextStarts[i] = starts[i - 1];
+      } else if (skipText <= skipQuery) {
+        next[i] = skipText;
+        nextStarts[i] = starts[i];
+      } else {
+        next[i] = skipQuery;
+        nextStarts[i] = nextStarts[i - 1];
+      }
+    }
+    [col, next] = [next, col];
+    [starts, nextStarts] = [nextStarts, starts];
+    if (col[m] < best.edits) best = { from: starts[m], to: j, edits: col[m] };
+  }
+  return best;
+}
+
+/** 1-based line holding character `pos` */
+function lineAt(profile: DocumentProfile, pos: number): number {
+  let lo = 0, hi = profile.lines.length - 1, found = 0;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (profile.lines[mid].start <= pos) {
+      found = mid;
+      lo = mid + 1;
+    } else hi = mid - 1;
+  }
+  return found + 1;
+}
+
+/** Ranked sentence-level matches for `query`: exact first, then normalized, then fuzzy by score. */
+export function fuzzySearch(
+  content: string,
+  profile: DocumentProfile,
+  query: string,
+  opts: { limit?: number } = {}
+): FuzzyMatch[] {
+  const raw = query.trim().toLowerCase();
+  if (!raw) return [];
+  const foldedQuery = foldText(raw);
+  const folded = foldedQuery.text;
+  const compact = compactText(foldedQuery).text;
+  const canFuzz = compact.length >= FUZZY_SEARCH_DEFAULTS.MIN_QUERY_CHARS;
+  const queryGrams = trigrams(compact);
+
+  const matches: FuzzyMatch[] = [];
+  const push = (index: number, kind: FuzzyMatch["kind"], start: number, end: number, edits: number) => {
+    const s = profile.sentences[index];
+    matches.push({
+      kind,
+      score: kind === "fuzzy" ? 1 - edits / compact.length : 1,
+      edits,
+      quote: content.slice(s.start + start, s.start + end),
+      charPosition: s.start + start,
+      lineNumber: lineAt(profile, s.start + start),
+      sentenceNumber: index + 1,
+      sentence: s.text,
+    });
+  };
+
+  const candidates: Array<{ index: number; text: string; compact: FoldedText; overlap: number }> = [];
+  profile.sentences.forEach((s, index) => {
+    const text = content.slice(s.start, s.end);
+
+    const exactAt = text.toLowerCase().indexOf(raw);
+    if (exactAt !== -1) {
+      push(index, "exact", exactAt, exactAt + raw.length, 0);
+      return;
+    }
+
+    const sentenceFolded = foldText(text);
+    const foldedAt = folded ? sentenceFolded.text.indexOf(folded) : -1;
+    if (foldedAt !== -1) {
+      push(index, "normalized", ...originalRange(text, sentenceFolded, foldedAt, foldedAt + folded.length), 0);
+      return;
+    }
+    const sentenceCompact = compactText(sentenceFolded);
+    const compactAt = compact ? sentenceCompact.text.indexOf(compact) : -1;
+    if (compactAt !== -1) {
+      push(index, "normalized", ...originalRange(text, sentenceCompact, compactAt, compactAt + compact.length), 0);
+      return;
+    }
+
+    if (!canFuzz) return;
+    const grams = trigrams(sentenceCompact.text);
+    let shared = 0;
+    for (const g of queryGrams) if (grams.has(g)) shared++;
+    const overlap = shared / queryGrams.size;
+    if (overlap >= FUZZY_SEARCH_DEFAULTS.MIN_TRIGRAM_OVERLAP) {
+      candidates.push({ index, text, compact: sentenceCompact, overlap });
+    }
+  });
+
+  const maxEdits = Math.floor(compact.length * FUZZY_SEARCH_DEFAULTS.MAX_EDIT_RATIO);
+  const checked = candidates
+    .sort((a, b) => b.overlap - a.overlap)
+    .slice(0, FUZZY_SEARCH_DEFAULTS.MAX_CHECKED_SENTENCES);
+  for (const { index, text, compact: sentenceCompact } of checked) {
+    const best = closestSubstring(sentenceCompact.text, compact);
+    if (best.edits > maxEdits || best.to === best.from) continue;
+    push(index, "fuzzy", ...originalRange(text, sentenceCompact, best.from, best.to), best.edits);
+  }
+
+  return matches
+    .sort((a, b) =>
+      KIND_RANK[a.kind] - KIND_RANK[b.kind] || b.score - a.score || a.charPosition - b.charPosition)
+    .slice(0, opts.limit ?? FUZZY_SEARCH_DEFAULTS.MAX_RESULTS);
+}
@@ -5,6 +5,7 @@ import { ContentResolver } from "../services/ContentResolver";
 import { randomUUID, createHash } from "crypto";
 import { autognosticDocumentsRepository } from "../db/autognosticDocumentsRepository";
 import { analyzeDocument } from "../services/DocumentAnalyzer";
+import type { DocumentProfile } from "../services/DocumentAnalyzer.types";
 import { logger } from "../utils/logger";
 
 export interface MirrorDocParams {
@@ -16,12 +17,83 @@ export interface MirrorDocParams {
   worldId?: UUID;
   metadata?: Record<string, unknown>;
   oaStatus?: string;
+  /** Display title from discovery (e.g. llms.txt link text); falls back to the page title */
+  title?: string;
+  /** Discovery grouping, e.g. the llms.txt H2 section */
+  section?: string;
+  /** Aborts the page fetch, e.g. when the mirror it belongs to is cancelled */
+  signal?: AbortSignal;
+  /**
+   * Also store a copy under the URL the fetch was redirected to, in the same
+   * source and version. Off for reconciled sources: their versions hold
+   * exactly the discovered files, and a rollback re-adds every stored copy.
+   */
+  storeResolvedUrl?: boolean;
 }
 
+/** The copy of this URL already mirrored, used to skip unchanged re-ingests. */
+export interface PreviousMirror {
+  content: string;
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+export interface MirroredDoc {
+  unchanged?: false;
+  knowledgeDocumentId: string;
+  clientDocumentId: string;
+  worldId: UUID;
+}
+
+/**
+ * Stored verbatim but not yet in Knowledge (`deferKnowledge`); `metadata` is
+ * what to add it with via restoreDocToKnowledge.
+ */
+export interface DeferredDoc {
+  unchanged?: false;
+  deferred: true;
+  metadata: Record<string, unknown>;
+}
+
+export interface UnchangedDoc {
+  unchanged: true;
+  /** not_modified: server answered 304; same_content: normalized text hash matched */
+  reason: "not_modified" | "same_content";
+  /** Validators from this fetch, when the server sent new ones */
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Hash of text with whitespace runs collapsed, so reflowed or re-indented
+ * pages from servers without validators don't count as changed.
+ */
+export function normalizedContentHash(text: string): string {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * With `deferKnowledge` the copy is only stored (sourceId and versionId
+ * metadata required) and the caller adds it to Knowledge later, e.g. once
+ * every file of a staged version is in.
+ */
+export async function mirrorDocToKnowledge(
+  runtime: IAgentRuntime,
+  params: MirrorDocParams & { previous?: PreviousMirror; deferKnowledge: true }
+): Promise<DeferredDoc | UnchangedDoc>;
 export async function mirrorDocToKnowledge(
   runtime: IAgentRuntime,
   params: MirrorDocParams
-) {
+): Promise<MirroredDoc>;
+export async function mirrorDocToKnowledge(
+  runtime: IAgentRuntime,
+  params: MirrorDocParams & { previous?: PreviousMirror }
+): Promise<MirroredDoc | UnchangedDoc>;
+export async function mirrorDocToKnowledge(
+  runtime: IAgentRuntime,
+  params: MirrorDocParams & { previous?: PreviousMirror; deferKnowledge?: boolean }
+): Promise<MirroredDoc | DeferredDoc | UnchangedDoc> {
   const http =
     runtime.getService<HttpService>("http") ?? new HttpService(runtime);
   const resolver = new ContentResolver(http);
@@ -33,8 +105,23 @@ export async function mirrorDocToKnowledge(
     );
   }
 
+  // A deferred copy is added to Knowledge from the verbatim store, so it must be stored
+  if (params.deferKnowledge && !(params.metadata?.sourceId && params.metadata?.versionId)) {
+    throw new Error("deferKnowledge needs sourceId and versionId metadata to store the copy");
+  }
+
   // === CONTENT RESOLUTION (replaces all fetch/parse/PDF logic) ===
-  const resolved = await resolver.resolve(params.url);
+  // Revalidate against the previous copy when we have one
+  const previous = params.previous;
+  const resolved = await resolver.resolve(params.url, {
+    validators: previous
+      ? {
+          etag: previous.etag ?? undefined,
+          lastModified: previous.lastModified ?? undefined,
+        }
+      : undefined,
+    signal: params.signal,
+  });
 
   // Log diagnostics at debug level (visible with LOG_LEVEL=debug)
   const log = logger.child({ operation: "mirrorDocToKnowledge", url: params.url });
@@ -47,14 +134,36 @@ export async function mirrorDocToKnowledge(
     resolvedUrl: resolved.resolvedUrl,
   });
 
+  if (previous) {
+    if (resolved.notModified) {
+      log.info("Not modified since last mirror");
+      return { unchanged: true, reason: "not_modified", ...resolved.validators };
+    }
+    if (normalizedContentHash(resolved.text) === normalizedContentHash(previous.content)) {
+      log.info("Content unchanged since last mirror");
+      return { unchanged: true, reason: "same_content", ...resolved.validators };
+    }
+  }
+
+  const title = params.title || resolved.title || undefined;
+
   // === VERBATIM DOCUMENT STORAGE ===
   // Only store if caller provided sourceId + versionId
-  // (addUrlToKnowledgeAction does; ReconciliationService does NOT)
+  // (addUrlToKnowledgeAction and ReconciliationService both do)
   const sourceId = params.metadata?.sourceId as string | undefined;
   const versionId = params.metadata?.versionId as string | undefined;
   if (sourceId && versionId) {
     const contentHash = createHash("sha256").update(resolved.text).digest("hex");
 
+    // Compute structural profile for retrieval; stored on the same row so
+    // older versions of this URL keep their own profile
+    let profile: DocumentProfile | null = null;
+    try {
+      profile = analyzeDocument(resolved.text);
+    } catch (err) {
+      log.debug("Profile analysis failed (non-fatal)");
+    }
+
     // Store with original URL (what user likely mentions in conversation)
     await autognosticDocumentsRepository.store(runtime, {
       sourceId,
@@ -64,36 +173,101 @@ export async function mirrorDocToKnowledge(
       contentHash,
       mimeType: resolved.contentType,
       byteSize: Buffer.byteLength(resolved.text, "utf8"),
+      profile,
+      title: title ?? null,
+      section: params.section ?? null,
+      etag: resolved.validators?.etag ?? null,
+      lastModified: resolved.validators?.lastModified ?? null,
       ...(params.oaStatus ? { oaStatus: params.oaStatus } : {}),
     });
 
-    // Compute and store structural profile for retrieval
-    try {
-      const profile = analyzeDocument(resolved.text);
-      await autognosticDocumentsRepository.updateProfile(runtime, params.url, profile);
-    } catch (err) {
-      log.debug("Profile analysis failed (non-fatal)");
-    }
-
-    // Also store with resolved URL if different (for flexible lookup)
-    if (resolved.resolvedUrl !== params.url) {
+    // Also store with resolved URL if different (for flexible lookup); it
+    // shares the source and version so it is retired along with them
+    if (params.storeResolvedUrl && resolved.resolvedUrl !== params.url) {
       try {
         await autognosticDocumentsRepository.store(runtime, {
-          sourceId: randomUUID(),
+          sourceId,
           versionId,
           url: resolved.resolvedUrl,
           content: resolved.text,
           contentHash,
           mimeType: resolved.contentType,
           byteSize: Buffer.byteLength(resolved.text, "utf8"),
+          profile,
+          title: title ?? null,
+          section: params.section ?? null,
         });
-        const profile = analyzeDocument(resolved.text);
-        await autognosticDocumentsRepository.updateProfile(runtime, resolved.resolvedUrl, profile);
       } catch { /* duplicate key or non-fatal */ }
     }
   }
 
+  const metadata = {
+    sourceUrl: params.url,
+    rawUrl: resolved.resolvedUrl !== params.url ? resolved.resolvedUrl : undefined,
+    autognostic: true,
+    contentSource: resolved.source,
+    title,
+    section: params.section,
+    ...(params.metadata ?? {}),
+  };
+  if (params.deferKnowledge) {
+    return { deferred: true, metadata };
+  }
+
   // === PUSH TO KNOWLEDGE SERVICE ===
+  return pushToKnowledge(runtime, knowledge, params, {
+    contentType: resolved.contentType,
+    content: resolved.text,
+    metadata,
+  });
+}
+
+/** A verbatim copy already held in autognostic.documents. */
+export interface StoredDoc {
+  url: string;
+  content: string;
+  mimeType?: string | null;
+  title?: string | null;
+  section?: string | null;
+}
+
+/**
+ * Add a stored verbatim copy back to the KnowledgeService without fetching
+ * it again, e.g. when rolling a source back to a retained version. The
+ * verbatim store is left alone; the copy is already there.
+ */
+export async function restoreDocToKnowledge(
+  runtime: IAgentRuntime,
+  doc: StoredDoc,
+  params: Omit<MirrorDocParams, "url" | "title" | "section" | "contentType">
+): Promise<MirroredDoc> {
+  const knowledge = runtime.getService<KnowledgeService>("knowledge");
+  if (!knowledge) {
+    throw new Error(
+      "KnowledgeService not available. Make sure @elizaos/plugin-knowledge is registered."
+    );
+  }
+
+  return pushToKnowledge(runtime, knowledge, params, {
+    contentType: doc.mimeType ?? "text/markdown",
+    content: doc.content,
+    metadata: {
+      sourceUrl: doc.url,
+      autognostic: true,
+      contentSource: "restored",
+      title: doc.title ?? undefined,
+      section: doc.section ?? undefined,
+      ...(params.metadata ?? {}),
+    },
+  });
+}
+
+async function pushToKnowledge(
+  runtime: IAgentRuntime,
+  knowledge: KnowledgeService,
+  params: Pick<MirrorDocParams, "filename" | "roomId" | "entityId" | "worldId">,
+  doc: { contentType: string; content: string; metadata: Record<string, unknown> }
+): Promise<MirroredDoc> {
   const clientDocumentId = randomUUID();
   const worldId = params.worldId ?? runtime.agentId;
 
@@ -103,15 +277,9 @@ export async function mirrorDocToKnowledge(
     entityId: params.entityId,
     clientDocumentId,
     originalFilename: params.filename,
-    contentType: resolved.contentType,
-    content: resolved.text,
-    metadata: {
-      sourceUrl: params.url,
-      rawUrl: resolved.resolvedUrl !== params.url ? resolved.resolvedUrl : undefined,
-      autognostic: true,
-      contentSource: resolved.source,
-      ...(params.metadata ?? {}),
-    },
+    contentType: doc.contentType,
+    content: doc.content,
+    metadata: doc.metadata,
   });
 
   return {
@@ -2,6 +2,8 @@ import type { IAgentRuntime } from "@elizaos/core";
 import type { KnowledgeService } from "@elizaos/plugin-knowledge";
 import { AutognosticKnowledgeLinkRepository } from "../db/autognosticKnowledgeLinkRepository";
 import { AutognosticDocumentsRepository } from "../db/autognosticDocumentsRepository";
+import { AutognosticDocumentAliasesRepository } from "../db/autognosticDocumentAliasesRepository";
+import { AutognosticRoomFocusRepository } from "../db/autognosticRoomFocusRepository";
 
 /**
  * Remove knowledge documents from the semantic store (plugin-knowledge).
@@ -87,8 +89,10 @@ export async function removeDocumentByUrl(
     }
   }
 
-  // Remove from verbatim store
+  // Remove from verbatim store; aliases and room focus would otherwise name a missing document
   await docsRepo.deleteByUrl(url);
+  await new AutognosticDocumentAliasesRepository(runtime).deleteByUrl(url);
+  await new AutognosticRoomFocusRepository(runtime).deleteByUrl(url);
 
   console.log(`[autognostic] Removed document ${url} from both stores`);
   return { success: true };
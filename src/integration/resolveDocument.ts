@@ -0,0 +1,219 @@
+/**
+ * Work out which stored document a message refers to.
+ *
+ * A URL always wins. Otherwise the reference is matched against every
+ * current document's DOI, user-assigned aliases, filename, title and, for
+ * classified papers, the Crossref title and authors. One clear best match
+ * resolves; several close ones come back as candidates so the action can
+ * ask which was meant. When nothing is named, the room's focus (the
+ * document last added, quoted or named there) is used. Document-targeting
+ * actions all resolve through here so "the Vaswani paper" means the same
+ * document everywhere.
+ */
+
+import type { IAgentRuntime } from "@elizaos/core";
+import {
+  AutognosticDocumentsRepository,
+  type DocumentCatalogEntry,
+} from "../db/autognosticDocumentsRepository";
+import { AutognosticDocumentAliasesRepository } from "../db/autognosticDocumentAliasesRepository";
+import { DOCUMENT_RESOLVER_DEFAULTS } from "../config/constants";
+import { foldPhrase } from "../utils/foldText";
+import { queryTerms } from "./searchDocuments";
+import { getRoomFocus } from "./roomFocus";
+
+export type DocumentMatchField = "url" | "doi" | "alias" | "filename" | "title" | "author" | "focus";
+
+export interface DocumentCandidate {
+  url: string;
+  title: string | null;
+  sourceId: string;
+  authors: string[];
+  doi: string | null;
+  /** The strongest field the reference matched */
+  matchedOn: DocumentMatchField;
+  score: number;
+}
+
+export type DocumentResolution =
+  | { status: "resolved"; url: string; matchedOn: DocumentMatchField; candidate?: DocumentCandidate }
+  | { status: "ambiguous"; candidates: DocumentCandidate[] }
+  /** The reference names no stored document */
+  | { status: "none" };
+
+const URL_RE = /https?:\/\/[^\s<>"{}|\\^`[\]]+/i;
+const DOI_RE = /\b10\.\d{4,9}\/[^\s"<>]+/i;
+const EXTENSION_RE = /\.[a-z0-9]{1,5}$/i;
+
+/** First URL in `text`, without trailing sentence punctuation */
+export function extractUrl(text: string): string | null {
+  const match = text.match(URL_RE);
+  return match ? match[0].replace(/[.,;:!?)]+$/, "") : null;
+}
+
+function extractDoi(text: string): string | null {
+  const match = text.match(DOI_RE);
+  return match ? match[0].replace(/[.,;:)\]}>]+$/, "").toLowerCase() : null;
+}
+
+function fileName(url: string): string {
+  const path = url.replace(/[?#].*$/, "").replace(/\/+$/, "");
+  const segment = path.slice(path.lastIndexOf("/") + 1);
+  try {
+    return decodeURIComponent(segment).toLowerCase();
+  } catch {
+    return segment.toLowerCase();
+  }
+}
+
+interface Reference {
+  /** Lowercased reference text */
+  raw: string;
+  /** Folded to single-spaced words and padded with spaces, for phrase tests */
+  padded: string;
+  words: Set<string>;
+  doi: string | null;
+}
+
+function containsPhrase(ref: Reference, phrase: string): boolean {
+  return !!phrase && ref.padded.includes(` ${phrase} `);
+}
+
+/** Best score for one document and the field that earned it, or null */
+function scoreEntry(
+  entry: DocumentCatalogEntry,
+  aliases: string[],
+  ref: Reference
+): { score: number; matchedOn: DocumentMatchField } | null {
+  const meta = entry.paperMetadata;
+  const hits = new Map<DocumentMatchField, number>();
+  const hit = (field: DocumentMatchField, score: number) => {
+    if (score > (hits.get(field) ?? 0)) hits.set(field, score);
+  };
+
+  const doi = meta?.doi?.toLowerCase();
+  if (ref.doi && (doi === ref.doi || entry.url.toLowerCase().includes(ref.doi))) hit("doi", 1);
+
+  if (aliases.some((alias) => containsPhrase(ref, alias))) hit("alias", 1);
+
+  const file = fileName(entry.url);
+  if (EXTENSION_RE.test(file) && ref.raw.includes(file)) hit("filename", 0.9);
+  // A bare stem like "attention" is too common a word; require digits or several words
+  const stem = foldPhrase(file.replace(EXTENSION_RE, ""));
+  if (stem.length >= 4 && /[\d ]/.test(stem) && containsPhrase(ref, stem)) hit("filename", 0.7);
+
+  for (const title of [entry.title, meta?.title]) {
+    if (!title) continue;
+    const phrase = foldPhrase(title);
+    if (phrase.length >= 6 && containsPhrase(ref, phrase)) {
+      hit("title", 0.9);
+      continue;
+    }
+    const words = queryTerms(phrase);
+    if (words.length < 2) continue;
+    const overlap = words.filter((w) => ref.words.has(w)).length / words.length;
+    if (overlap >= DOCUMENT_RESOLVER_DEFAULTS.MIN_TITLE_OVERLAP) hit("title", 0.4 + 0.4 * overlap);
+  }
+
+  for (const author of meta?.authors ?? []) {
+    const surname = foldPhrase(author).split(" ").pop() ?? "";
+    if (surname.length >= 3 && ref.words.has(surname)) hit("author", 0.75);
+  }
+
+  if (hits.size === 0) return null;
+  const [matchedOn, best] = [...hits].reduce((a, b) => (b[1] > a[1] ? b : a));
+  let score = best;
+  // Agreeing evidence breaks ties: "Vaswani 2017", or an author plus title words
+  if (hits.size > 1) score += 0.05;
+  const year = meta?.publishedDate?.slice(0, 4);
+  if (year && ref.words.has(year)) score += 0.05;
+  return { score: Math.min(score, 1), matchedOn };
+}
+
+/**
+ * Stored documents a reference could mean, best first. Pure function — no
+ * DB access; `catalog` is newest first and only the newest copy of each
+ * URL is considered. `aliases` are stored (folded) aliases.
+ */
+export function matchDocuments(
+  catalog: DocumentCatalogEntry[],
+  aliases: Array<{ alias: string; url: string }>,
+  reference: string
+): DocumentCandidate[] {
+  const phrase = foldPhrase(reference);
+  const ref: Reference = {
+    raw: reference.toLowerCase(),
+    padded: ` ${phrase} `,
+    words: new Set(phrase.split(" ")),
+    doi: extractDoi(reference),
+  };
+
+  const aliasesByUrl = new Map<string, string[]>();
+  for (const a of aliases) aliasesByUrl.set(a.url, [...(aliasesByUrl.get(a.url) ?? []), a.alias]);
+
+  const seen = new Set<string>();
+  const candidates: DocumentCandidate[] = [];
+  for (const entry of catalog) {
+    if (seen.has(entry.url)) continue;
+    seen.add(entry.url);
+    const match = scoreEntry(entry, aliasesByUrl.get(entry.url) ?? [], ref);
+    if (!match || match.score < DOCUMENT_RESOLVER_DEFAULTS.MIN_SCORE) continue;
+    candidates.push({
+      url: entry.url,
+      title: entry.title ?? entry.paperMetadata?.title ?? null,
+      sourceId: entry.sourceId,
+      authors: entry.paperMetadata?.authors ?? [],
+      doi: entry.paperMetadata?.doi ?? null,
+      ...match,
+    });
+  }
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Resolve the document a message means. `url` (an explicit action
+ * parameter) wins, then a URL in the text, then the best stored match for
+ * `reference` (defaults to the message text), then the focus of `roomId`.
+ */
+export async function resolveDocument(
+  runtime: IAgentRuntime,
+  text: string,
+  opts: { url?: string; reference?: string; roomId?: string } = {}
+): Promise<DocumentResolution> {
+  if (opts.url) return { status: "resolved", url: opts.url, matchedOn: "url" };
+  const reference = opts.reference || text;
+  const url = extractUrl(reference);
+  if (url) return { status: "resolved", url, matchedOn: "url" };
+
+  const [catalog, aliases] = reference.trim()
+    ? await Promise.all([
+      new AutognosticDocumentsRepository(runtime).listCatalog(),
+      new AutognosticDocumentAliasesRepository(runtime).list(),
+    ])
+    : [[], []];
+  const candidates = matchDocuments(catalog, aliases, reference);
+  if (candidates.length === 0) {
+    const focus = await getRoomFocus(runtime, opts.roomId);
+    return focus ? { status: "resolved", url: focus.url, matchedOn: "focus" } : { status: "none" };
+  }
+
+  const close = candidates.filter(
+    (c) => c.score >= candidates[0].score - DOCUMENT_RESOLVER_DEFAULTS.AMBIGUITY_MARGIN
+  );
+  if (close.length === 1) {
+    return { status: "resolved", url: close[0].url, matchedOn: close[0].matchedOn, candidate: close[0] };
+  }
+  return { status: "ambiguous", candidates: close.slice(0, DOCUMENT_RESOLVER_DEFAULTS.MAX_CANDIDATES) };
+}
+
+/** The question to ask when a reference matches several documents */
+export function formatDocumentChoices(candidates: DocumentCandidate[]): string {
+  const lines = candidates.map((c, i) => {
+    const byline = c.authors.length
+      ? ` — ${c.authors[0].split(" ").pop()}${c.authors.length > 1 ? " et al." : ""}`
+      : "";
+    return `${i + 1}. ${c.title ?? fileName(c.url)}${byline} — ${c.url}`;
+  });
+  return `That could be ${candidates.length} documents:\n${lines.join("\n")}\n` +
+    "Which one do you mean? Reply with its URL or full title.";
+}
@@ -0,0 +1,86 @@
+/**
+ * Per-room document focus: which document a conversation is about and
+ * where the last reply left off in it.
+ *
+ * Actions record the focus when a document is added, quoted or named in a
+ * room. resolveDocument falls back to it when a message names no document,
+ * and GET_EXACT_QUOTE steps from the last passage for follow-ups like "the
+ * next paragraph" or "go back two sentences". Positions are character
+ * spans, so stepping works across units: after a paragraph, "the next
+ * sentence" is the first sentence after that paragraph.
+ */
+
+import type { IAgentRuntime } from "@elizaos/core";
+import {
+  AutognosticRoomFocusRepository,
+  type DocumentFocus,
+  type FocusPosition,
+  type FocusUnit,
+} from "../db/autognosticRoomFocusRepository";
+import type { DocumentProfile } from "../services/DocumentAnalyzer.types";
+
+export async function getRoomFocus(runtime: IAgentRuntime, roomId: string | undefined): Promise<DocumentFocus | null> {
+  if (!roomId) return null;
+  return new AutognosticRoomFocusRepository(runtime).get(roomId);
+}
+
+/**
+ * Focus `roomId` on `url`. An undefined `position` keeps the last passage
+ * when the document is unchanged (a stats reply does not lose your place).
+ * Never throws: losing the focus must not fail the reply that set it.
+ */
+export async function rememberFocus(
+  runtime: IAgentRuntime,
+  roomId: string | undefined,
+  url: string,
+  position?: FocusPosition | null
+): Promise<void> {
+  if (!roomId) return;
+  try {
+    const repo = new AutognosticRoomFocusRepository(runtime);
+    let next = position ?? null;
+    if (position === undefined) {
+      const current = await repo.get(roomId);
+      if (current?.url === url) next = current.position;
+    }
+    await repo.set(roomId, url, next);
+  } catch (err) {
+    console.warn(`[autognostic] Could not record the focus of room ${roomId}:`, err);
+  }
+}
+
+/** Character span covering units `from`..`to` (0-based, inclusive) */
+export function unitSpan(profile: DocumentProfile, unit: FocusUnit, from: number, to: number): FocusPosition | null {
+  const units = unitsOf(profile, unit);
+  const first = units[Math.max(from, 0)];
+  const last = units[Math.min(to, units.length - 1)];
+  if (!first || !last) return null;
+  return { unit, charStart: first.start, charEnd: last.end };
+}
+
+function unitsOf(profile: DocumentProfile, unit: FocusUnit): Array<{ index: number; start: number; end: number }> {
+  if (unit === "line") return profile.lines;
+  if (unit === "sentence") return profile.sentences;
+  return profile.paragraphs;
+}
+
+/**
+ * 0-based indexes of the `count` units after (or before) `from`. Blank
+ * lines are skipped. With no position yet, "forward" starts at the top of
+ * the document and "back" has nowhere to go.
+ */
+export function stepFrom(
+  profile: DocumentProfile,
+  from: FocusPosition | null,
+  unit: FocusUnit,
+  direction: "forward" | "back",
+  count: number
+): number[] {
+  const units = unitsOf(profile, unit).filter((u) => u.end > u.start);
+  if (direction === "forward") {
+    const after = from?.charEnd ?? 0;
+    return units.filter((u) => u.start >= after).slice(0, count).map((u) => u.index);
+  }
+  if (!from) return [];
+  return units.filter((u) => u.end <= from.charStart).slice(-count).map((u) => u.index);
+}
@@ -0,0 +1,190 @@
+/**
+ * Ranked search across every stored document.
+ *
+ * Postgres full-text search matches and ranks the current copy of each
+ * document. If the query fails (an adapter without text-search support),
+ * documents containing every query term are scored here instead. Either
+ * way, snippets are the best-matching sentences from each document's
+ * DocumentProfile, so they carry line numbers.
+ */
+
+import type { IAgentRuntime } from "@elizaos/core";
+import {
+  AutognosticDocumentsRepository,
+  type DocumentSearchRow,
+} from "../db/autognosticDocumentsRepository";
+import { analyzeDocument } from "../services/DocumentAnalyzer";
+import type { DocumentProfile } from "../services/DocumentAnalyzer.types";
+import { SEARCH_DEFAULTS } from "../config/constants";
+
+export interface SearchSnippet {
+  sentence: string;
+  /** 1-based line the sentence starts on */
+  lineNumber: number;
+  sentenceIndex: number;
+}
+
+export interface DocumentSearchHit {
+  url: string;
+  title: string | null;
+  sourceId: string;
+  versionId: string;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+export interface DocumentSearchResult {
+  query: string;
+  terms: string[];
+  /** "fulltext" when Postgres ranked the hits, "terms" when the fallback did */
+  method: "fulltext" | "terms";
+  hits: DocumentSearchHit[];
+}
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "do", "does", "for", "from", "how", "in",
+  "is", "it", "its", "of", "on", "or", "that", "the", "this", "to", "was", "what", "when",
+  "where", "which", "who", "with",
+]);
+
+/**
+ * Words worth matching in a query: lowercased, without stopwords, operators
+ * or `-excluded` terms.
+ */
+export function queryTerms(query: string): string[] {
+  const terms = new Set<string>();
+  for (const raw of query.toLowerCase().split(/\s+/)) {
+    if (raw.startsWith("-")) continue;
+    for (const word of raw.split(/[^\p{L}\p{N}]+/u)) {
+      if (word.length > 1 && !STOPWORDS.has(word)) terms.add(word);
+    }
+  }
+  return [...terms];
+}
+
+/** Crude stem so "limiting" finds "limit" and "limits": strip -ing, -ed, -s. */
+function stem(term: string): string {
+  const stripped = term.replace(/(?:ing|ed|s)$/, "");
+  return stripped.length >= 3 && !term.endsWith("ss") ? stripped : term;
+}
+
+function termPattern(term: string): RegExp {
+  const escaped = stem(term).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}`, "giu");
+}
+
+/**
+ * Fallback relevance: sum of log(1 + occurrences) per term, title matches
+ * counted twice. 0 unless every term occurs.
+ */
+export function scoreDocument(doc: { title: string | null; content: string }, terms: string[]): number {
+  let score = 0;
+  for (const term of terms) {
+    const pattern = termPattern(term);
+    const count = (doc.content.match(pattern)?.length ?? 0) + 2 * (doc.title?.match(pattern)?.length ?? 0);
+    if (count === 0) return 0;
+    score += Math.log1p(count);
+  }
+  return score;
+}
+
+/** Cut a long sentence down to a window around its first match. */
+function trimAround(sentence: string, patterns: RegExp[]): string {
+  const max = SEARCH_DEFAULTS.MAX_SNIPPET_CHARS;
+  if (sentence.length <= max) return sentence;
+  let at = sentence.length;
+  for (const p of patterns) {
+    p.lastIndex = 0;
+    const m = p.exec(sentence);
+    if (m && m.index < at) at = m.index;
+  }
+  const start = Math.max(0, Math.min(at - Math.floor(max / 3), sentence.length - max));
+  const end = start + max;
+  return `${start > 0 ? "…" : ""}${sentence.slice(start, end).trim()}${end < sentence.length ? "…" : ""}`;
+}
+
+/**
+ * The sentences matching the most distinct terms, best first (earlier
+ * sentences win ties), up to `max`.
+ */
+export function findSnippets(
+  profile: DocumentProfile,
+  terms: string[],
+  max: number = SEARCH_DEFAULTS.SNIPPETS_PER_DOCUMENT
+): SearchSnippet[] {
+  const patterns = terms.map(termPattern);
+  const scored: Array<{ s: DocumentProfile["sentences"][number]; score: number }> = [];
+  for (const s of profile.sentences) {
+    const score = patterns.filter((p) => {
+      p.lastIndex = 0;
+      return p.test(s.text);
+    }).length;
+    if (score > 0) scored.push({ s, score });
+  }
+  return scored
+    .sort((a, b) => b.score - a.score || a.s.index - b.s.index)
+    .slice(0, max)
+    .map(({ s }) => ({ sentence: trimAround(s.text, patterns), lineNumber: s.lineNumber, sentenceIndex: s.index }));
+}
+
+/**
+ * Search the current copy of every stored document (optionally one
+ * source's) and return the best `limit` with snippets.
+ */
+export async function searchDocuments(
+  runtime: IAgentRuntime,
+  query: string,
+  opts: { limit?: number; sourceId?: string } = {}
+): Promise<DocumentSearchResult> {
+  const terms = queryTerms(query);
+  const limit = opts.limit ?? SEARCH_DEFAULTS.MAX_RESULTS;
+  if (terms.length === 0) return { query, terms, method: "fulltext", hits: [] };
+
+  const repo = new AutognosticDocumentsRepository(runtime);
+  let method: DocumentSearchResult["method"] = "fulltext";
+  let ranked: Array<{ row: DocumentSearchRow; score: number }>;
+  try {
+    const rows = await repo.searchFullText(query, { limit: limit * 2, sourceId: opts.sourceId });
+    ranked = rows.map((row) => ({ row, score: row.rank }));
+  } catch (err) {
+    console.warn(
+      `[autognostic] Full-text search failed, falling back to term matching: ${err instanceof Error ? err.message : String(err)}`
+    );
+    method = "terms";
+    const rows = await repo.searchTerms(terms.map(stem), {
+      limit: SEARCH_DEFAULTS.FALLBACK_CANDIDATES,
+      sourceId: opts.sourceId,
+    });
+    ranked = rows
+      .map((row) => ({ row, score: scoreDocument(row, terms) }))
+      .filter((r) => r.score > 0)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // Untracked documents can be stored more than once; keep the best copy of each URL
+  const seen = new Set<string>();
+  const hits: DocumentSearchHit[] = [];
+  for (const { row, score } of ranked) {
+    if (seen.has(row.url)) continue;
+    seen.add(row.url);
+
+    let profile = row.profile;
+    if (!profile) {
+      // Documents stored before profiling existed
+      profile = analyzeDocument(row.content);
+      try {
+        await repo.updateProfile(row.url, profile, row.id);
+      } catch { /* non-fatal */ }
+    }
+    hits.push({
+      url: row.url,
+      title: row.title,
+      sourceId: row.sourceId,
+      versionId: row.versionId,
+      score,
+      snippets: findSnippets(profile, terms),
+    });
+    if (hits.length >= limit) break;
+  }
+  return { query, terms, method, hits };
+}
@@ -0,0 +1,174 @@
+/**
+ * Read-only view of scheduled syncing for actions and other plugins:
+ * the scheduler's live state, recent sync_log runs, and each source's
+ * last outcome and next due time.
+ */
+
+import type { IAgentRuntime } from "@elizaos/core";
+import { AutognosticSourcesRepository } from "../db/autognosticSourcesRepository";
+import { AutognosticSyncLogRepository } from "../db/autognosticSyncLogRepository";
+import type { AutognosticSourceRow, AutognosticSyncLogRow, SyncLogError } from "../db/schema";
+import {
+  getScheduledSyncService,
+  type SchedulerStatus,
+} from "../services/ScheduledSyncService";
+import { describeSourceHealth, type SourceHealth } from "../orchestrator/sourceHealth";
+import { computeNextSyncAt, describeSchedule } from "../orchestrator/syncSchedule";
+
+export interface SyncRunSummary {
+  id: string;
+  startedAt: Date;
+  completedAt: Date | null;
+  /** "running", "completed" or "failed" as recorded in sync_log */
+  status: string;
+  durationMs: number | null;
+  sourcesChecked: number;
+  sourcesUpdated: number;
+  sourcesSkipped: number;
+  documentsAdded: number;
+  documentsRemoved: number;
+  errors: SyncLogError[];
+}
+
+export interface SourceSyncStatus {
+  sourceId: string;
+  url: string;
+  enabled: boolean;
+  /** False when scheduled syncs skip the source (disabled, static, or tracking off) */
+  scheduled: boolean;
+  schedule: string;
+  lastSyncAt: Date | null;
+  lastSuccessAt: Date | null;
+  lastFailureAt: Date | null;
+  lastError: string | null;
+  /** When the scheduler will next pick the source up; may be in the past if it is due */
+  nextSyncAt: Date | null;
+  health: SourceHealth;
+}
+
+export interface SourceSyncReport extends SourceSyncStatus {
+  /** Errors recorded for this source by recent runs, newest first */
+  recentErrors: Array<{ runId: string; at: Date; error: string }>;
+}
+
+export interface SyncStatusReport {
+  scheduler: SchedulerStatus & {
+    /** Earliest next sync across scheduled sources */
+    nextRunAt: Date | null;
+    nextRunSourceId: string | null;
+  };
+  recentRuns: SyncRunSummary[];
+  sources: SourceSyncStatus[];
+}
+
+function toRunSummary(row: AutognosticSyncLogRow): SyncRunSummary {
+  return {
+    id: row.id,
+    startedAt: row.startedAt,
+    completedAt: row.completedAt,
+    status: row.status,
+    durationMs: row.completedAt ? row.completedAt.getTime() - row.startedAt.getTime() : null,
+    sourcesChecked: row.sourcesChecked ?? 0,
+    sourcesUpdated: row.sourcesUpdated ?? 0,
+    sourcesSkipped: row.sourcesSkipped ?? 0,
+    documentsAdded: row.documentsAdded ?? 0,
+    documentsRemoved: row.documentsRemoved ?? 0,
+    errors: row.errors ?? [],
+  };
+}
+
+function toSourceStatus(
+  source: AutognosticSourceRow,
+  scheduler: SchedulerStatus,
+  now: Date
+): SourceSyncStatus {
+  const defaults = { cronExpression: scheduler.defaultCron, timezone: scheduler.timezone };
+  const scheduled =
+    source.enabled && source.versionTrackingEnabled && !source.isStaticContent;
+
+  let nextSyncAt: Date | null = null;
+  let schedule = "not scheduled";
+  try {
+    schedule = describeSchedule(source, defaults);
+    if (scheduled) {
+      // Not computed yet: the scheduler works it out from the last sync on its next tick
+      nextSyncAt =
+        source.nextSyncAt ??
+        computeNextSyncAt(source, source.lastSyncAt ?? source.createdAt, defaults, () => 0);
+    }
+  } catch {
+    // A stored cron that no longer parses; the scheduler falls back to the default
+  }
+  if (nextSyncAt && source.nextAttemptAt && source.nextAttemptAt > nextSyncAt) {
+    nextSyncAt = source.nextAttemptAt;
+  }
+
+  return {
+    sourceId: source.id,
+    url: source.sourceUrl,
+    enabled: source.enabled,
+    scheduled,
+    schedule,
+    lastSyncAt: source.lastSyncAt,
+    lastSuccessAt: source.lastSuccessAt,
+    lastFailureAt: source.lastFailureAt,
+    lastError: source.lastError,
+    nextSyncAt,
+    health: describeSourceHealth(source, now),
+  };
+}
+
+/** Scheduler state, the last `limit` runs, and every source's sync status. */
+export async function getSyncStatus(
+  runtime: IAgentRuntime,
+  opts: { limit?: number } = {}
+): Promise<SyncStatusReport> {
+  const now = new Date();
+  const scheduler = getScheduledSyncService(runtime).getStatus();
+  const runs = await new AutognosticSyncLogRepository(runtime).listRecent(opts.limit ?? 5);
+  const sources = (await new AutognosticSourcesRepository(runtime).listAll()).map((s) =>
+    toSourceStatus(s, scheduler, now)
+  );
+
+  let next: SourceSyncStatus | null = null;
+  for (const s of sources) {
+    if (s.scheduled && s.nextSyncAt && (!next || s.nextSyncAt < next.nextSyncAt!)) next = s;
+  }
+
+  return {
+    scheduler: {
+      ...scheduler,
+      nextRunAt: next?.nextSyncAt ?? null,
+      nextRunSourceId: next?.sourceId ?? null,
+    },
+    recentRuns: runs.map(toRunSummary),
+    sources,
+  };
+}
+
+/**
+ * One source's sync status with the errors recent runs recorded for it,
+ * or null if there is no such source.
+ */
+export async function getSourceSyncStatus(
+  runtime: IAgentRuntime,
+  sourceId: string,
+  opts: { limit?: number } = {}
+): Promise<SourceSyncReport | null> {
+  const source = await new AutognosticSourcesRepository(runtime).getById(sourceId);
+  if (!source) return null;
+
+  const scheduler = getScheduledSyncService(runtime).getStatus();
+  const runs = await new AutognosticSyncLogRepository(runtime).listWithSourceErrors(
+    sourceId,
+    opts.limit ?? 5
+  );
+  return {
+    ...toSourceStatus(source, scheduler, new Date()),
+    recentErrors: runs.flatMap((run) =>
+      (run.errors ?? [])
+        .filter((e) => e.sourceId === sourceId)
+        .map((e) => ({ runId: run.id, at: run.startedAt, error: e.error }))
+    ),
+  };
+}
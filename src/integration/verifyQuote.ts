@@ -0,0 +1,129 @@
+/**
+ * Check a claimed quote against a document's content.
+ * Pure function — no DB access; caller provides content.
+ *
+ * Both sides are folded before comparing (see foldText): ligatures, smart
+ * quotes and dashes, hyphenation across line breaks and whitespace. Case is
+ * kept, so a claim that only differs in case is `approximate`, not verified.
+ * The match is mapped back to the original characters, so `verbatim` is
+ * always the document's own text.
+ */
+
+import { QUOTE_VERIFY_DEFAULTS } from "../config/constants";
+import { foldText, originalRange } from "../utils/foldText";
+
+export interface QuoteVerification {
+  /**
+   * exact: the claim appears character for character.
+   * normalized: it appears once whitespace, ligatures, hyphenation and
+   * quote marks are folded. approximate: the closest passage differs in
+   * wording. none: nothing scores MIN_SCORE or better.
+   */
+  match: "exact" | "normalized" | "approximate" | "none";
+  /** Similarity of the claim to the matched passage, 0-1 */
+  score: number;
+  verbatim?: string;
+  charPosition?: number;
+  /** Offset just past the matched passage */
+  charEnd?: number;
+}
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+interface Word {
+  key: string;
+  start: number;
+  end: number;
+}
+
+function words(text: string): Word[] {
+  const out: Word[] = [];
+  for (const m of text.matchAll(/[^ ]+/g)) {
+    const key = m[0].replace(/[^\p{L}\p{N}]/gu, "").toLowerCase();
+    if (key) out.push({ key, start: m.index!, end: m.index! + m[0].length });
+  }
+  return out;
+}
+
+/**
+ * The run of document words with the fewest word insertions, deletions
+ * and substitutions against the claim (approximate substring matching,
+ * O(document words × claim words)). Earliest wins ties.
+ */
+function closestWordSpan(doc: Word[], claim: Word[]): { from: number; to: number; distance: number } | null {
+  const m = claim.length;
+  let col = Int32Array.from({ length: m + 1 }, (_, i) => i);
+  let starts = new Int32Array(m + 1);
+  let next = new Int32Array(m + 1);
+  let nextStarts = new Int32Array(m + 1);
+  let best: { from: number; to: number; distance: number } | null = null;
+
+  for (let j = 1; j <= doc.length; j++) {
+    next[0] = 0;
+    nextStarts[0] = j;
+    for (let i = 1; i <= m; i++) {
+      const substitute = col[i - 1] + (claim[i - 1].key === doc[j - 1].key ? 0 : 1);
+      const skipDoc = col[i] + 1;
+      const skipClaim = next[i - 1] + 1;
+      if (substitute <= skipDoc && substitute <= skipClaim) {
+        next[i] = substitute;
+        nextStarts[i] = starts[i - 1];
+      } else if (skipDoc <= skipClaim) {
+        next[i] = skipDoc;
+        nextStarts[i] = starts[i];
+      } else {
+        next[i] = skipClaim;
+        nextStarts[i] = nextStarts[i - 1];
+      }
+    }
+    [col, next] = [next, col];
+    [starts, nextStarts] = [nextStarts, starts];
+    if (col[m] < m && (!best || col[m] < best.distance)) {
+      best = { from: starts[m], to: j, distance: col[m] };
+    }
+  }
+  return best;
+}
+
+/** Find `claimed` in `content` exactly, after folding, or as its closest passage. */
+export function verifyQuote(content: string, claimed: string): QuoteVerification {
+  const claim = claimed.trim().slice(0, QUOTE_VERIFY_DEFAULTS.MAX_QUOTE_CHARS);
+  if (!claim) return { match: "none", score: 0 };
+
+  const exactAt = content.indexOf(claim);
+  if (exactAt !== -1) {
+    return { match: "exact", score: 1, verbatim: claim, charPosition: exactAt, charEnd: exactAt + claim.length };
+  }
+
+  const doc = foldText(content, true);
+  const target = foldText(claim, true).text;
+  const foldedAt = target ? doc.text.indexOf(target) : -1;
+  if (foldedAt !== -1) {
+    const [start, end] = originalRange(content, doc, foldedAt, foldedAt + target.length);
+    return { match: "normalized", score: 1, verbatim: content.slice(start, end), charPosition: start, charEnd: end };
+  }
+
+  const docWords = words(doc.text);
+  const claimWords = words(target);
+  const span = claimWords.length ? closestWordSpan(docWords, claimWords) : null;
+  if (!span) return { match: "none", score: 0 };
+
+  const from = docWords[span.from].start;
+  const to = docWords[span.to - 1].end;
+  const passage = doc.text.slice(from, to);
+  const score = 1 - levenshtein(target, passage) / Math.max(target.length, passage.length);
+  if (score < QUOTE_VERIFY_DEFAULTS.MIN_SCORE) return { match: "none", score };
+
+  const [start, end] = originalRange(content, doc, from, to);
+  return { match: "approximate", score, verbatim: content.slice(start, end), charPosition: start, charEnd: end };
+}
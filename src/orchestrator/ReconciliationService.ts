@@ -1,11 +1,13 @@
 import type { IAgentRuntime, UUID } from "@elizaos/core";
-import { createHash } from "crypto";
+import { createHash, randomUUID } from "crypto";
 
 import { createDiscoveryForRawUrl } from "../publicspace/discoveryFactory";
 import {
   previewSourceFiles,
+  type FilePreview,
   type SourcePreview,
 } from "./previewSource";
+import { diffPreviews, type PreviewDiff } from "./previewDiff";
 import type { SourceConfig } from "./SourceConfig";
 
 import { AutognosticSourcesRepository } from "../db/autognosticSourcesRepository";
@@ -14,13 +16,31 @@ import { AutognosticPreviewCacheRepository } from "../db/autognosticPreviewCache
 import { AutognosticRefreshSettingsRepository } from "../db/autognosticRefreshSettingsRepository";
 import { AutognosticKnowledgeLinkRepository } from "../db/autognosticKnowledgeLinkRepository";
 import { AutognosticSettingsRepository } from "../db/autognosticSettingsRepository";
+import { AutognosticDocumentsRepository } from "../db/autognosticDocumentsRepository";
+import type {
+  AutognosticDocumentsRow,
+  AutognosticKnowledgeLinkRow,
+  AutognosticVersionRow,
+} from "../db/schema";
 import { DEFAULT_SIZE_POLICY } from "../config/SizePolicy";
+import { DEFAULT_REFRESH_POLICY, type AutognosticRefreshPolicy } from "../config/RefreshPolicy";
+import { RECONCILIATION_DEFAULTS, SOURCE_HEALTH_DEFAULTS } from "../config/constants";
+import { runPool } from "../utils/workerPool";
 
-import { mirrorDocToKnowledge } from "../integration/mirrorDocToKnowledge";
+import { mirrorDocToKnowledge, restoreDocToKnowledge } from "../integration/mirrorDocToKnowledge";
+import { removeFromKnowledge } from "../integration/removeFromKnowledge";
 import type { HttpService } from "../services/httpService";
+import { classifyError } from "../services/ErrorMessageFactory";
+import { backoffDelayMs } from "./sourceHealth";
+
+/** Outcomes of a reconcile that ran to the end; only these count as a healthy sync and restart the cooldown */
+const COMPLETED_STATUSES = new Set<ReconciliationResult["status"]>(["reconciled", "up_to_date", "pinned"]);
 
 class VersionResolver {
   computeRemoteVersionFromPreview(preview: SourcePreview): string {
+    // Sources with a real upstream revision (git tree SHA) use it directly
+    if (preview.revision) return preview.revision;
+
     const h = createHash("sha256");
     const files = [...preview.files].sort((a, b) =>
       a.path.localeCompare(b.path)
@@ -36,6 +56,7 @@ class VersionResolver {
       if (f.etag) h.update(f.etag);
       h.update("|");
       if (f.lastModified) h.update(f.lastModified);
+      if (f.lastmod) h.update(`|lastmod:${f.lastmod}`);
       h.update("||");
     }
     h.update(`count:${files.length}`);
@@ -50,13 +71,87 @@ class VersionResolver {
 
 export interface ReconciliationResult {
   sourceId: string;
-  status: "up_to_date" | "reconciled" | "skipped_size_limit" | "failed";
+  status:
+    | "up_to_date"
+    | "reconciled"
+    | "skipped_size_limit"
+    | "skipped_cooldown"
+    | "skipped_in_progress"
+    | "skipped_backoff"
+    | "pinned"
+    | "failed"
+    | "timed_out"
+    | "cancelled";
   versionId?: string;
+  /** Newest upstream version seen while the source is pinned elsewhere */
+  upstreamVersionId?: string;
   totalBytes?: number;
   fileCount?: number;
+  /** Per-file change counts, present once a reconcile actually ran */
+  changes?: {
+    added: number;
+    changed: number;
+    removed: number;
+    unchanged: number;
+  };
+  /** Skipped results: when the source can next be reconciled */
+  retryAfter?: Date;
   error?: string;
 }
 
+export interface RollbackResult {
+  sourceId: string;
+  status:
+    | "rolled_back"
+    | "already_active"
+    | "not_found"
+    | "not_retained"
+    | "skipped_in_progress"
+    | "failed";
+  versionId: string;
+  /** Version that was active before the rollback */
+  previousVersionId?: string;
+  /** Files whose knowledge doc was re-added from the retained copy */
+  restored?: number;
+  /** Files whose current knowledge doc already matched and was kept */
+  reused?: number;
+  pinned?: boolean;
+  error?: string;
+}
+
+/**
+ * Hooks a queued job hands to a reconcile so that, if the process dies
+ * part-way, the next attempt resumes the staged version instead of
+ * ingesting every file again. The callbacks are best-effort and must not
+ * throw.
+ */
+export interface ReconcileCheckpoint {
+  /** Version the interrupted attempt was staging, if any */
+  versionId: string | null;
+  /** Files that attempt already ingested into it: URL → knowledge document id */
+  ingested: ReadonlyMap<string, string>;
+  /** Staging `versionId` is about to process `total` files */
+  onStart(versionId: string, total: number): Promise<void>;
+  /** A file was fetched and staged, or failed */
+  onItem(url: string, outcome: { ok: boolean }): Promise<void>;
+  /** A staged file was added to Knowledge as `knowledgeDocumentId` */
+  onIngested(url: string, knowledgeDocumentId: string): Promise<void>;
+  /** Everything the attempt added to Knowledge was removed again; forget it */
+  onDiscarded(): Promise<void>;
+}
+
+/** What a reconcile built for a staged version, applied only once it activates */
+interface StagedVersion {
+  /** Files stored for it that publishStaged still has to add to Knowledge */
+  pending: Array<{ url: string; filename: string; metadata: Record<string, unknown> }>;
+  /** Knowledge links the version serves once active */
+  links: Array<{ knowledgeDocumentId: string; url: string | null }>;
+  /** Knowledge docs ingested for it; removed again if it never activates */
+  added: string[];
+  /** Knowledge docs of the previous version it replaces; removed once it is active */
+  superseded: string[];
+}
+
 export class ReconciliationService {
   private versionResolver = new VersionResolver();
   private sourcesRepo: AutognosticSourcesRepository;
@@ -65,6 +160,7 @@ export class ReconciliationService {
   private refreshRepo: AutognosticRefreshSettingsRepository;
   private knowledgeLinkRepo: AutognosticKnowledgeLinkRepository;
   private settingsRepo: AutognosticSettingsRepository;
+  private documentsRepo: AutognosticDocumentsRepository;
 
   constructor(private runtime: IAgentRuntime) {
     this.sourcesRepo = new AutognosticSourcesRepository(runtime);
@@ -73,22 +169,231 @@ export class ReconciliationService {
     this.refreshRepo = new AutognosticRefreshSettingsRepository(runtime);
     this.knowledgeLinkRepo = new AutognosticKnowledgeLinkRepository(runtime);
     this.settingsRepo = new AutognosticSettingsRepository(runtime);
+    this.documentsRepo = new AutognosticDocumentsRepository(runtime);
   }
 
+  /**
+   * Reconcile every enabled source, up to `maxConcurrentReconciles` at a time.
+   * Once `startupReconcileTimeoutMs` (0 = no limit) has elapsed no further
+   * source is started: in-flight ones finish and the rest come back as
+   * `timed_out` for a later run to pick up.
+   */
   async verifyAndReconcileAll(sources: SourceConfig[]): Promise<ReconciliationResult[]> {
-    const results: ReconciliationResult[] = [];
-    for (const src of sources) {
-      if (!src.enabled) continue;
-      const result = await this.verifyAndReconcileOne(src);
-      results.push(result);
+    const enabled = sources.filter((src) => src.enabled);
+    const policy: AutognosticRefreshPolicy = {
+      ...DEFAULT_REFRESH_POLICY,
+      ...(await this.refreshRepo.getPolicy(this.runtime.agentId)),
+    };
+    const timeoutMs = policy.startupReconcileTimeoutMs;
+
+    const { results, skipped } = await runPool(
+      enabled,
+      (src) => this.verifyAndReconcileOne(src),
+      {
+        concurrency: policy.maxConcurrentReconciles,
+        deadline: timeoutMs > 0 ? Date.now() + timeoutMs : undefined,
+      }
+    );
+
+    if (skipped) {
+      console.warn(
+        `[autognostic] Reconcile run hit its ${timeoutMs / 1000}s limit; ${skipped} source(s) not started`
+      );
     }
-    return results;
+    return results.map(
+      (result, i) =>
+        result ?? {
+          sourceId: enabled[i].id,
+          status: "timed_out",
+          error: `Not started within ${timeoutMs / 1000}s reconcile limit`,
+        }
+    );
   }
 
-  async verifyAndReconcileOne(source: SourceConfig): Promise<ReconciliationResult> {
-    await this.sourcesRepo.getOrCreate(source.id, source.sourceUrl);
+  /**
+   * Reconcile one source under its database lease. A source another run is
+   * already reconciling comes back `skipped_in_progress`; one reconciled
+   * within `reconcileCooldownMs` comes back `skipped_cooldown`, and one
+   * backing off after failed syncs `skipped_backoff`, unless the caller is
+   * acting on an explicit user request and passes `ignoreCooldown`.
+   *
+   * Aborting `signal` stops pending fetches and comes back `cancelled`; the
+   * staged version is discarded and the previous one keeps serving.
+   */
+  async verifyAndReconcileOne(
+    source: SourceConfig,
+    opts: { ignoreCooldown?: boolean; checkpoint?: ReconcileCheckpoint; signal?: AbortSignal } = {}
+  ): Promise<ReconciliationResult> {
+    const row = await this.sourcesRepo.getOrCreate(source.id, source.sourceUrl);
+    if (!opts.ignoreCooldown && row.nextAttemptAt && row.nextAttemptAt.getTime() > Date.now()) {
+      console.log(
+        `[autognostic] ${source.id} is backing off after ${row.consecutiveFailures} failed sync(s), skipping`
+      );
+      return {
+        sourceId: source.id,
+        status: "skipped_backoff",
+        retryAfter: row.nextAttemptAt,
+        error: `Backing off after ${row.consecutiveFailures} failed sync(s); next attempt after ${row.nextAttemptAt.toISOString()}`,
+      };
+    }
+
+    const refreshPolicy: AutognosticRefreshPolicy = {
+      ...DEFAULT_REFRESH_POLICY,
+      ...(await this.refreshRepo.getPolicy(this.runtime.agentId)),
+    };
+    const cooldownMs = opts.ignoreCooldown ? 0 : refreshPolicy.reconcileCooldownMs;
 
-    const refreshPolicy = await this.refreshRepo.getPolicy(this.runtime.agentId);
+    const leased = await this.withLease(
+      source.id,
+      cooldownMs,
+      () => this.reconcileTracked(source, refreshPolicy, opts.checkpoint, opts.signal),
+      (result) => COMPLETED_STATUSES.has(result.status)
+    );
+    return leased ?? this.blockedResult(source.id, cooldownMs);
+  }
+
+  /** Reconcile and record the outcome in the source's sync health. */
+  private async reconcileTracked(
+    source: SourceConfig,
+    refreshPolicy: AutognosticRefreshPolicy,
+    checkpoint?: ReconcileCheckpoint,
+    signal?: AbortSignal
+  ): Promise<ReconciliationResult> {
+    let result: ReconciliationResult;
+    try {
+      result = await this.reconcileLeased(source, refreshPolicy, checkpoint, signal);
+    } catch (err) {
+      // A cancelled reconcile says nothing about the source's health
+      if (signal?.aborted) return this.cancelledResult(source.id);
+      await this.recordHealth(source.id, err);
+      throw err;
+    }
+    if (result.status === "failed") {
+      await this.recordHealth(source.id, new Error(result.error ?? "Reconcile failed"));
+    } else if (COMPLETED_STATUSES.has(result.status)) {
+      await this.recordHealth(source.id, null);
+    }
+    return result;
+  }
+
+  /**
+   * Update a source's failure streak. Each failure doubles the wait before
+   * the next scheduled attempt; the MAX_CONSECUTIVE_FAILURES-th disables
+   * the source until a sync succeeds again.
+   */
+  private async recordHealth(sourceId: string, failure: unknown) {
+    try {
+      if (!failure) {
+        await this.sourcesRepo.recordSyncSuccess(sourceId);
+        return;
+      }
+      const row = await this.sourcesRepo.getById(sourceId);
+      const consecutiveFailures = (row?.consecutiveFailures ?? 0) + 1;
+      const disable = consecutiveFailures >= SOURCE_HEALTH_DEFAULTS.MAX_CONSECUTIVE_FAILURES;
+      await this.sourcesRepo.recordSyncFailure(sourceId, {
+        consecutiveFailures,
+        code: classifyError(failure) ?? null,
+        message: failure instanceof Error ? failure.message : String(failure),
+        nextAttemptAt: new Date(Date.now() + backoffDelayMs(consecutiveFailures)),
+        disable,
+      });
+      if (disable && row?.enabled !== false) {
+        console.warn(
+          `[autognostic] Disabled ${sourceId} after ${consecutiveFailures} consecutive failed syncs`
+        );
+      }
+    } catch (err) {
+      // Health bookkeeping must not turn a finished reconcile into an error
+      console.warn(`[autognostic] Failed to record sync health for ${sourceId}`, err);
+    }
+  }
+
+  /**
+   * Run `work` while holding the source's reconcile lease, renewing it
+   * until `work` settles. Returns null without running `work` when the lease
+   * is held elsewhere or the source is within `cooldownMs`. The cooldown only
+   * restarts when `completed` says the result finished a reconcile.
+   */
+  private async withLease<T>(
+    sourceId: string,
+    cooldownMs: number,
+    work: () => Promise<T>,
+    completed: (result: T) => boolean = () => false
+  ): Promise<T | null> {
+    const ttlMs = RECONCILIATION_DEFAULTS.LEASE_TTL_MS;
+    const holder = `${process.pid}:${randomUUID()}`;
+
+    if (!(await this.sourcesRepo.tryAcquireLease(sourceId, holder, ttlMs, cooldownMs))) {
+      return null;
+    }
+
+    const heartbeat = setInterval(() => {
+      this.sourcesRepo
+        .renewLease(sourceId, holder, ttlMs)
+        .then((held) => {
+          if (!held) console.warn(`[autognostic] Lost reconcile lease for ${sourceId}`);
+        })
+        .catch((err) =>
+          console.warn(`[autognostic] Failed to renew reconcile lease for ${sourceId}`, err)
+        );
+    }, ttlMs / 3);
+    heartbeat.unref?.();
+
+    let done = false;
+    try {
+      const result = await work();
+      done = completed(result);
+      return result;
+    } finally {
+      clearInterval(heartbeat);
+      try {
+        await this.sourcesRepo.releaseLease(sourceId, holder, done);
+      } catch (err) {
+        // The lease expires on its own; the result is still worth returning
+        console.warn(`[autognostic] Failed to release reconcile lease for ${sourceId}`, err);
+      }
+    }
+  }
+
+  private cancelledResult(sourceId: string, versionId?: string): ReconciliationResult {
+    return {
+      sourceId,
+      status: "cancelled",
+      ...(versionId ? { versionId } : {}),
+      error: "Cancelled before the new version was activated",
+    };
+  }
+
+  /** Explain why a lease could not be taken: a live holder, else the cooldown. */
+  private async blockedResult(sourceId: string, cooldownMs: number): Promise<ReconciliationResult> {
+    const row = await this.sourcesRepo.getById(sourceId);
+    if (row?.leaseHolder && row.leaseExpiresAt && row.leaseExpiresAt.getTime() > Date.now()) {
+      console.log(`[autognostic] ${sourceId} is already being reconciled, skipping`);
+      return {
+        sourceId,
+        status: "skipped_in_progress",
+        retryAfter: row.leaseExpiresAt,
+        error: "Another reconcile of this source is in progress",
+      };
+    }
+    const since = row?.lastReconciledAt
+      ? ` (last reconciled ${row.lastReconciledAt.toISOString()})`
+      : "";
+    console.log(`[autognostic] ${sourceId} is within its reconcile cooldown${since}, skipping`);
+    return {
+      sourceId,
+      status: "skipped_cooldown",
+      retryAfter: new Date((row?.lastReconciledAt?.getTime() ?? Date.now()) + cooldownMs),
+      error: `Reconciled less than ${Math.round(cooldownMs / 1000)}s ago${since}`,
+    };
+  }
+
+  private async reconcileLeased(
+    source: SourceConfig,
+    refreshPolicy: AutognosticRefreshPolicy,
+    checkpoint?: ReconcileCheckpoint,
+    signal?: AbortSignal
+  ): Promise<ReconciliationResult> {
     const sizePolicy = (await this.settingsRepo.getPolicy(this.runtime.agentId)) ?? DEFAULT_SIZE_POLICY;
 
     const { classified, discovery } = createDiscoveryForRawUrl(
@@ -116,7 +421,16 @@ export class ReconciliationService {
         }s)`
       );
     } else {
-      preview = await previewSourceFiles(this.runtime, source.id, discovery);
+      // Hand over the last probe so unchanged sitemap lastmods skip HEAD requests
+      preview = await previewSourceFiles(
+        this.runtime,
+        source.id,
+        discovery,
+        cached?.preview,
+        signal
+      );
+      // Probes cut short by a cancel would poison the cache
+      signal?.throwIfAborted();
       await this.previewCacheRepo.set(source.id, preview, now);
       console.log(`[autognostic] Refreshed preview for ${source.id}`);
     }
@@ -169,7 +483,32 @@ export class ReconciliationService {
 
     const remoteVersionId =
       this.versionResolver.computeRemoteVersionFromPreview(preview);
+    // Upstream moved on while an interrupted attempt was staging: that
+    // attempt is dead, so what it built goes before anything else is staged
+    if (checkpoint?.versionId && checkpoint.versionId !== remoteVersionId) {
+      await this.abandonAttempt(source.id, checkpoint.versionId, checkpoint);
+    }
     const local = await this.versionsRepo.getLatestActive(source.id);
+
+    // A pinned source keeps its version; upstream movement is only recorded
+    const pinnedVersionId = (await this.sourcesRepo.getById(source.id))?.pinnedVersionId;
+    if (pinnedVersionId) {
+      const moved = remoteVersionId !== pinnedVersionId;
+      await this.sourcesRepo.recordUpstreamVersion(source.id, moved ? remoteVersionId : null);
+      if (moved) {
+        console.log(
+          `[autognostic] ${source.id} pinned @ ${pinnedVersionId}; upstream is at ${remoteVersionId}, not applying`
+        );
+      }
+      return {
+        sourceId: source.id,
+        status: moved ? "pinned" : "up_to_date",
+        versionId: pinnedVersionId,
+        ...(moved ? { upstreamVersionId: remoteVersionId } : {}),
+        totalBytes: preview.totalBytes,
+        fileCount: preview.files.length,
+      };
+    }
     const needsUpdate = this.versionResolver.needsUpdate(
       local?.versionId ?? null,
       remoteVersionId
@@ -192,31 +531,56 @@ export class ReconciliationService {
       `[autognostic] ${source.id} outdated → reconciling to ${remoteVersionId}`
     );
 
-    await this.versionsRepo.createStaging(source.id, remoteVersionId);
+    // A source that reverted to an earlier state maps onto that retained
+    // version again; its old copies are rebuilt rather than duplicated. A
+    // resumed attempt keeps the copies of files it had already ingested.
+    const resumed = checkpoint?.versionId === remoteVersionId ? [...checkpoint.ingested.keys()] : [];
+    await this.retireVersionDocuments(source.id, remoteVersionId, resumed);
+    await this.versionsRepo.createStaging(source.id, remoteVersionId, preview);
 
+    // The staged version's files are fetched and stored first; none reaches
+    // Knowledge, which serves a doc as soon as it is added, until every file
+    // is in. They are then added in one publish step, the version and its
+    // knowledge links flip in one transaction, and the replaced knowledge
+    // docs are removed straight after, so old and new overlap only while
+    // publishing.
+    const staged: StagedVersion = { pending: [], links: [], added: [], superseded: [] };
+    let diff: PreviewDiff;
     try {
-      await this.reconcileSourceVersion(source, preview, remoteVersionId);
-      await this.versionsRepo.markActive(source.id, remoteVersionId);
-      console.log(
-        `[autognostic] ${source.id} reconciled to ${remoteVersionId}`
+      diff = await this.reconcileSourceVersion(
+        source,
+        preview,
+        remoteVersionId,
+        local,
+        staged,
+        checkpoint,
+        signal
       );
-      return {
-        sourceId: source.id,
-        status: "reconciled",
-        versionId: remoteVersionId,
-        totalBytes: preview.totalBytes,
-        fileCount: preview.files.length,
-      };
+      await this.publishStaged(source.id, remoteVersionId, staged, checkpoint, signal);
+      // Last chance to cancel: once activated, the new version is served
+      signal?.throwIfAborted();
+      await this.versionsRepo.activateWithLinks(source.id, remoteVersionId, staged.links);
     } catch (err) {
-      console.error(
-        `[autognostic] Reconciliation failed for ${source.id} @ ${remoteVersionId}`,
-        err
-      );
+      const cancelled = signal?.aborted ?? false;
+      if (cancelled) {
+        console.log(`[autognostic] Reconcile of ${source.id} @ ${remoteVersionId} cancelled`);
+      } else {
+        console.error(
+          `[autognostic] Reconciliation failed for ${source.id} @ ${remoteVersionId}`,
+          err
+        );
+      }
+      if (staged.added.length) {
+        await removeFromKnowledge(this.runtime, staged.added);
+      }
+      await checkpoint?.onDiscarded();
       await this.versionsRepo.markFailed(
         source.id,
         remoteVersionId,
-        err instanceof Error ? err.message : "Unknown error"
+        cancelled ? "Cancelled" : err instanceof Error ? err.message : "Unknown error"
       );
+      await this.retireVersionDocuments(source.id, remoteVersionId);
+      if (cancelled) return this.cancelledResult(source.id, remoteVersionId);
       return {
         sourceId: source.id,
         status: "failed",
@@ -226,60 +590,531 @@ export class ReconciliationService {
         error: err instanceof Error ? err.message : "Unknown error",
       };
     }
+
+    await this.retireKnowledgeDocs(staged.superseded, staged.links);
+    // The replaced version's documents stay behind for as-of quoting
+    // until the retention window passes
+    if (local && refreshPolicy.versionRetentionMs <= 0) {
+      await this.retireVersionDocuments(source.id, local.versionId);
+    }
+    await this.pruneVersionHistory(source.id, refreshPolicy.versionRetentionMs);
+    console.log(
+      `[autognostic] ${source.id} reconciled to ${remoteVersionId}`
+    );
+    return {
+      sourceId: source.id,
+      status: "reconciled",
+      versionId: remoteVersionId,
+      totalBytes: preview.totalBytes,
+      fileCount: preview.files.length,
+      changes: {
+        added: diff.added.length,
+        changed: diff.changed.length,
+        removed: diff.removed.length,
+        unchanged: diff.unchanged.length,
+      },
+    };
+  }
+
+  /**
+   * Retire what an interrupted attempt left of the staging `versionId`: its
+   * knowledge docs, the version (marked failed) and its stored documents.
+   * A version that activated before the process died is served and stays.
+   * The checkpoint forgets the attempt only once its knowledge docs are
+   * gone; if removing them throws, so does this, and the job keeps its
+   * record of them for the next attempt.
+   */
+  private async abandonAttempt(
+    sourceId: string,
+    versionId: string,
+    checkpoint: ReconcileCheckpoint
+  ): Promise<void> {
+    const version = await this.versionsRepo.getVersion(sourceId, versionId);
+    if (version?.status === "active" || version?.status === "archived") return;
+    console.log(
+      `[autognostic] Abandoning interrupted attempt for ${sourceId} @ ${versionId}; upstream has moved`
+    );
+    if (checkpoint.ingested.size) {
+      await removeFromKnowledge(this.runtime, [...checkpoint.ingested.values()]);
+    }
+    if (version?.status === "staging") {
+      await this.versionsRepo.markFailed(sourceId, versionId, "Superseded while interrupted");
+    }
+    await this.retireVersionDocuments(sourceId, versionId);
+    await checkpoint.onDiscarded();
+  }
+
+  /**
+   * Add the files a staged version fetched to Knowledge from their stored
+   * copies, as the last step before it activates.
+   */
+  private async publishStaged(
+    sourceId: string,
+    versionId: string,
+    staged: StagedVersion,
+    checkpoint?: ReconcileCheckpoint,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (!staged.pending.length) return;
+    const docs = (await this.documentsRepo.getBySourceAndVersion(
+      sourceId,
+      versionId
+    )) as AutognosticDocumentsRow[];
+    const docsByUrl = new Map(docs.map((d) => [d.url, d]));
+
+    await runPool(
+      staged.pending,
+      async (file) => {
+        if (signal?.aborted) return;
+        const doc = docsByUrl.get(file.url);
+        if (!doc) throw new Error(`Stored copy of ${file.url} is missing`);
+        const res = await restoreDocToKnowledge(this.runtime, doc, {
+          filename: file.filename,
+          ...this.knowledgeScope(sourceId),
+          worldId: this.runtime.agentId,
+          metadata: file.metadata,
+        });
+        staged.added.push(res.knowledgeDocumentId);
+        staged.links.push({ knowledgeDocumentId: res.knowledgeDocumentId, url: file.url });
+        await checkpoint?.onIngested(file.url, res.knowledgeDocumentId);
+      },
+      { concurrency: RECONCILIATION_DEFAULTS.BATCH_SIZE }
+    );
+    signal?.throwIfAborted();
   }
 
+  /**
+   * Stage a version into `staged` without touching what is served: changed
+   * files are fetched and stored, and left for publishStaged to add to
+   * Knowledge. Files that fail keep their previous copy; past
+   * RECONCILIATION_DEFAULTS.MAX_FAILED_FILE_RATIO of the version the whole
+   * reconcile throws, so a half-ingested version never activates.
+   */
   private async reconcileSourceVersion(
     source: SourceConfig,
     preview: SourcePreview,
-    versionId: string
-  ) {
-    const { discovery } = createDiscoveryForRawUrl(
-      this.runtime,
-      source.sourceUrl
-    );
-
+    versionId: string,
+    previous: AutognosticVersionRow | null,
+    staged: StagedVersion,
+    checkpoint?: ReconcileCheckpoint,
+    signal?: AbortSignal
+  ): Promise<PreviewDiff> {
     const http = this.runtime.getService<HttpService>("http");
     if (!http) {
       throw new Error("HttpService is required for reconciliation");
     }
 
-    const files = await discovery.list();
-    if (!files.length) {
+    const previousPreview = (previous?.previewJson as SourcePreview | null) ?? null;
+    const previousLinks = previous
+      ? await this.knowledgeLinkRepo.listBySourceVersion(source.id, previous.versionId)
+      : [];
+    const linksByUrl = new Map<string, AutognosticKnowledgeLinkRow[]>();
+    for (const link of previousLinks) {
+      if (!link.url) continue;
+      const list = linksByUrl.get(link.url) ?? [];
+      list.push(link);
+      linksByUrl.set(link.url, list);
+    }
+
+    if (!preview.files.length) {
       console.warn(
         `[autognostic] No files discovered for ${source.id} during reconcile`
       );
-      return;
+      // An empty listing is far more likely a discovery hiccup than a deleted site;
+      // refuse to retire everything the previous version served.
+      if (previousLinks.length) {
+        throw new Error("No files discovered; keeping previous version");
+      }
     }
 
-    const roomId = (((this.runtime as unknown as Record<string, unknown>).defaultRoomId as UUID | undefined) ?? source.id) as UUID;
-    const entityId: UUID = this.runtime.agentId;
+    const previousDocs = previous
+      ? ((await this.documentsRepo.getBySourceAndVersion(
+          source.id,
+          previous.versionId
+        )) as AutognosticDocumentsRow[])
+      : [];
+    const docsByUrl = new Map(previousDocs.map((d) => [d.url, d]));
 
-    for (const f of files) {
-      try {
-        const res = await mirrorDocToKnowledge(this.runtime, {
-          url: f.url,
-          filename: f.path.split("/").pop() || f.path,
-          contentType: "text/markdown",
-          roomId,
-          entityId,
-          worldId: this.runtime.agentId,
-          metadata: {
-            autognosticSourceId: source.id,
-            autognosticVersionId: versionId,
-          },
-        });
+    const diff = diffPreviews(previousPreview, preview);
+    console.log(
+      `[autognostic] ${source.id} diff: ${diff.added.length} added, ${diff.changed.length} changed, ` +
+        `${diff.removed.length} removed, ${diff.unchanged.length} unchanged`
+    );
 
-        await this.knowledgeLinkRepo.addLink({
-          sourceId: source.id,
-          versionId,
-          knowledgeDocumentId: res.knowledgeDocumentId,
-        });
-      } catch (err) {
-        console.warn(
-          `[autognostic] Failed to ingest ${f.url} for ${source.id} @ ${versionId}, skipping`,
-          err
-        );
+    // Unchanged files keep their knowledge docs and stored document; the new
+    // version links to both. A file missing either (e.g. its last ingest failed,
+    // or it predates verbatim storage) is ingested again.
+    const toIngest: FilePreview[] = [...diff.added, ...diff.changed];
+    for (const f of diff.unchanged) {
+      const links = linksByUrl.get(f.url);
+      const doc = docsByUrl.get(f.url);
+      if (!links?.length || !doc) {
+        toIngest.push(f);
+        continue;
       }
+      await this.documentsRepo.linkToVersion(doc.id, source.id, versionId);
+      for (const link of links) {
+        staged.links.push({ knowledgeDocumentId: link.knowledgeDocumentId, url: f.url });
+      }
+    }
+
+    const { roomId, entityId } = this.knowledgeScope(source.id);
+    const failedUrls = new Set<string>();
+    const revalidated = new Set<string>();
+    const resumed = checkpoint?.versionId === versionId ? checkpoint.ingested : null;
+    await checkpoint?.onStart(versionId, toIngest.length);
+
+    // Files ingest concurrently; each one fetches through its host's RateLimiter budget
+    await runPool(
+      toIngest,
+      async (f) => {
+        if (signal?.aborted) return;
+        const oldDoc = docsByUrl.get(f.url);
+        const oldLinks = linksByUrl.get(f.url) ?? [];
+
+        // Ingested by an interrupted attempt at this version; its stored copy was kept
+        const resumedId = resumed?.get(f.url);
+        if (resumedId) {
+          staged.added.push(resumedId);
+          staged.links.push({ knowledgeDocumentId: resumedId, url: f.url });
+          for (const old of oldLinks) {
+            staged.superseded.push(old.knowledgeDocumentId);
+          }
+          await checkpoint?.onItem(f.url, { ok: true });
+          return;
+        }
+
+        try {
+          // A file we already serve is revalidated first: a 304 or identical
+          // normalized content keeps the current copy instead of re-ingesting.
+          const res = await mirrorDocToKnowledge(this.runtime, {
+            deferKnowledge: true,
+            previous:
+              oldDoc && oldLinks.length
+                ? { content: oldDoc.content, etag: oldDoc.etag, lastModified: oldDoc.lastModified }
+                : undefined,
+            url: f.url,
+            filename: f.path.split("/").pop() || f.path,
+            contentType: "text/markdown",
+            roomId,
+            entityId,
+            worldId: this.runtime.agentId,
+            title: f.title,
+            section: f.section,
+            metadata: {
+              sourceId: source.id,
+              versionId,
+              autognosticSourceId: source.id,
+              autognosticVersionId: versionId,
+              ...(f.notes ? { notes: f.notes } : {}),
+            },
+            signal,
+          });
+
+          if (res.unchanged) {
+            revalidated.add(f.url);
+            if (oldDoc) {
+              await this.documentsRepo.linkToVersion(oldDoc.id, source.id, versionId, {
+                etag: res.etag ?? oldDoc.etag,
+                lastModified: res.lastModified ?? oldDoc.lastModified,
+              });
+            }
+            for (const old of oldLinks) {
+              staged.links.push({ knowledgeDocumentId: old.knowledgeDocumentId, url: f.url });
+            }
+            await checkpoint?.onItem(f.url, { ok: true });
+            return;
+          }
+
+          staged.pending.push({
+            url: f.url,
+            filename: f.path.split("/").pop() || f.path,
+            metadata: res.metadata,
+          });
+          for (const old of oldLinks) {
+            staged.superseded.push(old.knowledgeDocumentId);
+          }
+          await checkpoint?.onItem(f.url, { ok: true });
+        } catch (err) {
+          // Fetches aborted by a cancel aren't failures; the whole version is discarded
+          if (signal?.aborted) return;
+          failedUrls.add(f.url);
+          // Keep serving the previous copy of a changed file rather than dropping it
+          if (oldDoc) {
+            await this.documentsRepo.linkToVersion(oldDoc.id, source.id, versionId);
+          }
+          for (const old of oldLinks) {
+            staged.links.push({ knowledgeDocumentId: old.knowledgeDocumentId, url: f.url });
+          }
+          console.warn(
+            `[autognostic] Failed to ingest ${f.url} for ${source.id} @ ${versionId}, skipping`,
+            err
+          );
+          await checkpoint?.onItem(f.url, { ok: false });
+        }
+      },
+      { concurrency: RECONCILIATION_DEFAULTS.BATCH_SIZE }
+    );
+    signal?.throwIfAborted();
+
+    const failedRatio = preview.files.length ? failedUrls.size / preview.files.length : 0;
+    if (failedRatio > RECONCILIATION_DEFAULTS.MAX_FAILED_FILE_RATIO) {
+      throw new Error(
+        `${failedUrls.size} of ${preview.files.length} files failed to ingest; keeping previous version`
+      );
+    }
+
+    for (const f of diff.removed) {
+      for (const old of linksByUrl.get(f.url) ?? []) {
+        staged.superseded.push(old.knowledgeDocumentId);
+      }
+    }
+
+    // Without a recorded preview the old links can't be matched to files, so the
+    // previous version was fully re-ingested above and its knowledge is retired wholesale.
+    if (previous && !previousPreview) {
+      for (const link of previousLinks) staged.superseded.push(link.knowledgeDocumentId);
+    }
+
+    // Record what was actually ingested, so failed files show up as changed next time
+    if (failedUrls.size) {
+      const before = new Map((previousPreview?.files ?? []).map((f) => [f.url, f]));
+      const files = preview.files.flatMap((f) => {
+        if (!failedUrls.has(f.url)) return [f];
+        const old = before.get(f.url);
+        return old ? [old] : [];
+      });
+      await this.versionsRepo.updatePreview(source.id, versionId, { ...preview, files });
+    }
+
+    if (revalidated.size) {
+      console.log(
+        `[autognostic] ${source.id}: ${revalidated.size} file(s) revalidated as unchanged`
+      );
+    }
+    return {
+      ...diff,
+      added: diff.added.filter((f) => !revalidated.has(f.url)),
+      changed: diff.changed.filter((f) => !revalidated.has(f.url)),
+      unchanged: [
+        ...diff.unchanged,
+        ...[...diff.added, ...diff.changed].filter((f) => revalidated.has(f.url)),
+      ],
+    };
+  }
+
+  /**
+   * Make a retained archived version current again. Its knowledge documents
+   * are re-added from the stored verbatim copies in one publish step (files
+   * whose current copy is identical keep their knowledge doc); Knowledge
+   * serves them as they are added, so old and restored docs overlap until
+   * the version state and knowledge links flip in one transaction and the
+   * replaced docs are removed straight after. A failure before the switch
+   * removes whatever was re-added and leaves the current version serving.
+   *
+   * With `pin` the source stays on this version through later syncs; a
+   * source that was already pinned moves its pin along either way.
+   */
+  async rollbackToVersion(
+    sourceId: string,
+    versionId: string,
+    opts: { pin?: boolean } = {}
+  ): Promise<RollbackResult> {
+    const result = await this.withLease(sourceId, 0, () =>
+      this.rollbackLeased(sourceId, versionId, opts.pin ?? false)
+    );
+    return (
+      result ?? {
+        sourceId,
+        status: "skipped_in_progress",
+        versionId,
+        error: "Another reconcile of this source is in progress",
+      }
+    );
+  }
+
+  private async rollbackLeased(
+    sourceId: string,
+    versionId: string,
+    pin: boolean
+  ): Promise<RollbackResult> {
+    const target = await this.versionsRepo.getVersion(sourceId, versionId);
+    if (!target) {
+      return {
+        sourceId,
+        status: "not_found",
+        versionId,
+        error: `No version ${versionId} recorded for ${sourceId}`,
+      };
+    }
+
+    const source = await this.sourcesRepo.getById(sourceId);
+    const keepPinned = pin || !!source?.pinnedVersionId;
+    if (target.status === "active") {
+      if (keepPinned) await this.sourcesRepo.setPin(sourceId, versionId);
+      return { sourceId, status: "already_active", versionId, pinned: keepPinned };
+    }
+
+    const docs =
+      target.status === "archived"
+        ? ((await this.documentsRepo.getBySourceAndVersion(
+            sourceId,
+            versionId
+          )) as AutognosticDocumentsRow[])
+        : [];
+    if (!docs.length) {
+      return {
+        sourceId,
+        status: "not_retained",
+        versionId,
+        error:
+          target.status === "archived"
+            ? "Its documents are no longer retained"
+            : `Version is ${target.status}; only archived versions can be restored`,
+      };
+    }
+
+    const current = await this.versionsRepo.getLatestActive(sourceId);
+    const currentLinks = current
+      ? await this.knowledgeLinkRepo.listBySourceVersion(sourceId, current.versionId)
+      : [];
+    const currentDocs = current
+      ? ((await this.documentsRepo.getBySourceAndVersion(
+          sourceId,
+          current.versionId
+        )) as AutognosticDocumentsRow[])
+      : [];
+    const currentByUrl = new Map(currentDocs.map((d) => [d.url, d]));
+    const linksByUrl = new Map<string, AutognosticKnowledgeLinkRow[]>();
+    for (const link of currentLinks) {
+      if (!link.url) continue;
+      linksByUrl.set(link.url, [...(linksByUrl.get(link.url) ?? []), link]);
+    }
+
+    const staged: StagedVersion = {
+      pending: [],
+      links: [],
+      added: [],
+      superseded: currentLinks.map((l) => l.knowledgeDocumentId),
+    };
+    let reused = 0;
+    for (const doc of docs) {
+      const same = currentByUrl.get(doc.url);
+      const existing = linksByUrl.get(doc.url);
+      if (same && existing?.length && same.contentHash === doc.contentHash) {
+        reused++;
+        for (const link of existing) {
+          staged.links.push({ knowledgeDocumentId: link.knowledgeDocumentId, url: doc.url });
+        }
+        continue;
+      }
+      staged.pending.push({
+        url: doc.url,
+        filename: doc.url.split("/").pop() || doc.url,
+        metadata: {
+          sourceId,
+          versionId,
+          autognosticSourceId: sourceId,
+          autognosticVersionId: versionId,
+        },
+      });
+    }
+
+    try {
+      await this.publishStaged(sourceId, versionId, staged);
+      await this.versionsRepo.activateWithLinks(sourceId, versionId, staged.links);
+    } catch (err) {
+      console.error(`[autognostic] Rollback of ${sourceId} to ${versionId} failed`, err);
+      if (staged.added.length) await removeFromKnowledge(this.runtime, staged.added);
+      return {
+        sourceId,
+        status: "failed",
+        versionId,
+        previousVersionId: current?.versionId,
+        error: err instanceof Error ? err.message : "Unknown error",
+      };
+    }
+
+    await this.retireKnowledgeDocs(staged.superseded, staged.links);
+
+    if (keepPinned) await this.sourcesRepo.setPin(sourceId, versionId);
+    console.log(
+      `[autognostic] ${sourceId} rolled back to ${versionId} ` +
+        `(${staged.added.length} restored, ${reused} kept${keepPinned ? ", pinned" : ""})`
+    );
+    return {
+      sourceId,
+      status: "rolled_back",
+      versionId,
+      previousVersionId: current?.versionId,
+      restored: staged.added.length,
+      reused,
+      pinned: keepPinned,
+    };
+  }
+
+  /**
+   * Drop archived versions, and their stored documents, that left service
+   * more than `retentionMs` ago (the refresh policy's window by default).
+   */
+  async pruneVersionHistory(sourceId: string, retentionMs?: number): Promise<number> {
+    const windowMs =
+      retentionMs ??
+      ((await this.refreshRepo.getPolicy(this.runtime.agentId))?.versionRetentionMs ??
+        DEFAULT_REFRESH_POLICY.versionRetentionMs);
+    const expired = await this.versionsRepo.listArchivedBefore(
+      sourceId,
+      new Date(Date.now() - windowMs)
+    );
+    for (const version of expired) {
+      await this.versionsRepo.deleteVersion(sourceId, version.versionId);
+    }
+    if (expired.length) {
+      console.log(`[autognostic] ${sourceId}: pruned ${expired.length} archived version(s)`);
+    }
+    return expired.length;
+  }
+
+  /** Room and entity that mirrored knowledge documents are filed under */
+  private knowledgeScope(sourceId: string): { roomId: UUID; entityId: UUID } {
+    const runtime = this.runtime as unknown as Record<string, unknown>;
+    return {
+      roomId: ((runtime.defaultRoomId as UUID | undefined) ?? sourceId) as UUID,
+      entityId: this.runtime.agentId,
+    };
+  }
+
+  /**
+   * Remove replaced knowledge docs from KnowledgeService along with every
+   * link to them, sparing any the now-active version still serves.
+   */
+  private async retireKnowledgeDocs(
+    ids: string[],
+    keep: Array<{ knowledgeDocumentId: string }>
+  ) {
+    const kept = new Set(keep.map((l) => l.knowledgeDocumentId));
+    const retired = [...new Set(ids)].filter((id) => !kept.has(id));
+    if (!retired.length) return;
+    await removeFromKnowledge(this.runtime, retired);
+    for (const id of retired) {
+      await this.knowledgeLinkRepo.deleteByKnowledgeId(id);
+    }
+  }
+
+  /**
+   * Drop the verbatim documents of a version that is no longer served
+   * (replaced with no retention window, or failed mid-reconcile); documents
+   * another version still links to are kept. Versions expiring from the
+   * window go with their documents in deleteVersion.
+   */
+  private async retireVersionDocuments(sourceId: string, versionId: string, keepUrls: string[] = []) {
+    try {
+      await this.documentsRepo.deleteByVersion(sourceId, versionId, keepUrls);
+    } catch (err) {
+      console.warn(
+        `[autognostic] Failed to retire stored documents for ${sourceId} @ ${versionId}`,
+        err
+      );
     }
   }
 }
@@ -1,6 +1,7 @@
 import type { IAgentRuntime } from "@elizaos/core";
 import type { SourceConfig } from "./SourceConfig";
 import { getScheduledSyncService } from "../services/ScheduledSyncService";
+import { getJobQueueService } from "../services/JobQueueService";
 import { ReconciliationService } from "./ReconciliationService";
 
 export class StartupBootstrapService {
@@ -18,6 +19,9 @@ export class StartupBootstrapService {
       `Sources: ${sources.map((s) => s.id).join(", ") || "(none)"}`
     );
 
+    // Pick up mirrors, refreshes and syncs the previous process left unfinished
+    await getJobQueueService(this.runtime).resumeUnfinished();
+
     // Start the scheduled sync service (cron-based)
     const syncService = getScheduledSyncService(this.runtime);
     await syncService.start();
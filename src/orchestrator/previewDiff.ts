@@ -0,0 +1,62 @@
+import type { FilePreview, SourcePreview } from "./previewSource";
+
+export interface PreviewDiff {
+  added: FilePreview[];
+  changed: FilePreview[];
+  removed: FilePreview[];
+  unchanged: FilePreview[];
+}
+
+/**
+ * Per-file change signal: size plus whatever validators the server exposed.
+ * Two probes of the same file with equal fingerprints are treated as identical.
+ */
+export function fileFingerprint(f: FilePreview): string {
+  return [f.path, String(f.estBytes), f.etag ?? "", f.lastModified ?? ""].join("|");
+}
+
+/** A probe that yielded no size or validators tells us nothing about change. */
+function hasChangeSignal(f: FilePreview): boolean {
+  return f.estBytes > 0 || !!f.etag || !!f.lastModified || !!f.lastmod;
+}
+
+/**
+ * Diff two previews of the same source, keyed by file URL.
+ * With no previous preview every file counts as added; files whose probes
+ * carried no change signal are always treated as changed. A moved sitemap
+ * lastmod counts as a change when both previews recorded one.
+ */
+export function diffPreviews(
+  previous: SourcePreview | null,
+  next: SourcePreview
+): PreviewDiff {
+  const diff: PreviewDiff = { added: [], changed: [], removed: [], unchanged: [] };
+
+  const before = new Map<string, FilePreview>();
+  for (const f of previous?.files ?? []) before.set(f.url, f);
+
+  const seen = new Set<string>();
+  for (const f of next.files) {
+    if (seen.has(f.url)) continue;
+    seen.add(f.url);
+
+    const old = before.get(f.url);
+    if (!old) {
+      diff.added.push(f);
+    } else if (
+      !hasChangeSignal(f) ||
+      fileFingerprint(old) !== fileFingerprint(f) ||
+      (old.lastmod && f.lastmod && old.lastmod !== f.lastmod)
+    ) {
+      diff.changed.push(f);
+    } else {
+      diff.unchanged.push(f);
+    }
+  }
+
+  for (const [url, f] of before) {
+    if (!seen.has(url)) diff.removed.push(f);
+  }
+
+  return diff;
+}
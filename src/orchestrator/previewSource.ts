@@ -1,6 +1,10 @@
 import type { IAgentRuntime } from "@elizaos/core";
-import type { HttpService } from "../services/httpService";
-import type { Discovery } from "../publicspace/discoveryFactory";
+import { conditionalHeaders, type HttpService } from "../services/httpService";
+import { getRateLimiter, hostBucket } from "../services/RateLimiter";
+import type { DiscoveredFile, Discovery } from "../publicspace/discoveryFactory";
+import { ErrorCode, getErrorCode } from "../errors/AutognosticError";
+import { RECONCILIATION_DEFAULTS } from "../config/constants";
+import { runPool } from "../utils/workerPool";
 
 export interface FilePreview {
   url: string;
@@ -9,18 +13,39 @@ export interface FilePreview {
   contentType: string;
   etag?: string;
   lastModified?: string;
+  /** Sitemap <lastmod> at probe time */
+  lastmod?: string;
+  /** llms.txt link title / H2 section / notes */
+  title?: string;
+  section?: string;
+  notes?: string;
 }
 
 export interface SourcePreview {
   sourceId: string;
   totalBytes: number;
   files: FilePreview[];
+  /** Upstream revision reported by the discovery (e.g. git tree SHA) */
+  revision?: string;
 }
 
+/**
+ * Probe every discovered file for size and validators.
+ * When `previous` is given, files whose sitemap lastmod has not moved since
+ * that preview reuse the earlier probe instead of issuing a HEAD request, and
+ * other files are probed conditionally against the earlier ETag/Last-Modified;
+ * a 304 reuses the earlier probe as well.
+ *
+ * Up to RECONCILIATION_DEFAULTS.BATCH_SIZE probes run at once, each drawing
+ * on its host's RateLimiter budget; files keep their discovery order.
+ * Aborting `signal` cancels the probes still in flight.
+ */
 export async function previewSourceFiles(
   runtime: IAgentRuntime,
   sourceId: string,
-  discovery: Discovery
+  discovery: Discovery,
+  previous?: SourcePreview | null,
+  signal?: AbortSignal
 ): Promise<SourcePreview> {
   const http = runtime.getService<HttpService>("http");
   if (!http) {
@@ -28,58 +53,118 @@ export async function previewSourceFiles(
   }
 
   const discovered = await discovery.list();
-  const files: FilePreview[] = [];
-  let totalBytes = 0;
+  const previousByUrl = new Map((previous?.files ?? []).map((f) => [f.url, f]));
 
-  for (const f of discovered) {
+  const { results } = await runPool(
+    discovered,
+    (f) => probeFile(http, f, previousByUrl.get(f.url), signal),
+    { concurrency: RECONCILIATION_DEFAULTS.BATCH_SIZE }
+  );
+
+  const files = results.filter((f): f is FilePreview => !!f);
+  const totalBytes = files.reduce((n, f) => n + f.estBytes, 0);
+  const revision = discovery.revision?.();
+  return { sourceId, totalBytes, files, ...(revision ? { revision } : {}) };
+}
+
+/** An earlier probe of `f`, labelled as the listing names the file now. */
+function reuseProbe(prior: FilePreview, f: DiscoveredFile): FilePreview {
+  return { ...prior, title: f.title, section: f.section, notes: f.notes };
+}
+
+/** Probe one file; null when robots.txt keeps it out of the source. */
+async function probeFile(
+  http: HttpService,
+  f: DiscoveredFile,
+  prior: FilePreview | undefined,
+  signal?: AbortSignal
+): Promise<FilePreview | null> {
+  const labels = {
+    ...(f.title ? { title: f.title } : {}),
+    ...(f.section ? { section: f.section } : {}),
+    ...(f.notes ? { notes: f.notes } : {}),
+  };
+
+  // Discovery already supplied size and a validator; no need to probe
+  if (f.estBytes !== undefined && f.etag) {
+    return {
+      url: f.url,
+      path: f.path,
+      estBytes: f.estBytes,
+      contentType: f.contentType ?? "unknown",
+      etag: f.etag,
+      ...labels,
+    };
+  }
+
+  if (prior && f.lastmod && prior.lastmod === f.lastmod) {
+    return reuseProbe(prior, f);
+  }
+
+  try {
+    await getRateLimiter().acquire(hostBucket(f.url));
+
+    // Prefer HEAD for fast metadata-only probing; fall back to a tiny ranged GET if HEAD is unsupported.
+    const conditional = conditionalHeaders(prior);
+    let res: Response;
     try {
-      // Prefer HEAD for fast metadata-only probing; fall back to a tiny ranged GET if HEAD is unsupported.
-      let res: Response;
+      res = await http.head(f.url, { timeoutMs: 15_000, headers: conditional, signal });
+    } catch {
+      res = await http.get(f.url, {
+        timeoutMs: 15_000,
+        headers: { range: "bytes=0-0", ...conditional },
+        signal,
+      });
+    }
+
+    // Unchanged since the previous preview; the server's answer outranks a
+    // moved sitemap lastmod, so the earlier probe is kept
+    if (res.status === 304 && prior) {
+      return reuseProbe(prior, f);
+    }
+
+    // Some servers respond to HEAD but omit content-length; a ranged GET can sometimes provide it.
+    if (!res.headers.get("content-length") && res.ok) {
       try {
-        res = await http.head(f.url, { timeoutMs: 15_000 });
-      } catch {
-        res = await http.get(f.url, {
+        const ranged = await http.get(f.url, {
           timeoutMs: 15_000,
           headers: { range: "bytes=0-0" },
+          signal,
         });
+        if (ranged.ok) res = ranged;
+      } catch {
+        // ignore; keep original response headers
       }
+    }
 
-      // Some servers respond to HEAD but omit content-length; a ranged GET can sometimes provide it.
-      if (!res.headers.get("content-length") && res.ok) {
-        try {
-          const ranged = await http.get(f.url, {
-            timeoutMs: 15_000,
-            headers: { range: "bytes=0-0" },
-          });
-          if (ranged.ok) res = ranged;
-        } catch {
-          // ignore; keep original response headers
-        }
-      }
+    const size = Number(res.headers.get("content-length") ?? 0);
+    const type = res.headers.get("content-type") ?? "unknown";
+    const etag = res.headers.get("etag") ?? undefined;
+    const lm = res.headers.get("last-modified") ?? undefined;
 
-      const size = Number(res.headers.get("content-length") ?? 0);
-      const type = res.headers.get("content-type") ?? "unknown";
-      const etag = res.headers.get("etag") ?? undefined;
-      const lm = res.headers.get("last-modified") ?? undefined;
-
-      files.push({
-        url: f.url,
-        path: f.path,
-        estBytes: size,
-        contentType: type,
-        etag,
-        lastModified: lm,
-      });
-      totalBytes += size;
-    } catch {
-      files.push({
-        url: f.url,
-        path: f.path,
-        estBytes: 0,
-        contentType: "unknown",
-      });
+    return {
+      url: f.url,
+      path: f.path,
+      estBytes: size,
+      contentType: type,
+      etag,
+      lastModified: lm,
+      ...(f.lastmod ? { lastmod: f.lastmod } : {}),
+      ...labels,
+    };
+  } catch (err) {
+    // Pages robots.txt disallows are left out of the source entirely
+    if (getErrorCode(err) === ErrorCode.HTTP_ROBOTS_DISALLOWED) {
+      console.warn(`[autognostic] Skipping ${f.url}: disallowed by robots.txt`);
+      return null;
     }
+    return {
+      url: f.url,
+      path: f.path,
+      estBytes: 0,
+      contentType: "unknown",
+      ...(f.lastmod ? { lastmod: f.lastmod } : {}),
+      ...labels,
+    };
   }
-
-  return { sourceId, totalBytes, files };
 }
@@ -0,0 +1,95 @@
+import type { AutognosticSizePolicy } from "../config/SizePolicy";
+import { PREVIEW_DEFAULTS } from "../config/constants";
+import { diffPreviews } from "./previewDiff";
+import type { SourcePreview } from "./previewSource";
+
+/** What the size policy would do with a mirror of this preview */
+export type SizePolicyVerdict = "auto_ingest" | "needs_confirmation" | "exceeds_hard_limit";
+
+export interface PreviewSummary {
+  sourceId: string;
+  fileCount: number;
+  totalBytes: number;
+  /** Files whose probe reported no size; left out of byte and chunk estimates */
+  unknownSizeFiles: number;
+  estimatedChunks: number;
+  largestFiles: Array<{ path: string; url: string; estBytes: number }>;
+  /** Content types by file count, most common first */
+  contentTypes: Array<{ contentType: string; count: number; bytes: number }>;
+  changes: {
+    /** Version the counts are relative to; null when there is none to compare with */
+    comparedWith: string | null;
+    added: number;
+    changed: number;
+    unchanged: number;
+    removed: number;
+  };
+  sizePolicy: AutognosticSizePolicy & { verdict: SizePolicyVerdict };
+}
+
+/**
+ * Knowledge chunks a file of `bytes` is likely to be split into, using
+ * plugin-knowledge's default chunk size and overlap.
+ */
+export function estimateChunks(bytes: number): number {
+  if (bytes <= 0) return 0;
+  const { CHUNK_TOKENS, CHUNK_OVERLAP_TOKENS, BYTES_PER_TOKEN } = PREVIEW_DEFAULTS;
+  const tokens = bytes / BYTES_PER_TOKEN;
+  if (tokens <= CHUNK_TOKENS) return 1;
+  return Math.ceil((tokens - CHUNK_OVERLAP_TOKENS) / (CHUNK_TOKENS - CHUNK_OVERLAP_TOKENS));
+}
+
+export function sizePolicyVerdict(
+  totalBytes: number,
+  policy: AutognosticSizePolicy
+): SizePolicyVerdict {
+  if (totalBytes > policy.maxBytesHardLimit) return "exceeds_hard_limit";
+  if (policy.previewAlways || totalBytes > policy.autoIngestBelowBytes) return "needs_confirmation";
+  return "auto_ingest";
+}
+
+/**
+ * Summarise what mirroring `preview` would do: sizes, content types, the
+ * per-file diff against `active` (the preview the source is serving, if
+ * any) and which size-policy limit applies. Nothing is fetched or stored.
+ */
+export function summarizePreview(
+  preview: SourcePreview,
+  active: { versionId: string; preview: SourcePreview } | null,
+  policy: AutognosticSizePolicy
+): PreviewSummary {
+  const byType = new Map<string, { count: number; bytes: number }>();
+  for (const f of preview.files) {
+    const contentType = f.contentType.split(";")[0].trim().toLowerCase() || "unknown";
+    const entry = byType.get(contentType) ?? { count: 0, bytes: 0 };
+    entry.count++;
+    entry.bytes += f.estBytes;
+    byType.set(contentType, entry);
+  }
+
+  const diff = diffPreviews(active?.preview ?? null, preview);
+
+  return {
+    sourceId: preview.sourceId,
+    fileCount: preview.files.length,
+    totalBytes: preview.totalBytes,
+    unknownSizeFiles: preview.files.filter((f) => f.estBytes <= 0).length,
+    estimatedChunks: preview.files.reduce((n, f) => n + estimateChunks(f.estBytes), 0),
+    largestFiles: [...preview.files]
+      .filter((f) => f.estBytes > 0)
+      .sort((a, b) => b.estBytes - a.estBytes)
+      .slice(0, PREVIEW_DEFAULTS.LARGEST_FILES)
+      .map((f) => ({ path: f.path, url: f.url, estBytes: f.estBytes })),
+    contentTypes: [...byType]
+      .map(([contentType, e]) => ({ contentType, ...e }))
+      .sort((a, b) => b.count - a.count || b.bytes - a.bytes),
+    changes: {
+      comparedWith: active?.versionId ?? null,
+      added: diff.added.length,
+      changed: diff.changed.length,
+      unchanged: diff.unchanged.length,
+      removed: diff.removed.length,
+    },
+    sizePolicy: { ...policy, verdict: sizePolicyVerdict(preview.totalBytes, policy) },
+  };
+}
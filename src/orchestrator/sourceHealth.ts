@@ -0,0 +1,68 @@
+import type { AutognosticSourceRow } from "../db/schema";
+import { SOURCE_HEALTH_DEFAULTS } from "../config/constants";
+import { fromCondition } from "../services/ErrorMessageFactory";
+
+export type SourceHealthState = "healthy" | "failing" | "backing_off" | "disabled";
+
+export interface SourceHealth {
+  state: SourceHealthState;
+  consecutiveFailures: number;
+  lastErrorCode: string | null;
+  /** Human-readable cause of the last failure */
+  reason?: string;
+  suggestion?: string;
+  lastSuccessAt: Date | null;
+  nextAttemptAt: Date | null;
+}
+
+/** Wait before the next attempt after `failures` consecutive failed syncs. */
+export function backoffDelayMs(failures: number): number {
+  const { BACKOFF_BASE_MS, BACKOFF_MAX_MS } = SOURCE_HEALTH_DEFAULTS;
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, failures - 1), BACKOFF_MAX_MS);
+}
+
+type HealthFields = Pick<
+  AutognosticSourceRow,
+  | "sourceUrl"
+  | "consecutiveFailures"
+  | "lastErrorCode"
+  | "lastError"
+  | "lastSuccessAt"
+  | "nextAttemptAt"
+  | "autoDisabledAt"
+>;
+
+export function describeSourceHealth(row: HealthFields, now = new Date()): SourceHealth {
+  const base = {
+    consecutiveFailures: row.consecutiveFailures,
+    lastErrorCode: row.lastErrorCode,
+    lastSuccessAt: row.lastSuccessAt,
+    nextAttemptAt: row.nextAttemptAt,
+  };
+  if (!row.autoDisabledAt && row.consecutiveFailures === 0) {
+    return { state: "healthy", ...base };
+  }
+
+  const msg = fromCondition(row.lastErrorCode, row.lastError ?? undefined, { url: row.sourceUrl });
+  const state: SourceHealthState = row.autoDisabledAt
+    ? "disabled"
+    : row.nextAttemptAt && row.nextAttemptAt > now
+      ? "backing_off"
+      : "failing";
+  return { state, ...base, reason: msg.summary, suggestion: msg.suggestion };
+}
+
+/** One-line health note for listings; empty for a healthy source. */
+export function formatSourceHealth(health: SourceHealth): string {
+  const streak = `${health.consecutiveFailures} failed sync${health.consecutiveFailures === 1 ? "" : "s"} in a row`;
+  switch (health.state) {
+    case "healthy":
+      return "";
+    case "disabled":
+      return `disabled after ${streak}: ${health.reason}. Refresh it to retry`;
+    case "backing_off":
+      return `${streak}: ${health.reason}; next attempt after ${health.nextAttemptAt!.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+    case "failing":
+      return `${streak}: ${health.reason}`;
+  }
+}
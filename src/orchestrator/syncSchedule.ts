@@ -0,0 +1,117 @@
+import type { AutognosticSourceRow } from "../db/schema";
+import { SCHEDULE_DEFAULTS } from "../config/constants";
+import { AutognosticValidationError } from "../errors/ValidationError";
+import { ErrorCode } from "../errors/AutognosticError";
+import { nextCronTime } from "../utils/cronSchedule";
+
+export type SourceSchedule = Pick<
+  AutognosticSourceRow,
+  "syncCron" | "syncIntervalMinutes" | "syncJitterMinutes"
+>;
+
+export interface ScheduleDefaults {
+  /** sync_config cron, used by sources without their own schedule */
+  cronExpression: string;
+  timezone: string;
+}
+
+const MINUTE_MS = 60_000;
+
+const INTERVAL_WORDS: Record<string, number> = {
+  hourly: 60,
+  daily: 24 * 60,
+  weekly: 7 * 24 * 60,
+};
+
+const UNIT_MINUTES: Record<string, number> = {
+  m: 1,
+  min: 1,
+  minute: 1,
+  h: 60,
+  hr: 60,
+  hour: 60,
+  d: 24 * 60,
+  day: 24 * 60,
+  w: 7 * 24 * 60,
+  week: 7 * 24 * 60,
+};
+
+/**
+ * Minutes in an interval like "15m", "6 hours", "2d" or "weekly". Throws
+ * AutognosticValidationError for anything else or for an interval shorter
+ * than SCHEDULE_DEFAULTS.MIN_INTERVAL_MINUTES.
+ */
+export function parseInterval(text: string): number {
+  const normalized = text.trim().toLowerCase();
+  let minutes = INTERVAL_WORDS[normalized];
+  if (minutes === undefined) {
+    const match = normalized.match(/^(?:every\s+)?(\d+)\s*([a-z]+?)s?$/);
+    const unit = match ? UNIT_MINUTES[match[2]] : undefined;
+    minutes = match && unit ? Number(match[1]) * unit : NaN;
+  }
+  if (!Number.isFinite(minutes)) {
+    throw new AutognosticValidationError(
+      `Invalid interval "${text}": use a number with m, h, d or w (e.g. "30m", "6h"), or hourly, daily, weekly`,
+      ErrorCode.VALIDATION_INVALID_FORMAT,
+      { operation: "parseInterval", field: "interval", value: text }
+    );
+  }
+  if (minutes < SCHEDULE_DEFAULTS.MIN_INTERVAL_MINUTES) {
+    throw new AutognosticValidationError(
+      `Interval "${text}" is shorter than the ${SCHEDULE_DEFAULTS.MIN_INTERVAL_MINUTES} minute minimum`,
+      ErrorCode.VALIDATION_INVALID_FORMAT,
+      { operation: "parseInterval", field: "interval", value: text }
+    );
+  }
+  return minutes;
+}
+
+/**
+ * When a source with this schedule should next sync after `from`: its own
+ * cron or interval if set, else the default cron, plus a random delay of up
+ * to the jitter so sources sharing a schedule don't all fetch at once.
+ * Returns null only if no cron time matches at all.
+ */
+export function computeNextSyncAt(
+  schedule: SourceSchedule,
+  from: Date,
+  defaults: ScheduleDefaults,
+  random: () => number = Math.random
+): Date | null {
+  let base: Date | null;
+  if (schedule.syncCron) {
+    base = nextCronTime(schedule.syncCron, from, defaults.timezone);
+  } else if (schedule.syncIntervalMinutes) {
+    base = new Date(from.getTime() + schedule.syncIntervalMinutes * MINUTE_MS);
+  } else {
+    base = nextCronTime(defaults.cronExpression, from, defaults.timezone);
+  }
+  if (!base) return null;
+
+  const jitterMinutes = schedule.syncJitterMinutes ?? SCHEDULE_DEFAULTS.JITTER_MINUTES;
+  return new Date(base.getTime() + Math.floor(random() * jitterMinutes * MINUTE_MS));
+}
+
+function formatMinutes(minutes: number): string {
+  for (const [unit, size] of [["week", 7 * 24 * 60], ["day", 24 * 60], ["hour", 60]] as const) {
+    if (minutes % size === 0) {
+      const n = minutes / size;
+      return n === 1 ? unit : `${n} ${unit}s`;
+    }
+  }
+  return minutes === 1 ? "minute" : `${minutes} minutes`;
+}
+
+/** Human-readable schedule, e.g. "every 6 hours (up to 5 min jitter)". */
+export function describeSchedule(schedule: SourceSchedule, defaults: ScheduleDefaults): string {
+  let text: string;
+  if (schedule.syncCron) {
+    text = `cron "${schedule.syncCron}" (${defaults.timezone})`;
+  } else if (schedule.syncIntervalMinutes) {
+    text = `every ${formatMinutes(schedule.syncIntervalMinutes)}`;
+  } else {
+    text = `default schedule, cron "${defaults.cronExpression}" (${defaults.timezone})`;
+  }
+  const jitter = schedule.syncJitterMinutes ?? SCHEDULE_DEFAULTS.JITTER_MINUTES;
+  return jitter > 0 ? `${text} (up to ${jitter} min jitter)` : text;
+}
@@ -1,9 +1,9 @@
 import type { IAgentRuntime, Memory, Provider, ProviderResult, State } from "@elizaos/core";
-import { autognosticDocuments } from "../db/schema";
-import { getDb } from "../db/getDb";
-import { desc } from "drizzle-orm";
+import {
+  AutognosticDocumentsRepository,
+  type DocumentInventoryEntry,
+} from "../db/autognosticDocumentsRepository";
 import { PROVIDER_DEFAULTS } from "../config/constants";
-import type { DocumentProfile } from "../services/DocumentAnalyzer.types";
 
 /**
  * FullDocumentProvider — ROUTING ONLY
@@ -26,26 +26,12 @@ export const fullDocumentProvider: Provider = {
     _state: State
   ): Promise<ProviderResult> {
     // Get document inventory (metadata only — never load content here)
-    let documentInventory: Array<{
-      url: string;
-      byteSize: number | null;
-      profile: DocumentProfile | null;
-      createdAt: Date | null;
-    }> = [];
+    let documentInventory: DocumentInventoryEntry[] = [];
 
     try {
-      const db = await getDb(runtime);
-      const rows = await db
-        .select({
-          url: autognosticDocuments.url,
-          byteSize: autognosticDocuments.byteSize,
-          profile: autognosticDocuments.profile,
-          createdAt: autognosticDocuments.createdAt,
-        })
-        .from(autognosticDocuments)
-        .orderBy(desc(autognosticDocuments.createdAt))
-        .limit(PROVIDER_DEFAULTS.MAX_INVENTORY_SIZE);
-      documentInventory = rows as typeof documentInventory;
+      documentInventory = await new AutognosticDocumentsRepository(runtime).listInventory(
+        PROVIDER_DEFAULTS.MAX_INVENTORY_SIZE
+      );
     } catch (error) {
       console.error(`[autognostic] Failed to fetch document inventory:`, error);
     }
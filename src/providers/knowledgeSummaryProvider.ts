@@ -1,6 +1,7 @@
 import type { IAgentRuntime, Memory, Provider, ProviderResult, State } from "@elizaos/core";
 import { AutognosticSourcesRepository } from "../db/autognosticSourcesRepository";
 import { AutognosticDocumentsRepository } from "../db/autognosticDocumentsRepository";
+import { describeSourceHealth, formatSourceHealth } from "../orchestrator/sourceHealth";
 
 /**
  * KnowledgeSummaryProvider
@@ -23,10 +24,12 @@ export const knowledgeSummaryProvider: Provider = {
     const docsRepo = new AutognosticDocumentsRepository(runtime);
 
     let sources: Awaited<ReturnType<AutognosticSourcesRepository["listEnabled"]>> = [];
+    let disabled: typeof sources = [];
     let docCount = 0;
 
     try {
       sources = await sourcesRepo.listEnabled();
+      disabled = await sourcesRepo.listAutoDisabled();
       docCount = await docsRepo.count();
     } catch {
       // Tables may not exist yet
@@ -36,7 +39,7 @@ export const knowledgeSummaryProvider: Provider = {
       };
     }
 
-    if (sources.length === 0 && docCount === 0) {
+    if (sources.length === 0 && disabled.length === 0 && docCount === 0) {
       return {
         text: "",
         data: { sourcesCount: 0, documentCount: 0 },
@@ -53,13 +56,15 @@ export const knowledgeSummaryProvider: Provider = {
           ? `synced ${src.lastSyncAt.toISOString().split("T")[0]}`
           : "never synced";
         const trackingStatus = src.versionTrackingEnabled ? "" : " (tracking off)";
+        const health = formatSourceHealth(describeSourceHealth(src));
+        const healthNote = health ? ` \u{26A0}\u{FE0F} ${health}` : "";
 
         let metaInfo = "";
         if (src.staticDetectionMetadata?.doi) {
           metaInfo = ` (DOI: ${src.staticDetectionMetadata.doi})`;
         }
 
-        return `- ${src.id}${staticBadge}: ${docs.length} doc(s), ${syncStatus}${trackingStatus}${metaInfo}`;
+        return `- ${src.id}${staticBadge}: ${docs.length} doc(s), ${syncStatus}${trackingStatus}${metaInfo}${healthNote}`;
       })
     );
 
@@ -67,11 +72,20 @@ export const knowledgeSummaryProvider: Provider = {
       ? `\n(${staticCount} source(s) marked as static)`
       : "";
 
+    // Auto-disabled sources stop syncing silently otherwise; tell the user once asked
+    const attention = disabled.map((src) => {
+      const health = describeSourceHealth(src);
+      return `- ${src.id} (${src.sourceUrl}) was disabled after ${health.consecutiveFailures} failed syncs in a row: ${health.reason}. ${health.suggestion}. A successful refresh re-enables it.`;
+    });
+    const attentionSection = attention.length
+      ? `\n\n## Needs attention\n${attention.join("\n")}`
+      : "";
+
     const text = `# YOUR KNOWLEDGE BASE
 You have access to ${sources.length} knowledge source(s) containing ${docCount} document(s).${staticNote}
 
 ## Sources
-${sourceLines.join("\n")}`;
+${sourceLines.join("\n")}${attentionSection}`;
 
     return {
       text,
@@ -85,6 +99,14 @@ ${sourceLines.join("\n")}`;
           isStatic: s.isStaticContent,
           versionTracking: s.versionTrackingEnabled,
           lastSync: s.lastSyncAt?.toISOString(),
+          health: describeSourceHealth(s).state,
+        })),
+        disabledSources: disabled.map((s) => ({
+          id: s.id,
+          url: s.sourceUrl,
+          consecutiveFailures: s.consecutiveFailures,
+          lastErrorCode: s.lastErrorCode,
+          disabledAt: s.autoDisabledAt?.toISOString(),
         })),
       },
     };
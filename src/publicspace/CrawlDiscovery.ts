@@ -0,0 +1,180 @@
+import type { HttpService } from "../services/httpService";
+import { WebPageProcessor } from "../services/WebPageProcessor";
+import type { Discovery, DiscoveredFile } from "./discoveryFactory";
+import { CRAWL_DEFAULTS } from "../config/constants";
+import { logger } from "../utils/logger";
+
+export interface CrawlDiscoveryOptions {
+  maxDepth?: number;
+  maxPages?: number;
+}
+
+/** Query parameters that never change page content */
+const TRACKING_PARAM_RE = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref|ref_src)$/i;
+
+/** Static assets are never documents */
+const ASSET_EXT_RE =
+  /\.(png|jpe?g|gif|svg|webp|ico|bmp|css|js|mjs|map|json|xml|rss|atom|zip|gz|tgz|tar|rar|7z|exe|dmg|mp3|mp4|webm|mov|avi|woff2?|ttf|otf|eot)$/i;
+
+/** Documents that are mirrored but not parsed for further links */
+const LEAF_EXT_RE = /\.(pdf|docx?|md|mdx|txt|rst)$/i;
+
+/**
+ * Normalize a URL for crawling: drop the fragment and tracking parameters,
+ * sort the remaining query, and reject non-HTTP schemes.
+ */
+export function normalizeCrawlUrl(raw: string): string | null {
+  let u: URL;
+  try {
+    u = new URL(raw);
+  } catch {
+    return null;
+  }
+  if (u.protocol !== "http:" && u.protocol !== "https:") return null;
+
+  u.hash = "";
+  const params = [...u.searchParams.entries()]
+    .filter(([key]) => !TRACKING_PARAM_RE.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  u.search = "";
+  for (const [key, value] of params) u.searchParams.append(key, value);
+  return u.toString();
+}
+
+/** Dedup key: `/docs/` and `/docs` are the same page. */
+function dedupKey(url: string): string {
+  const u = new URL(url);
+  if (u.pathname.length > 1 && u.pathname.endsWith("/")) {
+    u.pathname = u.pathname.slice(0, -1);
+  }
+  return u.toString();
+}
+
+/**
+ * Breadth-first link-following crawl for sites that publish neither
+ * llms.txt nor a sitemap. Only pages on the start URL's origin and below
+ * its directory are followed (https://x.dev/docs/intro → https://x.dev/docs/).
+ * Pages declaring a different <link rel="canonical"> are recorded under the
+ * canonical URL, so aliases of the same page are mirrored once.
+ */
+export class CrawlDiscovery implements Discovery {
+  private maxDepth: number;
+  private maxPages: number;
+  private processor = new WebPageProcessor();
+
+  constructor(
+    private http: HttpService,
+    private startUrl: string,
+    options: CrawlDiscoveryOptions = {}
+  ) {
+    this.maxDepth = options.maxDepth ?? CRAWL_DEFAULTS.MAX_DEPTH;
+    this.maxPages = options.maxPages ?? CRAWL_DEFAULTS.MAX_PAGES;
+  }
+
+  async list(): Promise<DiscoveredFile[]> {
+    const start = normalizeCrawlUrl(this.startUrl);
+    if (!start) throw new Error(`Cannot crawl non-HTTP URL: ${this.startUrl}`);
+
+    const startUrl = new URL(start);
+    const origin = startUrl.origin;
+    const prefix = startUrl.pathname.replace(/[^/]*$/, "");
+    const inScope = (url: string): boolean => {
+      const u = new URL(url);
+      return u.origin === origin && u.pathname.startsWith(prefix);
+    };
+
+    const files: DiscoveredFile[] = [];
+    const seen = new Set<string>([dedupKey(start)]);
+    let frontier = [start];
+
+    for (let depth = 0; frontier.length && files.length < this.maxPages; depth++) {
+      const next: string[] = [];
+
+      for (const url of frontier) {
+        if (files.length >= this.maxPages) {
+          logger.warn("Crawl page limit reached; remaining pages ignored", {
+            startUrl: this.startUrl,
+            maxPages: this.maxPages,
+          });
+          break;
+        }
+
+        const pathname = new URL(url).pathname;
+        if (LEAF_EXT_RE.test(pathname)) {
+          files.push({ url, path: this.urlToPath(url) });
+          continue;
+        }
+
+        let page: Awaited<ReturnType<CrawlDiscovery["fetchPage"]>>;
+        try {
+          page = await this.fetchPage(url);
+        } catch (err) {
+          // Only the start page is allowed to fail the whole discovery
+          if (depth === 0) throw err;
+          logger.warn("Skipping unreadable page during crawl", { url }, err);
+          continue;
+        }
+        if (!page) continue;
+
+        // Record aliases under the page's canonical URL
+        let pageUrl = url;
+        const canonical = page.canonicalUrl && normalizeCrawlUrl(page.canonicalUrl);
+        if (canonical && dedupKey(canonical) !== dedupKey(url) && inScope(canonical)) {
+          if (seen.has(dedupKey(canonical))) continue;
+          seen.add(dedupKey(canonical));
+          pageUrl = canonical;
+        }
+
+        files.push({
+          url: pageUrl,
+          path: this.urlToPath(pageUrl),
+          contentType: "text/html",
+          ...(page.title ? { title: page.title } : {}),
+        });
+
+        if (depth >= this.maxDepth) continue;
+        for (const link of page.links) {
+          const target = normalizeCrawlUrl(link.href);
+          if (!target || !inScope(target) || ASSET_EXT_RE.test(new URL(target).pathname)) {
+            continue;
+          }
+          const key = dedupKey(target);
+          if (seen.has(key)) continue;
+          seen.add(key);
+          next.push(target);
+        }
+      }
+
+      frontier = next;
+    }
+
+    return files;
+  }
+
+  /**
+   * Fetch one page and extract its links. Returns null for non-HTML
+   * responses, which are neither mirrored nor followed.
+   */
+  private async fetchPage(
+    url: string
+  ): Promise<{ title: string; canonicalUrl?: string; links: { href: string }[] } | null> {
+    const res = await this.http.get(url, {
+      headers: { accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.1" },
+    });
+    if (!res.ok) {
+      throw new Error(`HTTP ${res.status} (${res.statusText}) for ${url}`);
+    }
+    const contentType = res.headers.get("content-type") ?? "";
+    if (contentType && !/html/i.test(contentType)) return null;
+
+    const html = (await res.text()).slice(0, CRAWL_DEFAULTS.MAX_PAGE_BYTES);
+    // Resolve relative links against the final URL after redirects
+    return this.processor.extractNavigation(html, res.url || url);
+  }
+
+  private urlToPath(url: string): string {
+    const u = new URL(url);
+    const path = u.pathname.replace(/^\//, "") || "index";
+    return u.search ? `${path}${u.search}` : path;
+  }
+}
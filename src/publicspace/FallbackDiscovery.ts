@@ -0,0 +1,53 @@
+import type { Discovery, DiscoveredFile } from "./discoveryFactory";
+import { logger } from "../utils/logger";
+
+export interface DiscoveryCandidate {
+  /** Label for logs, e.g. "llms.txt" */
+  name: string;
+  discovery: Discovery;
+}
+
+/**
+ * Tries each discovery in order and uses the first one that lists any files.
+ * A candidate that throws (404, unreachable) or comes back empty falls
+ * through to the next; the last candidate's error is surfaced if none work.
+ */
+export class FallbackDiscovery implements Discovery {
+  private chosen: DiscoveryCandidate | undefined;
+
+  constructor(private candidates: DiscoveryCandidate[]) {}
+
+  /** Name of the candidate that produced the last list(), if any */
+  get chosenName(): string | undefined {
+    return this.chosen?.name;
+  }
+
+  async list(): Promise<DiscoveredFile[]> {
+    this.chosen = undefined;
+    let lastError: unknown;
+
+    for (const candidate of this.candidates) {
+      try {
+        const files = await candidate.discovery.list();
+        if (files.length) {
+          this.chosen = candidate;
+          return files;
+        }
+        logger.info("Discovery found no files; trying next", { discovery: candidate.name });
+      } catch (err) {
+        lastError = err;
+        logger.info("Discovery unavailable; trying next", {
+          discovery: candidate.name,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    if (lastError) throw lastError;
+    return [];
+  }
+
+  revision(): string | undefined {
+    return this.chosen?.discovery.revision?.();
+  }
+}
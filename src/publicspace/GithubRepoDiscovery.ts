@@ -0,0 +1,92 @@
+import type { GithubService } from "../services/githubService";
+import type { Discovery, DiscoveredFile } from "./discoveryFactory";
+import { globsToRegExp, splitGlobs } from "../utils/glob";
+import { RECONCILIATION_DEFAULTS } from "../config/constants";
+import { logger } from "../utils/logger";
+
+const CONTENT_TYPES: Record<string, string> = {
+  md: "text/markdown",
+  mdx: "text/markdown",
+  markdown: "text/markdown",
+  txt: "text/plain",
+  rst: "text/x-rst",
+  html: "text/html",
+  htm: "text/html",
+  json: "application/json",
+  yaml: "application/yaml",
+  yml: "application/yaml",
+  pdf: "application/pdf",
+};
+
+function contentTypeForPath(path: string): string {
+  const ext = path.split(".").pop()?.toLowerCase() ?? "";
+  return CONTENT_TYPES[ext] ?? "text/plain";
+}
+
+/**
+ * Discovers files in a GitHub repository (or a `/tree/<ref>/<path>` subtree)
+ * through one recursive tree call instead of probing every blob.
+ *
+ * Include/exclude globs come from the source URL's query string, e.g.
+ * `https://github.com/org/repo/tree/main/docs?include=docs/**\/*.md&exclude=**\/drafts/**`
+ * (repeat a parameter or comma-separate for several globs).
+ *
+ * Each file carries its blob SHA as etag, so per-file diffs are exact, and
+ * `revision()` reports the tree SHA used as the source's version identifier.
+ */
+export class GithubRepoDiscovery implements Discovery {
+  private treeSha: string | undefined;
+
+  constructor(
+    private github: GithubService,
+    private sourceUrl: string
+  ) {}
+
+  async list(): Promise<DiscoveredFile[]> {
+    const parsed = this.github.parseGithubUrl(this.sourceUrl);
+    const query = new URL(this.sourceUrl).searchParams;
+    const globs = (name: string) => query.getAll(name).flatMap(splitGlobs);
+
+    const tree = await this.github.resolveRepoTree({
+      owner: parsed.owner,
+      repo: parsed.repo,
+      ref: parsed.ref,
+      subdir: parsed.path,
+      include: globsToRegExp(globs("include")),
+      exclude: globsToRegExp(globs("exclude")),
+    });
+    this.treeSha = tree.treeSha;
+
+    if (tree.truncated) {
+      logger.warn("GitHub tree was truncated; some files may be missing", {
+        repo: `${parsed.owner}/${parsed.repo}`,
+        ref: tree.ref,
+      });
+    }
+
+    let files = tree.files;
+    if (files.length > RECONCILIATION_DEFAULTS.MAX_FILES_PER_SOURCE) {
+      logger.warn("Too many matching files; narrow the source with include/exclude globs", {
+        repo: `${parsed.owner}/${parsed.repo}`,
+        matched: files.length,
+        kept: RECONCILIATION_DEFAULTS.MAX_FILES_PER_SOURCE,
+      });
+      files = files.slice(0, RECONCILIATION_DEFAULTS.MAX_FILES_PER_SOURCE);
+    }
+
+    // Blob URLs on the branch keep file URLs stable across commits;
+    // ContentResolver rewrites them to raw.githubusercontent.com for fetching.
+    const refPath = encodeURI(tree.ref);
+    return files.map((f) => ({
+      url: `https://github.com/${parsed.owner}/${parsed.repo}/blob/${refPath}/${encodeURI(f.path)}`,
+      path: f.path,
+      estBytes: f.size,
+      etag: f.sha,
+      contentType: contentTypeForPath(f.path),
+    }));
+  }
+
+  revision(): string | undefined {
+    return this.treeSha;
+  }
+}
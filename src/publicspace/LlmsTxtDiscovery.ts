@@ -1,26 +1,35 @@
 import type { HttpService } from "../services/httpService";
 import type { Discovery, DiscoveredFile } from "./discoveryFactory";
+import { isOptionalSection, parseLlmsTxt } from "./llmsTxtParser";
+
+export interface LlmsTxtDiscoveryOptions {
+  /** Also mirror links from the "Optional" section */
+  includeOptional?: boolean;
+}
 
 export class LlmsTxtDiscovery implements Discovery {
   constructor(
     private http: HttpService,
-    private root: string // origin root, e.g. https://docs.elizaos.ai
+    private root: string, // origin root, e.g. https://docs.elizaos.ai
+    private options: LlmsTxtDiscoveryOptions = {}
   ) {}
 
   async list(): Promise<DiscoveredFile[]> {
-    const url = `${this.root}/llms.txt`;
+    const url = `${this.root.replace(/\/$/, "")}/llms.txt`;
     const text = await this.http.getText(url);
-    const lines = text
-      .split("\n")
-      .map((l) => l.trim())
-      .filter((l) => l.length > 0);
+    const parsed = parseLlmsTxt(text, url);
 
-    return lines.map((line) => {
-      const u = new URL(line);
-      return {
-        url: line,
-        path: u.pathname.replace(/^\//, ""),
-      };
-    });
+    return parsed.links
+      .filter((link) => this.options.includeOptional || !isOptionalSection(link.section))
+      .map((link) => {
+        const u = new URL(link.url);
+        return {
+          url: link.url,
+          path: u.pathname.replace(/^\//, "") || "index",
+          ...(link.title ? { title: link.title } : {}),
+          ...(link.section ? { section: link.section } : {}),
+          ...(link.notes ? { notes: link.notes } : {}),
+        };
+      });
   }
 }
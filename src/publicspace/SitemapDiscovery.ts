@@ -1,57 +1,125 @@
+import { gunzipSync } from "zlib";
 import type { HttpService } from "../services/httpService";
 import type { Discovery, DiscoveredFile } from "./discoveryFactory";
+import { SITEMAP_DEFAULTS } from "../config/constants";
+import { logger } from "../utils/logger";
+
+export interface SitemapDiscoveryOptions {
+  maxDepth?: number;
+  maxUrls?: number;
+}
 
 /**
  * Parses XML sitemap and discovers URLs.
  * Supports standard sitemap format with <urlset> and <url><loc> elements.
- * Also supports sitemap index files with <sitemapindex> and <sitemap><loc>.
+ * Sitemap index files (<sitemapindex> / <sitemap><loc>) are followed
+ * recursively up to `maxDepth` levels, collecting at most `maxUrls` pages.
+ * Gzipped sitemaps (sitemap.xml.gz) are decompressed transparently.
  */
 export class SitemapDiscovery implements Discovery {
+  private maxDepth: number;
+  private maxUrls: number;
+
   constructor(
     private http: HttpService,
-    private sitemapUrl: string
-  ) {}
-
-  async list(): Promise<DiscoveredFile[]> {
-    const xml = await this.http.getText(this.sitemapUrl);
-    return this.parseXml(xml);
+    private sitemapUrl: string,
+    options: SitemapDiscoveryOptions = {}
+  ) {
+    this.maxDepth = options.maxDepth ?? SITEMAP_DEFAULTS.MAX_DEPTH;
+    this.maxUrls = options.maxUrls ?? SITEMAP_DEFAULTS.MAX_URLS;
   }
 
-  private parseXml(xml: string): DiscoveredFile[] {
+  async list(): Promise<DiscoveredFile[]> {
     const files: DiscoveredFile[] = [];
+    const seenPages = new Set<string>();
+    const visited = new Set<string>();
+
+    const walk = async (url: string, depth: number): Promise<void> => {
+      if (visited.has(url) || files.length >= this.maxUrls) return;
+      visited.add(url);
+
+      // Only the root sitemap is allowed to fail the whole discovery
+      let xml: string;
+      try {
+        xml = await this.fetchXml(url);
+      } catch (err) {
+        if (depth === 0) throw err;
+        logger.warn("Skipping unreadable nested sitemap", { url }, err);
+        return;
+      }
 
-    // Check if this is a sitemap index (contains other sitemaps)
-    if (xml.includes("<sitemapindex")) {
-      // For sitemap index, we only extract the sitemap URLs
-      // The caller would need to recursively process these
-      const sitemapLocs = this.extractTags(xml, "sitemap", "loc");
-      for (const loc of sitemapLocs) {
+      if (xml.includes("<sitemapindex")) {
+        if (depth >= this.maxDepth) {
+          logger.warn("Sitemap index nesting exceeds max depth; not following", {
+            url,
+            maxDepth: this.maxDepth,
+          });
+          return;
+        }
+        for (const child of this.extractEntries(xml, "sitemap")) {
+          await walk(child.loc, depth + 1);
+          if (files.length >= this.maxUrls) break;
+        }
+        return;
+      }
+
+      // Standard sitemap with <urlset>
+      for (const entry of this.extractEntries(xml, "url")) {
+        if (seenPages.has(entry.loc)) continue;
+        if (files.length >= this.maxUrls) {
+          logger.warn("Sitemap URL limit reached; remaining pages ignored", {
+            sitemapUrl: this.sitemapUrl,
+            maxUrls: this.maxUrls,
+          });
+          return;
+        }
+        seenPages.add(entry.loc);
         files.push({
-          url: loc,
-          path: this.urlToPath(loc),
+          url: entry.loc,
+          path: this.urlToPath(entry.loc),
+          ...(entry.lastmod ? { lastmod: entry.lastmod } : {}),
+          ...(entry.changefreq ? { changefreq: entry.changefreq } : {}),
+          ...(entry.priority !== undefined ? { priority: entry.priority } : {}),
         });
       }
-      return files;
-    }
+    };
 
-    // Standard sitemap with <urlset>
-    const urlLocs = this.extractTags(xml, "url", "loc");
-    for (const loc of urlLocs) {
-      files.push({
-        url: loc,
-        path: this.urlToPath(loc),
-      });
+    await walk(this.sitemapUrl, 0);
+    return files;
+  }
+
+  /**
+   * Fetch sitemap XML, gunzipping `.gz` sitemaps. Servers that send
+   * Content-Encoding: gzip are already decoded by fetch; this handles
+   * files stored compressed (application/x-gzip bodies).
+   */
+  private async fetchXml(url: string): Promise<string> {
+    if (!new URL(url).pathname.endsWith(".gz")) {
+      return this.http.getText(url, { maxChars: SITEMAP_DEFAULTS.MAX_XML_BYTES });
     }
 
-    return files;
+    const res = await this.http.get(url);
+    if (!res.ok) {
+      throw new Error(`HTTP ${res.status} (${res.statusText}) for ${url}`);
+    }
+    const bytes = Buffer.from(await res.arrayBuffer());
+    const isGzip = bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+    const xml = isGzip
+      ? gunzipSync(bytes, { maxOutputLength: SITEMAP_DEFAULTS.MAX_XML_BYTES })
+      : bytes;
+    return xml.toString("utf-8");
   }
 
   /**
-   * Extract text content from nested tags.
-   * For sitemap: extracts <loc> values from within <url> or <sitemap> elements.
+   * Extract <loc>, <lastmod>, <changefreq> and <priority> from each
+   * <url> or <sitemap> element.
    */
-  private extractTags(xml: string, parentTag: string, childTag: string): string[] {
-    const results: string[] = [];
+  private extractEntries(
+    xml: string,
+    parentTag: string
+  ): Array<{ loc: string; lastmod?: string; changefreq?: string; priority?: number }> {
+    const entries: Array<{ loc: string; lastmod?: string; changefreq?: string; priority?: number }> =
+      [];
 
     // Match parent elements
     const parentRegex = new RegExp(`<${parentTag}[^>]*>([\\s\\S]*?)<\\/${parentTag}>`, "gi");
@@ -59,20 +127,27 @@ export class SitemapDiscovery implements Discovery {
 
     while ((parentMatch = parentRegex.exec(xml)) !== null) {
       const parentContent = parentMatch[1];
-
-      // Extract child tag content
-      const childRegex = new RegExp(`<${childTag}[^>]*>([^<]+)<\\/${childTag}>`, "i");
-      const childMatch = childRegex.exec(parentContent);
-
-      if (childMatch && childMatch[1]) {
-        const value = this.decodeXmlEntities(childMatch[1].trim());
-        if (value) {
-          results.push(value);
-        }
-      }
+      const loc = this.extractChild(parentContent, "loc");
+      if (!loc) continue;
+
+      const rawPriority = this.extractChild(parentContent, "priority");
+      const priority = rawPriority !== undefined ? Number(rawPriority) : NaN;
+      entries.push({
+        loc,
+        lastmod: this.extractChild(parentContent, "lastmod"),
+        changefreq: this.extractChild(parentContent, "changefreq")?.toLowerCase(),
+        priority: Number.isFinite(priority) ? priority : undefined,
+      });
     }
 
-    return results;
+    return entries;
+  }
+
+  private extractChild(content: string, childTag: string): string | undefined {
+    const childRegex = new RegExp(`<${childTag}[^>]*>([^<]+)<\\/${childTag}>`, "i");
+    const childMatch = childRegex.exec(content);
+    const value = childMatch?.[1] ? this.decodeXmlEntities(childMatch[1].trim()) : "";
+    return value || undefined;
   }
 
   /**
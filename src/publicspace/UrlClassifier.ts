@@ -2,6 +2,8 @@ export enum SourceDiscoveryKind {
   LLMS_TXT = "LLMS_TXT",
   LLMS_FULL_LIST = "LLMS_FULL_LIST",
   SITEMAP = "SITEMAP",
+  GITHUB_REPO = "GITHUB_REPO",
+  CRAWL = "CRAWL",
   SINGLE_URL = "SINGLE_URL",
 }
 
@@ -10,9 +12,33 @@ export interface ClassifiedSource {
   baseUrl: string;
 }
 
+/** Last path segment is empty, has no extension, or is an HTML page. */
+const PAGE_PATH_RE = /\/(?:[^./]*|[^/]*\.html?)$/i;
+
 export function classifySourceUrl(rawUrl: string): ClassifiedSource {
   const url = new URL(rawUrl);
 
+  // github.com/owner/repo or github.com/owner/repo/tree/<ref>/<path>;
+  // single-file blob URLs stay SINGLE_URL
+  if (url.hostname === "github.com" || url.hostname === "www.github.com") {
+    const parts = url.pathname.split("/").filter(Boolean);
+    if (parts.length === 2 || (parts.length >= 4 && parts[2] === "tree")) {
+      return {
+        kind: SourceDiscoveryKind.GITHUB_REPO,
+        baseUrl: rawUrl,
+      };
+    }
+  }
+
+  // ?crawl=true forces a link-following crawl from this page
+  if (/^(1|true|yes)$/i.test(url.searchParams.get("crawl") ?? "")) {
+    url.searchParams.delete("crawl");
+    return {
+      kind: SourceDiscoveryKind.CRAWL,
+      baseUrl: url.toString(),
+    };
+  }
+
   if (url.pathname.endsWith("/llms-full.txt")) {
     return {
       kind: SourceDiscoveryKind.LLMS_FULL_LIST,
@@ -20,20 +46,33 @@ export function classifySourceUrl(rawUrl: string): ClassifiedSource {
     };
   }
 
-  if (url.pathname === "/" || url.pathname.endsWith("/index.html")) {
+  // Direct link to an llms.txt (possibly below the site root)
+  if (url.pathname.endsWith("/llms.txt")) {
     return {
       kind: SourceDiscoveryKind.LLMS_TXT,
-      baseUrl: url.origin,
+      baseUrl: url.origin + url.pathname.slice(0, -"/llms.txt".length),
     };
   }
 
-  if (url.pathname.endsWith("/sitemap.xml")) {
+  // sitemap.xml, sitemap_index.xml, sitemap-docs.xml.gz, ...
+  if (/\/sitemap[^/]*\.xml(\.gz)?$/i.test(url.pathname)) {
     return {
       kind: SourceDiscoveryKind.SITEMAP,
       baseUrl: rawUrl,
     };
   }
 
+  // Any other web page (a directory, an extensionless path or .html):
+  // llms.txt rooted at its directory, falling back to sitemap and crawl.
+  // Document files (.md, .pdf, ...) and github.com pages stay SINGLE_URL.
+  const isGithub = url.hostname === "github.com" || url.hostname === "www.github.com";
+  if (!isGithub && PAGE_PATH_RE.test(url.pathname)) {
+    return {
+      kind: SourceDiscoveryKind.LLMS_TXT,
+      baseUrl: url.origin + url.pathname.replace(/\/[^/]*$/, ""),
+    };
+  }
+
   return {
     kind: SourceDiscoveryKind.SINGLE_URL,
     baseUrl: rawUrl,
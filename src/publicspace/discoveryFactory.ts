@@ -4,15 +4,47 @@ import { LlmsTxtDiscovery } from "./LlmsTxtDiscovery";
 import { LlmsFullListDiscovery } from "./LlmsFullListDiscovery";
 import { SitemapDiscovery } from "./SitemapDiscovery";
 import { SingleUrlDiscovery } from "./SingleUrlDiscovery";
+import { GithubRepoDiscovery } from "./GithubRepoDiscovery";
+import { CrawlDiscovery } from "./CrawlDiscovery";
+import { FallbackDiscovery } from "./FallbackDiscovery";
 import type { HttpService } from "../services/httpService";
+import { GithubService } from "../services/githubService";
 
 export interface DiscoveredFile {
   url: string;
   path: string;
+  // Metadata the discovery already knows; when estBytes and etag are both
+  // present, previewing skips the per-file HEAD probe.
+  estBytes?: number;
+  etag?: string;
+  contentType?: string;
+  // llms.txt link metadata
+  title?: string;
+  section?: string;
+  notes?: string;
+  // Sitemap hints; lastmod doubles as a cheap change signal during preview
+  lastmod?: string;
+  changefreq?: string;
+  priority?: number;
 }
 
 export interface Discovery {
   list(): Promise<DiscoveredFile[]>;
+  /** Upstream revision (e.g. a git tree SHA) once list() has run, if the source has one */
+  revision?(): string | undefined;
+}
+
+function withoutParam(rawUrl: string, name: string): string {
+  const u = new URL(rawUrl);
+  u.searchParams.delete(name);
+  return u.toString();
+}
+
+/** Keep only the files `discovery` lists below `prefixUrl`. */
+function scopedTo(prefixUrl: string, discovery: Discovery): Discovery {
+  return {
+    list: async () => (await discovery.list()).filter((f) => f.url.startsWith(prefixUrl)),
+  };
 }
 
 export function createDiscoveryForRawUrl(
@@ -26,11 +58,29 @@ export function createDiscoveryForRawUrl(
   }
 
   switch (classified.kind) {
-    case SourceDiscoveryKind.LLMS_TXT:
+    case SourceDiscoveryKind.LLMS_TXT: {
+      const llmsTxt = new LlmsTxtDiscovery(http, classified.baseUrl, {
+        // ?optional=true on the source URL opts in to the "Optional" section
+        includeOptional: /^(1|true|yes)$/i.test(
+          new URL(rawUrl).searchParams.get("optional") ?? ""
+        ),
+      });
+      // A direct llms.txt link means the caller knows it exists
+      if (new URL(rawUrl).pathname.endsWith("/llms.txt")) {
+        return { classified, discovery: llmsTxt };
+      }
+      // Web pages: llms.txt in the page's directory, then the site's
+      // sitemap.xml limited to that directory, then crawl from the given page
+      const sitemap = new SitemapDiscovery(http, `${new URL(rawUrl).origin}/sitemap.xml`);
       return {
         classified,
-        discovery: new LlmsTxtDiscovery(http, classified.baseUrl),
+        discovery: new FallbackDiscovery([
+          { name: "llms.txt", discovery: llmsTxt },
+          { name: "sitemap.xml", discovery: scopedTo(`${classified.baseUrl}/`, sitemap) },
+          { name: "crawl", discovery: new CrawlDiscovery(http, withoutParam(rawUrl, "optional")) },
+        ]),
       };
+    }
     case SourceDiscoveryKind.LLMS_FULL_LIST:
       return {
         classified,
@@ -41,6 +91,19 @@ export function createDiscoveryForRawUrl(
         classified,
         discovery: new SitemapDiscovery(http, classified.baseUrl),
       };
+    case SourceDiscoveryKind.GITHUB_REPO: {
+      const github =
+        runtime.getService<GithubService>("github") ?? new GithubService(runtime);
+      return {
+        classified,
+        discovery: new GithubRepoDiscovery(github, classified.baseUrl),
+      };
+    }
+    case SourceDiscoveryKind.CRAWL:
+      return {
+        classified,
+        discovery: new CrawlDiscovery(http, classified.baseUrl),
+      };
     case SourceDiscoveryKind.SINGLE_URL:
     default:
       return {
@@ -0,0 +1,126 @@
+/**
+ * Parser for llms.txt files (https://llmstxt.org).
+ *
+ * Format:
+ *   # Project name                      (H1, required by the spec)
+ *   > Short summary                     (optional blockquote)
+ *   Free-form details                   (optional paragraphs/lists)
+ *   ## Section name                     (H2 file-list sections)
+ *   - [Link title](https://url): notes  (link list items; notes optional)
+ *
+ * The "Optional" section marks secondary links that can be skipped;
+ * callers opt in to it explicitly. Bare URL lines (the older one-URL-per-line
+ * convention) are still accepted.
+ */
+
+export interface LlmsTxtLink {
+  title?: string;
+  url: string;
+  notes?: string;
+  /** H2 section the link appeared under (undefined before the first H2) */
+  section?: string;
+}
+
+export interface LlmsTxtDocument {
+  title?: string;
+  summary?: string;
+  details?: string;
+  sections: Array<{ name: string; links: LlmsTxtLink[] }>;
+  links: LlmsTxtLink[];
+}
+
+export const OPTIONAL_SECTION = "Optional";
+
+const H1_RE = /^#\s+(.+?)\s*#*$/;
+const H2_RE = /^##\s+(.+?)\s*#*$/;
+const QUOTE_RE = /^>\s?(.*)$/;
+// - [title](url "optional title"): notes
+const LINK_ITEM_RE = /^[-*+]\s+\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)\s*(?::\s*(.*))?$/;
+const BARE_URL_RE = /^(?:[-*+]\s+)?<?(https?:\/\/\S+?)>?$/;
+
+function resolveUrl(href: string, baseUrl: string): string | null {
+  try {
+    const u = new URL(href, baseUrl);
+    if (u.protocol !== "http:" && u.protocol !== "https:") return null;
+    u.hash = "";
+    return u.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse llms.txt markdown. Relative link targets resolve against `baseUrl`
+ * (normally the llms.txt URL itself). Links are de-duplicated by URL.
+ */
+export function parseLlmsTxt(text: string, baseUrl: string): LlmsTxtDocument {
+  const doc: LlmsTxtDocument = { sections: [], links: [] };
+  const summary: string[] = [];
+  const details: string[] = [];
+  const seen = new Set<string>();
+  let section: { name: string; links: LlmsTxtLink[] } | undefined;
+  let inCodeFence = false;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+
+    if (line.startsWith("```")) {
+      inCodeFence = !inCodeFence;
+      continue;
+    }
+    if (inCodeFence || !line) continue;
+
+    const h2 = H2_RE.exec(line);
+    if (h2) {
+      section = { name: h2[1], links: [] };
+      doc.sections.push(section);
+      continue;
+    }
+
+    const h1 = H1_RE.exec(line);
+    if (h1) {
+      if (!doc.title) doc.title = h1[1];
+      continue;
+    }
+
+    let link: LlmsTxtLink | null = null;
+    const item = LINK_ITEM_RE.exec(line);
+    const bare = item ? null : BARE_URL_RE.exec(line);
+    if (item) {
+      const url = resolveUrl(item[2], baseUrl);
+      if (url) {
+        link = { url };
+        if (item[1].trim()) link.title = item[1].trim();
+        if (item[3]?.trim()) link.notes = item[3].trim();
+      }
+    } else if (bare) {
+      const url = resolveUrl(bare[1], baseUrl);
+      if (url) link = { url };
+    }
+
+    if (link) {
+      if (section) link.section = section.name;
+      if (!seen.has(link.url)) {
+        seen.add(link.url);
+        doc.links.push(link);
+        section?.links.push(link);
+      }
+      continue;
+    }
+
+    // Prose before the first section is the summary/details block
+    if (!section) {
+      const quote = QUOTE_RE.exec(line);
+      if (quote && !details.length) summary.push(quote[1]);
+      else details.push(line);
+    }
+  }
+
+  if (summary.length) doc.summary = summary.join(" ").trim();
+  if (details.length) doc.details = details.join("\n");
+  return doc;
+}
+
+export function isOptionalSection(name: string | undefined): boolean {
+  return name?.trim().toLowerCase() === OPTIONAL_SECTION.toLowerCase();
+}
@@ -7,8 +7,13 @@ import {
   autognosticVersions,
   autognosticKnowledgeLink,
   autognosticDocuments,
+  autognosticDocumentVersions,
+  autognosticDocumentAliases,
+  autognosticRoomFocus,
   autognosticSyncConfig,
   autognosticSyncLog,
+  autognosticJobs,
+  autognosticJobItems,
   autognosticPaperClassification,
   autognosticTaxonomyNodes,
   autognosticControlledVocab,
@@ -22,8 +27,13 @@ export const autognosticSchema: Record<string, PgTable<TableConfig>> = {
   autognosticVersions,
   autognosticKnowledgeLink,
   autognosticDocuments,
+  autognosticDocumentVersions,
+  autognosticDocumentAliases,
+  autognosticRoomFocus,
   autognosticSyncConfig,
   autognosticSyncLog,
+  autognosticJobs,
+  autognosticJobItems,
   // Scientific paper classification tables
   autognosticPaperClassification,
   autognosticTaxonomyNodes,
@@ -57,6 +57,9 @@ export class AutognosticService extends Service {
     const { getScheduledSyncService } = await import("./ScheduledSyncService");
     const syncService = getScheduledSyncService(this.runtime);
     await syncService.stop();
+
+    const { getJobQueueService } = await import("./JobQueueService");
+    getJobQueueService(this.runtime).stop();
   }
 
   /**
@@ -128,8 +131,9 @@ export class AutognosticService extends Service {
   /**
    * mergeRefreshPolicy()
    * Accepts either:
-   *  - preferred: ms fields (previewCacheTtlMs, reconcileCooldownMs, startupReconcileTimeoutMs)
-   *  - back-compat/human: minutes/seconds fields (previewCacheTtlMinutes, reconcileCooldownMinutes, startupTimeoutSeconds)
+   *  - preferred: ms fields (previewCacheTtlMs, reconcileCooldownMs, startupReconcileTimeoutMs, versionRetentionMs)
+   *  - back-compat/human: minutes/seconds/days fields (previewCacheTtlMinutes, reconcileCooldownMinutes,
+   *    startupTimeoutSeconds, versionRetentionDays)
    */
   mergeRefreshPolicy(
     input?: Partial<AutognosticRefreshPolicy> & Record<string, unknown>
@@ -153,6 +157,11 @@ export class AutognosticService extends Service {
       merged.startupReconcileTimeoutMs = user.startupTimeoutSeconds * 1000;
     }
 
+    // Human: days → ms
+    if (typeof user.versionRetentionDays === "number") {
+      merged.versionRetentionMs = user.versionRetentionDays * 24 * 60 * 60 * 1000;
+    }
+
     // Sanity checks
     if (!Number.isFinite(merged.previewCacheTtlMs) || merged.previewCacheTtlMs < 0) {
       merged.previewCacheTtlMs = DEFAULT_REFRESH_POLICY.previewCacheTtlMs;
@@ -166,6 +175,9 @@ export class AutognosticService extends Service {
     ) {
       merged.startupReconcileTimeoutMs = DEFAULT_REFRESH_POLICY.startupReconcileTimeoutMs;
     }
+    if (!Number.isFinite(merged.versionRetentionMs) || merged.versionRetentionMs < 0) {
+      merged.versionRetentionMs = DEFAULT_REFRESH_POLICY.versionRetentionMs;
+    }
 
     return merged;
   }
@@ -8,15 +8,15 @@
  * and ScientificPaperDetector (all stateless).
  */
 
-import { HttpService } from "./httpService";
+import { HttpService, conditionalHeaders, readValidators, type HttpValidators } from "./httpService";
 import { WebPageProcessor, type ExtractedPage } from "./WebPageProcessor";
 import { PdfExtractor } from "./PdfExtractor";
 import { getScientificPaperDetector } from "./ScientificPaperDetector";
 import { resolveOpenAccess, extractDoiFromUrl } from "./UnpaywallResolver";
 import { ContentResolverError } from "../errors/ContentResolverError";
-import { ErrorCode } from "../errors/AutognosticError";
+import { ErrorCode, getErrorCode } from "../errors/AutognosticError";
 import { getFetchCache } from "./FetchCache";
-import { getRateLimiter } from "./RateLimiter";
+import { getRateLimiter, hostBucket } from "./RateLimiter";
 import { getUrlDeduplicator } from "./UrlDeduplicator";
 
 export interface ResolvedContent {
@@ -32,6 +32,13 @@ export interface ResolvedContent {
     description?: string;
   };
   diagnostics: string[];
+  /** ETag / Last-Modified of the fetched URL, for later conditional requests */
+  validators?: HttpValidators;
+  /**
+   * Set when the caller passed validators and the server answered
+   * 304 Not Modified; text is empty and the caller's copy is current.
+   */
+  notModified?: boolean;
 }
 
 const MAX_TEXT_LENGTH = 500_000;
@@ -210,8 +217,32 @@ export class ContentResolver {
   /**
    * Resolve a URL to clean, structured text content.
    * Checks cache first, deduplicates in-flight requests, and rate-limits fetches.
+   *
+   * With `opts.validators` the fetch is conditional (If-None-Match /
+   * If-Modified-Since) and bypasses the cache; a 304 comes back as
+   * `notModified: true`. Aborting `opts.signal` cancels the page fetch.
    */
-  async resolve(url: string): Promise<ResolvedContent> {
+  async resolve(
+    url: string,
+    opts?: { validators?: HttpValidators; signal?: AbortSignal }
+  ): Promise<ResolvedContent> {
+    const conditional = conditionalHeaders(opts?.validators);
+    if (Object.keys(conditional).length) {
+      await getRateLimiter().acquire(inferRateLimitDomain(url));
+      const result = await this.fetchAndResolve(url, conditional, opts?.signal);
+      if (!result.notModified) {
+        getFetchCache().set(url, {
+          text: result.text,
+          contentType: result.contentType,
+          source: result.source,
+          title: result.title,
+          resolvedUrl: result.resolvedUrl,
+          metadata: result.metadata,
+        });
+      }
+      return result;
+    }
+
     // 1. Check cache
     const cache = getFetchCache();
     const cached = cache.get(url);
@@ -235,7 +266,7 @@ export class ContentResolver {
       await getRateLimiter().acquire(domain);
 
       // 4. Existing fetch/parse pipeline
-      const result = await this.fetchAndResolve(url);
+      const result = await this.fetchAndResolve(url, {}, opts?.signal);
 
       // 5. Cache result
       cache.set(url, {
@@ -254,7 +285,11 @@ export class ContentResolver {
   /**
    * Internal: fetch URL and resolve to text content.
    */
-  private async fetchAndResolve(url: string): Promise<ResolvedContent> {
+  private async fetchAndResolve(
+    url: string,
+    conditional: Record<string, string> = {},
+    signal?: AbortSignal
+  ): Promise<ResolvedContent> {
     const diagnostics: string[] = [];
     const resolvedUrl = normalizeToRawUrl(url);
 
@@ -270,16 +305,45 @@ export class ContentResolver {
     let res: Response;
     try {
       res = await this.http.get(resolvedUrl, {
-        headers: { Accept: acceptHeader },
+        headers: { Accept: acceptHeader, ...conditional },
+        signal,
       });
     } catch (fetchError) {
+      // robots.txt refusals are final; keep their error code for the user message
+      if (getErrorCode(fetchError) === ErrorCode.HTTP_ROBOTS_DISALLOWED) throw fetchError;
       throw classifyFetchError(fetchError, resolvedUrl);
     }
 
+    if (res.status === 304 && Object.keys(conditional).length) {
+      diagnostics.push("304 Not Modified — caller's copy is current");
+      return {
+        text: "",
+        contentType: "",
+        source: "raw",
+        title: "",
+        resolvedUrl,
+        metadata: {},
+        diagnostics,
+        validators: readValidators(res.headers),
+        notModified: true,
+      };
+    }
+
     if (!res.ok) {
       throw classifyHttpError(res.status, resolvedUrl);
     }
 
+    const validators = readValidators(res.headers);
+    const resolved = await this.routeResponse(res, resolvedUrl, diagnostics);
+    return Object.keys(validators).length ? { ...resolved, validators } : resolved;
+  }
+
+  /** Dispatch a successful response to the handler for its content-type. */
+  private async routeResponse(
+    res: Response,
+    resolvedUrl: string,
+    diagnostics: string[]
+  ): Promise<ResolvedContent> {
     const responseContentType = res.headers.get("content-type") || "";
     diagnostics.push(`Response content-type: ${responseContentType}`);
 
@@ -627,7 +691,7 @@ function inferRateLimitDomain(url: string): string {
     if (hostname.includes("unpaywall.org")) return "unpaywall";
     if (hostname.includes("semanticscholar.org")) return "semanticScholar";
     if (hostname.includes("openalex.org")) return "openAlex";
-    return "general";
+    return hostBucket(url);
   } catch {
     return "general";
   }
@@ -0,0 +1,287 @@
+/**
+ * DocumentDiff — pure function that compares two stored versions of a document.
+ *
+ * Paragraphs and lines are aligned using the boundaries already recorded in
+ * each version's DocumentProfile; adjacent removals and additions pair up as
+ * changes. Paragraph changes are attributed to the heading they fall under
+ * so the result can be summarised per section.
+ *
+ * No database, no runtime dependency. Fully unit-testable.
+ */
+
+import type { DocumentProfile } from "./DocumentAnalyzer.types";
+import { detectSections } from "./ScientificSectionDetector";
+
+export type ChangeKind = "added" | "removed" | "changed";
+
+export interface DiffSide {
+  /** 1-based paragraph or line number in that version */
+  index: number;
+  /** 1-based line span (equal for line changes) */
+  lineStart: number;
+  lineEnd: number;
+  text: string;
+}
+
+export interface DiffChange {
+  kind: ChangeKind;
+  /** Present for removed and changed entries */
+  before?: DiffSide;
+  /** Present for added and changed entries */
+  after?: DiffSide;
+  /** Heading the change falls under, when the document has headings */
+  section?: string;
+}
+
+export interface DocumentDiff {
+  paragraphs: DiffChange[];
+  lines: DiffChange[];
+  counts: {
+    paragraphs: Record<ChangeKind, number>;
+    lines: Record<ChangeKind, number>;
+  };
+  /** One entry per section and change kind, e.g. "3 paragraphs changed in section Authentication" */
+  summary: string[];
+}
+
+export interface DiffInput {
+  content: string;
+  profile: DocumentProfile;
+}
+
+/** Alignment cells allowed before falling back to a coarse replace of the middle */
+const MAX_ALIGN_CELLS = 4_000_000;
+
+interface Unit {
+  lineStart: number;
+  lineEnd: number;
+  text: string;
+  /** Comparison key: whitespace-normalised text */
+  key: string;
+}
+
+interface Heading {
+  line: number;
+  title: string;
+}
+
+type Op = { kind: "same" | "removed" | "added"; a?: number; b?: number };
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function paragraphUnits(doc: DiffInput): Unit[] {
+  return doc.profile.paragraphs.map((p) => {
+    const text = doc.content.slice(p.start, p.end).trim();
+    return { lineStart: p.lineStart, lineEnd: p.lineEnd, text, key: normalize(text) };
+  });
+}
+
+function lineUnits(doc: DiffInput): Unit[] {
+  // Profiles of very long documents keep only the first and last lines
+  const complete = doc.profile.lines.length === doc.profile.lineCount;
+  const texts = complete
+    ? doc.profile.lines.map((l) => doc.content.slice(l.start, l.end))
+    : doc.content.split("\n");
+  const units: Unit[] = [];
+  texts.forEach((text, i) => {
+    const key = normalize(text);
+    if (key) units.push({ lineStart: i + 1, lineEnd: i + 1, text: text.trim(), key });
+  });
+  return units;
+}
+
+/**
+ * Markdown headings, or scientific section headings when the document has
+ * none, as (line, title) pairs in document order.
+ */
+function findHeadings(content: string): Heading[] {
+  const headings: Heading[] = [];
+  content.split("\n").forEach((line, i) => {
+    const m = /^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/.exec(line);
+    if (m) headings.push({ line: i + 1, title: m[1] });
+  });
+  if (headings.length > 0) return headings;
+
+  return detectSections(content).sections
+    .filter((s) => !s.displayName.startsWith("("))
+    .map((s) => ({ line: s.startLine, title: s.displayName.replace(/^#+\s*/, "") }));
+}
+
+function sectionAt(headings: Heading[], line: number): string | undefined {
+  let title: string | undefined;
+  for (const h of headings) {
+    if (h.line > line) break;
+    title = h.title;
+  }
+  return title;
+}
+
+/**
+ * Align two sequences by key. Common head and tail are matched directly; the
+ * middle uses a longest-common-subsequence table, or is treated as wholly
+ * replaced when that table would be too large.
+ */
+function align(a: Unit[], b: Unit[]): Op[] {
+  let head = 0;
+  while (head < a.length && head < b.length && a[head].key === b[head].key) head++;
+  let tail = 0;
+  while (
+    tail < a.length - head &&
+    tail < b.length - head &&
+    a[a.length - 1 - tail].key === b[b.length - 1 - tail].key
+  ) {
+    tail++;
+  }
+
+  const ops: Op[] = [];
+  for (let i = 0; i < head; i++) ops.push({ kind: "same", a: i, b: i });
+
+  const aMid = a.slice(head, a.length - tail);
+  const bMid = b.slice(head, b.length - tail);
+  const n = aMid.length;
+  const m = bMid.length;
+
+  if (n * m > MAX_ALIGN_CELLS) {
+    for (let i = 0; i < n; i++) ops.push({ kind: "removed", a: head + i });
+    for (let j = 0; j < m; j++) ops.push({ kind: "added", b: head + j });
+  } else if (n > 0 || m > 0) {
+    // lcs[i * (m + 1) + j] = LCS length of aMid[i..] and bMid[j..]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          aMid[i].key === bMid[j].key
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && aMid[i].key === bMid[j].key) {
+        ops.push({ kind: "same", a: head + i++, b: head + j++ });
+      } else if (j < m && (i === n || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+        ops.push({ kind: "added", b: head + j++ });
+      } else {
+        ops.push({ kind: "removed", a: head + i++ });
+      }
+    }
+  }
+
+  for (let k = tail; k > 0; k--) {
+    ops.push({ kind: "same", a: a.length - k, b: b.length - k });
+  }
+  return ops;
+}
+
+function side(unit: Unit, index: number, byLine: boolean): DiffSide {
+  return {
+    index: byLine ? unit.lineStart : index + 1,
+    lineStart: unit.lineStart,
+    lineEnd: unit.lineEnd,
+    text: unit.text,
+  };
+}
+
+/**
+ * Turn aligned ops into changes. Within each run of edits, removals and
+ * additions pair up in order as changes; the remainder stay as-is.
+ */
+function collectChanges(
+  ops: Op[],
+  a: Unit[],
+  b: Unit[],
+  opts: { byLine?: boolean; headings?: { before: Heading[]; after: Heading[] } } = {}
+): DiffChange[] {
+  const byLine = opts.byLine ?? false;
+  const sectionOf = opts.headings;
+  const changes: DiffChange[] = [];
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].kind === "same") {
+      k++;
+      continue;
+    }
+    const removed: number[] = [];
+    const added: number[] = [];
+    while (k < ops.length && ops[k].kind !== "same") {
+      if (ops[k].kind === "removed") removed.push(ops[k].a!);
+      else added.push(ops[k].b!);
+      k++;
+    }
+
+    const paired = Math.min(removed.length, added.length);
+    const run: DiffChange[] = [];
+    for (let p = 0; p < paired; p++) {
+      run.push({
+        kind: "changed",
+        before: side(a[removed[p]], removed[p], byLine),
+        after: side(b[added[p]], added[p], byLine),
+      });
+    }
+    for (const i of removed.slice(paired)) run.push({ kind: "removed", before: side(a[i], i, byLine) });
+    for (const j of added.slice(paired)) run.push({ kind: "added", after: side(b[j], j, byLine) });
+
+    for (const change of run) {
+      if (sectionOf) {
+        // New text is placed by the newer version's headings; removed text by the older one's
+        const section = change.after
+          ? sectionAt(sectionOf.after, change.after.lineStart)
+          : sectionAt(sectionOf.before, change.before!.lineStart);
+        if (section) change.section = section;
+      }
+      changes.push(change);
+    }
+  }
+  return changes;
+}
+
+function countKinds(changes: DiffChange[]): Record<ChangeKind, number> {
+  const counts: Record<ChangeKind, number> = { added: 0, removed: 0, changed: 0 };
+  for (const c of changes) counts[c.kind]++;
+  return counts;
+}
+
+/**
+ * Group paragraph changes by section and kind, in document order:
+ * "3 paragraphs changed in section Authentication", "1 paragraph added".
+ */
+export function summarizeChanges(paragraphs: DiffChange[]): string[] {
+  const groups = new Map<string, { kind: ChangeKind; section?: string; count: number }>();
+  for (const c of paragraphs) {
+    const key = `${c.section ?? ""}\u0000${c.kind}`;
+    const group = groups.get(key);
+    if (group) group.count++;
+    else groups.set(key, { kind: c.kind, section: c.section, count: 1 });
+  }
+  return [...groups.values()].map(({ kind, section, count }) => {
+    const noun = count === 1 ? "paragraph" : "paragraphs";
+    return `${count} ${noun} ${kind}${section ? ` in section ${section}` : ""}`;
+  });
+}
+
+/**
+ * Compare two versions of a document paragraph by paragraph and line by line.
+ * Whitespace-only differences are ignored; blank lines are not reported.
+ */
+export function diffDocuments(before: DiffInput, after: DiffInput): DocumentDiff {
+  const paraA = paragraphUnits(before);
+  const paraB = paragraphUnits(after);
+  const paragraphs = collectChanges(align(paraA, paraB), paraA, paraB, {
+    headings: { before: findHeadings(before.content), after: findHeadings(after.content) },
+  });
+
+  const lineA = lineUnits(before);
+  const lineB = lineUnits(after);
+  const lines = collectChanges(align(lineA, lineB), lineA, lineB, { byLine: true });
+
+  return {
+    paragraphs,
+    lines,
+    counts: { paragraphs: countKinds(paragraphs), lines: countKinds(lines) },
+    summary: summarizeChanges(paragraphs),
+  };
+}
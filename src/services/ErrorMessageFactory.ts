@@ -33,7 +33,10 @@ export function fromError(error: unknown, context: ErrorContext = {}): UserError
 
   // AutognosticError — check error code
   if (isAutognosticError(error)) {
-    return fromErrorCode(error.code, error.message, context);
+    return fromErrorCode(error.code, error.message, {
+      ...context,
+      url: context.url || error.context.url,
+    });
   }
 
   // Plain Error — heuristic classification
@@ -44,24 +47,33 @@ export function fromError(error: unknown, context: ErrorContext = {}): UserError
   return genericFallback(typeof error === "string" ? error : undefined);
 }
 
+const ERROR_CONDITIONS = [
+  "paywall",
+  "html_stub",
+  "rate_limited",
+  "timeout",
+  "dns_failure",
+  "pdf_extraction",
+  "empty_content",
+  "unpaywall_no_result",
+  "semantic_scholar_404",
+  "openalex_empty",
+  "copyright_gate",
+  "url_not_found",
+  "invalid_url",
+  "robots_disallowed",
+  "source_gone",
+  "access_denied",
+  "server_error",
+] as const;
+
+export type ErrorCondition = (typeof ERROR_CONDITIONS)[number];
+
 /**
  * Build message for specific named conditions (used directly by action handlers).
  */
 export function forCondition(
-  condition:
-    | "paywall"
-    | "html_stub"
-    | "rate_limited"
-    | "timeout"
-    | "dns_failure"
-    | "pdf_extraction"
-    | "empty_content"
-    | "unpaywall_no_result"
-    | "semantic_scholar_404"
-    | "openalex_empty"
-    | "copyright_gate"
-    | "url_not_found"
-    | "invalid_url",
+  condition: ErrorCondition,
   context: ErrorContext = {}
 ): UserErrorMessage {
   switch (condition) {
@@ -182,7 +194,97 @@ export function forCondition(
         debugInfo: context.url ? `Invalid URL: ${context.url}` : undefined,
         isRetryable: false,
       };
+
+    case "robots_disallowed":
+      return {
+        summary: context.hostname
+          ? `${context.hostname} asks automated agents not to fetch this page (robots.txt)`
+          : "This site asks automated agents not to fetch this page (robots.txt)",
+        suggestion: "I skip pages a site's robots.txt disallows. Try another page or an official copy of the document — or, if you run this site, allow the elizaos-plugin-autognostic user agent",
+        emoji: "\u{1F916}",
+        debugInfo: context.url ? `robots.txt disallows ${context.url}` : undefined,
+        isRetryable: false,
+      };
+
+    case "source_gone":
+      return {
+        summary: "The source no longer exists at this address (HTTP 404/410)",
+        suggestion: "Check whether the site moved. If it did, remove this source and add the new URL",
+        emoji: "\u{1F6AB}",
+        debugInfo: context.url ? `Not found: ${context.url}` : undefined,
+        isRetryable: false,
+      };
+
+    case "access_denied":
+      return {
+        summary: "The server refused access to the source (HTTP 401/403)",
+        suggestion: "The content may now require a login, or the site may be blocking automated requests",
+        emoji: "\u{1F512}",
+        debugInfo: context.url ? `Access denied for ${context.url}` : undefined,
+        isRetryable: false,
+      };
+
+    case "server_error":
+      return {
+        summary: "The source's server is returning errors",
+        suggestion: "This is usually temporary on the site's side — it will be retried automatically",
+        emoji: "\u{1F6A7}",
+        debugInfo: context.url ? `5xx from ${context.url}` : undefined,
+        isRetryable: true,
+      };
+  }
+}
+
+/**
+ * Classify a failure into a named condition that can be stored and turned
+ * back into a message later (e.g. a source's last sync error). Undefined
+ * when nothing more specific than the generic fallback applies.
+ */
+export function classifyError(error: unknown): ErrorCondition | undefined {
+  if (error instanceof ContentResolverError) {
+    return (ERROR_CONDITIONS as readonly string[]).includes(error.failureType)
+      ? (error.failureType as ErrorCondition)
+      : undefined;
+  }
+  if (isAutognosticError(error) && error.code === ErrorCode.HTTP_ROBOTS_DISALLOWED) {
+    return "robots_disallowed";
+  }
+
+  const message = error instanceof Error ? error.message : typeof error === "string" ? error : "";
+  const name = error instanceof Error ? error.name.toLowerCase() : "";
+  const status = Number(message.match(/\bHTTP (\d{3})\b/)?.[1]);
+  if (status === 404 || status === 410) return "source_gone";
+  if (status === 401 || status === 403) return "access_denied";
+  if (status === 429) return "rate_limited";
+  if (status >= 500 && status < 600) return "server_error";
+
+  const msg = message.toLowerCase();
+  if (name === "aborterror" || /timeout|timed out|etimedout/.test(msg)) return "timeout";
+  if (/enotfound|econnrefused|econnreset/.test(msg)) return "dns_failure";
+  if (msg.includes("rate limit")) return "rate_limited";
+  if (msg.includes("no files discovered")) return "empty_content";
+  return undefined;
+}
+
+/**
+ * Message for a condition stored earlier by `classifyError`; anything
+ * unrecognised falls back to the generic message carrying `detail`.
+ */
+export function fromCondition(
+  condition: string | null | undefined,
+  detail?: string,
+  context: ErrorContext = {}
+): UserErrorMessage {
+  if (condition && (ERROR_CONDITIONS as readonly string[]).includes(condition)) {
+    return {
+      ...forCondition(condition as ErrorCondition, {
+        ...context,
+        hostname: context.hostname || extractHostname(context.url),
+      }),
+      debugInfo: detail,
+    };
   }
+  return genericFallback(detail);
 }
 
 /**
@@ -251,6 +353,11 @@ function fromErrorCode(code: ErrorCode, message: string, context: ErrorContext):
       return forCondition("timeout", context);
     case ErrorCode.NETWORK_RATE_LIMITED:
       return forCondition("rate_limited", context);
+    case ErrorCode.HTTP_ROBOTS_DISALLOWED:
+      return forCondition("robots_disallowed", {
+        ...context,
+        hostname: context.hostname || extractHostname(context.url),
+      });
     default:
       return genericFallback(message);
   }
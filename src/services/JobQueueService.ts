@@ -0,0 +1,334 @@
+import type { IAgentRuntime } from "@elizaos/core";
+import { randomUUID } from "crypto";
+
+import { AutognosticJobsRepository } from "../db/autognosticJobsRepository";
+import { AutognosticSourcesRepository } from "../db/autognosticSourcesRepository";
+import type { AutognosticJobRow, JobKind } from "../db/schema";
+import {
+  ReconciliationService,
+  type ReconcileCheckpoint,
+  type ReconciliationResult,
+} from "../orchestrator/ReconciliationService";
+import type { SourceConfig } from "../orchestrator/SourceConfig";
+import { JOB_DEFAULTS } from "../config/constants";
+
+/** How far a running job has got through the files of its staged version */
+export interface JobProgress {
+  jobId: string;
+  kind: JobKind;
+  sourceId: string;
+  /** Files to fetch; 0 until the job knows what changed */
+  total: number;
+  done: number;
+  failed: number;
+}
+
+export type JobProgressListener = (progress: JobProgress) => void | Promise<void>;
+
+/** "120/450 pages, 3 failed" */
+export function describeProgress(progress: JobProgress): string {
+  const failed = progress.failed ? `, ${progress.failed} failed` : "";
+  return `${progress.done + progress.failed}/${progress.total} pages${failed}`;
+}
+
+/**
+ * Runs mirrors, refreshes and scheduled syncs as jobs recorded in the
+ * database. A job holds a lease while it runs and checkpoints each file it
+ * ingests, so one interrupted by a crash or restart is picked up again by
+ * the worker and resumes where it stopped.
+ */
+export class JobQueueService {
+  private jobsRepo: AutognosticJobsRepository;
+  private sourcesRepo: AutognosticSourcesRepository;
+  private reconciler: ReconciliationService;
+  private readonly holder = `${process.pid}:${randomUUID()}`;
+  private poller: ReturnType<typeof setInterval> | null = null;
+  private draining = false;
+  /** Jobs running in this process, with the controller that cancels them */
+  private active = new Map<string, { controller: AbortController; progress: JobProgress }>();
+
+  constructor(private runtime: IAgentRuntime) {
+    this.jobsRepo = new AutognosticJobsRepository(runtime);
+    this.sourcesRepo = new AutognosticSourcesRepository(runtime);
+    this.reconciler = new ReconciliationService(runtime);
+  }
+
+  /**
+   * Record a job for `source` and run it now, returning its result. If the
+   * run throws, the job is left queued for the worker to retry before the
+   * error is rethrown. `onProgress` hears when the job starts fetching files
+   * and then at most every JOB_DEFAULTS.PROGRESS_INTERVAL_MS.
+   */
+  async submit(
+    kind: JobKind,
+    source: SourceConfig,
+    opts: { ignoreCooldown?: boolean; onProgress?: JobProgressListener } = {}
+  ): Promise<ReconciliationResult> {
+    const job = await this.jobsRepo.create(
+      {
+        id: `${kind}-${Date.now()}-${randomUUID().slice(0, 8)}`,
+        kind,
+        sourceId: source.id,
+        payload: { sourceUrl: source.sourceUrl, ignoreCooldown: opts.ignoreCooldown },
+        maxAttempts: JOB_DEFAULTS.MAX_ATTEMPTS,
+      },
+      { holder: this.holder, ttlMs: JOB_DEFAULTS.LEASE_TTL_MS }
+    );
+    return this.run(job, source, new Map(), { background: false, onProgress: opts.onProgress });
+  }
+
+  /** Jobs running in this process, oldest first. */
+  listRunning(): JobProgress[] {
+    return [...this.active.values()].map((a) => ({ ...a.progress }));
+  }
+
+  /**
+   * Cancel the jobs matching a job id or source id: running ones are aborted
+   * (their staged version is discarded and the source stays on its previous
+   * version) and queued ones are dropped. Jobs running in another process
+   * are left alone. Returns the ids of the jobs cancelled.
+   */
+  async cancel(ref: string): Promise<string[]> {
+    const cancelled: string[] = [];
+    for (const [jobId, { controller, progress }] of this.active) {
+      if (jobId === ref || progress.sourceId === ref) {
+        controller.abort();
+        cancelled.push(jobId);
+      }
+    }
+    cancelled.push(...(await this.jobsRepo.cancelQueued(ref)));
+    return cancelled;
+  }
+
+  /** Start polling for queued jobs and jobs whose worker died. */
+  start(): void {
+    if (this.poller) return;
+    this.poller = setInterval(() => {
+      void this.processPending();
+    }, JOB_DEFAULTS.POLL_INTERVAL_MS);
+    this.poller.unref?.();
+  }
+
+  stop(): void {
+    if (this.poller) {
+      clearInterval(this.poller);
+      this.poller = null;
+    }
+  }
+
+  /**
+   * Called on startup: drop old finished jobs, start the worker and pick up
+   * whatever the previous process left unfinished.
+   */
+  async resumeUnfinished(): Promise<void> {
+    try {
+      await this.jobsRepo.pruneFinished(new Date(Date.now() - JOB_DEFAULTS.RETENTION_MS));
+      const unfinished = await this.jobsRepo.listUnfinished();
+      if (unfinished.length) {
+        console.log(`[autognostic] Resuming ${unfinished.length} unfinished job(s)`);
+      }
+    } catch (err) {
+      console.warn("[autognostic] Failed to inspect unfinished jobs:", err);
+    }
+    this.start();
+    void this.processPending();
+  }
+
+  /** Claim and run runnable jobs until none are left. */
+  async processPending(): Promise<number> {
+    if (this.draining) return 0;
+    this.draining = true;
+    let processed = 0;
+    try {
+      for (;;) {
+        const job = await this.jobsRepo.claimNext(this.holder, JOB_DEFAULTS.LEASE_TTL_MS);
+        if (!job) break;
+        processed++;
+
+        const source = await this.sourcesRepo.getById(job.sourceId);
+        if (!source) {
+          await this.jobsRepo.finish(job.id, this.holder, {
+            status: "failed",
+            error: `Source ${job.sourceId} no longer exists`,
+          });
+          continue;
+        }
+
+        const items = await this.jobsRepo.listItems(job.id);
+        const ingested = new Map(items.map((i) => [i.url, i.knowledgeDocumentId]));
+        if (ingested.size) {
+          console.log(
+            `[autognostic] Resuming job ${job.id} for ${job.sourceId} (${ingested.size} file(s) already ingested)`
+          );
+        }
+
+        try {
+          await this.run(
+            job,
+            { id: source.id, sourceUrl: source.sourceUrl, enabled: source.enabled },
+            ingested,
+            { background: true }
+          );
+        } catch {
+          // Already logged and requeued or failed by run()
+        }
+      }
+    } catch (err) {
+      console.warn("[autognostic] Job worker failed to claim a job:", err);
+    } finally {
+      this.draining = false;
+    }
+    return processed;
+  }
+
+  private async run(
+    job: AutognosticJobRow,
+    source: SourceConfig,
+    ingested: Map<string, string>,
+    opts: { background: boolean; onProgress?: JobProgressListener }
+  ): Promise<ReconciliationResult> {
+    const controller = new AbortController();
+    const progress: JobProgress = {
+      jobId: job.id,
+      kind: job.kind as JobKind,
+      sourceId: job.sourceId,
+      total: 0,
+      done: 0,
+      failed: 0,
+    };
+    this.active.set(job.id, { controller, progress });
+
+    const heartbeat = setInterval(() => {
+      this.jobsRepo
+        .renewLease(job.id, this.holder, JOB_DEFAULTS.LEASE_TTL_MS)
+        .then((held) => {
+          if (!held) console.warn(`[autognostic] Lost lease on job ${job.id}`);
+        })
+        .catch((err) => console.warn(`[autognostic] Failed to renew lease on job ${job.id}`, err));
+    }, JOB_DEFAULTS.LEASE_TTL_MS / 3);
+    heartbeat.unref?.();
+
+    try {
+      let result: ReconciliationResult;
+      try {
+        result = await this.reconciler.verifyAndReconcileOne(source, {
+          ignoreCooldown: job.payload.ignoreCooldown,
+          checkpoint: this.checkpointFor(job, ingested, progress, opts.onProgress),
+          signal: controller.signal,
+        });
+      } catch (err) {
+        if (controller.signal.aborted) {
+          result = { sourceId: job.sourceId, status: "cancelled", error: "Cancelled" };
+          await this.jobsRepo.finish(job.id, this.holder, { status: "cancelled", result });
+          return result;
+        }
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[autognostic] Job ${job.id} for ${job.sourceId} failed:`, err);
+        if (job.attempts < job.maxAttempts) {
+          const delayMs = JOB_DEFAULTS.RETRY_BASE_MS * 2 ** Math.max(0, job.attempts - 1);
+          await this.jobsRepo.requeue(job.id, this.holder, new Date(Date.now() + delayMs), {
+            error: message,
+          });
+        } else {
+          await this.jobsRepo.finish(job.id, this.holder, { status: "failed", error: message });
+        }
+        throw err;
+      }
+
+      // Resumed after a crash: the dead run's reconcile lease may not have lapsed yet
+      if (opts.background && result.status === "skipped_in_progress") {
+        await this.jobsRepo.requeue(
+          job.id,
+          this.holder,
+          new Date(Date.now() + JOB_DEFAULTS.BUSY_RETRY_MS),
+          { refundAttempt: true }
+        );
+        return result;
+      }
+
+      await this.jobsRepo.finish(job.id, this.holder, {
+        status:
+          result.status === "failed" ? "failed" : result.status === "cancelled" ? "cancelled" : "completed",
+        result,
+        error: result.status === "failed" ? (result.error ?? "Reconcile failed") : null,
+      });
+      return result;
+    } finally {
+      clearInterval(heartbeat);
+      this.active.delete(job.id);
+    }
+  }
+
+  /**
+   * Checkpoint that records a job's progress and ingested files in the
+   * database, and passes the progress on to `onProgress`.
+   */
+  private checkpointFor(
+    job: AutognosticJobRow,
+    ingested: Map<string, string>,
+    progress: JobProgress,
+    onProgress?: JobProgressListener
+  ): ReconcileCheckpoint {
+    let reportedAt = 0;
+    const report = async (force: boolean) => {
+      if (!onProgress || (!force && Date.now() - reportedAt < JOB_DEFAULTS.PROGRESS_INTERVAL_MS)) {
+        return;
+      }
+      reportedAt = Date.now();
+      try {
+        await onProgress({ ...progress });
+      } catch (err) {
+        console.warn(`[autognostic] Progress listener for job ${job.id} failed`, err);
+      }
+    };
+
+    return {
+      versionId: job.versionId,
+      ingested,
+      onStart: async (versionId, total) => {
+        Object.assign(progress, { total, done: 0, failed: 0 });
+        try {
+          await this.jobsRepo.startVersion(job.id, versionId, total);
+        } catch (err) {
+          console.warn(`[autognostic] Failed to record progress for job ${job.id}`, err);
+        }
+        await report(true);
+      },
+      onItem: async (_url, outcome) => {
+        if (outcome.ok) progress.done++;
+        else progress.failed++;
+        try {
+          await this.jobsRepo.updateProgress(job.id, progress.done, progress.failed);
+        } catch (err) {
+          console.warn(`[autognostic] Failed to record progress for job ${job.id}`, err);
+        }
+        await report(false);
+      },
+      onIngested: async (url, knowledgeDocumentId) => {
+        try {
+          await this.jobsRepo.addItem(job.id, url, knowledgeDocumentId);
+        } catch (err) {
+          console.warn(`[autognostic] Failed to record progress for job ${job.id}`, err);
+        }
+      },
+      onDiscarded: async () => {
+        ingested.clear();
+        try {
+          await this.jobsRepo.clearItems(job.id);
+        } catch (err) {
+          console.warn(`[autognostic] Failed to record progress for job ${job.id}`, err);
+        }
+      },
+    };
+  }
+}
+
+// Singleton getter
+let instance: JobQueueService | null = null;
+
+export function getJobQueueService(runtime: IAgentRuntime): JobQueueService {
+  if (!instance) {
+    instance = new JobQueueService(runtime);
+  }
+  return instance;
+}
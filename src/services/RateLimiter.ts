@@ -18,6 +18,17 @@ interface Bucket {
   tokens: number;
   lastRefill: number;
   config: RateLimitConfig;
+  /** Minimum spacing between requests (robots.txt Crawl-delay), if any */
+  spacing?: Spacing;
+}
+
+/** Serial queue behind a bucket's minimum spacing; see waitForSlot. */
+interface Spacing {
+  intervalMs: number;
+  /** Start of the last request let through */
+  lastStart: number;
+  waiters: Array<() => void>;
+  timer?: ReturnType<typeof setTimeout>;
 }
 
 const MAX_WAIT_MS = 30_000; // Maximum time acquire() will wait before proceeding anyway
@@ -26,13 +37,16 @@ const POLL_INTERVAL_MS = 100;
 export class RateLimiter {
   private buckets = new Map<string, Bucket>();
 
-  /** Get or create a bucket for a domain. */
+  /**
+   * Get or create a bucket for a domain. Keys of the form `kind:qualifier`
+   * (see hostBucket) get their own bucket with the `kind` limits.
+   */
   private getBucket(domain: string): Bucket {
     let bucket = this.buckets.get(domain);
     if (bucket) return bucket;
 
-    const config = (RATE_LIMITS as Record<string, RateLimitConfig>)[domain]
-      ?? RATE_LIMITS.general;
+    const limits = RATE_LIMITS as Record<string, RateLimitConfig>;
+    const config = limits[domain] ?? limits[domain.split(":")[0]] ?? RATE_LIMITS.general;
 
     bucket = {
       tokens: config.maxTokens,
@@ -57,6 +71,73 @@ export class RateLimiter {
     }
   }
 
+  /**
+   * Space requests to a domain at least `intervalMs` apart, on top of its
+   * token budget, e.g. a host whose robots.txt declares a Crawl-delay.
+   * Enforced by waitForSlot; 0 removes the spacing.
+   */
+  setMinInterval(domain: string, intervalMs: number): void {
+    const bucket = this.getBucket(domain);
+    if (intervalMs <= 0) {
+      if (bucket.spacing) this.release(bucket.spacing, bucket.spacing.waiters.length);
+      bucket.spacing = undefined;
+    } else if (bucket.spacing) {
+      bucket.spacing.intervalMs = intervalMs;
+    } else {
+      bucket.spacing = { intervalMs, lastStart: -Infinity, waiters: [] };
+    }
+  }
+
+  /**
+   * Blocking: wait for the domain's next spaced slot (see setMinInterval).
+   * Waiters are let through one at a time, in call order, and unlike
+   * acquire() this never gives up, so concurrent callers cannot skip the
+   * spacing. Aborting `signal` rejects with its reason and leaves the queue
+   * without using up a slot. Resolves at once for domains without spacing.
+   */
+  waitForSlot(domain: string, signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    const spacing = this.buckets.get(domain)?.spacing;
+    if (!spacing) return Promise.resolve();
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const i = spacing.waiters.indexOf(admit);
+        if (i !== -1) spacing.waiters.splice(i, 1);
+        reject(signal!.reason);
+      };
+      const admit = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      spacing.waiters.push(admit);
+      this.pump(spacing);
+    });
+  }
+
+  /** Let the next waiter through once the spacing allows, rescheduling until the queue drains. */
+  private pump(spacing: Spacing): void {
+    if (spacing.timer || !spacing.waiters.length) return;
+    const wait = spacing.lastStart + spacing.intervalMs - Date.now();
+    if (wait <= 0) {
+      this.release(spacing, 1);
+      this.pump(spacing);
+      return;
+    }
+    spacing.timer = setTimeout(() => {
+      spacing.timer = undefined;
+      this.pump(spacing);
+    }, wait);
+  }
+
+  private release(spacing: Spacing, count: number): void {
+    for (const admit of spacing.waiters.splice(0, count)) {
+      spacing.lastStart = Date.now();
+      admit();
+    }
+  }
+
   /**
    * Non-blocking: try to consume one token.
    * Returns true if a token was available, false otherwise.
@@ -103,6 +184,18 @@ function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+/**
+ * Bucket key giving each web host its own `webHost` budget, so concurrent
+ * fetches against different sites don't queue behind one another.
+ */
+export function hostBucket(url: string): string {
+  try {
+    return `webHost:${new URL(url).hostname.toLowerCase()}`;
+  } catch {
+    return "general";
+  }
+}
+
 // Singleton
 let instance: RateLimiter | null = null;
 
@@ -0,0 +1,173 @@
+/**
+ * RobotsTxtCache — per-origin robots.txt rules (RFC 9309).
+ *
+ * Rules are selected for our user-agent product token, falling back to the
+ * `*` group. The most specific (longest) matching rule wins; Allow wins ties.
+ * Fetching is delegated to the caller so HttpService can reuse its headers
+ * without recursing into its own robots check.
+ */
+
+import { ROBOTS_DEFAULTS } from "../config/constants";
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[];
+  /** Crawl-delay in seconds for our group, if declared */
+  crawlDelaySec?: number;
+}
+
+/** Allow-all rules, used when a site has no robots.txt. */
+export const ALLOW_ALL: RobotsRules = { rules: [] };
+
+/** Product token of a User-Agent header: "name/1.x (+url)" → "name". */
+export function userAgentToken(userAgent: string): string {
+  return userAgent.trim().split(/[/\s]/)[0].toLowerCase();
+}
+
+interface Group {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelaySec?: number;
+}
+
+/**
+ * Parse robots.txt and return the rules that apply to `token`.
+ * Groups naming the token are merged; otherwise `*` groups are merged.
+ */
+export function parseRobotsTxt(text: string, token: string): RobotsRules {
+  const groups: Group[] = [];
+  let current: Group | undefined;
+  let lastWasAgent = false;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/#.*$/, "").trim();
+    const sep = line.indexOf(":");
+    if (sep <= 0) continue;
+
+    const key = line.slice(0, sep).trim().toLowerCase();
+    const value = line.slice(sep + 1).trim();
+
+    if (key === "user-agent") {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (key === "allow" || key === "disallow") {
+      // An empty Disallow means "allow everything" and adds no rule
+      if (value) current.rules.push({ allow: key === "allow", pattern: value });
+    } else if (key === "crawl-delay") {
+      const delay = Number(value);
+      if (Number.isFinite(delay) && delay > 0) current.crawlDelaySec = delay;
+    }
+  }
+
+  const wanted = token.toLowerCase();
+  let matched = groups.filter((g) => g.agents.includes(wanted));
+  if (!matched.length) matched = groups.filter((g) => g.agents.includes("*"));
+  if (!matched.length) return ALLOW_ALL;
+
+  const delays = matched
+    .map((g) => g.crawlDelaySec)
+    .filter((d): d is number => d !== undefined);
+  return {
+    rules: matched.flatMap((g) => g.rules),
+    ...(delays.length ? { crawlDelaySec: Math.max(...delays) } : {}),
+  };
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/** Check a path (including any query string) against parsed rules. */
+export function isPathAllowed(robots: RobotsRules, pathAndQuery: string): boolean {
+  if (pathAndQuery === "/robots.txt") return true;
+
+  let best: RobotsRule | undefined;
+  for (const rule of robots.rules) {
+    if (!patternToRegExp(rule.pattern).test(pathAndQuery)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
+
+interface CacheEntry {
+  robots: RobotsRules;
+  expiresAt: number;
+}
+
+/**
+ * Fetcher contract: return the robots.txt body, null when the site has
+ * none (4xx), or throw when it could not be reached.
+ */
+export type RobotsFetcher = (robotsUrl: string) => Promise<string | null>;
+
+export class RobotsTxtCache {
+  private entries = new Map<string, CacheEntry>();
+  private inflight = new Map<string, Promise<RobotsRules>>();
+
+  constructor(
+    private fetcher: RobotsFetcher,
+    private token: string
+  ) {}
+
+  /** Rules for an origin (e.g. https://docs.example.com), fetched at most once per TTL. */
+  async get(origin: string): Promise<RobotsRules> {
+    const cached = this.entries.get(origin);
+    if (cached && cached.expiresAt > Date.now()) return cached.robots;
+
+    const existing = this.inflight.get(origin);
+    if (existing) return existing;
+
+    const promise = this.load(origin).finally(() => this.inflight.delete(origin));
+    this.inflight.set(origin, promise);
+    return promise;
+  }
+
+  /** Drop cached rules (all origins when none is given). */
+  clear(origin?: string): void {
+    if (origin) this.entries.delete(origin);
+    else this.entries.clear();
+  }
+
+  private async load(origin: string): Promise<RobotsRules> {
+    let robots: RobotsRules;
+    let ttl: number = ROBOTS_DEFAULTS.CACHE_TTL_MS;
+    try {
+      const text = await this.fetcher(`${origin}/robots.txt`);
+      robots = text === null
+        ? ALLOW_ALL
+        : parseRobotsTxt(text.slice(0, ROBOTS_DEFAULTS.MAX_BYTES), this.token);
+    } catch {
+      // Unreachable robots.txt: proceed, but look again soon
+      robots = ALLOW_ALL;
+      ttl = ROBOTS_DEFAULTS.FAILURE_TTL_MS;
+    }
+
+    this.entries.set(origin, { robots, expiresAt: Date.now() + ttl });
+    return robots;
+  }
+}
@@ -3,12 +3,25 @@ import * as cron from "node-cron";
 import { randomUUID } from "crypto";
 
 import { AutognosticSourcesRepository } from "../db/autognosticSourcesRepository";
-import { AutognosticVersionsRepository } from "../db/autognosticVersionsRepository";
+import { getJobQueueService } from "./JobQueueService";
 import { ReconciliationService } from "../orchestrator/ReconciliationService";
 import { getDb } from "../db/getDb";
-import { autognosticSyncConfig, autognosticSyncLog } from "../db/schema";
+import {
+  autognosticSyncConfig,
+  autognosticSyncLog,
+  type AutognosticSourceRow,
+  type SyncLogError,
+} from "../db/schema";
 import { eq } from "drizzle-orm";
 import type { SourceConfig } from "../orchestrator/SourceConfig";
+import {
+  computeNextSyncAt,
+  describeSchedule,
+  type ScheduleDefaults,
+  type SourceSchedule,
+} from "../orchestrator/syncSchedule";
+import { isValidCron } from "../utils/cronSchedule";
+import { SCHEDULE_DEFAULTS } from "../config/constants";
 
 export interface SyncConfig {
   cronExpression: string;
@@ -17,6 +30,26 @@ export interface SyncConfig {
   enabled: boolean;
 }
 
+/** Progress of the sync run executing in this process */
+export interface SyncRunProgress {
+  id: string;
+  startedAt: Date;
+  /** Sources due in this run */
+  total: number;
+  checked: number;
+  currentSourceId: string | null;
+}
+
+export interface SchedulerStatus {
+  enabled: boolean;
+  /** Whether the tick task is scheduled in this process */
+  active: boolean;
+  defaultCron: string;
+  timezone: string;
+  tickCron: string;
+  currentRun: SyncRunProgress | null;
+}
+
 const DEFAULT_SYNC_CONFIG: SyncConfig = {
   cronExpression: process.env.AUTOGNOSTIC_SYNC_CRON || "0 3 * * *",
   timezone: process.env.AUTOGNOSTIC_SYNC_TIMEZONE || "UTC",
@@ -24,16 +57,21 @@ const DEFAULT_SYNC_CONFIG: SyncConfig = {
   enabled: process.env.AUTOGNOSTIC_SYNC_ENABLED !== "false",
 };
 
+/**
+ * Syncs each source on its own schedule. A tick every minute picks up the
+ * sources whose next_sync_at has passed; sources without a schedule of
+ * their own follow the sync_config cron.
+ */
 export class ScheduledSyncService {
   private task: cron.ScheduledTask | null = null;
+  private running = false;
+  private currentRun: SyncRunProgress | null = null;
   private sourcesRepo: AutognosticSourcesRepository;
-  private versionsRepo: AutognosticVersionsRepository;
   private reconciler: ReconciliationService;
   private config: SyncConfig;
 
   constructor(private runtime: IAgentRuntime) {
     this.sourcesRepo = new AutognosticSourcesRepository(runtime);
-    this.versionsRepo = new AutognosticVersionsRepository(runtime);
     this.reconciler = new ReconciliationService(runtime);
     this.config = { ...DEFAULT_SYNC_CONFIG };
   }
@@ -47,27 +85,28 @@ export class ScheduledSyncService {
       return;
     }
 
-    if (!cron.validate(this.config.cronExpression)) {
+    if (!isValidCron(this.config.cronExpression)) {
       console.error(
         `[autognostic] Invalid cron expression: ${this.config.cronExpression}. Sync disabled.`
       );
       return;
     }
 
-    this.task = cron.schedule(
-      this.config.cronExpression,
-      () => {
-        this.runSync().catch((err) => {
+    this.task = cron.schedule(SCHEDULE_DEFAULTS.TICK_CRON, () => {
+      // A long sync can outlast a tick; the next tick picks up what is still due
+      if (this.running) return;
+      this.running = true;
+      this.runSync()
+        .catch((err) => {
           console.error("[autognostic] Scheduled sync failed:", err);
+        })
+        .finally(() => {
+          this.running = false;
         });
-      },
-      {
-        timezone: this.config.timezone,
-      }
-    );
+    });
 
     console.log(
-      `[autognostic] Scheduled sync service started: ${this.config.cronExpression} (${this.config.timezone})`
+      `[autognostic] Scheduled sync service started; default schedule ${this.config.cronExpression} (${this.config.timezone})`
     );
   }
 
@@ -79,17 +118,97 @@ export class ScheduledSyncService {
     }
   }
 
-  async runSync(): Promise<void> {
+  getStatus(): SchedulerStatus {
+    return {
+      enabled: this.config.enabled,
+      active: this.task !== null,
+      defaultCron: this.config.cronExpression,
+      timezone: this.config.timezone,
+      tickCron: SCHEDULE_DEFAULTS.TICK_CRON,
+      currentRun: this.currentRun ? { ...this.currentRun } : null,
+    };
+  }
+
+  /** Schedule fallbacks for sources without a cron or interval of their own. */
+  private scheduleDefaults(): ScheduleDefaults {
+    return { cronExpression: this.config.cronExpression, timezone: this.config.timezone };
+  }
+
+  /**
+   * Store a new schedule for a source and recompute its next sync from it.
+   * Returns the next sync time and a readable description of the schedule.
+   */
+  async setSourceSchedule(
+    sourceId: string,
+    schedule: SourceSchedule
+  ): Promise<{ nextSyncAt: Date | null; description: string }> {
+    await this.loadConfig();
+    const defaults = this.scheduleDefaults();
+    const nextSyncAt = computeNextSyncAt(schedule, new Date(), defaults);
+    await this.sourcesRepo.setSchedule(sourceId, schedule, nextSyncAt);
+    return { nextSyncAt, description: describeSchedule(schedule, defaults) };
+  }
+
+  private nextSyncFor(source: AutognosticSourceRow, from: Date): Date | null {
+    try {
+      return computeNextSyncAt(source, from, this.scheduleDefaults());
+    } catch (err) {
+      // A bad stored cron falls back to the default schedule
+      console.warn(`[autognostic] Invalid schedule for ${source.id}, using default:`, err);
+      return computeNextSyncAt(
+        { syncCron: null, syncIntervalMinutes: null, syncJitterMinutes: source.syncJitterMinutes },
+        from,
+        this.scheduleDefaults()
+      );
+    }
+  }
+
+  /**
+   * Next sync for a source that could not be reconciled yet: its next
+   * scheduled slot, or later if it is blocked until `retryAfter`.
+   */
+  private deferSync(source: AutognosticSourceRow, now: Date, retryAfter?: Date | null): Promise<void> {
+    const next = this.nextSyncFor(source, now);
+    const later = next && retryAfter && retryAfter > next ? retryAfter : next ?? retryAfter ?? null;
+    return this.sourcesRepo.setNextSyncAt(source.id, later);
+  }
+
+  /**
+   * Sync every source that is due at `now`. A source whose next sync was
+   * never computed is due if its schedule has come round since it last
+   * synced; otherwise it just gets its next sync time stored. Sources still
+   * backing off or leased by another run are deferred without a job, and a
+   * tick in which every source was skipped leaves no sync_log entry.
+   */
+  async runSync(now = new Date()): Promise<void> {
+    const due: AutognosticSourceRow[] = [];
+    for (const source of await this.sourcesRepo.listDue(now)) {
+      if (!source.nextSyncAt) {
+        const next = this.nextSyncFor(source, source.lastSyncAt ?? source.createdAt);
+        if (next && next > now) {
+          await this.sourcesRepo.setNextSyncAt(source.id, next);
+          continue;
+        }
+      }
+      if (source.nextAttemptAt && source.nextAttemptAt > now) {
+        await this.deferSync(source, now, source.nextAttemptAt);
+        continue;
+      }
+      if (source.leaseHolder && source.leaseExpiresAt && source.leaseExpiresAt > now) {
+        await this.deferSync(source, now, source.leaseExpiresAt);
+        continue;
+      }
+      due.push(source);
+    }
+    if (due.length === 0) return;
+
     const syncId = `sync-${Date.now()}-${randomUUID().slice(0, 8)}`;
     const startedAt = new Date();
 
-    console.log(`[autognostic] Starting scheduled sync ${syncId}`);
+    console.log(`[autognostic] Starting scheduled sync ${syncId} for ${due.length} due source(s)`);
 
-    // Write initial sync log entry
-    await this.writeSyncLog(syncId, {
-      startedAt,
-      status: "running",
-    });
+    // The run is logged once a source gets past the skip checks
+    let logged = false;
 
     const stats = {
       sourcesChecked: 0,
@@ -97,32 +216,14 @@ export class ScheduledSyncService {
       sourcesSkipped: 0,
       documentsAdded: 0,
       documentsRemoved: 0,
-      errors: [] as Array<{ sourceId?: string; error: string }>,
+      errors: [] as SyncLogError[],
     };
+    this.currentRun = { id: syncId, startedAt, total: due.length, checked: 0, currentSourceId: null };
 
     try {
-      const sources = await this.sourcesRepo.listEnabled();
-
-      for (const source of sources) {
+      for (const source of due) {
         stats.sourcesChecked++;
-
-        // Skip sources with version tracking disabled
-        if (!source.versionTrackingEnabled) {
-          stats.sourcesSkipped++;
-          console.log(
-            `[autognostic] Skipping ${source.id}: version tracking disabled`
-          );
-          continue;
-        }
-
-        // Skip static content
-        if (source.isStaticContent) {
-          stats.sourcesSkipped++;
-          console.log(
-            `[autognostic] Skipping ${source.id}: static content`
-          );
-          continue;
-        }
+        this.currentRun.currentSourceId = source.id;
 
         try {
           const sourceConfig: SourceConfig = {
@@ -131,20 +232,55 @@ export class ScheduledSyncService {
             enabled: source.enabled,
           };
 
-          const result = await this.reconciler.verifyAndReconcileOne(sourceConfig);
+          const result = await getJobQueueService(this.runtime).submit("sync", sourceConfig);
+
+          // Another run holds the source, it was reconciled moments ago, or it is backing off;
+          // wait for its next slot, and at least until it can be reconciled again
+          if (
+            result.status === "skipped_in_progress" ||
+            result.status === "skipped_cooldown" ||
+            result.status === "skipped_backoff"
+          ) {
+            stats.sourcesSkipped++;
+            await this.deferSync(source, new Date(), result.retryAfter);
+            continue;
+          }
+
+          if (!logged) {
+            logged = true;
+            await this.writeSyncLog(syncId, { startedAt, status: "running" });
+          }
+
+          // Cancelled by the user; don't retry before the next slot
+          if (result.status === "cancelled") {
+            stats.sourcesSkipped++;
+            await this.sourcesRepo.setNextSyncAt(source.id, this.nextSyncFor(source, new Date()));
+            continue;
+          }
+
+          if (result.status === "failed" || result.status === "timed_out") {
+            stats.errors.push({ sourceId: source.id, error: result.error ?? result.status });
+            await this.sourcesRepo.setNextSyncAt(source.id, this.nextSyncFor(source, new Date()));
+            continue;
+          }
 
           if (result.status === "reconciled") {
             stats.sourcesUpdated++;
-            stats.documentsAdded += result.fileCount ?? 0;
+            if (result.changes) {
+              stats.documentsAdded += result.changes.added + result.changes.changed;
+              stats.documentsRemoved += result.changes.removed;
+            } else {
+              stats.documentsAdded += result.fileCount ?? 0;
+            }
           }
 
-          // Clean up old archived versions
-          await this.versionsRepo.deleteArchivedBySource(source.id);
+          // Drop archived versions that have aged out of the retention window
+          await this.reconciler.pruneVersionHistory(source.id);
 
           // Update sync timestamps
-          const now = new Date();
-          const nextSync = this.calculateNextSync(now);
-          await this.sourcesRepo.updateSyncTimestamps(source.id, now, nextSync);
+          const syncedAt = new Date();
+          const nextSync = this.nextSyncFor(source, syncedAt) ?? undefined;
+          await this.sourcesRepo.updateSyncTimestamps(source.id, syncedAt, nextSync);
         } catch (err) {
           const errMsg = err instanceof Error ? err.message : String(err);
           console.error(
@@ -155,16 +291,23 @@ export class ScheduledSyncService {
             sourceId: source.id,
             error: errMsg,
           });
+          // Health backoff decides the retry; the schedule moves on to its next slot
+          await this.sourcesRepo.setNextSyncAt(source.id, this.nextSyncFor(source, new Date()));
+        } finally {
+          this.currentRun.checked++;
+          this.currentRun.currentSourceId = null;
         }
       }
 
-      // Write completed sync log
-      await this.writeSyncLog(syncId, {
-        startedAt,
-        completedAt: new Date(),
-        status: "completed",
-        ...stats,
-      });
+      // Write completed sync log, unless every source was skipped
+      if (logged || stats.errors.length) {
+        await this.writeSyncLog(syncId, {
+          startedAt,
+          completedAt: new Date(),
+          status: "completed",
+          ...stats,
+        });
+      }
 
       console.log(
         `[autognostic] Sync ${syncId} completed: ` +
@@ -183,6 +326,8 @@ export class ScheduledSyncService {
         ],
       });
       throw err;
+    } finally {
+      this.currentRun = null;
     }
   }
 
@@ -209,8 +354,12 @@ export class ScheduledSyncService {
             sourceUrl: source.sourceUrl,
             enabled: source.enabled,
           };
-          await this.reconciler.verifyAndReconcileOne(sourceConfig);
-          await this.sourcesRepo.updateSyncTimestamps(source.id, now);
+          await getJobQueueService(this.runtime).submit("sync", sourceConfig);
+          await this.sourcesRepo.updateSyncTimestamps(
+            source.id,
+            now,
+            this.nextSyncFor(source, now) ?? undefined
+          );
         } catch (err) {
           console.error(
             `[autognostic] Startup sync failed for ${source.id}:`,
@@ -221,11 +370,6 @@ export class ScheduledSyncService {
     }
   }
 
-  private calculateNextSync(from: Date): Date {
-    // Simple: add 24 hours as approximate next sync
-    return new Date(from.getTime() + this.config.stalenessThresholdHours * 60 * 60 * 1000);
-  }
-
   private async loadConfig(): Promise<void> {
     try {
       const db = await getDb(this.runtime);
@@ -260,7 +404,7 @@ export class ScheduledSyncService {
       sourcesSkipped?: number;
       documentsAdded?: number;
       documentsRemoved?: number;
-      errors?: Array<{ sourceId?: string; error: string }>;
+      errors?: SyncLogError[];
     }
   ): Promise<void> {
     try {
@@ -118,6 +118,21 @@ function classifyLink(href: string, text: string): PageLink["type"] {
   return "unknown";
 }
 
+function collectLinks(
+  document: ReturnType<typeof parseHTML>["document"],
+  baseUrl: string
+): PageLink[] {
+  const links: PageLink[] = [];
+  for (const a of document.querySelectorAll("a[href]")) {
+    const href = (a as Element).getAttribute("href");
+    if (!href) continue;
+    const resolved = resolveUrl(href, baseUrl);
+    const linkText = (a as Element).textContent?.trim() || "";
+    links.push({ href: resolved, text: linkText, type: classifyLink(resolved, linkText) });
+  }
+  return links;
+}
+
 function resolveUrl(href: string, baseUrl: string): string {
   try {
     return new URL(href, baseUrl).href;
@@ -394,24 +409,36 @@ export class WebPageProcessor {
 
     // Extract links (re-parse since we may have removed elements)
     // Use the full document for link extraction, not just content root
-    const anchors = document.querySelectorAll("a[href]");
-    const links: PageLink[] = [];
-    const pdfLinks: PageLink[] = [];
-
-    for (const a of anchors) {
-      const href = (a as Element).getAttribute("href");
-      if (!href) continue;
-      const resolved = resolveUrl(href, baseUrl);
-      const linkText = (a as Element).textContent?.trim() || "";
-      const type = classifyLink(resolved, linkText);
-      const link: PageLink = { href: resolved, text: linkText, type };
-      links.push(link);
-      if (type === "pdf") pdfLinks.push(link);
-    }
+    const links = collectLinks(document, baseUrl);
+    const pdfLinks = links.filter((l) => l.type === "pdf");
 
     return { title, text, links, pdfLinks, metadata };
   }
 
+  /**
+   * Extract every link on a page, including navigation chrome that
+   * extractFromHtml strips. Used by the site crawler, where sidebars and
+   * menus are the main source of links. Also reports the page's declared
+   * canonical URL, if any.
+   */
+  extractNavigation(
+    html: string,
+    baseUrl: string
+  ): { title: string; canonicalUrl?: string; links: PageLink[] } {
+    const { document } = parseHTML(html);
+
+    const title = document.querySelector("title")?.textContent?.trim() || "";
+    const canonicalHref = (
+      document.querySelector('link[rel="canonical"]') as Element | null
+    )?.getAttribute("href");
+
+    return {
+      title,
+      canonicalUrl: canonicalHref ? resolveUrl(canonicalHref, baseUrl) : undefined,
+      links: collectLinks(document, baseUrl),
+    };
+  }
+
   /**
    * Find the best PDF link from an extracted page.
    * Priority: citation_pdf_url meta > .pdf hrefs > anchor text patterns > arXiv abs→pdf.
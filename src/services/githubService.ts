@@ -66,43 +66,85 @@ export class GithubService extends Service {
   }
 
   /**
-   * List repository tree paths for a ref.
-   * If `subdir` is set, filters to that subdirectory.
+   * Resolve a ref (branch, tag or sha; default branch if omitted) and list its
+   * blobs with their SHAs and sizes in a single recursive tree call.
+   * `treeSha` is the SHA of `subdir` when given, otherwise of the repo root —
+   * it only changes when something under that path changes.
    */
-  async listRepoTree(params: {
+  async resolveRepoTree(params: {
     owner: string;
     repo: string;
-    ref: string; // branch, tag, or sha
+    ref?: string;
     subdir?: string;
-    include?: RegExp; // optional include filter
-    exclude?: RegExp; // optional exclude filter
-  }): Promise<string[]> {
-    const { owner, repo, ref, subdir, include, exclude } = params;
+    include?: RegExp;
+    exclude?: RegExp;
+  }): Promise<{
+    ref: string;
+    commitSha: string;
+    treeSha: string;
+    truncated: boolean;
+    files: Array<{ path: string; sha: string; size: number }>;
+  }> {
+    const { owner, repo, subdir, include, exclude } = params;
+
+    let ref = params.ref;
+    if (!ref) {
+      const repoResp = await this.octokit.repos.get({ owner, repo });
+      ref = repoResp.data.default_branch;
+    }
 
-    // GitHub API: get ref SHA then tree
-    const refResp = await this.octokit.git.getRef({
+    const commitResp = await this.octokit.repos.getCommit({
       owner,
       repo,
-      ref: ref.startsWith("refs/") ? ref.replace(/^refs\//, "") : `heads/${ref}`,
+      ref: ref.replace(/^refs\//, ""),
     });
-
-    const sha = refResp.data.object.sha;
+    const commitSha = commitResp.data.sha;
+    const rootTreeSha = commitResp.data.commit.tree.sha;
 
     const treeResp = await this.octokit.git.getTree({
       owner,
       repo,
-      tree_sha: sha,
+      tree_sha: rootTreeSha,
       recursive: "true",
     });
 
-    const base = subdir ? subdir.replace(/^\//, "").replace(/\/$/, "") + "/" : "";
+    const dir = subdir ? subdir.replace(/^\//, "").replace(/\/$/, "") : "";
+    const base = dir ? dir + "/" : "";
+    const nodes = treeResp.data.tree ?? [];
+
+    let treeSha = rootTreeSha;
+    if (dir) {
+      const subtree = nodes.find((n) => n.type === "tree" && n.path === dir);
+      if (!subtree?.sha) {
+        throw new Error(`Path not found in ${owner}/${repo}@${ref}: ${dir}`);
+      }
+      treeSha = subtree.sha;
+    }
+
+    const files = nodes
+      .filter((n) => n.type === "blob" && typeof n.path === "string" && typeof n.sha === "string")
+      .filter((n) => (base ? n.path!.startsWith(base) : true))
+      .filter((n) => (include ? include.test(n.path!) : true))
+      .filter((n) => (exclude ? !exclude.test(n.path!) : true))
+      .map((n) => ({ path: n.path!, sha: n.sha!, size: n.size ?? 0 }));
 
-    return (treeResp.data.tree ?? [])
-      .filter((n) => n.type === "blob" && typeof n.path === "string")
-      .map((n) => n.path!)
-      .filter((p) => (base ? p.startsWith(base) : true))
-      .filter((p) => (include ? include.test(p) : true))
-      .filter((p) => (exclude ? !exclude.test(p) : true));
+    return { ref, commitSha, treeSha, truncated: treeResp.data.truncated === true, files };
+  }
+
+  /**
+   * List repository tree paths for a ref.
+   * If `subdir` is set, filters to that subdirectory.
+   */
+  async listRepoTree(params: {
+    owner: string;
+    repo: string;
+    ref: string; // branch, tag, or sha
+    subdir?: string;
+    include?: RegExp; // optional include filter
+    exclude?: RegExp; // optional exclude filter
+  }): Promise<string[]> {
+    const tree = await this.resolveRepoTree(params);
+    return tree.files.map((f) => f.path);
   }
 
   /**
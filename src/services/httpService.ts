@@ -1,10 +1,41 @@
 import { Service, type IAgentRuntime } from "@elizaos/core";
-import { HTTP_DEFAULTS } from "../config/constants";
+import { HTTP_DEFAULTS, ROBOTS_DEFAULTS } from "../config/constants";
+import { AutognosticNetworkError } from "../errors/NetworkError";
+import { getRateLimiter, hostBucket } from "./RateLimiter";
+import { RobotsTxtCache, isPathAllowed, userAgentToken } from "./RobotsTxtCache";
+
+/** Cache validators a server sent with a response. */
+export interface HttpValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/** Read ETag / Last-Modified from response headers. */
+export function readValidators(headers: Pick<Headers, "get">): HttpValidators {
+  const etag = headers.get("etag") ?? undefined;
+  const lastModified = headers.get("last-modified") ?? undefined;
+  return { ...(etag ? { etag } : {}), ...(lastModified ? { lastModified } : {}) };
+}
+
+/**
+ * If-None-Match / If-Modified-Since headers for revalidating a copy fetched
+ * with these validators. Empty when there is nothing to revalidate against.
+ */
+export function conditionalHeaders(validators?: HttpValidators | null): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (validators?.etag) headers["if-none-match"] = validators.etag;
+  if (validators?.lastModified) headers["if-modified-since"] = validators.lastModified;
+  return headers;
+}
 
 /**
  * HttpService
  * - Centralized HTTP fetch helpers for the plugin.
  * - Provides GET/HEAD with timeouts and basic safety defaults.
+ * - Honours robots.txt Disallow/Allow and Crawl-delay for our user agent
+ *   (disable with settings.autognostic.http.respectRobotsTxt = false).
+ * - Every request takes an optional `signal`; aborting it cancels the fetch,
+ *   including one still waiting out a Crawl-delay.
  * - Registered as an ElizaOS Service (core 1.6+ requires static start()).
  */
 export class HttpService extends Service {
@@ -15,6 +46,8 @@ export class HttpService extends Service {
 
   private defaultTimeoutMs: number = HTTP_DEFAULTS.TIMEOUT_MS;
   private defaultUserAgent: string = HTTP_DEFAULTS.USER_AGENT;
+  private respectRobotsTxt = true;
+  private robots: RobotsTxtCache;
 
   /** Required by ElizaOS core (service registration). */
   static async start(runtime: IAgentRuntime): Promise<HttpService> {
@@ -25,9 +58,17 @@ export class HttpService extends Service {
     super(runtime);
     // Optional per-character tuning
     const dm = (runtime.character?.settings as Record<string, Record<string, unknown>> | undefined)?.autognostic as Record<string, unknown> | undefined;
-    const http = dm?.http as { timeoutMs?: number; userAgent?: string } | undefined;
+    const http = dm?.http as
+      | { timeoutMs?: number; userAgent?: string; respectRobotsTxt?: boolean }
+      | undefined;
     if (typeof http?.timeoutMs === "number") this.defaultTimeoutMs = http.timeoutMs;
     if (typeof http?.userAgent === "string") this.defaultUserAgent = http.userAgent;
+    if (http?.respectRobotsTxt === false) this.respectRobotsTxt = false;
+
+    this.robots = new RobotsTxtCache(
+      (robotsUrl) => this.fetchRobotsTxt(robotsUrl),
+      userAgentToken(this.defaultUserAgent)
+    );
   }
 
   override async stop(): Promise<void> {
@@ -50,37 +91,100 @@ export class HttpService extends Service {
     return h;
   }
 
-  private async withTimeout<T>(ms: number, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  /** Run `fn` with a signal that aborts after `ms`, or as soon as the caller's `outer` does. */
+  private async withTimeout<T>(
+    ms: number,
+    fn: (signal: AbortSignal) => Promise<T>,
+    outer?: AbortSignal
+  ): Promise<T> {
+    outer?.throwIfAborted();
     const controller = new AbortController();
     const t = setTimeout(() => controller.abort(), ms);
+    const forward = () => controller.abort(outer?.reason);
+    outer?.addEventListener("abort", forward, { once: true });
     try {
       return await fn(controller.signal);
     } finally {
       clearTimeout(t);
+      outer?.removeEventListener("abort", forward);
+    }
+  }
+
+  /**
+   * Fetch robots.txt directly (bypassing the robots check itself).
+   * Returns null when the site has none.
+   */
+  private async fetchRobotsTxt(robotsUrl: string): Promise<string | null> {
+    const res = await this.withTimeout(this.defaultTimeoutMs, (signal) =>
+      fetch(robotsUrl, {
+        method: "GET",
+        headers: this.buildHeaders({ accept: "text/plain" }),
+        signal,
+        redirect: "follow",
+      })
+    );
+    if (res.status >= 400 && res.status < 500) return null;
+    if (!res.ok) throw new Error(`HTTP ${res.status} (${res.statusText}) for ${robotsUrl}`);
+    return res.text();
+  }
+
+  /**
+   * Reject URLs the origin's robots.txt disallows for our user agent, and
+   * wait out any Crawl-delay as the minimum spacing of the host's
+   * RateLimiter bucket (see RateLimiter.waitForSlot).
+   */
+  private async enforceRobots(url: string, signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    if (!this.respectRobotsTxt) return;
+
+    let u: URL;
+    try {
+      u = new URL(url);
+    } catch {
+      return; // let fetch report the bad URL
     }
+    if (u.protocol !== "http:" && u.protocol !== "https:") return;
+    if ((ROBOTS_DEFAULTS.EXEMPT_HOSTS as readonly string[]).includes(u.hostname)) return;
+
+    const robots = await this.robots.get(u.origin);
+    if (!isPathAllowed(robots, u.pathname + u.search)) {
+      throw AutognosticNetworkError.robotsDisallowed(url, { operation: "http_fetch" });
+    }
+
+    const limiter = getRateLimiter();
+    const bucket = hostBucket(url);
+    const delaySec = Math.min(robots.crawlDelaySec ?? 0, ROBOTS_DEFAULTS.MAX_CRAWL_DELAY_SEC);
+    limiter.setMinInterval(bucket, delaySec * 1000);
+    await limiter.waitForSlot(bucket, signal);
   }
 
   async head(
     url: string,
-    opts?: { timeoutMs?: number; headers?: HeadersInit }
+    opts?: { timeoutMs?: number; headers?: HeadersInit; signal?: AbortSignal }
   ): Promise<Response> {
+    await this.enforceRobots(url, opts?.signal);
     const timeoutMs = opts?.timeoutMs ?? this.defaultTimeoutMs;
     const headers = this.buildHeaders(opts?.headers);
 
-    return this.withTimeout(timeoutMs, (signal) =>
-      fetch(url, { method: "HEAD", headers, signal, redirect: "follow" })
+    return this.withTimeout(
+      timeoutMs,
+      (signal) => fetch(url, { method: "HEAD", headers, signal, redirect: "follow" }),
+      opts?.signal
     );
   }
 
   async get(
     url: string,
-    opts?: { timeoutMs?: number; headers?: HeadersInit; preferRawText?: boolean }
+    opts?: { timeoutMs?: number; headers?: HeadersInit; preferRawText?: boolean; signal?: AbortSignal }
   ): Promise<Response> {
+    await this.enforceRobots(url, opts?.signal);
     const timeoutMs = opts?.timeoutMs ?? this.defaultTimeoutMs;
     const headers = this.buildHeaders(opts?.headers, opts?.preferRawText);
 
-    return this.withTimeout(timeoutMs, (signal) =>
-      fetch(url, { method: "GET", headers, signal, redirect: "follow" })
+    return this.withTimeout(
+      timeoutMs,
+      (signal) => fetch(url, { method: "GET", headers, signal, redirect: "follow" }),
+      opts?.signal
     );
   }
 
@@ -91,7 +195,7 @@ export class HttpService extends Service {
    */
   async getRawText(
     url: string,
-    opts?: { timeoutMs?: number; headers?: HeadersInit; maxChars?: number }
+    opts?: { timeoutMs?: number; headers?: HeadersInit; maxChars?: number; signal?: AbortSignal }
   ): Promise<{ content: string; contentType: string; isHtml: boolean }> {
     const res = await this.get(url, { ...opts, preferRawText: true });
     if (!res.ok) {
@@ -113,7 +217,7 @@ export class HttpService extends Service {
 
   async getText(
     url: string,
-    opts?: { timeoutMs?: number; headers?: HeadersInit; maxChars?: number }
+    opts?: { timeoutMs?: number; headers?: HeadersInit; maxChars?: number; signal?: AbortSignal }
   ): Promise<string> {
     const res = await this.get(url, opts);
     if (!res.ok) {
@@ -126,7 +230,7 @@ export class HttpService extends Service {
 
   async getJson<T>(
     url: string,
-    opts?: { timeoutMs?: number; headers?: HeadersInit }
+    opts?: { timeoutMs?: number; headers?: HeadersInit; signal?: AbortSignal }
   ): Promise<T> {
     const res = await this.get(url, {
       ...opts,
@@ -144,7 +248,7 @@ export class HttpService extends Service {
    */
   async probe(
     url: string,
-    opts?: { timeoutMs?: number; headers?: HeadersInit }
+    opts?: { timeoutMs?: number; headers?: HeadersInit; signal?: AbortSignal }
   ): Promise<{ contentLength?: number; contentType?: string; finalUrl?: string }> {
     const res = await this.head(url, opts);
     const cl = res.headers.get("content-length");
@@ -0,0 +1,182 @@
+/**
+ * "As of" dates for historical document lookups.
+ *
+ * Accepted forms:
+ * - ISO dates and timestamps: `2026-09-01`, `2026-09-01T12:00:00Z`
+ * - Calendar dates: `September 1`, `Sept 1st, 2026`, `1 September 2026`
+ * - Months: `March`, `March 2026`
+ * - Relative: `yesterday`, `last week|month|year`, `3 weeks ago`, `a month ago`
+ *
+ * A date resolves to the end of that day (UTC) and a month to the end of that
+ * month, so the lookup reflects what was in effect by then. A date without a
+ * year means its most recent occurrence; nothing resolves past `now`.
+ */
+
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0, feb: 1, february: 1, mar: 2, march: 2, apr: 3, april: 3,
+  may: 4, jun: 5, june: 5, jul: 6, july: 6, aug: 7, august: 7,
+  sep: 8, sept: 8, september: 8, oct: 9, october: 9, nov: 10, november: 10,
+  dec: 11, december: 11,
+};
+const MONTH = "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+const DAY = "(\\d{1,2})(?:st|nd|rd|th)?";
+const YEAR = "(\\d{4})";
+
+const COUNTS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+const COUNT = "(\\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)";
+const UNIT = "(day|week|month|year)s?";
+
+const ISO_RE = /^(\d{4})-(\d{2})-(\d{2})(T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?\b/i;
+const MONTH_DAY_RE = new RegExp(`^${MONTH}\\.?\\s+${DAY}(?:,?\\s+${YEAR})?\\b`, "i");
+const DAY_MONTH_RE = new RegExp(`^${DAY}\\s+(?:of\\s+)?${MONTH}\\.?(?:,?\\s+${YEAR})?\\b`, "i");
+const MONTH_YEAR_RE = new RegExp(`^${MONTH}\\.?(?:\\s+${YEAR})?\\b`, "i");
+const AGO_RE = new RegExp(`\\b${COUNT}\\s+${UNIT}\\s+ago\\b`, "i");
+const LAST_UNIT_RE = /\b(?:last|previous|past)\s+(week|month|year)\b/i;
+const YESTERDAY_RE = /\byesterday\b/i;
+
+/**
+ * Words showing a relative phrase is the time being asked about ("what did it
+ * say last week", "changed since yesterday") rather than part of the query
+ * ("results from two years ago").
+ */
+const RELATIVE_CUE_RE = /\b(?:as\s+(?:of|at)|since|did|was|were|used\s+to|changed)\b/i;
+/** Quoted text is what the user is looking for, never an as-of date */
+const QUOTED_RE = /"[^"]*"|\u201c[^\u201d]*\u201d/g;
+/** Phrases that introduce an absolute date in a message ("as of March", "on 2026-09-01") */
+const CUE_RE = /\b(as\s+(?:of|at)|back\s+in|since|on|in|from|during)\s+(?:the\s+)?/gi;
+/** Cues strong enough to read a bare month name as a date */
+const MONTH_CUE_RE = /^(?:as\s+(?:of|at)|back\s+in|since|during)$/i;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function endOfUtcDay(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day, 23, 59, 59, 999));
+}
+
+function monthIndex(name: string): number | undefined {
+  return MONTHS[name.toLowerCase().replace(/\.$/, "")];
+}
+
+function minusUnits(now: Date, count: number, unit: string): Date {
+  const d = new Date(now);
+  if (unit === "day") d.setTime(d.getTime() - count * DAY_MS);
+  else if (unit === "week") d.setTime(d.getTime() - count * 7 * DAY_MS);
+  else if (unit === "month") d.setUTCMonth(d.getUTCMonth() - count);
+  else d.setUTCFullYear(d.getUTCFullYear() - count);
+  return d;
+}
+
+function clamp(date: Date, now: Date): Date | null {
+  if (Number.isNaN(date.getTime())) return null;
+  return date > now ? now : date;
+}
+
+/** Calendar date without a year: its latest occurrence on or before `now`. */
+function latestDay(month: number, day: number, now: Date): Date {
+  const thisYear = endOfUtcDay(now.getUTCFullYear(), month, day);
+  if (Date.UTC(now.getUTCFullYear(), month, day) <= now.getTime()) return thisYear;
+  return endOfUtcDay(now.getUTCFullYear() - 1, month, day);
+}
+
+interface DateMatch {
+  date: Date;
+  /** Matched text */
+  text: string;
+}
+
+function matched(date: Date | null, text: string): DateMatch | null {
+  return date ? { date, text } : null;
+}
+
+/**
+ * Parse an absolute date at the start of `text`. A bare month ("March") is
+ * only taken when `bareMonth` is set, since "in May" is often not a date.
+ */
+function parseLeadingDate(text: string, now: Date, bareMonth = true): DateMatch | null {
+  const iso = ISO_RE.exec(text);
+  if (iso) {
+    const [month, day] = [Number(iso[2]), Number(iso[3])];
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    const date = iso[4]
+      ? new Date(iso[0])
+      : endOfUtcDay(Number(iso[1]), month - 1, day);
+    return matched(clamp(date, now), iso[0]);
+  }
+
+  const md = MONTH_DAY_RE.exec(text);
+  const dm = md ? null : DAY_MONTH_RE.exec(text);
+  const dayMatch = md ?? dm;
+  if (dayMatch) {
+    const [monthName, day, year] = md ? [md[1], md[2], md[3]] : [dm![2], dm![1], dm![3]];
+    const month = monthIndex(monthName);
+    const d = Number(day);
+    if (month === undefined || d < 1 || d > 31) return null;
+    const date = year ? endOfUtcDay(Number(year), month, d) : latestDay(month, d, now);
+    return matched(clamp(date, now), dayMatch[0]);
+  }
+
+  const my = MONTH_YEAR_RE.exec(text);
+  if (my && (my[2] || bareMonth)) {
+    const month = monthIndex(my[1]);
+    if (month === undefined) return null;
+    let year = my[2] ? Number(my[2]) : now.getUTCFullYear();
+    if (!my[2] && month > now.getUTCMonth()) year -= 1;
+    // Day 0 of the next month is the last day of this one
+    return matched(clamp(endOfUtcDay(year, month + 1, 0), now), my[0]);
+  }
+  return null;
+}
+
+/** Parse a relative phrase anywhere in `text`. */
+function parseRelative(text: string, now: Date): DateMatch | null {
+  const ago = AGO_RE.exec(text);
+  if (ago) {
+    const count = /^\d+$/.test(ago[1]) ? Number(ago[1]) : COUNTS[ago[1].toLowerCase()];
+    return matched(minusUnits(now, count, ago[2].toLowerCase()), ago[0]);
+  }
+  const last = LAST_UNIT_RE.exec(text);
+  if (last) return matched(minusUnits(now, 1, last[1].toLowerCase()), last[0]);
+  const yesterday = YESTERDAY_RE.exec(text);
+  if (yesterday) return matched(minusUnits(now, 1, "day"), yesterday[0]);
+  return null;
+}
+
+/**
+ * Parse an explicit as-of value (e.g. an action parameter).
+ * Returns null when the value isn't a recognisable date.
+ */
+export function parseAsOfDate(value: string, now: Date = new Date()): Date | null {
+  const text = value.trim().replace(/^as\s+(?:of|at)\s+/i, "");
+  if (!text) return null;
+  return (parseLeadingDate(text, now) ?? parseRelative(text, now))?.date ?? null;
+}
+
+/**
+ * Find an as-of date in a chat message ("what did it say last month",
+ * "as of March 3", "on 2026-09-01"). Absolute dates need a leading cue word
+ * so that dates being searched for aren't mistaken for one; a month on its
+ * own needs "as of", "back in", "since" or "during". Relative phrases need
+ * "as of", "since", "changed" or a past-tense verb elsewhere in the message.
+ * Anything inside double quotes is ignored.
+ *
+ * `phrase` is the matched text, cue included, so callers can drop it before
+ * reading the rest of the message.
+ */
+export function inferAsOfDate(
+  messageText: string,
+  now: Date = new Date()
+): { date: Date; phrase: string } | null {
+  // Blank quoted spans out, keeping offsets, so matches are still substrings of the message
+  const text = messageText.replace(QUOTED_RE, (q) => " ".repeat(q.length));
+  for (const cue of text.matchAll(CUE_RE)) {
+    const rest = text.slice(cue.index! + cue[0].length);
+    const found = parseLeadingDate(rest, now, MONTH_CUE_RE.test(cue[1]));
+    if (found) return { date: found.date, phrase: cue[0] + found.text };
+  }
+  if (!RELATIVE_CUE_RE.test(text)) return null;
+  const relative = parseRelative(text, now);
+  return relative ? { date: relative.date, phrase: relative.text } : null;
+}
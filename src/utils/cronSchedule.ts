@@ -0,0 +1,182 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week)
+ * and their next occurrence in a time zone. node-cron only fires callbacks;
+ * per-source schedules need the next run time itself to store as next_sync_at.
+ */
+
+import { AutognosticValidationError } from "../errors/ValidationError";
+import { ErrorCode } from "../errors/AutognosticError";
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Cron matches day-of-month OR day-of-week when both are restricted */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/** Shorthands accepted in place of a full expression. */
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+/** Never look further ahead than this for a match (covers Feb 29 schedules) */
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function invalid(expression: string, reason: string): AutognosticValidationError {
+  return new AutognosticValidationError(
+    `Invalid cron expression "${expression}": ${reason}`,
+    ErrorCode.VALIDATION_INVALID_FORMAT,
+    { operation: "parseCron", field: "cron", value: expression }
+  );
+}
+
+function parseValue(raw: string, names: string[] | undefined, offset: number): number {
+  const idx = names?.indexOf(raw.toLowerCase().slice(0, 3)) ?? -1;
+  if (idx >= 0 && isNaN(Number(raw))) return idx + offset;
+  return /^\d+$/.test(raw) ? Number(raw) : NaN;
+}
+
+function parseField(
+  expression: string,
+  field: string,
+  min: number,
+  max: number,
+  names?: string[],
+  nameOffset = 0
+): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepRaw] = part.split("/");
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1) {
+      throw invalid(expression, `bad step in "${part}"`);
+    }
+
+    let lo: number;
+    let hi: number;
+    if (range === "*") {
+      lo = min;
+      hi = max;
+    } else {
+      const [a, b] = range.split("-");
+      lo = parseValue(a, names, nameOffset);
+      hi = b === undefined ? (stepRaw === undefined ? lo : max) : parseValue(b, names, nameOffset);
+    }
+    if (isNaN(lo) || isNaN(hi) || lo < min || hi > max || lo > hi) {
+      throw invalid(expression, `"${part}" is outside ${min}-${max}`);
+    }
+    for (let v = lo; v <= hi; v += step) values.add(v);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronFields {
+  const normalized = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const parts = normalized.split(/\s+/);
+  if (parts.length !== 5) {
+    throw invalid(expression, "expected 5 fields (minute hour day month weekday)");
+  }
+  const [min, hour, dom, month, dow] = parts;
+  const daysOfWeek = parseField(expression, dow, 0, 7, DAY_NAMES);
+  // 7 is Sunday too
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  return {
+    minutes: parseField(expression, min, 0, 59),
+    hours: parseField(expression, hour, 0, 23),
+    daysOfMonth: parseField(expression, dom, 1, 31),
+    months: parseField(expression, month, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    domRestricted: dom !== "*",
+    dowRestricted: dow !== "*",
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock fields of `date` in `timeZone`. */
+function zonedParts(date: Date, timeZone: string) {
+  let fmt = formatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timeZone, fmt);
+  }
+  const parts: Record<string, string> = {};
+  for (const p of fmt.formatToParts(date)) parts[p.type] = p.value;
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toLowerCase().slice(0, 3)),
+  };
+}
+
+function dayMatches(fields: CronFields, day: number, weekday: number): boolean {
+  const dom = fields.daysOfMonth.has(day);
+  const dow = fields.daysOfWeek.has(weekday);
+  if (fields.domRestricted && fields.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * First minute strictly after `after` that the expression matches, read as
+ * wall-clock time in `timeZone`. Throws AutognosticValidationError for a
+ * bad expression and returns null if nothing matches within five years
+ * (e.g. "0 0 31 2 *").
+ */
+export function nextCronTime(expression: string, after: Date, timeZone = "UTC"): Date | null {
+  const fields = parseCron(expression);
+  const MINUTE = 60_000;
+  let t = Math.floor(after.getTime() / MINUTE) * MINUTE + MINUTE;
+  const limit = t + MAX_LOOKAHEAD_MS;
+
+  while (t < limit) {
+    const p = zonedParts(new Date(t), timeZone);
+    // Non-matching days advance an hour at a time so DST shifts can't skip a match
+    if (
+      !fields.months.has(p.month) ||
+      !dayMatches(fields, p.day, p.weekday) ||
+      !fields.hours.has(p.hour)
+    ) {
+      t += (60 - p.minute) * MINUTE;
+      continue;
+    }
+    if (!fields.minutes.has(p.minute)) {
+      t += MINUTE;
+      continue;
+    }
+    return new Date(t);
+  }
+  return null;
+}
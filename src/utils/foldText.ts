@@ -0,0 +1,101 @@
+/**
+ * Text folding for tolerant matching of quotes and search terms.
+ *
+ * Folding applies Unicode compatibility forms (ligatures such as ﬁ/ﬂ,
+ * full-width letters), maps smart quotes and dashes to ASCII, drops soft
+ * hyphens and words hyphenated across a line break, collapses whitespace
+ * and (unless asked to keep case) lowercases. Every folded character
+ * remembers the original offset it came from, so a match in folded text maps
+ * back to the document's own characters.
+ */
+
+export interface FoldedText {
+  text: string;
+  /** Original offset of each folded character */
+  offsets: number[];
+}
+
+const CHAR_FOLDS: Record<string, string> = {
+  "‘": "'", "’": "'", "‚": "'", "‛": "'", "′": "'",
+  "“": '"', "”": '"', "„": '"', "‟": '"', "″": '"',
+  "«": '"', "»": '"',
+  "‐": "-", "‑": "-", "‒": "-", "–": "-", "—": "-", "−": "-",
+};
+
+/** A hyphen ending a line, when the word continues in lower case on the next line */
+const LINE_BREAK_HYPHEN = /[-‐][ \t]*\r?\n[ \t]*(?=\p{Ll})/uy;
+
+export function foldText(text: string, keepCase = false): FoldedText {
+  let out = "";
+  const offsets: number[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = String.fromCodePoint(text.codePointAt(i)!);
+
+    if (ch === "\u00AD") {
+      i += 1;
+      continue;
+    }
+    if (out && /\p{L}/u.test(out[out.length - 1])) {
+      LINE_BREAK_HYPHEN.lastIndex = i;
+      if (LINE_BREAK_HYPHEN.test(text)) {
+        i = LINE_BREAK_HYPHEN.lastIndex;
+        continue;
+      }
+    }
+    if (/\s/.test(ch)) {
+      if (out && out[out.length - 1] !== " ") {
+        out += " ";
+        offsets.push(i);
+      }
+      i += ch.length;
+      continue;
+    }
+
+    const compat = ch.normalize("NFKC");
+    for (const c of CHAR_FOLDS[ch] ?? (keepCase ? compat : compat.toLowerCase())) {
+      out += c;
+      offsets.push(i);
+    }
+    i += ch.length;
+  }
+  if (out.endsWith(" ")) {
+    out = out.slice(0, -1);
+    offsets.pop();
+  }
+  return { text: out, offsets };
+}
+
+/**
+ * Folded text reduced to letters and digits, so words that were merged or
+ * split (common in PDF extraction) still line up. Offsets still point into
+ * the original text.
+ */
+export function compactText(folded: FoldedText): FoldedText {
+  let text = "";
+  const offsets: number[] = [];
+  for (let i = 0; i < folded.text.length; i++) {
+    if (/[\p{L}\p{N}]/u.test(folded.text[i])) {
+      text += folded.text[i];
+      offsets.push(folded.offsets[i]);
+    }
+  }
+  return { text, offsets };
+}
+
+/** Original [start, end) covered by folded characters [from, to) of `original` */
+export function originalRange(original: string, folded: FoldedText, from: number, to: number): [number, number] {
+  const start = folded.offsets[from];
+  const last = folded.offsets[to - 1];
+  const code = original.charCodeAt(last);
+  return [start, last + (code >= 0xd800 && code <= 0xdbff ? 2 : 1)];
+}
+
+/**
+ * Folded text with every run of punctuation and whitespace reduced to one
+ * space, for comparing names and titles as phrases: "Attention-Is  All"
+ * and "attention is all" come out the same.
+ */
+export function foldPhrase(text: string): string {
+  return foldText(text).text.replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
@@ -0,0 +1,77 @@
+/**
+ * Minimal glob → RegExp conversion for repository paths.
+ * - `**` matches across directories, including none (`docs/**`)
+ * - `*` and `?` stay within one path segment
+ * - `{a,b}` alternation
+ * - A pattern without `/` matches the file name at any depth (`*.md`)
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob.trim().replace(/^\.?\//, "");
+  const basenameOnly = !pattern.includes("/");
+
+  let re = "";
+  let inGroup = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" may also match zero directories
+        if (pattern[i + 2] === "/") {
+          re += "(?:.*/)?";
+          i += 2;
+        } else {
+          re += ".*";
+          i += 1;
+        }
+      } else {
+        re += "[^/]*";
+      }
+    } else if (c === "?") {
+      re += "[^/]";
+    } else if (c === "{") {
+      inGroup = true;
+      re += "(?:";
+    } else if (c === "}" && inGroup) {
+      inGroup = false;
+      re += ")";
+    } else if (c === "," && inGroup) {
+      re += "|";
+    } else {
+      re += c.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  pattern = basenameOnly ? `(?:.*/)?${re}` : re;
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Split a comma-separated list of globs, leaving commas inside `{a,b}`
+ * alternations alone: "docs/*.{md,mdx},*.txt" is two globs.
+ */
+export function splitGlobs(list: string): string[] {
+  const globs: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < list.length; i++) {
+    const c = list[i];
+    if (c === "{") depth++;
+    else if (c === "}" && depth > 0) depth--;
+    else if (c === "," && depth === 0) {
+      globs.push(list.slice(start, i));
+      start = i + 1;
+    }
+  }
+  globs.push(list.slice(start));
+  return globs;
+}
+
+/**
+ * Combine several globs into one RegExp (match if any matches).
+ * Returns undefined for an empty list so callers can skip filtering.
+ */
+export function globsToRegExp(globs: string[]): RegExp | undefined {
+  const parts = globs.map((g) => g.trim()).filter(Boolean);
+  if (!parts.length) return undefined;
+  return new RegExp(parts.map((g) => globToRegExp(g).source).join("|"));
+}
@@ -0,0 +1,49 @@
+export interface PoolOptions {
+  /** Max items in flight at once (values below 1 run one at a time) */
+  concurrency: number;
+  /** Epoch ms after which no further item is started; in-flight items finish */
+  deadline?: number;
+}
+
+export interface PoolResult<R> {
+  /** Per-item results in input order; undefined for items that never started */
+  results: Array<R | undefined>;
+  /** Items left unstarted because the deadline passed */
+  skipped: number;
+}
+
+/**
+ * Run `worker` over `items` with bounded concurrency, preserving input order
+ * in the results. Items start in order, so per-item side effects begin in the
+ * same sequence a serial loop would produce.
+ *
+ * A worker that throws stops new items from starting; the pool waits for the
+ * in-flight ones and then rethrows the first error. Workers that must not
+ * abort the run should catch their own errors.
+ */
+export async function runPool<T, R>(
+  items: readonly T[],
+  worker: (item: T, index: number) => Promise<R>,
+  opts: PoolOptions
+): Promise<PoolResult<R>> {
+  const results: Array<R | undefined> = items.map(() => undefined);
+  const lanes = Math.min(Math.max(1, Math.floor(opts.concurrency) || 1), items.length);
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  const lane = async (): Promise<void> => {
+    while (!failure && next < items.length) {
+      if (opts.deadline !== undefined && Date.now() >= opts.deadline) return;
+      const i = next++;
+      try {
+        results[i] = await worker(items[i], i);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: lanes }, lane));
+  if (failure) throw failure.error;
+  return { results, skipped: items.length - next };
+}
@@ -3,6 +3,8 @@ import { isPdfBytes, normalizeToRawUrl, normalizePdfText } from "../src/services
 import { resetFetchCache } from "../src/services/FetchCache";
 import { resetRateLimiter } from "../src/services/RateLimiter";
 import { resetUrlDeduplicator } from "../src/services/UrlDeduplicator";
+import { AutognosticNetworkError } from "../src/errors/NetworkError";
+import { ErrorCode } from "../src/errors/AutognosticError";
 
 // Minimal valid %PDF header bytes for testing
 const PDF_MAGIC = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x34]); // %PDF-1.4
@@ -251,6 +253,66 @@ describe("ContentResolver", () => {
       expect(result.title).toBe("Simple Page");
     });
 
+    it("conditional: sends validators and reports 304 as notModified", async () => {
+      const responses = new Map();
+      responses.set("https://example.com/doc.md", {
+        status: 304,
+        headers: { etag: '"v1"' },
+        body: "",
+      });
+      const http = createMockHttp(responses);
+
+      const resolver = new ContentResolver(http);
+      const result = await resolver.resolve("https://example.com/doc.md", {
+        validators: { etag: '"v1"', lastModified: "Mon, 01 Jan 2024 00:00:00 GMT" },
+      });
+
+      expect(result.notModified).toBe(true);
+      expect(result.text).toBe("");
+      expect(http.get.mock.calls[0][1].headers).toMatchObject({
+        "if-none-match": '"v1"',
+        "if-modified-since": "Mon, 01 Jan 2024 00:00:00 GMT",
+      });
+    });
+
+    it("conditional: returns full content and fresh validators when changed", async () => {
+      const responses = new Map();
+      responses.set("https://example.com/doc.md", {
+        status: 200,
+        headers: {
+          "content-type": "text/markdown",
+          etag: '"v2"',
+          "last-modified": "Tue, 02 Jan 2024 00:00:00 GMT",
+        },
+        body: "# Updated",
+      });
+
+      const resolver = new ContentResolver(createMockHttp(responses));
+      const result = await resolver.resolve("https://example.com/doc.md", {
+        validators: { etag: '"v1"' },
+      });
+
+      expect(result.notModified).toBeUndefined();
+      expect(result.text).toBe("# Updated");
+      expect(result.validators).toEqual({
+        etag: '"v2"',
+        lastModified: "Tue, 02 Jan 2024 00:00:00 GMT",
+      });
+    });
+
+    it("robots-disallowed: surfaces the robots.txt error unchanged", async () => {
+      const http = createMockHttp(new Map());
+      http.get.mockRejectedValueOnce(
+        AutognosticNetworkError.robotsDisallowed("https://example.com/private/a")
+      );
+
+      const resolver = new ContentResolver(http);
+      const err = await resolver.resolve("https://example.com/private/a").catch((e) => e);
+
+      expect(err).toBeInstanceOf(AutognosticNetworkError);
+      expect(err.code).toBe(ErrorCode.HTTP_ROBOTS_DISALLOWED);
+    });
+
     it("fake-pdf-magic-bytes: rejects PDF with wrong magic bytes", async () => {
       const fakeBody = new TextEncoder().encode(
         "<html><body>This is not a PDF</body></html>"
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { analyzeDocument } from "../src/services/DocumentAnalyzer";
+import { diffDocuments, summarizeChanges } from "../src/services/DocumentDiff";
+
+function doc(content: string) {
+  return { content, profile: analyzeDocument(content) };
+}
+
+const BASE = [
+  "# Setup",
+  "",
+  "Install the package with npm.",
+  "",
+  "# Authentication",
+  "",
+  "Tokens are sent in the Authorization header.",
+  "",
+  "Tokens expire after one hour.",
+  "",
+  "Refresh tokens last thirty days.",
+].join("\n");
+
+describe("diffDocuments", () => {
+  it("should report nothing for identical documents", () => {
+    const diff = diffDocuments(doc(BASE), doc(BASE));
+    expect(diff.paragraphs).toEqual([]);
+    expect(diff.lines).toEqual([]);
+    expect(diff.summary).toEqual([]);
+  });
+
+  it("should ignore whitespace-only differences", () => {
+    const diff = diffDocuments(doc(BASE), doc(BASE.replace("Install the", "Install   the")));
+    expect(diff.paragraphs).toEqual([]);
+    expect(diff.lines).toEqual([]);
+  });
+
+  it("should pair a rewritten paragraph as a change and attribute it to its section", () => {
+    const after = BASE.replace("one hour", "two hours");
+    const diff = diffDocuments(doc(BASE), doc(after));
+
+    expect(diff.paragraphs).toHaveLength(1);
+    const [change] = diff.paragraphs;
+    expect(change.kind).toBe("changed");
+    expect(change.section).toBe("Authentication");
+    expect(change.before!.text).toBe("Tokens expire after one hour.");
+    expect(change.after!.text).toBe("Tokens expire after two hours.");
+    expect(diff.summary).toEqual(["1 paragraph changed in section Authentication"]);
+  });
+
+  it("should report line numbers from each version", () => {
+    const after = BASE.replace("# Setup\n", "# Setup\n\nRequires Node 18.\n");
+    const diff = diffDocuments(doc(BASE), doc(after));
+
+    expect(diff.lines).toEqual([
+      { kind: "added", after: { index: 3, lineStart: 3, lineEnd: 3, text: "Requires Node 18." } },
+    ]);
+    expect(diff.counts.lines).toEqual({ added: 1, removed: 0, changed: 0 });
+    expect(diff.summary).toEqual(["1 paragraph added in section Setup"]);
+  });
+
+  it("should place removed paragraphs by the older version's headings", () => {
+    const after = BASE.replace("\n\nRefresh tokens last thirty days.", "");
+    const diff = diffDocuments(doc(BASE), doc(after));
+
+    expect(diff.paragraphs).toEqual([
+      expect.objectContaining({ kind: "removed", section: "Authentication" }),
+    ]);
+    expect(diff.counts.paragraphs).toEqual({ added: 0, removed: 1, changed: 0 });
+  });
+
+  it("should group several changes per section and kind", () => {
+    const after = BASE
+      .replace("npm.", "npm or pnpm.")
+      .replace("Authorization header.", "Authorization header as a bearer token.")
+      .replace("one hour.", "two hours.");
+    const diff = diffDocuments(doc(BASE), doc(after));
+
+    expect(diff.summary).toEqual([
+      "1 paragraph changed in section Setup",
+      "2 paragraphs changed in section Authentication",
+    ]);
+  });
+
+  it("should leave the section out for documents without headings", () => {
+    const diff = diffDocuments(doc("Alpha.\n\nBeta."), doc("Alpha.\n\nGamma."));
+    expect(diff.paragraphs[0].section).toBeUndefined();
+    expect(diff.summary).toEqual(["1 paragraph changed"]);
+  });
+});
+
+describe("summarizeChanges", () => {
+  it("should keep document order of first appearance", () => {
+    expect(
+      summarizeChanges([
+        { kind: "added", section: "B" },
+        { kind: "changed", section: "A" },
+        { kind: "added", section: "B" },
+      ])
+    ).toEqual(["2 paragraphs added in section B", "1 paragraph changed in section A"]);
+  });
+});
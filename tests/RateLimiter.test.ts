@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach } from "vitest";
-import { RateLimiter } from "../src/services/RateLimiter";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { RateLimiter, hostBucket } from "../src/services/RateLimiter";
+import { RATE_LIMITS } from "../src/config/constants";
 
 describe("RateLimiter", () => {
   let limiter: RateLimiter;
@@ -69,8 +70,70 @@ describe("RateLimiter", () => {
     expect(stats.maxTokens).toBe(20);
   });
 
+  it("waitForSlot should let spaced requests through one interval apart, in order", async () => {
+    vi.useFakeTimers();
+    try {
+      const domain = hostBucket("https://slow.example.com/docs");
+      limiter.setMinInterval(domain, 2000);
+      const start = Date.now();
+      const startedAt: number[] = [];
+      const waits = [0, 1, 2].map((i) =>
+        limiter.waitForSlot(domain).then(() => startedAt.push(i, Date.now() - start))
+      );
+      await vi.advanceTimersByTimeAsync(5000);
+      await Promise.all(waits);
+
+      expect(startedAt).toEqual([0, 0, 1, 2000, 2, 4000]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("waitForSlot should not spend a slot on an aborted waiter", async () => {
+    vi.useFakeTimers();
+    try {
+      const domain = hostBucket("https://slow.example.com/docs");
+      limiter.setMinInterval(domain, 2000);
+      const start = Date.now();
+      await limiter.waitForSlot(domain);
+
+      const controllers = [new AbortController(), new AbortController()];
+      const cancelled = controllers.map((c) => limiter.waitForSlot(domain, c.signal).catch((e) => e));
+      let startedAt = -1;
+      const real = limiter.waitForSlot(domain).then(() => (startedAt = Date.now() - start));
+      for (const c of controllers) c.abort(new Error("cancelled"));
+
+      expect((await cancelled[0]).message).toBe("cancelled");
+      await vi.advanceTimersByTimeAsync(2000);
+      await real;
+      expect(startedAt).toBe(2000);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("waitForSlot should resolve at once for domains without spacing", async () => {
+    await expect(limiter.waitForSlot("general")).resolves.toBeUndefined();
+  });
+
   it("should use general config for unknown domains", () => {
     const stats = limiter.getStats("unknowndomain");
     expect(stats.maxTokens).toBe(5); // general maxTokens
   });
+
+  it("should give each web host its own bucket with webHost limits", () => {
+    const a = hostBucket("https://a.example.com/docs/page");
+    const b = hostBucket("https://B.example.com/other");
+    expect(a).toBe("webHost:a.example.com");
+    expect(b).toBe("webHost:b.example.com");
+
+    const max = RATE_LIMITS.webHost.maxTokens;
+    for (let i = 0; i < max; i++) expect(limiter.tryAcquire(a)).toBe(true);
+    expect(limiter.tryAcquire(a)).toBe(false);
+    expect(limiter.getStats(b)).toEqual({ available: max, maxTokens: max });
+  });
+
+  it("should fall back to the general bucket for unparseable URLs", () => {
+    expect(hostBucket("not a url")).toBe("general");
+  });
 });
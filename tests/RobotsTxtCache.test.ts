@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  RobotsTxtCache,
+  parseRobotsTxt,
+  isPathAllowed,
+  userAgentToken,
+} from "../src/services/RobotsTxtCache";
+import { HttpService } from "../src/services/httpService";
+import { resetRateLimiter } from "../src/services/RateLimiter";
+import { ErrorCode, getErrorCode } from "../src/errors/AutognosticError";
+
+const TOKEN = "elizaos-plugin-autognostic";
+
+describe("userAgentToken", () => {
+  it("should take the product token from a User-Agent header", () => {
+    expect(userAgentToken("elizaos-plugin-autognostic/1.x (+https://elizaos.ai)")).toBe(TOKEN);
+    expect(userAgentToken("MyBot")).toBe("mybot");
+  });
+});
+
+describe("parseRobotsTxt", () => {
+  const ROBOTS = `# comment
+User-agent: *
+Disallow: /private/
+Crawl-delay: 1
+
+User-agent: Elizaos-Plugin-Autognostic
+User-agent: otherbot
+Disallow: /drafts/
+Allow: /drafts/public
+Crawl-delay: 5
+`;
+
+  it("should prefer the group naming our token, case-insensitively", () => {
+    const robots = parseRobotsTxt(ROBOTS, TOKEN);
+    expect(robots.crawlDelaySec).toBe(5);
+    expect(isPathAllowed(robots, "/drafts/secret")).toBe(false);
+    expect(isPathAllowed(robots, "/private/page")).toBe(true);
+  });
+
+  it("should fall back to the * group", () => {
+    const robots = parseRobotsTxt(ROBOTS, "somebot");
+    expect(robots.crawlDelaySec).toBe(1);
+    expect(isPathAllowed(robots, "/private/page")).toBe(false);
+    expect(isPathAllowed(robots, "/drafts/secret")).toBe(true);
+  });
+
+  it("should allow everything when no group applies", () => {
+    const robots = parseRobotsTxt("User-agent: googlebot\nDisallow: /", TOKEN);
+    expect(isPathAllowed(robots, "/anything")).toBe(true);
+  });
+
+  it("should treat an empty Disallow as allow-all", () => {
+    const robots = parseRobotsTxt("User-agent: *\nDisallow:", TOKEN);
+    expect(robots.rules).toHaveLength(0);
+  });
+});
+
+describe("isPathAllowed", () => {
+  it("should let the longest matching rule win, with Allow winning ties", () => {
+    const robots = parseRobotsTxt(
+      "User-agent: *\nDisallow: /docs/\nAllow: /docs/public/\nAllow: /a\nDisallow: /a",
+      TOKEN
+    );
+    expect(isPathAllowed(robots, "/docs/internal")).toBe(false);
+    expect(isPathAllowed(robots, "/docs/public/intro")).toBe(true);
+    expect(isPathAllowed(robots, "/a")).toBe(true);
+  });
+
+  it("should support * wildcards and $ anchors, including query strings", () => {
+    const robots = parseRobotsTxt(
+      "User-agent: *\nDisallow: /*.pdf$\nDisallow: /*?session=",
+      TOKEN
+    );
+    expect(isPathAllowed(robots, "/files/guide.pdf")).toBe(false);
+    expect(isPathAllowed(robots, "/files/guide.pdf.html")).toBe(true);
+    expect(isPathAllowed(robots, "/page?session=abc")).toBe(false);
+    expect(isPathAllowed(robots, "/page?lang=en")).toBe(true);
+  });
+
+  it("should always allow robots.txt itself", () => {
+    const robots = parseRobotsTxt("User-agent: *\nDisallow: /", TOKEN);
+    expect(isPathAllowed(robots, "/robots.txt")).toBe(true);
+  });
+});
+
+describe("RobotsTxtCache", () => {
+  it("should fetch robots.txt once per origin", async () => {
+    const fetcher = vi.fn().mockResolvedValue("User-agent: *\nDisallow: /x");
+    const cache = new RobotsTxtCache(fetcher, TOKEN);
+
+    await Promise.all([cache.get("https://a.dev"), cache.get("https://a.dev")]);
+    await cache.get("https://a.dev");
+    await cache.get("https://b.dev");
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(fetcher).toHaveBeenCalledWith("https://a.dev/robots.txt");
+  });
+
+  it("should allow everything when robots.txt is missing or unreachable", async () => {
+    const missing = new RobotsTxtCache(vi.fn().mockResolvedValue(null), TOKEN);
+    expect((await missing.get("https://a.dev")).rules).toHaveLength(0);
+
+    const down = new RobotsTxtCache(vi.fn().mockRejectedValue(new Error("ECONNRESET")), TOKEN);
+    expect((await down.get("https://a.dev")).rules).toHaveLength(0);
+  });
+});
+
+describe("HttpService robots.txt enforcement", () => {
+  const runtime = { character: { settings: {} } };
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    resetRateLimiter();
+    fetchMock = vi.fn().mockImplementation(async (url: string) => {
+      if (url.endsWith("/robots.txt")) {
+        return new Response("User-agent: *\nDisallow: /private/\nCrawl-delay: 2", { status: 200 });
+      }
+      return new Response("ok", { status: 200 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should reject disallowed URLs with HTTP_ROBOTS_DISALLOWED", async () => {
+    const http = new HttpService(runtime as any);
+    const err = await http.get("https://site.dev/private/page").catch((e) => e);
+
+    expect(getErrorCode(err)).toBe(ErrorCode.HTTP_ROBOTS_DISALLOWED);
+    expect(fetchMock).not.toHaveBeenCalledWith("https://site.dev/private/page", expect.anything());
+  });
+
+  it("should fetch allowed URLs", async () => {
+    const http = new HttpService(runtime as any);
+    const res = await http.get("https://site.dev/docs/intro");
+
+    expect(res.ok).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should space concurrent fetches to a host by its Crawl-delay", async () => {
+    vi.useFakeTimers();
+    try {
+      const http = new HttpService(runtime as any);
+      const start = Date.now();
+      const fetchedAt: number[] = [];
+      fetchMock.mockImplementation(async (url: string) => {
+        if (url.endsWith("/robots.txt")) {
+          return new Response("User-agent: *\nCrawl-delay: 2", { status: 200 });
+        }
+        fetchedAt.push(Date.now() - start);
+        return new Response("ok", { status: 200 });
+      });
+
+      // More requests than a 30s wait could cover at one per 2s
+      const pending = Promise.all(
+        Array.from({ length: 20 }, (_, i) => http.get(`https://site.dev/docs/${i}`))
+      );
+      await vi.advanceTimersByTimeAsync(60_000);
+      await pending;
+
+      expect(fetchedAt).toEqual(Array.from({ length: 20 }, (_, i) => i * 2000));
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should skip the check when respectRobotsTxt is false", async () => {
+    const http = new HttpService({
+      character: { settings: { autognostic: { http: { respectRobotsTxt: false } } } },
+    } as any);
+    const res = await http.get("https://site.dev/private/page");
+
+    expect(res.ok).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("HttpService cancellation", () => {
+  const runtime = { character: { settings: { autognostic: { http: { respectRobotsTxt: false } } } } };
+
+  beforeEach(() => {
+    resetRateLimiter();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should not fetch once the caller's signal has aborted", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    const controller = new AbortController();
+    controller.abort();
+
+    const http = new HttpService(runtime as any);
+    await expect(http.get("https://site.dev/page", { signal: controller.signal })).rejects.toThrow();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should abort a pending fetch when the caller's signal aborts", async () => {
+    const fetchMock = vi.fn().mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal!.addEventListener("abort", () => reject(new Error("aborted")));
+        })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const controller = new AbortController();
+
+    const http = new HttpService(runtime as any);
+    const pending = http.get("https://site.dev/page", { signal: controller.signal });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(pending).rejects.toThrow("aborted");
+    expect(fetchMock.mock.calls[0][1].signal.aborted).toBe(true);
+  });
+
+  it("should stop waiting out a Crawl-delay when the caller's signal aborts", async () => {
+    const fetchMock = vi.fn().mockImplementation(async (url: string) =>
+      url.endsWith("/robots.txt")
+        ? new Response("User-agent: *\nCrawl-delay: 30", { status: 200 })
+        : new Response("ok", { status: 200 })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const http = new HttpService({ character: { settings: {} } } as any);
+    await http.get("https://site.dev/first");
+
+    const controller = new AbortController();
+    const pending = http.get("https://site.dev/second", { signal: controller.signal });
+    // Let it reach the 30s wait before aborting
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    controller.abort(new Error("cancelled"));
+
+    await expect(pending).rejects.toThrow("cancelled");
+    expect(fetchMock).not.toHaveBeenCalledWith("https://site.dev/second", expect.anything());
+  });
+});
@@ -182,6 +182,22 @@ describe("WebPageProcessor", () => {
     });
   });
 
+  describe("extractNavigation", () => {
+    it("keeps navigation links and reports the canonical URL", () => {
+      const html = `<html><head><title>Guide</title>
+        <link rel="canonical" href="/docs/guide"></head>
+        <body><nav><a href="/docs/intro">Intro</a></nav>
+        <main><a href="setup">Setup</a></main></body></html>`;
+      const result = processor.extractNavigation(html, "https://x.dev/docs/guide?ref=nav");
+      expect(result.title).toBe("Guide");
+      expect(result.canonicalUrl).toBe("https://x.dev/docs/guide");
+      expect(result.links.map((l) => l.href)).toEqual([
+        "https://x.dev/docs/intro",
+        "https://x.dev/docs/setup",
+      ]);
+    });
+  });
+
   describe("findBestPdfLink", () => {
     it("prefers citation_pdf_url", () => {
       const page = processor.extractFromHtml(
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { inferAsOfDate, parseAsOfDate } from "../src/utils/asOfDate";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+describe("parseAsOfDate", () => {
+  it("should read an ISO date as the end of that day (UTC)", () => {
+    expect(parseAsOfDate("2026-09-01", NOW)?.toISOString()).toBe("2026-09-01T23:59:59.999Z");
+  });
+
+  it("should keep an ISO timestamp as given", () => {
+    expect(parseAsOfDate("2026-09-01T08:30:00Z", NOW)?.toISOString()).toBe("2026-09-01T08:30:00.000Z");
+  });
+
+  it("should read calendar dates in either order", () => {
+    expect(parseAsOfDate("Sept 1st, 2025", NOW)?.toISOString()).toBe("2025-09-01T23:59:59.999Z");
+    expect(parseAsOfDate("1 September 2025", NOW)?.toISOString()).toBe("2025-09-01T23:59:59.999Z");
+  });
+
+  it("should take the most recent occurrence of a date without a year", () => {
+    expect(parseAsOfDate("March 3", NOW)?.toISOString()).toBe("2026-03-03T23:59:59.999Z");
+    expect(parseAsOfDate("December 24", NOW)?.toISOString()).toBe("2025-12-24T23:59:59.999Z");
+  });
+
+  it("should read a month as the end of that month", () => {
+    expect(parseAsOfDate("February 2024", NOW)?.toISOString()).toBe("2024-02-29T23:59:59.999Z");
+    expect(parseAsOfDate("November", NOW)?.toISOString()).toBe("2025-11-30T23:59:59.999Z");
+  });
+
+  it("should read relative phrases", () => {
+    expect(parseAsOfDate("yesterday", NOW)?.toISOString()).toBe("2026-10-18T12:00:00.000Z");
+    expect(parseAsOfDate("last month", NOW)?.toISOString()).toBe("2026-09-19T12:00:00.000Z");
+    expect(parseAsOfDate("two weeks ago", NOW)?.toISOString()).toBe("2026-10-05T12:00:00.000Z");
+  });
+
+  it("should accept a leading 'as of'", () => {
+    expect(parseAsOfDate("as of 2026-09-01", NOW)?.toISOString()).toBe("2026-09-01T23:59:59.999Z");
+  });
+
+  it("should never resolve past now", () => {
+    expect(parseAsOfDate("2026-10-19", NOW)?.toISOString()).toBe(NOW.toISOString());
+    expect(parseAsOfDate("2030-01-01", NOW)?.toISOString()).toBe(NOW.toISOString());
+  });
+
+  it("should return null for anything else", () => {
+    expect(parseAsOfDate("whenever", NOW)).toBeNull();
+    expect(parseAsOfDate("", NOW)).toBeNull();
+    expect(parseAsOfDate("2026-13-45", NOW)).toBeNull();
+  });
+});
+
+describe("inferAsOfDate", () => {
+  it("should find a cued absolute date and report the phrase", () => {
+    const found = inferAsOfDate("what did line 5 say as of march 3?", NOW);
+    expect(found?.date.toISOString()).toBe("2026-03-03T23:59:59.999Z");
+    expect(found?.phrase).toBe("as of march 3");
+  });
+
+  it("should find relative phrases in a question about the past", () => {
+    const found = inferAsOfDate("what did it say about pricing last month", NOW);
+    expect(found?.date.toISOString()).toBe("2026-09-19T12:00:00.000Z");
+    expect(found?.phrase).toBe("last month");
+  });
+
+  it("should ignore dates without a cue", () => {
+    expect(inferAsOfDate("find 2026-09-01 in the changelog", NOW)).toBeNull();
+  });
+
+  it("should need a strong cue for a bare month", () => {
+    expect(inferAsOfDate("find the part about may in the doc", NOW)).toBeNull();
+    expect(inferAsOfDate("read the intro back in may", NOW)?.date.toISOString()).toBe("2026-05-31T23:59:59.999Z");
+    expect(inferAsOfDate("what changed since march", NOW)?.phrase).toBe("since march");
+  });
+
+  it("should not mistake quoting requests for dates", () => {
+    expect(inferAsOfDate("give me the last two sentences", NOW)).toBeNull();
+    expect(inferAsOfDate("from line 5 to the end", NOW)).toBeNull();
+  });
+
+  it("should need a cue for relative phrases", () => {
+    expect(inferAsOfDate("quote the part about results from two years ago", NOW)).toBeNull();
+    expect(inferAsOfDate("what changed since yesterday", NOW)?.phrase).toBe("yesterday");
+  });
+
+  it("should ignore dates inside quotation marks", () => {
+    expect(inferAsOfDate('find "over the past year" in the report', NOW)).toBeNull();
+    expect(inferAsOfDate('what did it say about \u201clast month\u201d', NOW)).toBeNull();
+    expect(inferAsOfDate('find "as of March 3" in the changelog', NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi } from "vitest";
+import { CrawlDiscovery, normalizeCrawlUrl } from "../src/publicspace/CrawlDiscovery";
+import { FallbackDiscovery } from "../src/publicspace/FallbackDiscovery";
+import { createDiscoveryForRawUrl } from "../src/publicspace/discoveryFactory";
+
+function page(title: string, links: string[], head = ""): string {
+  return `<html><head><title>${title}</title>${head}</head><body>
+    <nav>${links.map((href) => `<a href="${href}">${href}</a>`).join("")}</nav>
+    <main><p>${title}</p></main>
+  </body></html>`;
+}
+
+/** HttpService stub serving HTML pages; unknown URLs 404. */
+function createSiteHttp(pages: Record<string, string>, texts: Record<string, string> = {}) {
+  return {
+    get: vi.fn().mockImplementation(async (url: string) => {
+      const html = pages[url];
+      return {
+        ok: html !== undefined,
+        status: html !== undefined ? 200 : 404,
+        statusText: html !== undefined ? "OK" : "Not Found",
+        url,
+        headers: new Map([["content-type", "text/html; charset=utf-8"]]),
+        text: async () => html ?? "",
+      };
+    }),
+    getText: vi.fn().mockImplementation(async (url: string) => {
+      if (texts[url] !== undefined) return texts[url];
+      throw new Error(`HTTP 404 (Not Found) for ${url}`);
+    }),
+  };
+}
+
+describe("normalizeCrawlUrl", () => {
+  it("should drop fragments and tracking parameters and sort the query", () => {
+    expect(
+      normalizeCrawlUrl("https://x.dev/docs/a?v=2&utm_source=tw&lang=en#intro")
+    ).toBe("https://x.dev/docs/a?lang=en&v=2");
+    expect(normalizeCrawlUrl("https://x.dev/docs/a?utm_campaign=x")).toBe(
+      "https://x.dev/docs/a"
+    );
+  });
+
+  it("should reject non-HTTP schemes", () => {
+    expect(normalizeCrawlUrl("mailto:team@x.dev")).toBeNull();
+    expect(normalizeCrawlUrl("javascript:void(0)")).toBeNull();
+  });
+});
+
+describe("CrawlDiscovery", () => {
+  it("should crawl breadth-first within the start directory", async () => {
+    const http = createSiteHttp({
+      "https://x.dev/docs/": page("Home", ["intro", "guide/", "/blog/post", "https://other.dev/docs/x"]),
+      "https://x.dev/docs/intro": page("Intro", ["guide/", "guide/setup"]),
+      "https://x.dev/docs/guide/": page("Guide", ["setup"]),
+      "https://x.dev/docs/guide/setup": page("Setup", []),
+    });
+
+    const files = await new CrawlDiscovery(http as any, "https://x.dev/docs/").list();
+
+    expect(files.map((f) => f.url)).toEqual([
+      "https://x.dev/docs/",
+      "https://x.dev/docs/intro",
+      "https://x.dev/docs/guide/",
+      "https://x.dev/docs/guide/setup",
+    ]);
+    expect(files[1]).toEqual({
+      url: "https://x.dev/docs/intro",
+      path: "docs/intro",
+      contentType: "text/html",
+      title: "Intro",
+    });
+    // Out-of-scope links are never fetched
+    expect(http.get).not.toHaveBeenCalledWith("https://x.dev/blog/post", expect.anything());
+    expect(http.get).not.toHaveBeenCalledWith("https://other.dev/docs/x", expect.anything());
+  });
+
+  it("should stop at the max depth", async () => {
+    const http = createSiteHttp({
+      "https://x.dev/": page("0", ["/a"]),
+      "https://x.dev/a": page("1", ["/b"]),
+      "https://x.dev/b": page("2", ["/c"]),
+      "https://x.dev/c": page("3", []),
+    });
+
+    const files = await new CrawlDiscovery(http as any, "https://x.dev/", { maxDepth: 1 }).list();
+    expect(files.map((f) => f.path)).toEqual(["index", "a"]);
+  });
+
+  it("should stop at the max page count", async () => {
+    const links = Array.from({ length: 20 }, (_, i) => `/p${i}`);
+    const pages: Record<string, string> = { "https://x.dev/": page("root", links) };
+    for (const l of links) pages[`https://x.dev${l}`] = page(l, []);
+
+    const files = await new CrawlDiscovery(createSiteHttp(pages) as any, "https://x.dev/", {
+      maxPages: 5,
+    }).list();
+    expect(files).toHaveLength(5);
+  });
+
+  it("should dedupe by normalized URL and canonical link", async () => {
+    const http = createSiteHttp({
+      "https://x.dev/": page("Home", [
+        "/a",
+        "/a/",
+        "/a#section",
+        "/a?utm_source=nav",
+        "/a-alias",
+      ]),
+      "https://x.dev/a": page("A", []),
+      "https://x.dev/a-alias": page("A", [], '<link rel="canonical" href="https://x.dev/a">'),
+    });
+
+    const files = await new CrawlDiscovery(http as any, "https://x.dev/").list();
+    expect(files.map((f) => f.url)).toEqual(["https://x.dev/", "https://x.dev/a"]);
+  });
+
+  it("should record an alias under its canonical URL", async () => {
+    const http = createSiteHttp({
+      "https://x.dev/": page("Home", ["/old-name"]),
+      "https://x.dev/old-name": page("New", [], '<link rel="canonical" href="/new-name">'),
+    });
+
+    const files = await new CrawlDiscovery(http as any, "https://x.dev/").list();
+    expect(files.map((f) => f.url)).toEqual(["https://x.dev/", "https://x.dev/new-name"]);
+  });
+
+  it("should list documents without fetching them and skip assets", async () => {
+    const http = createSiteHttp({
+      "https://x.dev/": page("Home", ["/guide.pdf", "/logo.png", "/app.js"]),
+    });
+
+    const files = await new CrawlDiscovery(http as any, "https://x.dev/").list();
+    expect(files.map((f) => f.path)).toEqual(["index", "guide.pdf"]);
+    expect(http.get).toHaveBeenCalledTimes(1);
+  });
+
+  it("should skip broken links but fail when the start page is unreadable", async () => {
+    const http = createSiteHttp({ "https://x.dev/": page("Home", ["/missing", "/ok"]), "https://x.dev/ok": page("OK", []) });
+    const files = await new CrawlDiscovery(http as any, "https://x.dev/").list();
+    expect(files.map((f) => f.path)).toEqual(["index", "ok"]);
+
+    await expect(
+      new CrawlDiscovery(createSiteHttp({}) as any, "https://x.dev/").list()
+    ).rejects.toThrow("HTTP 404");
+  });
+});
+
+describe("FallbackDiscovery", () => {
+  it("should use the first discovery that lists files", async () => {
+    const failing = { list: vi.fn().mockRejectedValue(new Error("HTTP 404")) };
+    const empty = { list: vi.fn().mockResolvedValue([]) };
+    const working = {
+      list: vi.fn().mockResolvedValue([{ url: "https://x.dev/", path: "index" }]),
+      revision: () => "rev-1",
+    };
+    const unused = { list: vi.fn() };
+
+    const discovery = new FallbackDiscovery([
+      { name: "llms.txt", discovery: failing },
+      { name: "sitemap.xml", discovery: empty },
+      { name: "crawl", discovery: working },
+      { name: "never", discovery: unused },
+    ]);
+
+    expect(await discovery.list()).toHaveLength(1);
+    expect(discovery.chosenName).toBe("crawl");
+    expect(discovery.revision()).toBe("rev-1");
+    expect(unused.list).not.toHaveBeenCalled();
+  });
+
+  it("should surface the last error when nothing works", async () => {
+    const discovery = new FallbackDiscovery([
+      { name: "a", discovery: { list: vi.fn().mockRejectedValue(new Error("first")) } },
+      { name: "b", discovery: { list: vi.fn().mockRejectedValue(new Error("last")) } },
+    ]);
+    await expect(discovery.list()).rejects.toThrow("last");
+  });
+});
+
+describe("createDiscoveryForRawUrl crawl fallback", () => {
+  it("should crawl a site root that has neither llms.txt nor sitemap.xml", async () => {
+    const http = createSiteHttp({
+      "https://x.dev/": page("Home", ["/docs"]),
+      "https://x.dev/docs": page("Docs", []),
+    });
+    const runtime = { getService: (name: string) => (name === "http" ? http : null) };
+
+    const { discovery } = createDiscoveryForRawUrl(runtime as any, "https://x.dev/");
+    const files = await discovery.list();
+
+    expect(files.map((f) => f.path)).toEqual(["index", "docs"]);
+    expect(http.getText).toHaveBeenCalledWith("https://x.dev/llms.txt");
+    expect(http.getText).toHaveBeenCalledWith("https://x.dev/sitemap.xml", expect.anything());
+  });
+
+  it("should crawl a docs directory below the root, staying under its path", async () => {
+    const http = createSiteHttp({
+      "https://x.dev/docs/": page("Docs", ["/docs/a", "/blog/post"]),
+      "https://x.dev/docs/a": page("A", ["/"]),
+    });
+    const runtime = { getService: (name: string) => (name === "http" ? http : null) };
+
+    const { discovery } = createDiscoveryForRawUrl(runtime as any, "https://x.dev/docs/");
+    const files = await discovery.list();
+
+    expect(files.map((f) => f.url)).toEqual(["https://x.dev/docs/", "https://x.dev/docs/a"]);
+    expect(http.getText).toHaveBeenCalledWith("https://x.dev/docs/llms.txt");
+    expect(http.get).not.toHaveBeenCalledWith("https://x.dev/blog/post", expect.anything());
+  });
+
+  it("should limit the site's sitemap.xml to the docs directory", async () => {
+    const sitemap = `<?xml version="1.0"?><urlset>
+      <url><loc>https://x.dev/docs/a</loc></url>
+      <url><loc>https://x.dev/blog/post</loc></url>
+    </urlset>`;
+    const http = createSiteHttp({}, { "https://x.dev/sitemap.xml": sitemap });
+    const runtime = { getService: (name: string) => (name === "http" ? http : null) };
+
+    const { discovery } = createDiscoveryForRawUrl(runtime as any, "https://x.dev/docs/");
+    const files = await discovery.list();
+
+    expect(files.map((f) => f.url)).toEqual(["https://x.dev/docs/a"]);
+    expect(http.get).not.toHaveBeenCalled();
+  });
+});
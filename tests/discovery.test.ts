@@ -3,6 +3,9 @@ import { SingleUrlDiscovery } from "../src/publicspace/SingleUrlDiscovery";
 import { LlmsTxtDiscovery } from "../src/publicspace/LlmsTxtDiscovery";
 import { SitemapDiscovery } from "../src/publicspace/SitemapDiscovery";
 import { classifySourceUrl, SourceDiscoveryKind } from "../src/publicspace/UrlClassifier";
+import { previewSourceFiles } from "../src/orchestrator/previewSource";
+import { RECONCILIATION_DEFAULTS } from "../src/config/constants";
+import { gzipSync } from "zlib";
 import { createMockHttpService } from "./setup";
 
 describe("SingleUrlDiscovery", () => {
@@ -96,6 +99,56 @@ https://docs.example.com/page3.html`,
   });
 });
 
+describe("LlmsTxtDiscovery with markdown llms.txt", () => {
+  const LLMS_TXT = `# Example Docs
+
+> Docs for the example project.
+
+## Guides
+
+- [Getting started](/guide/start.md): First steps
+- [Configuration](https://docs.example.com/guide/config.md)
+
+## Optional
+
+- [Changelog](/changelog.md)
+`;
+
+  it("should carry titles, sections and notes and skip the Optional section", async () => {
+    const mockHttp = createMockHttpService({ "https://docs.example.com/llms.txt": LLMS_TXT });
+
+    const discovery = new LlmsTxtDiscovery(mockHttp as any, "https://docs.example.com");
+    const files = await discovery.list();
+
+    expect(files).toEqual([
+      {
+        url: "https://docs.example.com/guide/start.md",
+        path: "guide/start.md",
+        title: "Getting started",
+        section: "Guides",
+        notes: "First steps",
+      },
+      {
+        url: "https://docs.example.com/guide/config.md",
+        path: "guide/config.md",
+        title: "Configuration",
+        section: "Guides",
+      },
+    ]);
+  });
+
+  it("should include the Optional section when opted in", async () => {
+    const mockHttp = createMockHttpService({ "https://docs.example.com/llms.txt": LLMS_TXT });
+
+    const discovery = new LlmsTxtDiscovery(mockHttp as any, "https://docs.example.com", {
+      includeOptional: true,
+    });
+    const files = await discovery.list();
+
+    expect(files.map((f) => f.path)).toContain("changelog.md");
+  });
+});
+
 describe("classifySourceUrl", () => {
   it("should classify root URL as LLMS_TXT", () => {
     const result = classifySourceUrl("https://docs.example.com/");
@@ -109,6 +162,21 @@ describe("classifySourceUrl", () => {
     expect(result.baseUrl).toBe("https://docs.example.com");
   });
 
+  it("should classify a direct llms.txt link as LLMS_TXT rooted at its directory", () => {
+    const root = classifySourceUrl("https://docs.example.com/llms.txt");
+    expect(root.kind).toBe(SourceDiscoveryKind.LLMS_TXT);
+    expect(root.baseUrl).toBe("https://docs.example.com");
+
+    const nested = classifySourceUrl("https://example.com/docs/llms.txt");
+    expect(nested.baseUrl).toBe("https://example.com/docs");
+  });
+
+  it("should classify ?crawl=true as CRAWL and drop the flag from the start URL", () => {
+    const result = classifySourceUrl("https://x.dev/docs/?crawl=true&v=2");
+    expect(result.kind).toBe(SourceDiscoveryKind.CRAWL);
+    expect(result.baseUrl).toBe("https://x.dev/docs/?v=2");
+  });
+
   it("should classify llms-full.txt as LLMS_FULL_LIST", () => {
     const result = classifySourceUrl("https://docs.example.com/llms-full.txt");
     expect(result.kind).toBe(SourceDiscoveryKind.LLMS_FULL_LIST);
@@ -121,18 +189,58 @@ describe("classifySourceUrl", () => {
     expect(result.baseUrl).toBe("https://docs.example.com/sitemap.xml");
   });
 
-  it("should classify specific page as SINGLE_URL", () => {
-    const result = classifySourceUrl("https://docs.example.com/guide/intro.html");
+  it("should classify sitemap indexes and gzipped sitemaps as SITEMAP", () => {
+    expect(classifySourceUrl("https://docs.example.com/sitemap_index.xml").kind).toBe(
+      SourceDiscoveryKind.SITEMAP
+    );
+    expect(classifySourceUrl("https://docs.example.com/sitemap.xml.gz").kind).toBe(
+      SourceDiscoveryKind.SITEMAP
+    );
+  });
+
+  it("should classify other pages as LLMS_TXT rooted at their directory", () => {
+    const page = classifySourceUrl("https://docs.example.com/guide/intro.html");
+    expect(page.kind).toBe(SourceDiscoveryKind.LLMS_TXT);
+    expect(page.baseUrl).toBe("https://docs.example.com/guide");
+
+    const dir = classifySourceUrl("https://x.dev/docs/");
+    expect(dir.kind).toBe(SourceDiscoveryKind.LLMS_TXT);
+    expect(dir.baseUrl).toBe("https://x.dev/docs");
+  });
+
+  it("should classify document files as SINGLE_URL", () => {
+    const result = classifySourceUrl("https://docs.example.com/guide/paper.pdf");
     expect(result.kind).toBe(SourceDiscoveryKind.SINGLE_URL);
-    expect(result.baseUrl).toBe("https://docs.example.com/guide/intro.html");
+    expect(result.baseUrl).toBe("https://docs.example.com/guide/paper.pdf");
   });
 
   it("should classify markdown file as SINGLE_URL", () => {
     const result = classifySourceUrl("https://raw.githubusercontent.com/org/repo/main/README.md");
     expect(result.kind).toBe(SourceDiscoveryKind.SINGLE_URL);
   });
+
+  it("should classify GitHub repo and tree URLs as GITHUB_REPO", () => {
+    expect(classifySourceUrl("https://github.com/org/repo").kind).toBe(
+      SourceDiscoveryKind.GITHUB_REPO
+    );
+    expect(classifySourceUrl("https://github.com/org/repo/tree/main/docs").kind).toBe(
+      SourceDiscoveryKind.GITHUB_REPO
+    );
+  });
+
+  it("should keep GitHub blob URLs as SINGLE_URL", () => {
+    const result = classifySourceUrl("https://github.com/org/repo/blob/main/README.md");
+    expect(result.kind).toBe(SourceDiscoveryKind.SINGLE_URL);
+  });
 });
 
+function urlset(urls: string[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.map((u) => `  <url><loc>${u}</loc></url>`).join("\n")}
+</urlset>`;
+}
+
 describe("SitemapDiscovery", () => {
   it("should parse standard sitemap with urlset", async () => {
     const sitemapXml = `<?xml version="1.0" encoding="UTF-8"?>
@@ -160,6 +268,7 @@ describe("SitemapDiscovery", () => {
     expect(files[0]).toEqual({
       url: "https://example.com/page1.html",
       path: "page1.html",
+      lastmod: "2025-01-01",
     });
     expect(files[1]).toEqual({
       url: "https://example.com/page2.html",
@@ -171,7 +280,7 @@ describe("SitemapDiscovery", () => {
     });
   });
 
-  it("should parse sitemap index", async () => {
+  it("should follow a sitemap index to the pages of its child sitemaps", async () => {
     const sitemapIndexXml = `<?xml version="1.0" encoding="UTF-8"?>
 <sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
   <sitemap>
@@ -184,14 +293,118 @@ describe("SitemapDiscovery", () => {
 
     const mockHttp = createMockHttpService({
       "https://example.com/sitemap.xml": sitemapIndexXml,
+      "https://example.com/sitemap-posts.xml": urlset(["https://example.com/posts/1"]),
+      "https://example.com/sitemap-pages.xml": urlset([
+        "https://example.com/about",
+        "https://example.com/posts/1",
+      ]),
     });
 
     const discovery = new SitemapDiscovery(mockHttp as any, "https://example.com/sitemap.xml");
     const files = await discovery.list();
 
-    expect(files).toHaveLength(2);
-    expect(files[0].url).toBe("https://example.com/sitemap-posts.xml");
-    expect(files[1].url).toBe("https://example.com/sitemap-pages.xml");
+    // Child sitemaps are traversed, not ingested; duplicates collapse
+    expect(files.map((f) => f.url)).toEqual([
+      "https://example.com/posts/1",
+      "https://example.com/about",
+    ]);
+  });
+
+  it("should stop following nested indexes beyond maxDepth", async () => {
+    const index = (child: string) =>
+      `<sitemapindex><sitemap><loc>${child}</loc></sitemap></sitemapindex>`;
+    const mockHttp = createMockHttpService({
+      "https://example.com/sitemap.xml": index("https://example.com/a.xml"),
+      "https://example.com/a.xml": index("https://example.com/b.xml"),
+      "https://example.com/b.xml": urlset(["https://example.com/deep"]),
+    });
+
+    const shallow = new SitemapDiscovery(mockHttp as any, "https://example.com/sitemap.xml", {
+      maxDepth: 1,
+    });
+    expect(await shallow.list()).toEqual([]);
+
+    const deep = new SitemapDiscovery(mockHttp as any, "https://example.com/sitemap.xml", {
+      maxDepth: 2,
+    });
+    expect((await deep.list()).map((f) => f.url)).toEqual(["https://example.com/deep"]);
+  });
+
+  it("should cap the number of collected URLs", async () => {
+    const mockHttp = createMockHttpService({
+      "https://example.com/sitemap.xml": urlset(
+        Array.from({ length: 10 }, (_, i) => `https://example.com/p${i}`)
+      ),
+    });
+
+    const discovery = new SitemapDiscovery(mockHttp as any, "https://example.com/sitemap.xml", {
+      maxUrls: 4,
+    });
+    expect(await discovery.list()).toHaveLength(4);
+  });
+
+  it("should skip unreadable child sitemaps but fail on an unreadable root", async () => {
+    const mockHttp = createMockHttpService({
+      "https://example.com/sitemap.xml": `<sitemapindex>
+  <sitemap><loc>https://example.com/missing.xml</loc></sitemap>
+  <sitemap><loc>https://example.com/ok.xml</loc></sitemap>
+</sitemapindex>`,
+      "https://example.com/ok.xml": urlset(["https://example.com/ok"]),
+    });
+
+    const discovery = new SitemapDiscovery(mockHttp as any, "https://example.com/sitemap.xml");
+    expect((await discovery.list()).map((f) => f.url)).toEqual(["https://example.com/ok"]);
+
+    const broken = new SitemapDiscovery(mockHttp as any, "https://example.com/nope.xml");
+    await expect(broken.list()).rejects.toThrow();
+  });
+
+  it("should capture lastmod, changefreq and priority", async () => {
+    const mockHttp = createMockHttpService({
+      "https://example.com/sitemap.xml": `<urlset>
+  <url>
+    <loc>https://example.com/guide</loc>
+    <lastmod>2025-03-04T10:00:00+00:00</lastmod>
+    <changefreq>Weekly</changefreq>
+    <priority>0.8</priority>
+  </url>
+  <url><loc>https://example.com/bare</loc></url>
+</urlset>`,
+    });
+
+    const files = await new SitemapDiscovery(
+      mockHttp as any,
+      "https://example.com/sitemap.xml"
+    ).list();
+
+    expect(files[0]).toEqual({
+      url: "https://example.com/guide",
+      path: "guide",
+      lastmod: "2025-03-04T10:00:00+00:00",
+      changefreq: "weekly",
+      priority: 0.8,
+    });
+    expect(files[1]).toEqual({ url: "https://example.com/bare", path: "bare" });
+  });
+
+  it("should decompress gzipped sitemaps", async () => {
+    const body = gzipSync(Buffer.from(urlset(["https://example.com/zipped"])));
+    const mockHttp = {
+      getText: vi.fn(),
+      get: vi.fn(async () => ({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+        arrayBuffer: async () =>
+          body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength),
+      })),
+    };
+
+    const discovery = new SitemapDiscovery(mockHttp as any, "https://example.com/sitemap.xml.gz");
+    const files = await discovery.list();
+
+    expect(mockHttp.getText).not.toHaveBeenCalled();
+    expect(files.map((f) => f.url)).toEqual(["https://example.com/zipped"]);
   });
 
   it("should decode XML entities in URLs", async () => {
@@ -247,3 +460,155 @@ describe("SitemapDiscovery", () => {
     expect(files[0].path).toBe("index");
   });
 });
+
+describe("previewSourceFiles with sitemap lastmod", () => {
+  it("should reuse the previous probe when lastmod has not moved", async () => {
+    const mockHttp = createMockHttpService({
+      "https://example.com/sitemap.xml": `<urlset>
+  <url><loc>https://example.com/same</loc><lastmod>2025-01-01</lastmod></url>
+  <url><loc>https://example.com/moved</loc><lastmod>2025-02-02</lastmod></url>
+  <url><loc>https://example.com/new</loc></url>
+</urlset>`,
+    });
+    const runtime = { getService: vi.fn().mockReturnValue(mockHttp) } as any;
+    const previous = {
+      sourceId: "site",
+      totalBytes: 1000,
+      files: [
+        { url: "https://example.com/same", path: "same", estBytes: 700, contentType: "text/html", lastmod: "2025-01-01" },
+        { url: "https://example.com/moved", path: "moved", estBytes: 300, contentType: "text/html", lastmod: "2025-01-01" },
+      ],
+    };
+
+    const preview = await previewSourceFiles(
+      runtime,
+      "site",
+      new SitemapDiscovery(mockHttp as any, "https://example.com/sitemap.xml"),
+      previous
+    );
+
+    const probed = mockHttp.head.mock.calls.map((c: unknown[]) => c[0]);
+    expect(probed).toEqual(["https://example.com/moved", "https://example.com/new"]);
+    expect(preview.files[0]).toMatchObject(previous.files[0]);
+    expect(preview.files[1].lastmod).toBe("2025-02-02");
+    expect(preview.totalBytes).toBe(700 + 1000 + 1000);
+  });
+
+  it("should take labels from the current listing when reusing a probe", async () => {
+    const discovery = {
+      list: async () => [
+        { url: "https://example.com/same", path: "same", lastmod: "2025-01-01", title: "Renamed", section: "Guides" },
+      ],
+    };
+    const mockHttp = createMockHttpService();
+    const runtime = { getService: vi.fn().mockReturnValue(mockHttp) } as any;
+    const previous = {
+      sourceId: "site",
+      totalBytes: 700,
+      files: [
+        {
+          url: "https://example.com/same", path: "same", estBytes: 700, contentType: "text/html",
+          lastmod: "2025-01-01", title: "Old title", notes: "Dropped from the listing",
+        },
+      ],
+    };
+
+    const preview = await previewSourceFiles(runtime, "site", discovery as any, previous);
+
+    expect(mockHttp.head).not.toHaveBeenCalled();
+    expect(preview.files[0]).toMatchObject({ estBytes: 700, title: "Renamed", section: "Guides" });
+    expect(preview.files[0].notes).toBeUndefined();
+  });
+});
+
+describe("previewSourceFiles conditional probes", () => {
+  it("should revalidate against the previous validators and reuse the probe on 304", async () => {
+    const mockHttp = createMockHttpService();
+    mockHttp.head.mockImplementation(async (url: string) => ({
+      ok: false,
+      status: url.endsWith("/same") ? 304 : 200,
+      headers: new Map([
+        ["content-length", "1000"],
+        ["content-type", "text/html"],
+        ["etag", '"v2"'],
+      ]),
+    }));
+    const runtime = { getService: vi.fn().mockReturnValue(mockHttp) } as any;
+    const previous = {
+      sourceId: "site",
+      totalBytes: 1200,
+      files: [
+        { url: "https://example.com/same", path: "same", estBytes: 700, contentType: "text/html", etag: '"v1"' },
+        {
+          url: "https://example.com/edited",
+          path: "edited",
+          estBytes: 500,
+          contentType: "text/html",
+          lastModified: "Mon, 01 Jan 2024 00:00:00 GMT",
+        },
+      ],
+    };
+    const discovery = {
+      list: async () => [
+        { url: "https://example.com/same", path: "same" },
+        { url: "https://example.com/edited", path: "edited" },
+        { url: "https://example.com/new", path: "new" },
+      ],
+    };
+
+    const preview = await previewSourceFiles(runtime, "site", discovery, previous);
+
+    const headers = Object.fromEntries(
+      mockHttp.head.mock.calls.map((c: any[]) => [c[0], c[1].headers])
+    );
+    expect(headers["https://example.com/same"]).toEqual({ "if-none-match": '"v1"' });
+    expect(headers["https://example.com/edited"]).toEqual({
+      "if-modified-since": "Mon, 01 Jan 2024 00:00:00 GMT",
+    });
+    expect(headers["https://example.com/new"]).toEqual({});
+
+    expect(preview.files[0]).toEqual(previous.files[0]);
+    expect(preview.files[1].etag).toBe('"v2"');
+    // A 304 never needs the follow-up ranged GET
+    expect(mockHttp.get).not.toHaveBeenCalled();
+  });
+});
+
+describe("previewSourceFiles concurrency", () => {
+  it("should probe files concurrently within the batch size and keep discovery order", async () => {
+    const mockHttp = createMockHttpService();
+    let inFlight = 0;
+    let peak = 0;
+    mockHttp.head.mockImplementation(async (url: string) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      // Later files answer first
+      const n = Number(url.split("/p").pop());
+      await new Promise((resolve) => setTimeout(resolve, 24 - n));
+      inFlight--;
+      return {
+        ok: true,
+        status: 200,
+        headers: new Map([["content-length", String(100 + n)]]),
+      };
+    });
+    const runtime = { getService: vi.fn().mockReturnValue(mockHttp) } as any;
+    const discovery = {
+      list: async () =>
+        Array.from({ length: 24 }, (_, i) => ({
+          // Spread over hosts so the per-host rate budget doesn't serialize the test
+          url: `https://h${i % 4}.example.com/p${i}`,
+          path: `p${i}`,
+        })),
+    };
+
+    const preview = await previewSourceFiles(runtime, "site", discovery);
+
+    expect(preview.files.map((f) => f.path)).toEqual(
+      Array.from({ length: 24 }, (_, i) => `p${i}`)
+    );
+    expect(preview.files[5].estBytes).toBe(105);
+    expect(peak).toBeGreaterThan(1);
+    expect(peak).toBeLessThanOrEqual(RECONCILIATION_DEFAULTS.BATCH_SIZE);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createMockRuntime } from "./setup";
+
+const mockListVersions = vi.fn();
+const mockGetContentById = vi.fn();
+
+const mockListCatalog = vi.fn().mockResolvedValue([]);
+
+vi.mock("../src/db/autognosticDocumentsRepository", () => ({
+  autognosticDocumentsRepository: {
+    listVersions: (...args: unknown[]) => mockListVersions(...args),
+    getContentById: (...args: unknown[]) => mockGetContentById(...args),
+  },
+  AutognosticDocumentsRepository: class {
+    listCatalog = (...args: unknown[]) => mockListCatalog(...args);
+  },
+}));
+
+vi.mock("../src/db/autognosticDocumentAliasesRepository", () => ({
+  AutognosticDocumentAliasesRepository: class {
+    list = async () => [];
+  },
+}));
+
+vi.mock("../src/db/autognosticRoomFocusRepository", () => ({
+  AutognosticRoomFocusRepository: class {
+    get = async () => null;
+    set = async () => undefined;
+  },
+}));
+
+import { DocumentDiffAction } from "../src/actions/documentDiffAction";
+
+const URL = "https://docs.example.com/auth.md";
+
+const CURRENT = {
+  id: "doc-2",
+  version: {
+    sourceId: "docs", versionId: "3f2a9c1b7d04aaaa", status: "active",
+    activatedAt: new Date("2026-10-01T00:00:00Z"), archivedAt: null,
+    storedAt: new Date("2026-10-01T00:00:00Z"),
+  },
+};
+const PREVIOUS = {
+  id: "doc-1",
+  version: {
+    sourceId: "docs", versionId: "9b8e21f0c3aabbbb", status: "archived",
+    activatedAt: new Date("2026-09-01T00:00:00Z"), archivedAt: new Date("2026-10-01T00:00:00Z"),
+    storedAt: new Date("2026-09-01T00:00:00Z"),
+  },
+};
+
+const CONTENT: Record<string, string> = {
+  "doc-1": "# Authentication\n\nTokens expire after one hour.",
+  "doc-2": "# Authentication\n\nTokens expire after two hours.",
+};
+
+function createMessage(text: string, extras: Record<string, unknown> = {}) {
+  return { content: { text, ...extras }, userId: "test-user", roomId: "test-room" } as any;
+}
+
+describe("DocumentDiffAction", () => {
+  const runtime = createMockRuntime();
+  let callback: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    callback = vi.fn();
+    mockListVersions.mockReset().mockResolvedValue([CURRENT, PREVIOUS]);
+    mockGetContentById.mockReset().mockImplementation(async (_rt: unknown, id: string) => ({
+      content: CONTENT[id],
+      profile: null,
+    }));
+  });
+
+  describe("validate", () => {
+    it("should match questions about changes", async () => {
+      for (const text of ["what changed in the auth doc?", "diff the setup page", "compare versions of it"]) {
+        expect(await DocumentDiffAction.validate!(runtime as any, createMessage(text))).toBe(true);
+      }
+    });
+
+    it("should not match plain quoting requests", async () => {
+      expect(await DocumentDiffAction.validate!(runtime as any, createMessage("read me line 5"))).toBe(false);
+    });
+  });
+
+  describe("handler", () => {
+    it("should compare the current version with the one before it by default", async () => {
+      const result = await DocumentDiffAction.handler(
+        runtime as any, createMessage(`what changed in ${URL}?`), undefined, undefined, callback
+      );
+
+      const text = callback.mock.calls[0][0].text;
+      expect(text).toContain("from version 9b8e21f0c3aa (in effect 2026-09-01 to 2026-10-01)");
+      expect(text).toContain("to version 3f2a9c1b7d04 (current, since 2026-10-01)");
+      expect(text).toContain("- 1 paragraph changed in section Authentication");
+      expect(text).toContain('Line 3 changed: "Tokens expire after one hour." → "Tokens expire after two hours."');
+      expect((result as any).success).toBe(true);
+      expect((result as any).data.counts.paragraphs.changed).toBe(1);
+    });
+
+    it("should skip versions that share the current content by default", async () => {
+      const unchanged = {
+        id: CURRENT.id,
+        version: { ...PREVIOUS.version, versionId: "5e4d3c2b1a00dddd",
+          activatedAt: new Date("2026-09-15T00:00:00Z") },
+      };
+      mockListVersions.mockResolvedValue([CURRENT, unchanged, PREVIOUS]);
+
+      await DocumentDiffAction.handler(
+        runtime as any, createMessage(`what changed in ${URL}?`), undefined, undefined, callback
+      );
+
+      expect(mockGetContentById).toHaveBeenCalledWith(runtime, "doc-1");
+      expect(callback.mock.calls[0][0].text).toContain("from version 9b8e21f0c3aa");
+    });
+
+    it("should pick the older side from a date in the message", async () => {
+      const older = {
+        id: "doc-0",
+        version: { ...PREVIOUS.version, versionId: "1c7d0e92ab45cccc",
+          activatedAt: new Date("2026-08-01T00:00:00Z"), archivedAt: new Date("2026-09-01T00:00:00Z") },
+      };
+      CONTENT["doc-0"] = "# Authentication\n\nTokens never expire.";
+      mockListVersions.mockResolvedValue([CURRENT, PREVIOUS, older]);
+
+      await DocumentDiffAction.handler(
+        runtime as any, createMessage(`what changed in ${URL} since 2026-08-15?`), undefined, undefined, callback
+      );
+
+      expect(mockGetContentById).toHaveBeenCalledWith(runtime, "doc-0");
+      expect(callback.mock.calls[0][0].text).toContain("from version 1c7d0e92ab45");
+    });
+
+    it("should resolve explicit version id prefixes", async () => {
+      await DocumentDiffAction.handler(
+        runtime as any, createMessage("diff", { url: URL, from: "9b8e21", to: "3f2a9c" }), undefined, undefined, callback
+      );
+      expect(mockGetContentById).toHaveBeenCalledWith(runtime, "doc-1");
+      expect(mockGetContentById).toHaveBeenCalledWith(runtime, "doc-2");
+    });
+
+    it("should explain when only one version is stored", async () => {
+      mockListVersions.mockResolvedValue([CURRENT]);
+      const result = await DocumentDiffAction.handler(
+        runtime as any, createMessage("diff", { url: URL }), undefined, undefined, callback
+      );
+      expect(callback.mock.calls[0][0].text).toContain("Only one version");
+      expect((result as any).data.error).toBe("no_previous_version");
+    });
+
+    it("should report an unknown version", async () => {
+      const result = await DocumentDiffAction.handler(
+        runtime as any, createMessage("diff", { url: URL, from: "deadbeef" }), undefined, undefined, callback
+      );
+      expect(callback.mock.calls[0][0].text).toContain('No stored version of https://docs.example.com/auth.md matches "deadbeef"');
+      expect((result as any).success).toBe(false);
+    });
+
+    it("should find the document by its title when no URL is given", async () => {
+      mockListCatalog.mockResolvedValueOnce([
+        { id: "doc-2", url: URL, title: "Authentication", sourceId: "docs", storedAt: null, paperMetadata: null },
+      ]);
+
+      const result = await DocumentDiffAction.handler(
+        runtime as any, createMessage("what changed in the authentication doc?"), undefined, undefined, callback
+      );
+
+      expect(mockListVersions).toHaveBeenCalledWith(runtime, URL);
+      expect((result as any).success).toBe(true);
+    });
+
+    it("should ask for a URL when none is given", async () => {
+      const result = await DocumentDiffAction.handler(
+        runtime as any, createMessage("what changed?"), undefined, undefined, callback
+      );
+      expect((result as any).data.error).toBe("no_url");
+    });
+  });
+});
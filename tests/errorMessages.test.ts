@@ -2,6 +2,8 @@ import { describe, it, expect } from "vitest";
 import {
   fromError,
   forCondition,
+  classifyError,
+  fromCondition,
   formatForCallback,
   type UserErrorMessage,
 } from "../src/services/ErrorMessageFactory";
@@ -10,7 +12,7 @@ import { AutognosticError, ErrorCode } from "../src/errors/AutognosticError";
 import { AutognosticNetworkError } from "../src/errors/NetworkError";
 
 // ---------------------------------------------------------------------------
-// ErrorMessageFactory.forCondition — all 13 conditions
+// ErrorMessageFactory.forCondition — all 14 conditions
 // ---------------------------------------------------------------------------
 
 describe("ErrorMessageFactory.forCondition", () => {
@@ -107,6 +109,13 @@ describe("ErrorMessageFactory.forCondition", () => {
     expect(msg.suggestion).toContain("https://");
     expect(msg.isRetryable).toBe(false);
   });
+
+  it("robots_disallowed → names the host and is not retryable", () => {
+    const msg = forCondition("robots_disallowed", { hostname: "docs.example.com" });
+    expect(msg.summary).toContain("docs.example.com");
+    expect(msg.summary).toContain("robots.txt");
+    expect(msg.isRetryable).toBe(false);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -183,6 +192,15 @@ describe("ErrorMessageFactory.fromError", () => {
     expect(msg.isRetryable).toBe(true);
   });
 
+  it("AutognosticNetworkError robots disallowed → robots message with hostname", () => {
+    const error = AutognosticNetworkError.robotsDisallowed("https://docs.example.com/private/a");
+    const msg = fromError(error);
+    expect(error.code).toBe(ErrorCode.HTTP_ROBOTS_DISALLOWED);
+    expect(error.isRetryable).toBe(false);
+    expect(msg.summary).toContain("docs.example.com");
+    expect(msg.debugInfo).toContain("https://docs.example.com/private/a");
+  });
+
   it("plain Error with 'timeout' → timeout message", () => {
     const error = new Error("Request timed out after 30000ms");
     const msg = fromError(error, { url: "https://slow.com" });
@@ -224,6 +242,49 @@ describe("ErrorMessageFactory.fromError", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// ErrorMessageFactory.classifyError / fromCondition — stored failure codes
+// ---------------------------------------------------------------------------
+
+describe("ErrorMessageFactory.classifyError", () => {
+  it("should read HTTP statuses from fetch errors", () => {
+    expect(classifyError(new Error("HTTP 404 (Not Found) for https://x.com/llms.txt"))).toBe("source_gone");
+    expect(classifyError(new Error("HTTP 410 (Gone) for https://x.com"))).toBe("source_gone");
+    expect(classifyError(new Error("HTTP 403 (Forbidden) for https://x.com"))).toBe("access_denied");
+    expect(classifyError(new Error("HTTP 429 (Too Many Requests) for https://x.com"))).toBe("rate_limited");
+    expect(classifyError(new Error("HTTP 503 (Service Unavailable) for https://x.com"))).toBe("server_error");
+  });
+
+  it("should classify network and resolver failures", () => {
+    expect(classifyError(new Error("request timed out"))).toBe("timeout");
+    expect(classifyError(new Error("getaddrinfo ENOTFOUND x.com"))).toBe("dns_failure");
+    expect(classifyError(ContentResolverError.paywall("https://x.com", 402))).toBe("paywall");
+  });
+
+  it("should return undefined when nothing specific applies", () => {
+    expect(classifyError(new Error("something odd"))).toBeUndefined();
+    expect(classifyError(null)).toBeUndefined();
+  });
+});
+
+describe("ErrorMessageFactory.fromCondition", () => {
+  it("should rebuild the message for a stored condition", () => {
+    const msg = fromCondition("source_gone", "HTTP 404 (Not Found)", { url: "https://x.com" });
+    expect(msg.summary).toContain("no longer exists");
+    expect(msg.debugInfo).toBe("HTTP 404 (Not Found)");
+  });
+
+  it("should fill in the hostname from the URL", () => {
+    expect(fromCondition("dns_failure", undefined, { url: "https://fake.example.com/docs" }).summary)
+      .toContain("fake.example.com");
+  });
+
+  it("should fall back for unknown or missing codes", () => {
+    expect(fromCondition(null, "boom").summary).toContain("Something went wrong");
+    expect(fromCondition("not_a_condition", "boom").debugInfo).toBe("boom");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // ContentResolverError class
 // ---------------------------------------------------------------------------
@@ -282,7 +343,7 @@ describe("formatForCallback", () => {
       "paywall", "html_stub", "rate_limited", "timeout", "dns_failure",
       "pdf_extraction", "empty_content", "unpaywall_no_result",
       "semantic_scholar_404", "openalex_empty", "copyright_gate",
-      "url_not_found", "invalid_url",
+      "url_not_found", "invalid_url", "robots_disallowed",
     ] as const;
 
     for (const condition of conditions) {
@@ -26,6 +26,28 @@ vi.mock("../src/services/UnpaywallResolver", () => ({
   },
 }));
 
+// Stored papers the message can name instead of giving an identifier
+const mockListCatalog = vi.fn();
+
+vi.mock("../src/db/autognosticDocumentsRepository", () => ({
+  AutognosticDocumentsRepository: class {
+    listCatalog = (...args: unknown[]) => mockListCatalog(...args);
+  },
+}));
+
+vi.mock("../src/db/autognosticDocumentAliasesRepository", () => ({
+  AutognosticDocumentAliasesRepository: class {
+    list = async () => [];
+  },
+}));
+
+vi.mock("../src/db/autognosticRoomFocusRepository", () => ({
+  AutognosticRoomFocusRepository: class {
+    get = async () => null;
+    set = async () => undefined;
+  },
+}));
+
 // ---------------------------------------------------------------------------
 // Fixtures
 // ---------------------------------------------------------------------------
@@ -73,6 +95,7 @@ const sourcePaper = {
 describe("FindRelatedPapersAction", () => {
   beforeEach(() => {
     vi.resetAllMocks();
+    mockListCatalog.mockResolvedValue([]);
   });
 
   // =========================================================================
@@ -226,6 +249,28 @@ describe("FindRelatedPapersAction", () => {
       expect(mockLookupPaper).not.toHaveBeenCalled();
     });
 
+    it("should use the DOI of a stored paper named by its author", async () => {
+      mockListCatalog.mockResolvedValueOnce([{
+        id: "doc-1",
+        url: "https://example.com/attention.pdf",
+        title: null,
+        sourceId: "papers",
+        storedAt: null,
+        paperMetadata: { doi: "10.48550/arXiv.1706.03762", title: "Attention Is All You Need", authors: ["Ashish Vaswani", "Noam Shazeer"] },
+      }]);
+      mockLookupPaper.mockResolvedValue(null);
+
+      await FindRelatedPapersAction.handler!(
+        mockRuntime,
+        makeMessage("find papers related to the Vaswani paper"),
+        undefined,
+        undefined,
+        vi.fn(),
+      );
+
+      expect(mockLookupPaper).toHaveBeenCalledWith("10.48550/arXiv.1706.03762");
+    });
+
     it("should fail gracefully when paper not found on S2", async () => {
       mockLookupPaper.mockResolvedValue(null);
 
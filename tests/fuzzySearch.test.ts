@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { analyzeDocument } from "../src/services/DocumentAnalyzer";
+import { fuzzySearch } from "../src/integration/fuzzySearch";
+
+const DOC = [
+  "Model Calibration",
+  "",
+  "We report the conﬁdence interval for each beneﬁt estimate. Scores were com-",
+  "puted on the held-out split.",
+  "",
+  "The datasetwas collected in 2021 from public forums. Calibration error stayed below two percent.",
+].join("\n");
+
+const search = (query: string) => fuzzySearch(DOC, analyzeDocument(DOC), query);
+
+describe("fuzzySearch", () => {
+  it("should match through ﬁ/ﬂ ligatures and report the document's own text", () => {
+    const [match] = search("confidence interval");
+
+    expect(match).toMatchObject({ kind: "normalized", score: 1, quote: "conﬁdence interval", lineNumber: 3 });
+    expect(DOC.slice(match.charPosition, match.charPosition + match.quote.length)).toBe(match.quote);
+  });
+
+  it("should rejoin words hyphenated across a line break", () => {
+    const [match] = search("scores were computed");
+
+    expect(match).toMatchObject({ kind: "normalized", quote: "Scores were com-\nputed", lineNumber: 3 });
+  });
+
+  it("should line up words merged during extraction", () => {
+    const [match] = search("dataset was collected");
+
+    expect(match).toMatchObject({ kind: "normalized", quote: "datasetwas collected" });
+  });
+
+  it("should tolerate typos and rank them below exact matches", () => {
+    const typo = search("calibraton eror stayed");
+    expect(typo[0]).toMatchObject({ kind: "fuzzy", quote: "Calibration error stayed" });
+    expect(typo[0].score).toBeGreaterThan(0.75);
+    expect(typo[0].score).toBeLessThan(1);
+
+    const ranked = search("calibration");
+    expect(ranked.map((m) => m.kind)).toEqual(["exact", "exact"]);
+    expect(ranked[0].lineNumber).toBe(1);
+  });
+
+  it("should only match short queries exactly and return nothing for unrelated text", () => {
+    expect(search("cal").every((m) => m.kind === "exact")).toBe(true);
+    expect(search("gradient descent converges")).toEqual([]);
+    expect(search("   ")).toEqual([]);
+  });
+});
@@ -9,12 +9,34 @@ vi.mock("../src/integration/getExactQuote", () => ({
 }));
 
 // Mock the repository for profile-aware handler
+const catalog = vi.hoisted(() => ({ listCatalog: vi.fn().mockResolvedValue([]) }));
 vi.mock("../src/db/autognosticDocumentsRepository", () => ({
   autognosticDocumentsRepository: {
     getWithProfile: vi.fn().mockResolvedValue(null),
     updateProfile: vi.fn().mockResolvedValue(undefined),
     getFullContent: vi.fn().mockResolvedValue(null),
   },
+  AutognosticDocumentsRepository: class {
+    listCatalog = catalog.listCatalog;
+  },
+}));
+
+// Document resolution by title/alias when the message has no URL
+vi.mock("../src/db/autognosticDocumentAliasesRepository", () => ({
+  AutognosticDocumentAliasesRepository: class {
+    list = vi.fn().mockResolvedValue([]);
+  },
+}));
+
+// Per-room focus, kept in memory
+const focus = vi.hoisted(() => ({ rooms: new Map<string, any>() }));
+vi.mock("../src/db/autognosticRoomFocusRepository", () => ({
+  AutognosticRoomFocusRepository: class {
+    get = async (roomId: string) => focus.rooms.get(roomId) ?? null;
+    set = async (roomId: string, url: string, position: unknown) => {
+      focus.rooms.set(roomId, { url, position, updatedAt: new Date() });
+    };
+  },
 }));
 
 // Mock the DB modules used by the handler's fallback URL lookup
@@ -126,6 +148,7 @@ describe("GetQuoteAction", () => {
     beforeEach(() => {
       mockCallback = vi.fn();
       vi.clearAllMocks();
+      focus.rooms.clear();
     });
 
     it("should resolve 'last line' mode from natural language", async () => {
@@ -188,6 +211,27 @@ describe("GetQuoteAction", () => {
       expect((result as any).success).toBe(false);
     });
 
+    it("should ask which document is meant when the reference fits several", async () => {
+      const paper = (url: string, title: string) => ({
+        id: url, url, title, sourceId: "papers", storedAt: null,
+        paperMetadata: { title, authors: ["Ashish Vaswani", "Noam Shazeer"] },
+      });
+      catalog.listCatalog.mockResolvedValueOnce([
+        paper("https://arxiv.org/pdf/1706.03762.pdf", "Attention Is All You Need"),
+        paper("https://arxiv.org/pdf/1803.07416.pdf", "Tensor2Tensor for Neural Machine Translation"),
+      ]);
+      const { autognosticDocumentsRepository } = await import("../src/db/autognosticDocumentsRepository");
+
+      const result = await GetQuoteAction.handler(
+        createMockRuntime() as any, createMessage("quote the abstract of the Vaswani paper"), undefined, undefined, mockCallback
+      );
+
+      expect((result as any).success).toBe(false);
+      expect((result as any).data.error).toBe("ambiguous_document");
+      expect(mockCallback.mock.calls[0][0].text).toContain("Which one do you mean?");
+      expect(autognosticDocumentsRepository.getWithProfile).not.toHaveBeenCalled();
+    });
+
     it("should return only word count when asked 'how many words' (stat_specific)", async () => {
       const { autognosticDocumentsRepository } = await import("../src/db/autognosticDocumentsRepository");
       (autognosticDocumentsRepository.getWithProfile as any).mockResolvedValue({
@@ -244,5 +288,264 @@ describe("GetQuoteAction", () => {
       expect(callText).toContain("Third sentence.");
       expect((result as any).success).toBe(true);
     });
+    it("should name the version a quote came from", async () => {
+      const { autognosticDocumentsRepository } = await import("../src/db/autognosticDocumentsRepository");
+      (autognosticDocumentsRepository.getWithProfile as any).mockResolvedValue({
+        id: "doc-1",
+        content: "Line one\nThe final line",
+        profile: null,
+        version: {
+          sourceId: "src-1", versionId: "3f2a9c1b7d04e5f6", status: "active",
+          activatedAt: new Date("2026-09-01T08:00:00Z"), archivedAt: null,
+          storedAt: new Date("2026-09-01T07:00:00Z"),
+        },
+      });
+
+      const runtime = createMockRuntime();
+      const message = createMessage("repeat the last line", { url: "https://example.com/doc.txt" });
+      const result = await GetQuoteAction.handler(runtime as any, message, undefined, undefined, mockCallback);
+
+      const callText = mockCallback.mock.calls[0][0].text;
+      expect(callText).toContain("The final line");
+      expect(callText).toContain("(Current version 3f2a9c1b7d04, in effect since 2026-09-01)");
+      expect((result as any).data.version.versionId).toBe("3f2a9c1b7d04e5f6");
+      expect(autognosticDocumentsRepository.updateProfile).toHaveBeenCalledWith(
+        runtime, "https://example.com/doc.txt", expect.anything(), "doc-1"
+      );
+    });
+
+    it("should look up the version in effect at an explicit asOf date", async () => {
+      const { autognosticDocumentsRepository } = await import("../src/db/autognosticDocumentsRepository");
+      (autognosticDocumentsRepository.getWithProfile as any).mockResolvedValue({
+        id: "doc-0",
+        content: "Old line one\nOld final line",
+        profile: null,
+        version: {
+          sourceId: "src-1", versionId: "9b8e21f0c3aa", status: "archived",
+          activatedAt: new Date("2026-08-01T00:00:00Z"), archivedAt: new Date("2026-09-01T08:00:00Z"),
+          storedAt: new Date("2026-08-01T00:00:00Z"),
+        },
+      });
+
+      const runtime = createMockRuntime();
+      const message = createMessage("repeat the last line", { url: "https://example.com/doc.txt", asOf: "2026-08-15" });
+      const result = await GetQuoteAction.handler(runtime as any, message, undefined, undefined, mockCallback);
+
+      const [, , asOf] = (autognosticDocumentsRepository.getWithProfile as any).mock.calls[0];
+      expect(asOf.toISOString()).toBe("2026-08-15T23:59:59.999Z");
+      const callText = mockCallback.mock.calls[0][0].text;
+      expect(callText).toContain("Old final line");
+      expect(callText).toContain("(Archived version 9b8e21f0c3aa, in effect 2026-08-01 to 2026-09-01)");
+      expect((result as any).data.version.asOf).toBe("2026-08-15T23:59:59.999Z");
+    });
+
+    it("should infer the date from the message and keep it out of the search text", async () => {
+      const { autognosticDocumentsRepository } = await import("../src/db/autognosticDocumentsRepository");
+      const { getExactQuote } = await import("../src/integration/getExactQuote");
+      (autognosticDocumentsRepository.getWithProfile as any).mockResolvedValue({
+        id: "doc-0", content: "pricing starts at $5", profile: null,
+      });
+
+      const runtime = createMockRuntime();
+      const message = createMessage("find pricing as of 2026-08-15", { url: "https://example.com/doc.txt" });
+      await GetQuoteAction.handler(runtime as any, message, undefined, undefined, mockCallback);
+
+      const [, , asOf] = (autognosticDocumentsRepository.getWithProfile as any).mock.calls[0];
+      expect(asOf).toBeInstanceOf(Date);
+      expect((getExactQuote as any).mock.calls[0][1]).toBe("pricing");
+    });
+
+    it("should report when nothing was stored as of the requested date", async () => {
+      const { autognosticDocumentsRepository } = await import("../src/db/autognosticDocumentsRepository");
+      (autognosticDocumentsRepository.getWithProfile as any).mockResolvedValue(null);
+
+      const runtime = createMockRuntime();
+      const message = createMessage("read line 1", { url: "https://example.com/doc.txt", asOf: "2020-01-01" });
+      const result = await GetQuoteAction.handler(runtime as any, message, undefined, undefined, mockCallback);
+
+      expect(mockCallback.mock.calls[0][0].text).toContain("No stored version of https://example.com/doc.txt as of 2020-01-01");
+      expect((result as any).success).toBe(false);
+    });
+
+    it("should reject an asOf value it cannot read", async () => {
+      const runtime = createMockRuntime();
+      const message = createMessage("read line 1", { url: "https://example.com/doc.txt", asOf: "whenever" });
+      const result = await GetQuoteAction.handler(runtime as any, message, undefined, undefined, mockCallback);
+
+      expect(mockCallback.mock.calls[0][0].text).toContain('Could not understand the date "whenever"');
+      expect((result as any).data.error).toBe("invalid_as_of");
+    });
+  });
+
+  describe("verify mode", () => {
+    const url = "https://example.com/paper.txt";
+    const content = [
+      "Introduction",
+      "",
+      "Our results show that the \ufb01ltering step is necessary. The eval-",
+      "uation covered “twelve” datasets.",
+      "",
+      "Models generalise well in most settings.",
+    ].join("\n");
+    let mockCallback: ReturnType<typeof vi.fn>;
+
+    beforeEach(async () => {
+      mockCallback = vi.fn();
+      vi.clearAllMocks();
+      const { autognosticDocumentsRepository } = await import("../src/db/autognosticDocumentsRepository");
+      (autognosticDocumentsRepository.getWithProfile as any).mockResolvedValue({ id: "doc-1", content, profile: null });
+    });
+
+    async function verify(text: string, extras: Record<string, unknown> = {}) {
+      const result = await GetQuoteAction.handler(
+        createMockRuntime() as any, createMessage(text, { url, ...extras }), undefined, undefined, mockCallback
+      );
+      return result as any;
+    }
+
+    it("should confirm a verbatim quote with its location", async () => {
+      const result = await verify('Verify the quote "Models generalise well in most settings."');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ verified: true, match: "exact", score: 1, lineNumber: 6, paragraphNumber: 3 });
+      expect(result.text).toContain("Verified: the quote appears verbatim at line 6");
+    });
+
+    it("should give the true text when the claim differs only in ligatures, hyphenation and quote marks", async () => {
+      const result = await verify("check this quote", {
+        claimedQuote: 'the filtering step is necessary. The evaluation covered "twelve" datasets.',
+      });
+
+      expect(result.data).toMatchObject({ verified: true, match: "normalized", lineNumber: 3, lineEnd: 4 });
+      expect(result.data.verbatim).toBe("the \ufb01ltering step is necessary. The eval-\nuation covered “twelve” datasets.");
+      expect(result.text).toContain("lines 3-4");
+    });
+
+    it("should correct a paraphrase with the closest passage", async () => {
+      const result = await verify('Did it really say "models always generalise well in all settings"?');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ verified: false, match: "approximate", lineNumber: 6, sentenceNumber: 3 });
+      expect(result.data.verbatim).toBe("Models generalise well in most settings.");
+      expect(result.text).toContain("Not an exact quote.");
+      expect(result.text).toContain('Quote it as:\n"Models generalise well in most settings."');
+    });
+
+    it("should say when nothing in the document is close", async () => {
+      const result = await verify('Is this an accurate quote: "Quantum annealing beats classical solvers"');
+
+      expect(result.success).toBe(false);
+      expect(result.data).toMatchObject({ verified: false, match: "none", error: "not_found" });
+      expect(mockCallback.mock.calls[0][0].text).toContain("Don't present it as a quote");
+    });
+
+    it("should ask for the quote when none is given", async () => {
+      const result = await verify("verify that quote");
+
+      expect(result.data.error).toBe("missing_quote");
+    });
+  });
+
+  describe("fuzzy search", () => {
+    const url = "https://example.com/scan.pdf";
+    const content = [
+      "Results",
+      "",
+      "The classiﬁer reached 91% accuracy on the held-out set. Recall im-",
+      "proved on every benchmark.",
+    ].join("\n");
+    let mockCallback: ReturnType<typeof vi.fn>;
+
+    beforeEach(async () => {
+      mockCallback = vi.fn();
+      vi.clearAllMocks();
+      const { autognosticDocumentsRepository } = await import("../src/db/autognosticDocumentsRepository");
+      (autognosticDocumentsRepository.getWithProfile as any).mockResolvedValue({ id: "doc-1", content, profile: null });
+    });
+
+    async function run(text: string, extras: Record<string, unknown> = {}) {
+      const result = await GetQuoteAction.handler(
+        createMockRuntime() as any, createMessage(text, { url, ...extras }), undefined, undefined, mockCallback
+      );
+      return result as any;
+    }
+
+    it("should list ranked candidates with their scores", async () => {
+      const result = await run("fuzzy search for classifer reached accuracy");
+
+      expect(result.success).toBe(true);
+      expect(result.data.mode).toBe("fuzzy");
+      expect(result.data.matches[0]).toMatchObject({ kind: "fuzzy", lineNumber: 3, sentenceNumber: 1 });
+      expect(result.text).toMatch(/^Closest matches for "classifer reached accuracy":\n1\. Line 3, sentence 1 \(\d+% similar\)/);
+    });
+
+    it("should offer the closest passages when an exact search finds nothing", async () => {
+      const result = await run("find recall improved on every benchmark");
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ found: false, fuzzy: true });
+      expect(result.data.matches[0]).toMatchObject({ kind: "normalized", quote: "Recall im-\nproved on every benchmark" });
+      expect(result.text).toContain('No exact match for "recall improved on every benchmark". Closest matches:');
+    });
+  });
+
+  describe("room focus", () => {
+    const url = "https://example.com/essay.txt";
+    const content = [
+      "Alpha starts here. Alpha ends here.",
+      "",
+      "Beta is the middle. Beta goes on.",
+      "",
+      "Gamma closes the essay.",
+    ].join("\n");
+    let mockCallback: ReturnType<typeof vi.fn>;
+
+    beforeEach(async () => {
+      mockCallback = vi.fn();
+      vi.clearAllMocks();
+      focus.rooms.clear();
+      const { autognosticDocumentsRepository } = await import("../src/db/autognosticDocumentsRepository");
+      (autognosticDocumentsRepository.getWithProfile as any).mockResolvedValue({ id: "doc-1", content, profile: null });
+    });
+
+    async function run(text: string, extras: Record<string, unknown> = {}, roomId = "test-room") {
+      const message = { ...createMessage(text, extras), roomId };
+      return (await GetQuoteAction.handler(createMockRuntime() as any, message, undefined, undefined, mockCallback)) as any;
+    }
+
+    it("should quote the room's focused document when none is named", async () => {
+      await run("show me paragraph 1", { url });
+      const result = await run("read me the next paragraph");
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ url, mode: "relative", direction: "forward", unit: "paragraph", start: 2 });
+      expect(result.text).toContain('"Beta is the middle. Beta goes on."');
+    });
+
+    it("should step back by sentences from the last passage", async () => {
+      await run("show me paragraph 3", { url });
+      const result = await run("go back two sentences");
+
+      expect(result.data).toMatchObject({ direction: "back", unit: "sentence", start: 3, end: 4 });
+      expect(result.text).toContain('3. "Beta is the middle."');
+      expect(result.text).toContain('4. "Beta goes on."');
+    });
+
+    it("should say when there is nothing further", async () => {
+      await run("show me the last paragraph", { url });
+      const result = await run("keep reading");
+
+      expect(result.success).toBe(false);
+      expect(result.text).toContain("That was the end of the document");
+    });
+
+    it("should keep each room's focus to itself", async () => {
+      await run("show me paragraph 1", { url }, "room-a");
+      const result = await run("read me the next paragraph", {}, "room-b");
+
+      expect(result.success).toBe(false);
+      expect(result.text).toContain("No document URL found");
+    });
   });
 });
+
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ---------------------------------------------------------------------------
+// Mock Octokit
+// ---------------------------------------------------------------------------
+
+const mockReposGet = vi.fn();
+const mockGetCommit = vi.fn();
+const mockGetTree = vi.fn();
+
+vi.mock("@octokit/rest", () => ({
+  Octokit: class {
+    repos = { get: mockReposGet, getCommit: mockGetCommit, getContent: vi.fn() };
+    git = { getTree: mockGetTree, getRef: vi.fn() };
+  },
+}));
+
+import { GithubService } from "../src/services/githubService";
+import { GithubRepoDiscovery } from "../src/publicspace/GithubRepoDiscovery";
+import { previewSourceFiles } from "../src/orchestrator/previewSource";
+import { globToRegExp, splitGlobs } from "../src/utils/glob";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const TREE = [
+  { path: "README.md", type: "blob", sha: "b-readme", size: 120 },
+  { path: "docs", type: "tree", sha: "t-docs" },
+  { path: "docs/intro.md", type: "blob", sha: "b-intro", size: 300 },
+  { path: "docs/guide", type: "tree", sha: "t-guide" },
+  { path: "docs/guide/setup.md", type: "blob", sha: "b-setup", size: 450 },
+  { path: "docs/guide/diagram.png", type: "blob", sha: "b-png", size: 9000 },
+  { path: "docs/drafts", type: "tree", sha: "t-drafts" },
+  { path: "docs/drafts/wip.md", type: "blob", sha: "b-wip", size: 50 },
+  { path: "src/index.ts", type: "blob", sha: "b-src", size: 800 },
+];
+
+const runtime = { agentId: "agent-1", character: {} } as any;
+
+function discoveryFor(url: string) {
+  return new GithubRepoDiscovery(new GithubService(runtime), url);
+}
+
+describe("GithubRepoDiscovery", () => {
+  beforeEach(() => {
+    mockReposGet.mockReset().mockResolvedValue({ data: { default_branch: "main" } });
+    mockGetCommit.mockReset().mockResolvedValue({
+      data: { sha: "c-123", commit: { tree: { sha: "t-root" } } },
+    });
+    mockGetTree.mockReset().mockResolvedValue({ data: { tree: TREE, truncated: false } });
+  });
+
+  it("should list every blob of a whole repo on the default branch", async () => {
+    const discovery = discoveryFor("https://github.com/org/repo");
+    const files = await discovery.list();
+
+    expect(mockReposGet).toHaveBeenCalledWith({ owner: "org", repo: "repo" });
+    expect(mockGetCommit).toHaveBeenCalledWith({ owner: "org", repo: "repo", ref: "main" });
+    expect(mockGetTree).toHaveBeenCalledWith(
+      expect.objectContaining({ tree_sha: "t-root", recursive: "true" })
+    );
+    expect(files.map((f) => f.path)).toEqual([
+      "README.md",
+      "docs/intro.md",
+      "docs/guide/setup.md",
+      "docs/guide/diagram.png",
+      "docs/drafts/wip.md",
+      "src/index.ts",
+    ]);
+    expect(files[0]).toEqual({
+      url: "https://github.com/org/repo/blob/main/README.md",
+      path: "README.md",
+      estBytes: 120,
+      etag: "b-readme",
+      contentType: "text/markdown",
+    });
+    expect(discovery.revision()).toBe("t-root");
+  });
+
+  it("should scope to a /tree/<ref>/<path> subtree and use its tree SHA", async () => {
+    const discovery = discoveryFor("https://github.com/org/repo/tree/v2/docs");
+    const files = await discovery.list();
+
+    expect(mockReposGet).not.toHaveBeenCalled();
+    expect(mockGetCommit).toHaveBeenCalledWith({ owner: "org", repo: "repo", ref: "v2" });
+    expect(files.every((f) => f.path.startsWith("docs/"))).toBe(true);
+    expect(files[0].url).toBe("https://github.com/org/repo/blob/v2/docs/intro.md");
+    expect(discovery.revision()).toBe("t-docs");
+  });
+
+  it("should apply include and exclude globs from the source URL", async () => {
+    const discovery = discoveryFor(
+      "https://github.com/org/repo?include=docs/**/*.md&exclude=**/drafts/**"
+    );
+    const files = await discovery.list();
+
+    expect(files.map((f) => f.path)).toEqual(["docs/intro.md", "docs/guide/setup.md"]);
+  });
+
+  it("should keep brace alternations in comma-separated globs intact", async () => {
+    const discovery = discoveryFor(
+      "https://github.com/org/repo?include=docs/**/*.{md,png},src/*.ts&exclude=**/drafts/**"
+    );
+    const files = await discovery.list();
+
+    expect(files.map((f) => f.path)).toEqual([
+      "docs/intro.md",
+      "docs/guide/setup.md",
+      "docs/guide/diagram.png",
+      "src/index.ts",
+    ]);
+  });
+
+  it("should fail clearly when the subtree does not exist", async () => {
+    const discovery = discoveryFor("https://github.com/org/repo/tree/main/missing");
+    await expect(discovery.list()).rejects.toThrow(/Path not found/);
+  });
+
+  it("should preview from tree metadata without probing blobs", async () => {
+    const http = { head: vi.fn(), get: vi.fn() };
+    const rt = { ...runtime, getService: vi.fn().mockReturnValue(http) } as any;
+
+    const preview = await previewSourceFiles(
+      rt,
+      "repo-docs",
+      discoveryFor("https://github.com/org/repo/tree/main/docs?include=*.md")
+    );
+
+    expect(http.head).not.toHaveBeenCalled();
+    expect(http.get).not.toHaveBeenCalled();
+    expect(preview.revision).toBe("t-docs");
+    expect(preview.totalBytes).toBe(300 + 450 + 50);
+    expect(preview.files.map((f) => f.etag)).toEqual(["b-intro", "b-setup", "b-wip"]);
+  });
+});
+
+describe("splitGlobs", () => {
+  it("should split on commas outside brace groups only", () => {
+    expect(splitGlobs("docs/**/*.{md,mdx}")).toEqual(["docs/**/*.{md,mdx}"]);
+    expect(splitGlobs("*.md,docs/*.{md,mdx},*.txt")).toEqual(["*.md", "docs/*.{md,mdx}", "*.txt"]);
+  });
+});
+
+describe("globToRegExp", () => {
+  it("should match ** across directories, including none", () => {
+    const re = globToRegExp("docs/**/*.md");
+    expect(re.test("docs/intro.md")).toBe(true);
+    expect(re.test("docs/a/b/c.md")).toBe(true);
+    expect(re.test("docs/intro.txt")).toBe(false);
+    expect(re.test("other/docs/intro.md")).toBe(false);
+  });
+
+  it("should keep * within a single segment", () => {
+    const re = globToRegExp("docs/*.md");
+    expect(re.test("docs/intro.md")).toBe(true);
+    expect(re.test("docs/guide/setup.md")).toBe(false);
+  });
+
+  it("should match bare file patterns at any depth", () => {
+    const re = globToRegExp("*.md");
+    expect(re.test("README.md")).toBe(true);
+    expect(re.test("docs/guide/setup.md")).toBe(true);
+    expect(re.test("docs/setup.mdx")).toBe(false);
+  });
+
+  it("should support brace alternation and escape regex characters", () => {
+    const re = globToRegExp("docs/*.{md,mdx}");
+    expect(re.test("docs/a.md")).toBe(true);
+    expect(re.test("docs/a.mdx")).toBe(true);
+    expect(re.test("docs/a+md")).toBe(false);
+  });
+});
@@ -362,4 +362,44 @@ describe("inferMode — Section 12 test matrix", () => {
   it("ending → last_paragraph", () => {
     expect(inferMode("ending").mode).toBe("last_paragraph");
   });
+
+  // --- Verify mode: a claimed quote in quotation marks is checked, not searched ---
+  it('verify the quote "..." → verify with the claim', () => {
+    const r = inferMode('verify the quote "rate limits reset hourly"');
+    expect(r.mode).toBe("verify");
+    expect(r.searchText).toBe("rate limits reset hourly");
+  });
+  it("did it really say → verify", () => {
+    expect(inferMode('did it really say "no refunds"?').mode).toBe("verify");
+  });
+  it("check what it says about pricing → still search", () => {
+    expect(inferMode("check what it says about pricing").mode).not.toBe("verify");
+  });
+
+  // --- Fuzzy mode: read before section phrasings can claim the query ---
+  it("fuzzy search for ... → fuzzy", () => {
+    const r = inferMode('fuzzy search for "the results were significnt"');
+    expect(r.mode).toBe("fuzzy");
+    expect(r.searchText).toBe("the results were significnt");
+  });
+  it("find something like ... → fuzzy", () => {
+    const r = inferMode("find something like retry budget");
+    expect(r.mode).toBe("fuzzy");
+    expect(r.searchText).toBe("retry budget");
+  });
+
+  // --- Relative mode: steps from the room's last passage ---
+  it("the next paragraph → relative forward", () => {
+    expect(inferMode("read me the next paragraph")).toEqual({ mode: "relative", direction: "forward", count: 1, unit: "paragraph" });
+  });
+  it("go back two sentences → relative back", () => {
+    expect(inferMode("go back two sentences")).toEqual({ mode: "relative", direction: "back", count: 2, unit: "sentence" });
+    expect(inferMode("a paragraph back")).toMatchObject({ mode: "relative", direction: "back", count: 1, unit: "paragraph" });
+  });
+  it("keep reading → relative forward in the last unit", () => {
+    expect(inferMode("keep reading")).toEqual({ mode: "relative", direction: "forward", count: 1 });
+  });
+  it("next to last sentence → still last_n", () => {
+    expect(inferMode("next to last sentence")).toMatchObject({ mode: "last_n", count: 2 });
+  });
 });
@@ -0,0 +1,317 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// In-memory jobs table following AutognosticJobsRepository's lease rules
+const state = vi.hoisted(() => ({
+  jobs: new Map<string, any>(),
+  items: [] as Array<{ jobId: string; url: string; knowledgeDocumentId: string }>,
+  sources: new Map<string, any>(),
+  reconcile: null as null | ((source: any, opts: any) => Promise<any>),
+}));
+
+vi.mock("../src/db/autognosticJobsRepository", () => ({
+  AutognosticJobsRepository: class {
+    async create(job: any, lease?: { holder: string }) {
+      const row = {
+        ...job,
+        status: lease ? "running" : "queued",
+        attempts: lease ? 1 : 0,
+        leaseHolder: lease?.holder ?? null,
+        runAfter: null,
+        versionId: null,
+        itemsTotal: 0,
+        itemsDone: 0,
+        itemsFailed: 0,
+        result: null,
+        error: null,
+      };
+      state.jobs.set(job.id, row);
+      return { ...row };
+    }
+    async listUnfinished() {
+      return [...state.jobs.values()].filter((j) => j.status === "queued" || j.status === "running");
+    }
+    async claimNext(holder: string) {
+      const job = [...state.jobs.values()].find(
+        (j) =>
+          (j.status === "queued" && (!j.runAfter || j.runAfter <= new Date())) ||
+          (j.status === "running" && j.leaseHolder === null)
+      );
+      if (!job) return null;
+      Object.assign(job, { status: "running", attempts: job.attempts + 1, leaseHolder: holder, runAfter: null });
+      return { ...job };
+    }
+    async renewLease() {
+      return true;
+    }
+    async cancelQueued(ref: string) {
+      const jobs = [...state.jobs.values()].filter(
+        (j) => j.status === "queued" && (j.id === ref || j.sourceId === ref)
+      );
+      for (const job of jobs) job.status = "cancelled";
+      return jobs.map((j) => j.id);
+    }
+    async finish(id: string, holder: string, outcome: any) {
+      const job = state.jobs.get(id);
+      if (job.leaseHolder !== holder) return;
+      Object.assign(job, { ...outcome, leaseHolder: null });
+    }
+    async requeue(id: string, holder: string, runAfter: Date, opts: any = {}) {
+      const job = state.jobs.get(id);
+      if (job.leaseHolder !== holder) return;
+      Object.assign(job, { status: "queued", runAfter, leaseHolder: null });
+      if (opts.error !== undefined) job.error = opts.error;
+      if (opts.refundAttempt) job.attempts--;
+    }
+    async startVersion(id: string, versionId: string, total: number) {
+      Object.assign(state.jobs.get(id), { versionId, itemsTotal: total, itemsDone: 0, itemsFailed: 0 });
+    }
+    async updateProgress(id: string, done: number, failed: number) {
+      Object.assign(state.jobs.get(id), { itemsDone: done, itemsFailed: failed });
+    }
+    async addItem(jobId: string, url: string, knowledgeDocumentId: string) {
+      state.items.push({ jobId, url, knowledgeDocumentId });
+    }
+    async clearItems(jobId: string) {
+      state.items = state.items.filter((i) => i.jobId !== jobId);
+    }
+    async listItems(jobId: string) {
+      return state.items.filter((i) => i.jobId === jobId);
+    }
+    async pruneFinished() {}
+  },
+}));
+
+vi.mock("../src/db/autognosticSourcesRepository", () => ({
+  AutognosticSourcesRepository: class {
+    async getById(id: string) {
+      return state.sources.get(id) ?? null;
+    }
+  },
+}));
+
+vi.mock("../src/orchestrator/ReconciliationService", () => ({
+  ReconciliationService: class {
+    async verifyAndReconcileOne(source: any, opts: any) {
+      return state.reconcile!(source, opts);
+    }
+  },
+}));
+
+import { JobQueueService, describeProgress } from "../src/services/JobQueueService";
+import { JOB_DEFAULTS } from "../src/config/constants";
+
+const runtime = { agentId: "agent-1" } as any;
+const source = { id: "docs", sourceUrl: "https://docs.example.com/llms.txt", enabled: true };
+
+function onlyJob() {
+  expect(state.jobs.size).toBe(1);
+  return [...state.jobs.values()][0];
+}
+
+describe("JobQueueService", () => {
+  beforeEach(() => {
+    state.jobs = new Map();
+    state.items = [];
+    state.sources = new Map([["docs", { ...source }]]);
+    state.reconcile = null;
+  });
+
+  it("should run a submitted job and record its progress and result", async () => {
+    state.reconcile = async (_source, { checkpoint }) => {
+      await checkpoint.onStart("v1", 2);
+      await checkpoint.onItem("https://docs.example.com/a.md", { ok: true });
+      await checkpoint.onItem("https://docs.example.com/b.md", { ok: false });
+      await checkpoint.onIngested("https://docs.example.com/a.md", "kd-1");
+      return { sourceId: "docs", status: "reconciled", versionId: "v1" };
+    };
+
+    const result = await new JobQueueService(runtime).submit("mirror", source, { ignoreCooldown: true });
+
+    expect(result.status).toBe("reconciled");
+    const job = onlyJob();
+    expect(job).toMatchObject({
+      kind: "mirror",
+      status: "completed",
+      versionId: "v1",
+      itemsTotal: 2,
+      itemsDone: 1,
+      itemsFailed: 1,
+      leaseHolder: null,
+    });
+    expect(job.payload).toEqual({ sourceUrl: source.sourceUrl, ignoreCooldown: true });
+    expect(state.items).toEqual([
+      { jobId: job.id, url: "https://docs.example.com/a.md", knowledgeDocumentId: "kd-1" },
+    ]);
+  });
+
+  it("should mark a job failed when its reconcile fails", async () => {
+    state.reconcile = async () => ({ sourceId: "docs", status: "failed", error: "HTTP 404" });
+
+    await new JobQueueService(runtime).submit("refresh", source);
+
+    expect(onlyJob()).toMatchObject({ status: "failed", error: "HTTP 404" });
+  });
+
+  it("should requeue a job that throws and give up after its last attempt", async () => {
+    state.reconcile = async () => {
+      throw new Error("connection reset");
+    };
+    const queue = new JobQueueService(runtime);
+
+    await expect(queue.submit("sync", source)).rejects.toThrow("connection reset");
+    const job = onlyJob();
+    expect(job).toMatchObject({ status: "queued", attempts: 1, error: "connection reset" });
+    expect(job.runAfter.getTime()).toBeGreaterThan(Date.now());
+
+    // Retries are due; the third attempt is the last
+    for (let attempt = 2; attempt <= 3; attempt++) {
+      job.runAfter = null;
+      expect(await queue.processPending()).toBe(1);
+    }
+    expect(job).toMatchObject({ status: "failed", attempts: 3, error: "connection reset" });
+  });
+
+  it("should resume a job whose worker died, handing over the files it ingested", async () => {
+    state.jobs.set("mirror-1", {
+      id: "mirror-1",
+      kind: "mirror",
+      sourceId: "docs",
+      payload: { sourceUrl: source.sourceUrl, ignoreCooldown: true },
+      status: "running",
+      attempts: 1,
+      maxAttempts: 3,
+      leaseHolder: null,
+      versionId: "v1",
+    });
+    state.items = [{ jobId: "mirror-1", url: "https://docs.example.com/a.md", knowledgeDocumentId: "kd-1" }];
+    const seen: any[] = [];
+    state.reconcile = async (src, opts) => {
+      seen.push({ src, opts });
+      return { sourceId: "docs", status: "reconciled", versionId: "v1" };
+    };
+
+    expect(await new JobQueueService(runtime).processPending()).toBe(1);
+
+    expect(seen).toHaveLength(1);
+    expect(seen[0].src).toEqual(source);
+    expect(seen[0].opts.ignoreCooldown).toBe(true);
+    expect(seen[0].opts.checkpoint.versionId).toBe("v1");
+    expect([...seen[0].opts.checkpoint.ingested]).toEqual([["https://docs.example.com/a.md", "kd-1"]]);
+    expect(state.jobs.get("mirror-1")).toMatchObject({ status: "completed", attempts: 2 });
+  });
+
+  it("should forget a job's ingested files once the reconcile discards them", async () => {
+    state.reconcile = async (_source, { checkpoint }) => {
+      await checkpoint.onStart("v1", 1);
+      await checkpoint.onIngested("https://docs.example.com/a.md", "kd-1");
+      await checkpoint.onDiscarded();
+      return { sourceId: "docs", status: "failed", versionId: "v1", error: "transaction aborted" };
+    };
+
+    await new JobQueueService(runtime).submit("mirror", source);
+
+    expect(state.items).toEqual([]);
+  });
+
+  it("should wait for the dead run's source lease without spending an attempt", async () => {
+    state.jobs.set("sync-1", {
+      id: "sync-1",
+      kind: "sync",
+      sourceId: "docs",
+      payload: { sourceUrl: source.sourceUrl },
+      status: "queued",
+      attempts: 1,
+      maxAttempts: 3,
+      leaseHolder: null,
+      runAfter: null,
+      versionId: null,
+    });
+    state.reconcile = async () => ({ sourceId: "docs", status: "skipped_in_progress" });
+
+    await new JobQueueService(runtime).processPending();
+
+    const job = state.jobs.get("sync-1");
+    expect(job).toMatchObject({ status: "queued", attempts: 1 });
+    expect(job.runAfter.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("should fail a job whose source was removed", async () => {
+    state.sources = new Map();
+    state.jobs.set("sync-1", {
+      id: "sync-1",
+      kind: "sync",
+      sourceId: "docs",
+      payload: { sourceUrl: source.sourceUrl },
+      status: "queued",
+      attempts: 0,
+      maxAttempts: 3,
+      leaseHolder: null,
+      runAfter: null,
+    });
+    state.reconcile = vi.fn();
+
+    await new JobQueueService(runtime).processPending();
+
+    expect(state.reconcile).not.toHaveBeenCalled();
+    expect(state.jobs.get("sync-1")).toMatchObject({ status: "failed", error: "Source docs no longer exists" });
+  });
+
+  it("should report progress when fetching starts and then at most every interval", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      state.reconcile = async (_source, { checkpoint }) => {
+        await checkpoint.onStart("v1", 3);
+        await checkpoint.onItem("https://docs.example.com/a.md", { ok: true });
+        vi.setSystemTime(Date.now() + JOB_DEFAULTS.PROGRESS_INTERVAL_MS);
+        await checkpoint.onItem("https://docs.example.com/b.md", { ok: false });
+        await checkpoint.onItem("https://docs.example.com/c.md", { ok: true });
+        return { sourceId: "docs", status: "reconciled", versionId: "v1" };
+      };
+      const onProgress = vi.fn();
+
+      await new JobQueueService(runtime).submit("mirror", source, { onProgress });
+
+      expect(onProgress.mock.calls.map(([p]) => describeProgress(p))).toEqual([
+        "0/3 pages",
+        "2/3 pages, 1 failed",
+      ]);
+      expect(onProgress.mock.calls[0][0]).toMatchObject({ kind: "mirror", sourceId: "docs" });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should cancel a running job by source id", async () => {
+    state.reconcile = (_source, { signal }) =>
+      new Promise((resolve) => {
+        signal.addEventListener("abort", () => resolve({ sourceId: "docs", status: "cancelled" }));
+      });
+    const queue = new JobQueueService(runtime);
+
+    const pending = queue.submit("mirror", source);
+    await vi.waitFor(() => expect(queue.listRunning()).toHaveLength(1));
+    const [running] = queue.listRunning();
+
+    expect(await queue.cancel("docs")).toEqual([running.jobId]);
+    expect((await pending).status).toBe("cancelled");
+    expect(onlyJob()).toMatchObject({ status: "cancelled", leaseHolder: null });
+    expect(queue.listRunning()).toEqual([]);
+  });
+
+  it("should drop a queued job when cancelled", async () => {
+    state.jobs.set("sync-1", {
+      id: "sync-1",
+      kind: "sync",
+      sourceId: "docs",
+      payload: { sourceUrl: source.sourceUrl },
+      status: "queued",
+      attempts: 1,
+      maxAttempts: 3,
+      leaseHolder: null,
+      runAfter: new Date(Date.now() + 60_000),
+    });
+
+    expect(await new JobQueueService(runtime).cancel("sync-1")).toEqual(["sync-1"]);
+    expect(state.jobs.get("sync-1").status).toBe("cancelled");
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { parseLlmsTxt, isOptionalSection } from "../src/publicspace/llmsTxtParser";
+
+const BASE = "https://docs.example.com/llms.txt";
+
+const SPEC_EXAMPLE = `# FastHTML
+
+> FastHTML is a python library which brings together Starlette, Uvicorn, HTMX, and fastcore.
+
+Important notes:
+
+- Although parts of its API are inspired by FastAPI, it is *not* compatible with FastAPI syntax
+
+## Docs
+
+- [FastHTML quick start](https://docs.example.com/quickstart.md): A brief overview of many FastHTML features
+- [HTMX reference](/htmx/reference.md): Brief description of all HTMX attributes
+- [Relative page](guide/intro.md)
+
+## Examples
+
+- [Todo list application](https://github.com/org/repo/blob/main/todo.py): Detailed walk-thru
+
+## Optional
+
+- [Starlette full documentation](https://example.org/starlette.md): A subset of the Starlette docs
+`;
+
+describe("parseLlmsTxt", () => {
+  it("should extract title, summary and details", () => {
+    const doc = parseLlmsTxt(SPEC_EXAMPLE, BASE);
+    expect(doc.title).toBe("FastHTML");
+    expect(doc.summary).toBe(
+      "FastHTML is a python library which brings together Starlette, Uvicorn, HTMX, and fastcore."
+    );
+    expect(doc.details).toContain("Important notes:");
+  });
+
+  it("should extract links with titles, notes and sections", () => {
+    const doc = parseLlmsTxt(SPEC_EXAMPLE, BASE);
+    expect(doc.sections.map((s) => s.name)).toEqual(["Docs", "Examples", "Optional"]);
+    expect(doc.links[0]).toEqual({
+      title: "FastHTML quick start",
+      url: "https://docs.example.com/quickstart.md",
+      notes: "A brief overview of many FastHTML features",
+      section: "Docs",
+    });
+    expect(doc.sections[1].links[0].section).toBe("Examples");
+  });
+
+  it("should resolve relative URLs against the llms.txt location", () => {
+    const doc = parseLlmsTxt(SPEC_EXAMPLE, BASE);
+    const urls = doc.links.map((l) => l.url);
+    expect(urls).toContain("https://docs.example.com/htmx/reference.md");
+    expect(urls).toContain("https://docs.example.com/guide/intro.md");
+  });
+
+  it("should not treat headings or prose as links", () => {
+    const doc = parseLlmsTxt(SPEC_EXAMPLE, BASE);
+    expect(doc.links).toHaveLength(5);
+  });
+
+  it("should still accept bare URL lines", () => {
+    const doc = parseLlmsTxt(
+      "https://docs.example.com/a.html\n- https://docs.example.com/b.html\n",
+      BASE
+    );
+    expect(doc.links.map((l) => l.url)).toEqual([
+      "https://docs.example.com/a.html",
+      "https://docs.example.com/b.html",
+    ]);
+    expect(doc.links[0].title).toBeUndefined();
+  });
+
+  it("should de-duplicate links and drop fragments and non-http targets", () => {
+    const doc = parseLlmsTxt(
+      `## Docs
+- [A](https://docs.example.com/a.md#intro)
+- [A again](https://docs.example.com/a.md#usage)
+- [Mail](mailto:team@example.com)`,
+      BASE
+    );
+    expect(doc.links).toEqual([
+      { title: "A", url: "https://docs.example.com/a.md", section: "Docs" },
+    ]);
+  });
+
+  it("should ignore links inside fenced code blocks", () => {
+    const doc = parseLlmsTxt("## Docs\n```\n- [x](https://example.com/x)\n```\n", BASE);
+    expect(doc.links).toHaveLength(0);
+  });
+});
+
+describe("isOptionalSection", () => {
+  it("should match the Optional section case-insensitively", () => {
+    expect(isOptionalSection("Optional")).toBe(true);
+    expect(isOptionalSection(" optional ")).toBe(true);
+    expect(isOptionalSection("Docs")).toBe(false);
+    expect(isOptionalSection(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockResolve = vi.fn();
+const mockStore = vi.fn();
+const mockDeleteByVersion = vi.fn();
+const mockAddKnowledge = vi.fn();
+
+vi.mock("../src/services/ContentResolver", () => ({
+  ContentResolver: class {
+    resolve(...args: unknown[]) {
+      return mockResolve(...args);
+    }
+  },
+}));
+
+vi.mock("../src/db/autognosticDocumentsRepository", () => ({
+  autognosticDocumentsRepository: {
+    store: (...args: unknown[]) => mockStore(...args),
+    deleteByVersion: (...args: unknown[]) => mockDeleteByVersion(...args),
+  },
+}));
+
+import {
+  mirrorDocToKnowledge,
+  normalizedContentHash,
+} from "../src/integration/mirrorDocToKnowledge";
+
+const runtime = {
+  agentId: "agent-1",
+  getService: (name: string) =>
+    name === "knowledge" ? { addKnowledge: mockAddKnowledge } : { name },
+} as any;
+
+const params = {
+  url: "https://docs.example.com/a.md",
+  filename: "a.md",
+  roomId: "room-1" as any,
+  entityId: "agent-1" as any,
+  metadata: { sourceId: "docs", versionId: "v2" },
+};
+
+function resolved(text: string, extra: Record<string, unknown> = {}) {
+  return {
+    text,
+    contentType: "text/markdown",
+    source: "raw",
+    title: "",
+    resolvedUrl: params.url,
+    metadata: {},
+    diagnostics: [],
+    ...extra,
+  };
+}
+
+describe("normalizedContentHash", () => {
+  it("should ignore whitespace-only differences", () => {
+    expect(normalizedContentHash("# Title\n\nBody  text ")).toBe(
+      normalizedContentHash("# Title\nBody text")
+    );
+    expect(normalizedContentHash("Body text")).not.toBe(normalizedContentHash("Body text!"));
+  });
+});
+
+describe("mirrorDocToKnowledge revalidation", () => {
+  beforeEach(() => {
+    mockResolve.mockReset();
+    mockStore.mockReset();
+    mockAddKnowledge.mockReset();
+    mockAddKnowledge.mockResolvedValue({ storedDocumentMemoryId: "kd-new" });
+  });
+
+  it("should skip ingest when the server answers 304", async () => {
+    mockResolve.mockResolvedValue(resolved("", { notModified: true }));
+
+    const result = await mirrorDocToKnowledge(runtime, {
+      ...params,
+      previous: { content: "old", etag: '"v1"', lastModified: null },
+    });
+
+    expect(result).toEqual({ unchanged: true, reason: "not_modified" });
+    expect(mockResolve).toHaveBeenCalledWith(params.url, {
+      validators: { etag: '"v1"', lastModified: undefined },
+    });
+    expect(mockStore).not.toHaveBeenCalled();
+    expect(mockAddKnowledge).not.toHaveBeenCalled();
+  });
+
+  it("should skip ingest when normalized content is identical", async () => {
+    mockResolve.mockResolvedValue(resolved("Same   text\n", { validators: { etag: '"v2"' } }));
+
+    const result = await mirrorDocToKnowledge(runtime, {
+      ...params,
+      previous: { content: "Same text" },
+    });
+
+    expect(result).toEqual({ unchanged: true, reason: "same_content", etag: '"v2"' });
+    expect(mockAddKnowledge).not.toHaveBeenCalled();
+  });
+
+  it("should ingest changed content and store its validators", async () => {
+    mockResolve.mockResolvedValue(
+      resolved("New text", {
+        validators: { etag: '"v2"', lastModified: "Tue, 02 Jan 2024 00:00:00 GMT" },
+      })
+    );
+
+    const result = await mirrorDocToKnowledge(runtime, {
+      ...params,
+      previous: { content: "Old text", etag: '"v1"' },
+    });
+
+    expect(result.unchanged).toBeFalsy();
+    expect(mockAddKnowledge).toHaveBeenCalledTimes(1);
+    expect(mockStore.mock.calls[0][1]).toMatchObject({
+      url: params.url,
+      etag: '"v2"',
+      lastModified: "Tue, 02 Jan 2024 00:00:00 GMT",
+    });
+  });
+
+  it("should fetch unconditionally without a previous copy", async () => {
+    mockResolve.mockResolvedValue(resolved("Text"));
+
+    await mirrorDocToKnowledge(runtime, params);
+
+    expect(mockResolve).toHaveBeenCalledWith(params.url, { validators: undefined });
+    expect(mockAddKnowledge).toHaveBeenCalledTimes(1);
+  });
+  it("should store a deferred copy without adding it to Knowledge", async () => {
+    mockResolve.mockResolvedValue(resolved("Text"));
+
+    const result = await mirrorDocToKnowledge(runtime, { ...params, deferKnowledge: true });
+
+    expect(result).toMatchObject({ deferred: true, metadata: { sourceId: "docs", versionId: "v2" } });
+    expect(mockStore).toHaveBeenCalledTimes(1);
+    expect(mockAddKnowledge).not.toHaveBeenCalled();
+  });
+});
+
+describe("mirrorDocToKnowledge redirected URLs", () => {
+  const redirected = "https://cdn.example.com/docs/a.md";
+  let docs: Array<{ sourceId: string; versionId: string; url: string }>;
+
+  beforeEach(() => {
+    docs = [];
+    mockResolve.mockReset();
+    mockResolve.mockResolvedValue(resolved("Text", { resolvedUrl: redirected }));
+    mockAddKnowledge.mockReset();
+    mockAddKnowledge.mockResolvedValue({ storedDocumentMemoryId: "kd-new" });
+    mockStore.mockReset();
+    mockStore.mockImplementation(async (_rt: unknown, doc: any) => {
+      docs.push(doc);
+    });
+    // Retiring an archived version drops every copy stored for it
+    mockDeleteByVersion.mockReset();
+    mockDeleteByVersion.mockImplementation(async (_rt: unknown, sourceId: string, versionId: string) => {
+      docs = docs.filter((d) => !(d.sourceId === sourceId && d.versionId === versionId));
+    });
+  });
+
+  it("should store only the discovered URL for reconciled files", async () => {
+    await mirrorDocToKnowledge(runtime, params);
+
+    expect(docs.map((d) => d.url)).toEqual([params.url]);
+  });
+
+  it("should keep the redirect copy in the same version, so retiring the version removes it", async () => {
+    await mirrorDocToKnowledge(runtime, { ...params, storeResolvedUrl: true });
+
+    expect(docs).toEqual([
+      expect.objectContaining({ sourceId: "docs", versionId: "v2", url: params.url }),
+      expect.objectContaining({ sourceId: "docs", versionId: "v2", url: redirected }),
+    ]);
+
+    const { autognosticDocumentsRepository } = await import("../src/db/autognosticDocumentsRepository");
+    await autognosticDocumentsRepository.deleteByVersion(runtime, "docs", "v2");
+
+    expect(docs.some((d) => d.url === redirected)).toBe(false);
+  });
+});
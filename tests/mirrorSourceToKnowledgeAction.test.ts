@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createMockRuntime } from "./setup";
+
+const mockSubmit = vi.fn();
+
+vi.mock("../src/orchestrator/previewSource", () => ({
+  previewSourceFiles: async () => ({
+    totalBytes: 2048,
+    files: [{ path: "a.md", estBytes: 2048 }],
+  }),
+}));
+
+vi.mock("../src/publicspace/discoveryFactory", () => ({
+  createDiscoveryForRawUrl: () => ({ discovery: {} }),
+}));
+
+vi.mock("../src/db/autognosticSettingsRepository", () => ({
+  AutognosticSettingsRepository: class {
+    getPolicy = async () => null;
+  },
+}));
+
+vi.mock("../src/services/JobQueueService", () => ({
+  describeProgress: () => "",
+  getJobQueueService: () => ({ submit: (...args: unknown[]) => mockSubmit(...args) }),
+}));
+
+import { MirrorSourceToKnowledgeAction } from "../src/actions/mirrorSourceToKnowledgeAction";
+
+function createMessage(extras: Record<string, unknown> = {}) {
+  return {
+    content: { text: "mirror https://docs.example.com", sourceId: "docs", sourceUrl: "https://docs.example.com", ...extras },
+    userId: "test-user",
+    roomId: "test-room",
+  } as any;
+}
+
+describe("MirrorSourceToKnowledgeAction", () => {
+  const runtime = createMockRuntime();
+  let callback: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    callback = vi.fn();
+    mockSubmit.mockReset();
+  });
+
+  it("should report a reconciled source as mirrored", async () => {
+    mockSubmit.mockResolvedValue({ sourceId: "docs", status: "reconciled" });
+
+    const result = (await MirrorSourceToKnowledgeAction.handler(
+      runtime as any, createMessage(), undefined, undefined, callback
+    )) as any;
+
+    expect(result.success).toBe(true);
+    expect(result.text).toContain("Mirrored source docs");
+  });
+
+  it("should report a failed reconcile with its error", async () => {
+    mockSubmit.mockResolvedValue({ sourceId: "docs", status: "failed", error: "HTTP 500 for llms.txt" });
+
+    const result = (await MirrorSourceToKnowledgeAction.handler(
+      runtime as any, createMessage(), undefined, undefined, callback
+    )) as any;
+
+    expect(result.success).toBe(false);
+    expect(result.text).toContain("HTTP 500 for llms.txt");
+    expect(result.data).toMatchObject({ status: "failed", error: "HTTP 500 for llms.txt" });
+    expect(callback.mock.calls[0][0].text).not.toContain("Mirrored");
+  });
+
+  it("should report a timed-out reconcile as unfinished", async () => {
+    mockSubmit.mockResolvedValue({ sourceId: "docs", status: "timed_out", error: "Not started within 600s reconcile limit" });
+
+    const result = (await MirrorSourceToKnowledgeAction.handler(
+      runtime as any, createMessage(), undefined, undefined, callback
+    )) as any;
+
+    expect(result.success).toBe(false);
+    expect(result.text).toContain("timed out");
+    expect(result.data).toMatchObject({ status: "timed_out", error: "Not started within 600s reconcile limit" });
+  });
+});
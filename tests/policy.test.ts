@@ -97,6 +97,10 @@ describe("RefreshPolicy", () => {
     it("should have startupReconcileTimeoutMs at 60 seconds", () => {
       expect(DEFAULT_REFRESH_POLICY.startupReconcileTimeoutMs).toBe(60 * 1000);
     });
+
+    it("should keep archived versions for 30 days", () => {
+      expect(DEFAULT_REFRESH_POLICY.versionRetentionMs).toBe(30 * 24 * 60 * 60 * 1000);
+    });
   });
 
   describe("cache freshness logic", () => {
@@ -106,6 +110,7 @@ describe("RefreshPolicy", () => {
         reconcileCooldownMs: 5 * 60 * 1000,
         maxConcurrentReconciles: 2,
         startupReconcileTimeoutMs: 60 * 1000,
+        versionRetentionMs: 30 * 24 * 60 * 60 * 1000,
       };
 
       const cachedAt = new Date(Date.now() - 5 * 60 * 1000); // 5 min ago
@@ -121,6 +126,7 @@ describe("RefreshPolicy", () => {
         reconcileCooldownMs: 5 * 60 * 1000,
         maxConcurrentReconciles: 2,
         startupReconcileTimeoutMs: 60 * 1000,
+        versionRetentionMs: 30 * 24 * 60 * 60 * 1000,
       };
 
       const cachedAt = new Date(Date.now() - 15 * 60 * 1000); // 15 min ago
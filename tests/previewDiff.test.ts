@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { diffPreviews, fileFingerprint } from "../src/orchestrator/previewDiff";
+import type { FilePreview, SourcePreview } from "../src/orchestrator/previewSource";
+
+function file(name: string, overrides: Partial<FilePreview> = {}): FilePreview {
+  return {
+    url: `https://docs.example.com/${name}`,
+    path: name,
+    estBytes: 1000,
+    contentType: "text/markdown",
+    ...overrides,
+  };
+}
+
+function preview(files: FilePreview[]): SourcePreview {
+  return {
+    sourceId: "docs",
+    totalBytes: files.reduce((n, f) => n + f.estBytes, 0),
+    files,
+  };
+}
+
+describe("diffPreviews", () => {
+  it("should treat every file as added when there is no previous preview", () => {
+    const diff = diffPreviews(null, preview([file("a.md"), file("b.md")]));
+    expect(diff.added.map((f) => f.path)).toEqual(["a.md", "b.md"]);
+    expect(diff.changed).toHaveLength(0);
+    expect(diff.removed).toHaveLength(0);
+    expect(diff.unchanged).toHaveLength(0);
+  });
+
+  it("should classify added, changed, removed and unchanged files by URL", () => {
+    const before = preview([
+      file("a.md"),
+      file("b.md", { etag: '"v1"' }),
+      file("gone.md"),
+    ]);
+    const after = preview([
+      file("a.md"),
+      file("b.md", { etag: '"v2"' }),
+      file("new.md"),
+    ]);
+
+    const diff = diffPreviews(before, after);
+    expect(diff.added.map((f) => f.path)).toEqual(["new.md"]);
+    expect(diff.changed.map((f) => f.path)).toEqual(["b.md"]);
+    expect(diff.removed.map((f) => f.path)).toEqual(["gone.md"]);
+    expect(diff.unchanged.map((f) => f.path)).toEqual(["a.md"]);
+  });
+
+  it("should detect size and last-modified changes", () => {
+    const before = preview([
+      file("a.md"),
+      file("b.md", { lastModified: "Mon, 01 Jan 2024 00:00:00 GMT" }),
+    ]);
+    const after = preview([
+      file("a.md", { estBytes: 1200 }),
+      file("b.md", { lastModified: "Tue, 02 Jan 2024 00:00:00 GMT" }),
+    ]);
+
+    const diff = diffPreviews(before, after);
+    expect(diff.changed.map((f) => f.path)).toEqual(["a.md", "b.md"]);
+  });
+
+  it("should treat a moved sitemap lastmod as a change only when both sides have one", () => {
+    const before = preview([file("a.md", { lastmod: "2025-01-01" }), file("b.md")]);
+    const after = preview([
+      file("a.md", { lastmod: "2025-02-01" }),
+      file("b.md", { lastmod: "2025-02-01" }),
+    ]);
+
+    const diff = diffPreviews(before, after);
+    expect(diff.changed.map((f) => f.path)).toEqual(["a.md"]);
+    expect(diff.unchanged.map((f) => f.path)).toEqual(["b.md"]);
+  });
+
+  it("should treat files without any change signal as changed", () => {
+    const blind = file("a.md", { estBytes: 0, contentType: "unknown" });
+    const diff = diffPreviews(preview([blind]), preview([blind]));
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.unchanged).toHaveLength(0);
+  });
+
+  it("should ignore duplicate URLs in the new preview", () => {
+    const diff = diffPreviews(null, preview([file("a.md"), file("a.md")]));
+    expect(diff.added).toHaveLength(1);
+  });
+
+  it("should only touch one file in a large source when one page changes", () => {
+    const pages = Array.from({ length: 400 }, (_, i) => file(`page-${i}.md`));
+    const edited = pages.map((f, i) => (i === 137 ? { ...f, estBytes: 1001 } : f));
+
+    const diff = diffPreviews(preview(pages), preview(edited));
+    expect(diff.changed.map((f) => f.path)).toEqual(["page-137.md"]);
+    expect(diff.unchanged).toHaveLength(399);
+  });
+});
+
+describe("fileFingerprint", () => {
+  it("should ignore content type", () => {
+    expect(fileFingerprint(file("a.md"))).toBe(
+      fileFingerprint(file("a.md", { contentType: "text/plain" }))
+    );
+  });
+});
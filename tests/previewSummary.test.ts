@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { FilePreview, SourcePreview } from "../src/orchestrator/previewSource";
+import { estimateChunks, sizePolicyVerdict, summarizePreview } from "../src/orchestrator/previewSummary";
+import { DEFAULT_SIZE_POLICY } from "../src/config/SizePolicy";
+
+const state = vi.hoisted(() => ({
+  sources: [] as any[],
+  active: null as any,
+  preview: null as any,
+  probedAgainst: undefined as any,
+}));
+
+vi.mock("../src/db/autognosticSourcesRepository", () => ({
+  AutognosticSourcesRepository: class {
+    async getById(id: string) {
+      return state.sources.find((s) => s.id === id) ?? null;
+    }
+    async listAll() {
+      return state.sources;
+    }
+  },
+}));
+
+vi.mock("../src/db/autognosticVersionsRepository", () => ({
+  AutognosticVersionsRepository: class {
+    async getLatestActive() {
+      return state.active;
+    }
+  },
+}));
+
+vi.mock("../src/db/autognosticSettingsRepository", () => ({
+  AutognosticSettingsRepository: class {
+    async getPolicy() {
+      return null;
+    }
+  },
+}));
+
+vi.mock("../src/publicspace/discoveryFactory", () => ({
+  createDiscoveryForRawUrl: () => ({ classified: { kind: "llms_txt" }, discovery: {} }),
+}));
+
+vi.mock("../src/orchestrator/previewSource", () => ({
+  previewSourceFiles: async (_rt: unknown, _id: string, _discovery: unknown, previous: unknown) => {
+    state.probedAgainst = previous;
+    return state.preview;
+  },
+}));
+
+import { PreviewSourceAction } from "../src/actions/previewSourceAction";
+
+const KB = 1024;
+const MB = 1024 * 1024;
+
+function file(path: string, estBytes: number, overrides: Partial<FilePreview> = {}): FilePreview {
+  return {
+    url: `https://docs.example.com/${path}`,
+    path,
+    estBytes,
+    contentType: "text/markdown",
+    etag: `"${path}-${estBytes}"`,
+    ...overrides,
+  };
+}
+
+function preview(files: FilePreview[]): SourcePreview {
+  return { sourceId: "docs", totalBytes: files.reduce((n, f) => n + f.estBytes, 0), files };
+}
+
+describe("estimateChunks", () => {
+  it("should count one chunk for small files and stride by chunk size minus overlap", () => {
+    expect(estimateChunks(0)).toBe(0);
+    expect(estimateChunks(100)).toBe(1);
+    expect(estimateChunks(2000)).toBe(1);
+    // 4000 tokens: (4000 - 100) / 400 → 10 chunks
+    expect(estimateChunks(16_000)).toBe(10);
+  });
+});
+
+describe("sizePolicyVerdict", () => {
+  const policy = { previewAlways: false, autoIngestBelowBytes: 10 * MB, maxBytesHardLimit: 100 * MB };
+
+  it("should say which limit applies", () => {
+    expect(sizePolicyVerdict(5 * MB, policy)).toBe("auto_ingest");
+    expect(sizePolicyVerdict(50 * MB, policy)).toBe("needs_confirmation");
+    expect(sizePolicyVerdict(500 * MB, policy)).toBe("exceeds_hard_limit");
+    expect(sizePolicyVerdict(5 * MB, { ...policy, previewAlways: true })).toBe("needs_confirmation");
+  });
+});
+
+describe("summarizePreview", () => {
+  it("should break a preview down against the active version", () => {
+    const before = preview([file("a.md", 2 * KB), file("b.md", 3 * KB), file("gone.md", KB)]);
+    const next = preview([
+      file("a.md", 2 * KB),
+      file("b.md", 4 * KB),
+      file("c.html", 40 * KB, { contentType: "text/html; charset=utf-8" }),
+      file("d.md", 0, { etag: undefined }),
+    ]);
+
+    const summary = summarizePreview(next, { versionId: "v1", preview: before }, DEFAULT_SIZE_POLICY);
+
+    expect(summary.fileCount).toBe(4);
+    expect(summary.unknownSizeFiles).toBe(1);
+    expect(summary.changes).toEqual({ comparedWith: "v1", added: 2, changed: 1, unchanged: 1, removed: 1 });
+    expect(summary.largestFiles.map((f) => f.path)).toEqual(["c.html", "b.md", "a.md"]);
+    expect(summary.contentTypes).toEqual([
+      { contentType: "text/markdown", count: 3, bytes: 6 * KB },
+      { contentType: "text/html", count: 1, bytes: 40 * KB },
+    ]);
+    expect(summary.estimatedChunks).toBe(estimateChunks(2 * KB) + estimateChunks(4 * KB) + estimateChunks(40 * KB));
+    expect(summary.sizePolicy.verdict).toBe("auto_ingest");
+  });
+
+  it("should count every file as new without an active version", () => {
+    const summary = summarizePreview(preview([file("a.md", KB)]), null, DEFAULT_SIZE_POLICY);
+    expect(summary.changes).toEqual({ comparedWith: null, added: 1, changed: 0, unchanged: 0, removed: 0 });
+  });
+});
+
+describe("PREVIEW_SOURCE action", () => {
+  beforeEach(() => {
+    state.sources = [];
+    state.active = null;
+    state.preview = null;
+    state.probedAgainst = undefined;
+  });
+
+  async function ask(args: Record<string, unknown>) {
+    const callback = vi.fn();
+    const result = await PreviewSourceAction.handler(
+      { agentId: "agent" } as any,
+      { content: { text: "preview the docs mirror", ...args } } as any,
+      undefined,
+      undefined,
+      callback
+    );
+    return { result: result as any, callback };
+  }
+
+  it("should compare an existing source with its active version", async () => {
+    const active = preview([file("a.md", 2 * KB), file("b.md", 3 * KB)]);
+    state.sources = [{ id: "docs", sourceUrl: "https://docs.example.com/llms.txt", pinnedVersionId: null }];
+    state.active = { versionId: "abcdef1234567890", previewJson: active };
+    state.preview = preview([file("a.md", 2 * KB), file("b.md", 5 * KB), file("c.md", 60 * MB)]);
+
+    const { result, callback } = await ask({ sourceId: "docs" });
+
+    expect(result.success).toBe(true);
+    expect(state.probedAgainst).toBe(active);
+    expect(result.text).toContain("Preview of docs (https://docs.example.com/llms.txt): 3 files");
+    expect(result.text).toContain("Compared with active version abcdef123456: 1 new, 1 changed, 1 unchanged, 0 removed.");
+    expect(result.text).toContain("- c.md: 60.00 MB");
+    expect(result.text).toContain("Content types: text/markdown 3");
+    expect(result.text).toContain("over the auto-ingest limit (50.00 MB); a first mirror needs confirmLargeIngest.");
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({ action: "PREVIEW_SOURCE" }));
+  });
+
+  it("should preview a new URL as all-new files", async () => {
+    state.preview = preview([file("a.md", 2 * KB)]);
+
+    const { result } = await ask({ sourceUrl: "https://new.example.com/llms.txt" });
+
+    expect(result.success).toBe(true);
+    expect(result.text).toContain("Nothing mirrored yet; all 1 files are new.");
+    expect(result.text).toContain("under the auto-ingest limit");
+  });
+
+  it("should report an unknown source", async () => {
+    const { result } = await ask({ sourceId: "missing" });
+    expect(result.success).toBe(false);
+    expect(result.text).toBe("Source missing not found.");
+  });
+});
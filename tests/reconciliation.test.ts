@@ -0,0 +1,1173 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { SourcePreview } from "../src/orchestrator/previewSource";
+
+// ---------------------------------------------------------------------------
+// In-memory stand-ins for the repositories ReconciliationService talks to
+// ---------------------------------------------------------------------------
+
+interface LinkRow {
+  sourceId: string;
+  versionId: string;
+  knowledgeDocumentId: string;
+  url: string | null;
+}
+
+interface VersionRow {
+  sourceId: string;
+  versionId: string;
+  status: string;
+  previewJson: SourcePreview | null;
+  failureReason?: string;
+  archivedAt?: Date | null;
+}
+
+interface SourceRow {
+  leaseHolder: string | null;
+  leaseExpiresAt: Date | null;
+  lastReconciledAt: Date | null;
+  pinnedVersionId?: string | null;
+  upstreamVersionId?: string | null;
+  enabled?: boolean;
+  consecutiveFailures?: number;
+  lastErrorCode?: string | null;
+  nextAttemptAt?: Date | null;
+  autoDisabledAt?: Date | null;
+}
+
+/** One row per version a stored document serves; `id` is shared between versions. */
+interface DocRow {
+  id: string;
+  sourceId: string;
+  versionId: string;
+  url: string;
+  content: string;
+  contentHash: string;
+  profile: unknown;
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+const state = {
+  links: [] as LinkRow[],
+  docs: [] as DocRow[],
+  versions: [] as VersionRow[],
+  preview: null as SourcePreview | null,
+  policy: {} as Record<string, number>,
+  sources: new Map<string, SourceRow>(),
+  failActivation: false,
+};
+
+const mockMirror = vi.fn();
+const mockRemove = vi.fn();
+const mockRestore = vi.fn();
+
+// Mirrors the conditional UPDATE in AutognosticSourcesRepository.tryAcquireLease
+vi.mock("../src/db/autognosticSourcesRepository", () => ({
+  AutognosticSourcesRepository: class {
+    async getOrCreate(id: string) {
+      if (!state.sources.has(id)) {
+        state.sources.set(id, { leaseHolder: null, leaseExpiresAt: null, lastReconciledAt: null });
+      }
+      return { id, ...state.sources.get(id)! };
+    }
+    async getById(id: string) {
+      const row = state.sources.get(id);
+      return row ? { id, ...row } : null;
+    }
+    async tryAcquireLease(id: string, holder: string, ttlMs: number, cooldownMs = 0) {
+      const row = state.sources.get(id)!;
+      const now = Date.now();
+      if (row.leaseExpiresAt && row.leaseExpiresAt.getTime() > now) return false;
+      if (cooldownMs > 0 && row.lastReconciledAt && row.lastReconciledAt.getTime() > now - cooldownMs) {
+        return false;
+      }
+      row.leaseHolder = holder;
+      row.leaseExpiresAt = new Date(now + ttlMs);
+      return true;
+    }
+    async renewLease() {
+      return true;
+    }
+    async setPin(id: string, versionId: string | null) {
+      Object.assign(state.sources.get(id)!, { pinnedVersionId: versionId, upstreamVersionId: null });
+    }
+    async recordSyncSuccess(id: string) {
+      const row = state.sources.get(id)!;
+      if (row.autoDisabledAt) row.enabled = true;
+      Object.assign(row, { consecutiveFailures: 0, lastErrorCode: null, nextAttemptAt: null, autoDisabledAt: null });
+    }
+    async recordSyncFailure(id: string, failure: any) {
+      const row = state.sources.get(id)!;
+      Object.assign(row, {
+        consecutiveFailures: failure.consecutiveFailures,
+        lastErrorCode: failure.code,
+        nextAttemptAt: failure.nextAttemptAt,
+      });
+      if (failure.disable) Object.assign(row, { enabled: false, autoDisabledAt: new Date() });
+    }
+    async recordUpstreamVersion(id: string, versionId: string | null) {
+      state.sources.get(id)!.upstreamVersionId = versionId;
+    }
+    async releaseLease(id: string, holder: string, completed = false) {
+      const row = state.sources.get(id)!;
+      if (row.leaseHolder !== holder) return;
+      row.leaseHolder = null;
+      row.leaseExpiresAt = null;
+      if (completed) row.lastReconciledAt = new Date();
+    }
+  },
+}));
+
+vi.mock("../src/db/autognosticRefreshSettingsRepository", () => ({
+  AutognosticRefreshSettingsRepository: class {
+    async getPolicy() {
+      return { previewCacheTtlMs: 0, ...state.policy };
+    }
+  },
+}));
+
+vi.mock("../src/db/autognosticSettingsRepository", () => ({
+  AutognosticSettingsRepository: class {
+    async getPolicy() {
+      return null;
+    }
+  },
+}));
+
+vi.mock("../src/db/autognosticPreviewCacheRepository", () => ({
+  AutognosticPreviewCacheRepository: class {
+    async get() {
+      return null;
+    }
+    async set() {}
+  },
+}));
+
+vi.mock("../src/db/autognosticVersionsRepository", () => ({
+  AutognosticVersionsRepository: class {
+    async getLatestActive(sourceId: string) {
+      return state.versions.find((v) => v.sourceId === sourceId && v.status === "active") ?? null;
+    }
+    async getVersion(sourceId: string, versionId: string) {
+      return state.versions.find((v) => v.sourceId === sourceId && v.versionId === versionId) ?? null;
+    }
+    async activateWithLinks(
+      sourceId: string,
+      versionId: string,
+      links: Array<{ knowledgeDocumentId: string; url: string | null }>
+    ) {
+      if (state.failActivation) throw new Error("transaction aborted");
+      await this.markActive(sourceId, versionId);
+      state.links = state.links.filter((l) => !(l.sourceId === sourceId && l.versionId === versionId));
+      for (const link of links) state.links.push({ sourceId, versionId, ...link });
+    }
+    async createStaging(sourceId: string, versionId: string, preview?: SourcePreview) {
+      const existing = state.versions.find((x) => x.sourceId === sourceId && x.versionId === versionId);
+      if (existing) {
+        if (preview) existing.previewJson = preview;
+        return;
+      }
+      state.versions.push({ sourceId, versionId, status: "staging", previewJson: preview ?? null });
+    }
+    async updatePreview(sourceId: string, versionId: string, preview: SourcePreview) {
+      const v = state.versions.find((x) => x.sourceId === sourceId && x.versionId === versionId);
+      if (v) v.previewJson = preview;
+    }
+    async markActive(sourceId: string, versionId: string) {
+      for (const v of state.versions) {
+        if (v.sourceId === sourceId && v.status === "active") {
+          v.status = "archived";
+          v.archivedAt = new Date();
+        }
+      }
+      const v = state.versions.find((x) => x.sourceId === sourceId && x.versionId === versionId);
+      if (v) {
+        v.status = "active";
+        v.archivedAt = null;
+      }
+    }
+    async listArchivedBefore(sourceId: string, cutoff: Date) {
+      return state.versions.filter(
+        (v) =>
+          v.sourceId === sourceId &&
+          v.status === "archived" &&
+          (!v.archivedAt || v.archivedAt < cutoff)
+      );
+    }
+    async deleteVersion(sourceId: string, versionId: string) {
+      const other = (r: { sourceId: string; versionId: string }) =>
+        !(r.sourceId === sourceId && r.versionId === versionId);
+      state.docs = state.docs.filter(other);
+      state.links = state.links.filter(other);
+      state.versions = state.versions.filter(other);
+    }
+    async markFailed(sourceId: string, versionId: string, reason: string) {
+      const v = state.versions.find((x) => x.sourceId === sourceId && x.versionId === versionId);
+      if (v) {
+        v.status = "failed";
+        v.failureReason = reason;
+      }
+    }
+  },
+}));
+
+vi.mock("../src/db/autognosticKnowledgeLinkRepository", () => ({
+  AutognosticKnowledgeLinkRepository: class {
+    async addLink(params: Omit<LinkRow, "url"> & { url?: string }) {
+      state.links.push({ ...params, url: params.url ?? null });
+    }
+    async listBySourceVersion(sourceId: string, versionId: string) {
+      return state.links.filter((l) => l.sourceId === sourceId && l.versionId === versionId);
+    }
+    async deleteByKnowledgeId(id: string) {
+      state.links = state.links.filter((l) => l.knowledgeDocumentId !== id);
+    }
+  },
+}));
+
+vi.mock("../src/db/autognosticDocumentsRepository", () => ({
+  AutognosticDocumentsRepository: class {
+    async store(doc: Omit<DocRow, "id">) {
+      state.docs.push({ id: `doc-${state.docs.length + 1}`, ...doc });
+    }
+    async linkToVersion(
+      documentId: string,
+      sourceId: string,
+      versionId: string,
+      validators?: { etag: string | null; lastModified: string | null }
+    ) {
+      const doc = state.docs.find((d) => d.id === documentId)!;
+      if (!state.docs.some((d) => d.id === documentId && d.versionId === versionId)) {
+        state.docs.push({ ...doc, sourceId, versionId });
+      }
+      if (validators) {
+        for (const d of state.docs) if (d.id === documentId) Object.assign(d, validators);
+      }
+    }
+    async getBySourceAndVersion(sourceId: string, versionId: string) {
+      return state.docs.filter((d) => d.sourceId === sourceId && d.versionId === versionId);
+    }
+    async deleteByVersion(sourceId: string, versionId: string, keepUrls: string[] = []) {
+      state.docs = state.docs.filter(
+        (d) => !(d.sourceId === sourceId && d.versionId === versionId && !keepUrls.includes(d.url))
+      );
+    }
+  },
+}));
+
+vi.mock("../src/publicspace/discoveryFactory", () => ({
+  createDiscoveryForRawUrl: () => ({
+    classified: { kind: "llms_txt" },
+    discovery: { list: async () => [] },
+  }),
+}));
+
+vi.mock("../src/orchestrator/previewSource", () => ({
+  previewSourceFiles: async () => state.preview,
+}));
+
+vi.mock("../src/integration/mirrorDocToKnowledge", () => ({
+  mirrorDocToKnowledge: (...args: unknown[]) => mockMirror(...args),
+  restoreDocToKnowledge: (...args: unknown[]) => mockRestore(...args),
+}));
+
+vi.mock("../src/integration/removeFromKnowledge", () => ({
+  removeFromKnowledge: (...args: unknown[]) => mockRemove(...args),
+}));
+
+import { ReconciliationService } from "../src/orchestrator/ReconciliationService";
+import { RECONCILIATION_DEFAULTS, SOURCE_HEALTH_DEFAULTS } from "../src/config/constants";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const runtime = {
+  agentId: "agent-1",
+  getService: vi.fn().mockReturnValue({}),
+} as any;
+
+const source = { id: "docs", sourceUrl: "https://docs.example.com/llms.txt", enabled: true };
+
+function pages(names: string[], bytes: Record<string, number> = {}): SourcePreview {
+  const files = names.map((name) => ({
+    url: `https://docs.example.com/${name}`,
+    path: name,
+    estBytes: bytes[name] ?? 100,
+    contentType: "text/markdown",
+  }));
+  return { sourceId: "docs", totalBytes: files.length * 100, files };
+}
+
+/** A job's checkpoint that records every callback */
+function checkpoint(versionId: string | null, ingested: Map<string, string>) {
+  return {
+    versionId,
+    ingested,
+    started: [] as Array<[string, number]>,
+    items: [] as Array<[string, { ok: boolean }]>,
+    added: [] as Array<[string, string]>,
+    discarded: 0,
+    async onStart(v: string, total: number) {
+      this.started.push([v, total]);
+    },
+    async onItem(url: string, outcome: { ok: boolean }) {
+      this.items.push([url, outcome]);
+    },
+    async onIngested(url: string, knowledgeDocumentId: string) {
+      this.added.push([url, knowledgeDocumentId]);
+    },
+    async onDiscarded() {
+      this.discarded++;
+    },
+  };
+}
+
+let docCounter = 0;
+
+describe("ReconciliationService incremental reconcile", () => {
+  beforeEach(() => {
+    state.links = [];
+    state.docs = [];
+    state.versions = [];
+    state.preview = null;
+    // Most tests reconcile the same source back to back
+    state.policy = { reconcileCooldownMs: 0 };
+    state.sources = new Map();
+    state.failActivation = false;
+    docCounter = 0;
+    mockMirror.mockReset();
+    // Mirrors what mirrorDocToKnowledge does when given sourceId/versionId metadata
+    mockMirror.mockImplementation(async (_rt: unknown, params: any) => {
+      const id = `kd-${++docCounter}`;
+      state.docs.push({
+        id: `doc-${id}`,
+        sourceId: params.metadata.sourceId,
+        versionId: params.metadata.versionId,
+        url: params.url,
+        content: `content of ${id}`,
+        contentHash: id,
+        profile: { id },
+        etag: `"${id}"`,
+      });
+      return { deferred: true, metadata: { ...params.metadata, mirrored: id } };
+    });
+    mockRemove.mockReset();
+    mockRemove.mockResolvedValue({ removed: 0, failed: 0 });
+    mockRestore.mockReset();
+    // Publishing a staged file keeps the id its mirror produced; restoring a retained copy gets a new one
+    mockRestore.mockImplementation(async (_rt: unknown, _doc: unknown, params: any) => ({
+      knowledgeDocumentId: params.metadata?.mirrored ?? `kd-${++docCounter}`,
+    }));
+  });
+
+  it("should ingest every file on first reconcile", async () => {
+    state.preview = pages(["a.md", "b.md", "c.md"]);
+    const result = await new ReconciliationService(runtime).verifyAndReconcileOne(source);
+
+    expect(result.status).toBe("reconciled");
+    expect(result.changes).toEqual({ added: 3, changed: 0, removed: 0, unchanged: 0 });
+    expect(mockMirror).toHaveBeenCalledTimes(3);
+    expect(mockRemove).not.toHaveBeenCalled();
+  });
+
+  it("should only ingest changed files and carry links forward for the rest", async () => {
+    const svc = new ReconciliationService(runtime);
+    state.preview = pages(["a.md", "b.md", "c.md"]);
+    await svc.verifyAndReconcileOne(source);
+    mockMirror.mockClear();
+
+    state.preview = pages(["a.md", "b.md", "c.md"], { "b.md": 250 });
+    const result = await svc.verifyAndReconcileOne(source);
+
+    expect(result.changes).toEqual({ added: 0, changed: 1, removed: 0, unchanged: 2 });
+    expect(mockMirror).toHaveBeenCalledTimes(1);
+    expect(mockMirror.mock.calls[0][1].url).toBe("https://docs.example.com/b.md");
+
+    // Old copy of b.md retired, a.md and c.md keep their knowledge docs
+    expect(mockRemove).toHaveBeenCalledWith(runtime, ["kd-2"]);
+    const active = state.versions.find((v) => v.status === "active")!;
+    const activeLinks = state.links
+      .filter((l) => l.versionId === active.versionId)
+      .map((l) => l.knowledgeDocumentId)
+      .sort();
+    expect(activeLinks).toEqual(["kd-1", "kd-3", "kd-4"]);
+  });
+
+  it("should remove knowledge for pages that disappeared", async () => {
+    const svc = new ReconciliationService(runtime);
+    state.preview = pages(["a.md", "b.md"]);
+    await svc.verifyAndReconcileOne(source);
+    mockMirror.mockClear();
+
+    state.preview = pages(["a.md"]);
+    const result = await svc.verifyAndReconcileOne(source);
+
+    expect(result.changes).toEqual({ added: 0, changed: 0, removed: 1, unchanged: 1 });
+    expect(mockMirror).not.toHaveBeenCalled();
+    expect(mockRemove).toHaveBeenCalledWith(runtime, ["kd-2"]);
+    expect(state.links.some((l) => l.knowledgeDocumentId === "kd-2")).toBe(false);
+  });
+
+  it("should keep the previous copy when re-ingesting a changed file fails", async () => {
+    const svc = new ReconciliationService(runtime);
+    const rest = Array.from({ length: 9 }, (_, i) => `p${i}.md`);
+    state.preview = pages(["a.md", ...rest]);
+    await svc.verifyAndReconcileOne(source);
+
+    mockMirror.mockRejectedValueOnce(new Error("fetch failed"));
+    state.preview = pages(["a.md", ...rest], { "a.md": 300 });
+    const result = await svc.verifyAndReconcileOne(source);
+
+    // One failure in ten files stays under the threshold
+    expect(result.status).toBe("reconciled");
+    expect(mockRemove).not.toHaveBeenCalled();
+    const active = state.versions.find((v) => v.status === "active")!;
+    expect(active.versionId).toBe(result.versionId);
+    expect(
+      state.links.filter((l) => l.versionId === active.versionId).map((l) => l.knowledgeDocumentId)
+    ).toContain("kd-1");
+
+    // The failed file is retried on the next reconcile instead of looking unchanged
+    mockMirror.mockClear();
+    state.preview = pages(["a.md", "b.md", ...rest], { "a.md": 300 });
+    await svc.verifyAndReconcileOne(source);
+    expect(mockMirror.mock.calls.map((c) => c[1].url).sort()).toEqual([
+      "https://docs.example.com/a.md",
+      "https://docs.example.com/b.md",
+    ]);
+  });
+
+  it("should abandon a version when too many files fail and keep the previous one", async () => {
+    const svc = new ReconciliationService(runtime);
+    state.preview = pages(["a.md", "b.md", "c.md"]);
+    const first = await svc.verifyAndReconcileOne(source);
+
+    const base = mockMirror.getMockImplementation()!;
+    mockMirror.mockImplementation(async (rt: unknown, params: any) => {
+      if (params.url.endsWith("/c.md")) throw new Error("fetch failed");
+      return base(rt, params);
+    });
+    state.preview = pages(["a.md", "b.md", "c.md"], { "b.md": 250, "c.md": 250 });
+    mockRestore.mockClear();
+    const result = await svc.verifyAndReconcileOne(source);
+
+    expect(result.status).toBe("failed");
+    expect(result.error).toBe("1 of 3 files failed to ingest; keeping previous version");
+    // b.md's new copy never reached Knowledge; the previous version still serves its own
+    expect(mockRestore).not.toHaveBeenCalled();
+    expect(mockRemove).not.toHaveBeenCalled();
+    expect(state.versions.find((v) => v.status === "active")!.versionId).toBe(first.versionId);
+    expect(
+      state.links.filter((l) => l.versionId === first.versionId).map((l) => l.knowledgeDocumentId).sort()
+    ).toEqual(["kd-1", "kd-2", "kd-3"]);
+    expect(state.links.some((l) => l.versionId === result.versionId)).toBe(false);
+  });
+
+  it("should leave the previous version serving when activation fails", async () => {
+    const svc = new ReconciliationService(runtime);
+    state.preview = pages(["a.md", "b.md"]);
+    const first = await svc.verifyAndReconcileOne(source);
+
+    state.failActivation = true;
+    state.preview = pages(["a.md", "b.md"], { "b.md": 250 });
+    const job = checkpoint(null, new Map());
+    const result = await svc.verifyAndReconcileOne(source, { checkpoint: job });
+
+    expect(result.status).toBe("failed");
+    expect(mockRemove).toHaveBeenCalledWith(runtime, ["kd-3"]);
+    expect(job.discarded).toBe(1);
+    expect(mockRemove).not.toHaveBeenCalledWith(runtime, ["kd-2"]);
+    expect(state.versions.find((v) => v.status === "active")!.versionId).toBe(first.versionId);
+    expect(state.links.map((l) => l.knowledgeDocumentId).sort()).toEqual(["kd-1", "kd-2"]);
+  });
+
+  it("should remove superseded knowledge only after the new version is active", async () => {
+    const svc = new ReconciliationService(runtime);
+    state.preview = pages(["a.md", "b.md"]);
+    await svc.verifyAndReconcileOne(source);
+
+    let activeAtRemoval: string | undefined;
+    mockRemove.mockImplementation(async () => {
+      activeAtRemoval = state.versions.find((v) => v.status === "active")?.versionId;
+      return { removed: 1, failed: 0 };
+    });
+    state.preview = pages(["a.md", "b.md"], { "b.md": 250 });
+    const result = await svc.verifyAndReconcileOne(source);
+
+    expect(mockRemove).toHaveBeenCalledWith(runtime, ["kd-2"]);
+    expect(activeAtRemoval).toBe(result.versionId);
+  });
+
+  it("should add staged files to Knowledge only once every file is staged", async () => {
+    const svc = new ReconciliationService(runtime);
+    const order: string[] = [];
+    const ingest = mockMirror.getMockImplementation()!;
+    mockMirror.mockImplementation(async (rt: unknown, params: any) => {
+      order.push(`fetch ${params.url.split("/").pop()}`);
+      return ingest(rt, params);
+    });
+    const publish = mockRestore.getMockImplementation()!;
+    mockRestore.mockImplementation(async (rt: unknown, doc: any, params: any) => {
+      order.push(`add ${doc.url.split("/").pop()}`);
+      return publish(rt, doc, params);
+    });
+    state.preview = pages(["a.md", "b.md"]);
+
+    const result = await svc.verifyAndReconcileOne(source);
+
+    expect(result.status).toBe("reconciled");
+    expect(order.slice(0, 2).sort()).toEqual(["fetch a.md", "fetch b.md"]);
+    expect(order.slice(2).sort()).toEqual(["add a.md", "add b.md"]);
+    expect(mockMirror.mock.calls.every(([, params]) => params.deferKnowledge)).toBe(true);
+  });
+
+  it("should refuse to retire everything when discovery comes back empty", async () => {
+    const svc = new ReconciliationService(runtime);
+    state.preview = pages(["a.md"]);
+    const first = await svc.verifyAndReconcileOne(source);
+
+    state.preview = pages([]);
+    const result = await svc.verifyAndReconcileOne(source);
+
+    expect(result.status).toBe("failed");
+    expect(mockRemove).not.toHaveBeenCalled();
+    expect(state.versions.find((v) => v.status === "active")!.versionId).toBe(first.versionId);
+  });
+
+  it("should resume an interrupted version without re-ingesting checkpointed files", async () => {
+    state.preview = pages(["a.md", "b.md", "c.md"]);
+    const first = checkpoint(null, new Map());
+    const svc = new ReconciliationService(runtime);
+    const { versionId } = await svc.verifyAndReconcileOne(source, { checkpoint: first });
+    expect(first.started).toEqual([[versionId, 3]]);
+    expect(first.items.every(([, o]) => o.ok)).toBe(true);
+    expect(first.added.map(([, id]) => id).sort()).toEqual(["kd-1", "kd-2", "kd-3"]);
+
+    // The process died while publishing, after a.md and b.md: nothing was activated and c.md's copy is gone
+    state.versions = [];
+    state.links = [];
+    state.docs = state.docs.filter((d) => !d.url.endsWith("c.md"));
+    mockMirror.mockClear();
+
+    const resumed = checkpoint(
+      versionId!,
+      new Map([
+        ["https://docs.example.com/a.md", "kd-1"],
+        ["https://docs.example.com/b.md", "kd-2"],
+      ])
+    );
+    const result = await svc.verifyAndReconcileOne(source, { checkpoint: resumed });
+
+    expect(result.status).toBe("reconciled");
+    expect(mockMirror).toHaveBeenCalledTimes(1);
+    expect(mockMirror.mock.calls[0][1].url).toBe("https://docs.example.com/c.md");
+    expect(state.docs.map((d) => d.url).sort()).toEqual([
+      "https://docs.example.com/a.md",
+      "https://docs.example.com/b.md",
+      "https://docs.example.com/c.md",
+    ]);
+    const activeLinks = state.links.map((l) => l.knowledgeDocumentId).sort();
+    expect(activeLinks).toEqual(["kd-1", "kd-2", "kd-4"]);
+  });
+
+  describe("resuming after upstream moved", () => {
+    /** A job that died while publishing a.md and b.md: its version is still staging. */
+    async function deadAttempt(svc: ReconciliationService) {
+      state.preview = pages(["a.md", "b.md"]);
+      const { versionId } = await svc.verifyAndReconcileOne(source);
+      state.versions.find((v) => v.versionId === versionId)!.status = "staging";
+      state.links = [];
+      mockRemove.mockClear();
+      mockMirror.mockClear();
+      state.preview = pages(["a.md", "b.md"], { "b.md": 250 });
+      return checkpoint(
+        versionId!,
+        new Map([
+          ["https://docs.example.com/a.md", "kd-1"],
+          ["https://docs.example.com/b.md", "kd-2"],
+        ])
+      );
+    }
+
+    it("should retire the dead attempt before staging the new version", async () => {
+      const svc = new ReconciliationService(runtime);
+      const job = await deadAttempt(svc);
+
+      const result = await svc.verifyAndReconcileOne(source, { checkpoint: job });
+
+      expect(result.status).toBe("reconciled");
+      expect(result.versionId).not.toBe(job.versionId);
+      expect(mockRemove).toHaveBeenNthCalledWith(1, runtime, ["kd-1", "kd-2"]);
+      expect(state.versions.find((v) => v.versionId === job.versionId)!.status).toBe("failed");
+      expect(state.docs.some((d) => d.versionId === job.versionId)).toBe(false);
+      expect(job.discarded).toBe(1);
+      // Nothing is carried over from the dead attempt
+      expect(mockMirror).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep the job's record of the dead attempt when its knowledge can't be removed", async () => {
+      const svc = new ReconciliationService(runtime);
+      const job = await deadAttempt(svc);
+      mockRemove.mockRejectedValueOnce(new Error("knowledge store down"));
+
+      await expect(svc.verifyAndReconcileOne(source, { checkpoint: job })).rejects.toThrow(
+        "knowledge store down"
+      );
+
+      expect(job.discarded).toBe(0);
+      expect(state.versions.find((v) => v.versionId === job.versionId)!.status).toBe("staging");
+      expect(mockMirror).not.toHaveBeenCalled();
+    });
+  });
+
+  it("should discard a cancelled version and keep serving the previous one", async () => {
+    const svc = new ReconciliationService(runtime);
+    state.preview = pages(["a.md", "b.md"]);
+    const first = await svc.verifyAndReconcileOne(source);
+    mockMirror.mockClear();
+
+    const controller = new AbortController();
+    const ingest = mockMirror.getMockImplementation()!;
+    mockMirror.mockImplementation(async (rt: unknown, params: any) => {
+      if (params.url.endsWith("d.md")) {
+        controller.abort();
+        throw new Error("aborted");
+      }
+      return ingest(rt, params);
+    });
+    state.preview = pages(["a.md", "b.md", "c.md", "d.md"]);
+    mockRestore.mockClear();
+    const result = await svc.verifyAndReconcileOne(source, { signal: controller.signal });
+
+    expect(result.status).toBe("cancelled");
+    expect(state.versions.find((v) => v.status === "active")!.versionId).toBe(first.versionId);
+    // c.md was staged before the cancel but never reached Knowledge
+    expect(mockRestore).not.toHaveBeenCalled();
+    expect(mockRemove).not.toHaveBeenCalled();
+    expect(state.sources.get("docs")!.consecutiveFailures ?? 0).toBe(0);
+  });
+
+  describe("conditional revalidation", () => {
+    it("should only revalidate files it already serves", async () => {
+      const svc = new ReconciliationService(runtime);
+      state.preview = pages(["a.md"]);
+      await svc.verifyAndReconcileOne(source);
+      expect(mockMirror.mock.calls[0][1].previous).toBeUndefined();
+
+      mockMirror.mockClear();
+      state.preview = pages(["a.md", "b.md"], { "a.md": 300 });
+      await svc.verifyAndReconcileOne(source);
+
+      const byUrl = Object.fromEntries(mockMirror.mock.calls.map((c) => [c[1].url, c[1]]));
+      expect(byUrl["https://docs.example.com/a.md"].previous).toEqual({
+        content: "content of kd-1",
+        etag: '"kd-1"',
+        lastModified: undefined,
+      });
+      expect(byUrl["https://docs.example.com/b.md"].previous).toBeUndefined();
+    });
+
+    it("should keep the current copy when the server reports it unchanged", async () => {
+      const svc = new ReconciliationService(runtime);
+      state.preview = pages(["a.md", "b.md"]);
+      await svc.verifyAndReconcileOne(source);
+
+      mockMirror.mockResolvedValueOnce({ unchanged: true, reason: "not_modified" });
+      state.preview = pages(["a.md", "b.md"], { "b.md": 250 });
+      const result = await svc.verifyAndReconcileOne(source);
+
+      expect(result.status).toBe("reconciled");
+      expect(result.changes).toEqual({ added: 0, changed: 0, removed: 0, unchanged: 2 });
+      expect(mockRemove).not.toHaveBeenCalled();
+
+      const active = state.versions.find((v) => v.status === "active")!;
+      expect(
+        state.links
+          .filter((l) => l.versionId === active.versionId)
+          .map((l) => l.knowledgeDocumentId)
+          .sort()
+      ).toEqual(["kd-1", "kd-2"]);
+      const kept = state.docs.find(
+        (d) => d.versionId === active.versionId && d.url === "https://docs.example.com/b.md"
+      )!;
+      expect(kept.profile).toEqual({ id: "kd-2" });
+      expect(kept.etag).toBe('"kd-2"');
+    });
+
+    it("should record fresh validators when content matched by hash", async () => {
+      const svc = new ReconciliationService(runtime);
+      state.preview = pages(["a.md"]);
+      await svc.verifyAndReconcileOne(source);
+
+      mockMirror.mockResolvedValueOnce({ unchanged: true, reason: "same_content", etag: '"new"' });
+      state.preview = pages(["a.md"], { "a.md": 120 });
+      const result = await svc.verifyAndReconcileOne(source);
+
+      const kept = state.docs.find((d) => d.versionId === result.versionId)!;
+      expect(kept.etag).toBe('"new"');
+    });
+  });
+
+  describe("verbatim document storage", () => {
+    function activeDocs() {
+      const active = state.versions.find((v) => v.status === "active")!;
+      return state.docs.filter((d) => d.versionId === active.versionId);
+    }
+
+    it("should pass sourceId and versionId so every reconciled file is stored", async () => {
+      state.preview = pages(["a.md", "b.md"]);
+      const result = await new ReconciliationService(runtime).verifyAndReconcileOne(source);
+
+      for (const call of mockMirror.mock.calls) {
+        expect(call[1].metadata).toMatchObject({ sourceId: "docs", versionId: result.versionId });
+      }
+      expect(activeDocs().map((d) => d.url).sort()).toEqual([
+        "https://docs.example.com/a.md",
+        "https://docs.example.com/b.md",
+      ]);
+    });
+
+    it("should carry unchanged documents forward and retire the archived version's copies", async () => {
+      state.policy.versionRetentionMs = 0;
+      const svc = new ReconciliationService(runtime);
+      state.preview = pages(["a.md", "b.md"]);
+      const first = await svc.verifyAndReconcileOne(source);
+
+      state.preview = pages(["a.md", "b.md"], { "b.md": 250 });
+      await svc.verifyAndReconcileOne(source);
+
+      expect(state.docs.some((d) => d.versionId === first.versionId)).toBe(false);
+      const byUrl = Object.fromEntries(activeDocs().map((d) => [d.url, d]));
+      expect(byUrl["https://docs.example.com/a.md"].profile).toEqual({ id: "kd-1" });
+      expect(byUrl["https://docs.example.com/b.md"].profile).toEqual({ id: "kd-3" });
+    });
+
+    it("should link unchanged documents to the new version rather than copy them", async () => {
+      state.policy.versionRetentionMs = 60_000;
+      const svc = new ReconciliationService(runtime);
+      state.preview = pages(["a.md", "b.md"]);
+      const first = await svc.verifyAndReconcileOne(source);
+
+      state.preview = pages(["a.md", "b.md"], { "b.md": 250 });
+      const second = await svc.verifyAndReconcileOne(source);
+
+      const idOf = (versionId: string | undefined, file: string) =>
+        state.docs.find((d) => d.versionId === versionId && d.url.endsWith(file))!.id;
+      expect(idOf(second.versionId, "a.md")).toBe(idOf(first.versionId, "a.md"));
+      expect(idOf(second.versionId, "b.md")).not.toBe(idOf(first.versionId, "b.md"));
+    });
+
+    it("should keep the archived version's copies within the retention window", async () => {
+      state.policy.versionRetentionMs = 60_000;
+      const svc = new ReconciliationService(runtime);
+      state.preview = pages(["a.md", "b.md"]);
+      const first = await svc.verifyAndReconcileOne(source);
+
+      state.preview = pages(["a.md", "b.md"], { "b.md": 250 });
+      await svc.verifyAndReconcileOne(source);
+
+      const archived = state.versions.find((v) => v.versionId === first.versionId)!;
+      expect(archived.status).toBe("archived");
+      expect(archived.archivedAt).toBeInstanceOf(Date);
+      expect(state.docs.filter((d) => d.versionId === first.versionId)).toHaveLength(2);
+    });
+
+    it("should prune archived versions once they leave the retention window", async () => {
+      state.policy.versionRetentionMs = 60_000;
+      const svc = new ReconciliationService(runtime);
+      state.preview = pages(["a.md"]);
+      const first = await svc.verifyAndReconcileOne(source);
+      state.preview = pages(["a.md"], { "a.md": 250 });
+      const second = await svc.verifyAndReconcileOne(source);
+
+      state.versions.find((v) => v.versionId === first.versionId)!.archivedAt =
+        new Date(Date.now() - 120_000);
+      const pruned = await svc.pruneVersionHistory(source.id);
+
+      expect(pruned).toBe(1);
+      expect(state.versions.map((v) => v.versionId)).toEqual([second.versionId]);
+      expect(state.docs.some((d) => d.versionId === first.versionId)).toBe(false);
+      expect(state.links.some((l) => l.versionId === first.versionId)).toBe(false);
+      expect(activeDocs()).toHaveLength(1);
+    });
+
+    it("should rebuild a retained version the source reverts to", async () => {
+      state.policy.versionRetentionMs = 60_000;
+      const svc = new ReconciliationService(runtime);
+      state.preview = pages(["a.md"]);
+      const first = await svc.verifyAndReconcileOne(source);
+      state.preview = pages(["a.md"], { "a.md": 250 });
+      await svc.verifyAndReconcileOne(source);
+
+      state.preview = pages(["a.md"]);
+      const reverted = await svc.verifyAndReconcileOne(source);
+
+      expect(reverted.versionId).toBe(first.versionId);
+      expect(state.versions.find((v) => v.versionId === first.versionId)!.status).toBe("active");
+      expect(state.docs.filter((d) => d.versionId === first.versionId)).toHaveLength(1);
+    });
+
+    it("should re-ingest unchanged files that have no stored document yet", async () => {
+      const svc = new ReconciliationService(runtime);
+      state.preview = pages(["a.md"]);
+      await svc.verifyAndReconcileOne(source);
+      state.docs = []; // e.g. mirrored before verbatim storage existed
+
+      mockMirror.mockClear();
+      state.preview = pages(["a.md", "b.md"]);
+      await svc.verifyAndReconcileOne(source);
+
+      expect(mockMirror).toHaveBeenCalledTimes(2);
+      expect(mockRemove).toHaveBeenCalledWith(runtime, ["kd-1"]);
+    });
+
+    it("should drop documents staged for a version that failed", async () => {
+      const svc = new ReconciliationService(runtime);
+      state.preview = pages(["a.md"]);
+      await svc.verifyAndReconcileOne(source);
+
+      state.preview = pages([]);
+      const result = await svc.verifyAndReconcileOne(source);
+
+      expect(result.status).toBe("failed");
+      expect(state.docs.some((d) => d.versionId === result.versionId)).toBe(false);
+      expect(activeDocs()).toHaveLength(1);
+    });
+  });
+
+  describe("bounded concurrency", () => {
+    function delayMirror(ms: number) {
+      let inFlight = 0;
+      const peak = { value: 0 };
+      const base = mockMirror.getMockImplementation()!;
+      mockMirror.mockImplementation(async (...args: unknown[]) => {
+        inFlight++;
+        peak.value = Math.max(peak.value, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        inFlight--;
+        return base(...args);
+      });
+      return peak;
+    }
+
+    it("should ingest files concurrently up to the batch size", async () => {
+      const peak = delayMirror(5);
+      state.preview = pages(Array.from({ length: 25 }, (_, i) => `p${i}.md`));
+
+      const result = await new ReconciliationService(runtime).verifyAndReconcileOne(source);
+
+      expect(result.status).toBe("reconciled");
+      expect(state.links).toHaveLength(25);
+      expect(peak.value).toBeGreaterThan(1);
+      expect(peak.value).toBeLessThanOrEqual(RECONCILIATION_DEFAULTS.BATCH_SIZE);
+    });
+
+    it("should reconcile sources up to maxConcurrentReconciles at a time", async () => {
+      state.policy = { maxConcurrentReconciles: 2, startupReconcileTimeoutMs: 0 };
+      state.preview = pages(["a.md"]);
+      const peak = delayMirror(10);
+      const sources = ["s1", "s2", "s3", "s4"].map((id) => ({ ...source, id }));
+
+      const results = await new ReconciliationService(runtime).verifyAndReconcileAll(sources);
+
+      expect(results.map((r) => [r.sourceId, r.status])).toEqual([
+        ["s1", "reconciled"],
+        ["s2", "reconciled"],
+        ["s3", "reconciled"],
+        ["s4", "reconciled"],
+      ]);
+      expect(peak.value).toBe(2);
+    });
+
+    it("should skip disabled sources", async () => {
+      state.preview = pages(["a.md"]);
+      const results = await new ReconciliationService(runtime).verifyAndReconcileAll([
+        source,
+        { ...source, id: "off", enabled: false },
+      ]);
+      expect(results.map((r) => r.sourceId)).toEqual(["docs"]);
+    });
+
+    it("should stop starting sources once the startup timeout elapses", async () => {
+      state.policy = { maxConcurrentReconciles: 1, startupReconcileTimeoutMs: 5 };
+      state.preview = pages(["a.md"]);
+      delayMirror(20);
+      const sources = ["s1", "s2", "s3"].map((id) => ({ ...source, id }));
+
+      const results = await new ReconciliationService(runtime).verifyAndReconcileAll(sources);
+
+      expect(results.map((r) => r.status)).toEqual(["reconciled", "timed_out", "timed_out"]);
+      expect(results[1].error).toMatch(/reconcile limit/);
+      expect(state.versions.map((v) => v.sourceId)).toEqual(["s1"]);
+    });
+  });
+
+  describe("reconcile lease and cooldown", () => {
+    it("should skip a source reconciled within the cooldown", async () => {
+      state.policy = { reconcileCooldownMs: 60_000 };
+      state.preview = pages(["a.md"]);
+      const svc = new ReconciliationService(runtime);
+
+      expect((await svc.verifyAndReconcileOne(source)).status).toBe("reconciled");
+      const second = await svc.verifyAndReconcileOne(source);
+
+      expect(second.status).toBe("skipped_cooldown");
+      expect(second.error).toMatch(/less than 60s ago/);
+      expect(second.retryAfter!.getTime()).toBe(
+        state.sources.get(source.id)!.lastReconciledAt!.getTime() + 60_000
+      );
+      expect(mockMirror).toHaveBeenCalledTimes(1);
+    });
+
+    it("should only start the cooldown when a reconcile completes", async () => {
+      state.policy = { reconcileCooldownMs: 60_000 };
+      state.preview = pages(["a.md"]);
+      const svc = new ReconciliationService(runtime);
+      const controller = new AbortController();
+      const ingest = mockMirror.getMockImplementation()!;
+      mockMirror.mockImplementationOnce(async () => {
+        controller.abort();
+        throw new Error("aborted");
+      });
+
+      expect((await svc.verifyAndReconcileOne(source, { signal: controller.signal })).status).toBe("cancelled");
+      expect(state.sources.get(source.id)!.lastReconciledAt).toBeNull();
+
+      mockMirror.mockImplementation(ingest);
+      expect((await svc.verifyAndReconcileOne(source)).status).toBe("reconciled");
+      expect(state.sources.get(source.id)!.lastReconciledAt).not.toBeNull();
+    });
+
+    it("should let an explicit request through the cooldown", async () => {
+      state.policy = { reconcileCooldownMs: 60_000 };
+      state.preview = pages(["a.md"]);
+      const svc = new ReconciliationService(runtime);
+
+      await svc.verifyAndReconcileOne(source);
+      state.preview = pages(["a.md"], { "a.md": 200 });
+      const forced = await svc.verifyAndReconcileOne(source, { ignoreCooldown: true });
+
+      expect(forced.status).toBe("reconciled");
+    });
+
+    it("should let only one concurrent run reconcile a source", async () => {
+      state.preview = pages(["a.md"]);
+      const base = mockMirror.getMockImplementation()!;
+      mockMirror.mockImplementation(async (...args: unknown[]) => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return base(...args);
+      });
+
+      const [first, second] = await Promise.all([
+        new ReconciliationService(runtime).verifyAndReconcileOne(source),
+        new ReconciliationService(runtime).verifyAndReconcileOne(source, { ignoreCooldown: true }),
+      ]);
+
+      expect([first.status, second.status]).toEqual(["reconciled", "skipped_in_progress"]);
+      expect(state.versions.filter((v) => v.status === "staging" || v.status === "active")).toHaveLength(1);
+    });
+
+    it("should reclaim a lease whose holder died", async () => {
+      state.preview = pages(["a.md"]);
+      state.sources.set(source.id, {
+        leaseHolder: "crashed",
+        leaseExpiresAt: new Date(Date.now() - 1000),
+        lastReconciledAt: null,
+      });
+
+      const result = await new ReconciliationService(runtime).verifyAndReconcileOne(source);
+
+      expect(result.status).toBe("reconciled");
+      expect(state.sources.get(source.id)!.leaseHolder).toBeNull();
+    });
+
+    it("should release the lease when the reconcile throws", async () => {
+      state.preview = pages(["a.md"]);
+      const svc = new ReconciliationService(runtime);
+      (svc as any).reconcileLeased = async () => {
+        throw new Error("db down");
+      };
+
+      await expect(svc.verifyAndReconcileOne(source)).rejects.toThrow("db down");
+      expect(state.sources.get(source.id)!.leaseExpiresAt).toBeNull();
+    });
+  });
+
+  describe("pinning and rollback", () => {
+    /** Two reconciles: a.md and b.md, then b.md changed. Returns both version ids. */
+    async function twoVersions(svc: ReconciliationService) {
+      state.policy.versionRetentionMs = 60_000;
+      state.preview = pages(["a.md", "b.md"]);
+      const first = await svc.verifyAndReconcileOne(source);
+      state.preview = pages(["a.md", "b.md"], { "b.md": 250 });
+      const second = await svc.verifyAndReconcileOne(source);
+      // The mock gives every ingest a distinct hash; a.md was carried forward so its hash matches
+      mockRemove.mockClear();
+      mockRestore.mockClear();
+      return { first: first.versionId!, second: second.versionId! };
+    }
+
+    function activeLinkIds() {
+      const active = state.versions.find((v) => v.status === "active")!;
+      return state.links
+        .filter((l) => l.versionId === active.versionId)
+        .map((l) => l.knowledgeDocumentId)
+        .sort();
+    }
+
+    it("should record upstream changes without applying them while pinned", async () => {
+      const svc = new ReconciliationService(runtime);
+      state.preview = pages(["a.md"]);
+      const first = await svc.verifyAndReconcileOne(source);
+      await svc.rollbackToVersion(source.id, first.versionId!, { pin: true });
+      mockMirror.mockClear();
+
+      state.preview = pages(["a.md"], { "a.md": 250 });
+      const result = await svc.verifyAndReconcileOne(source);
+
+      expect(result.status).toBe("pinned");
+      expect(result.versionId).toBe(first.versionId);
+      expect(result.upstreamVersionId).not.toBe(first.versionId);
+      expect(state.sources.get(source.id)!.upstreamVersionId).toBe(result.upstreamVersionId);
+      expect(mockMirror).not.toHaveBeenCalled();
+      expect(state.versions).toHaveLength(1);
+    });
+
+    it("should restore changed files from the retained copy and keep unchanged knowledge docs", async () => {
+      const svc = new ReconciliationService(runtime);
+      const { first, second } = await twoVersions(svc);
+
+      const result = await svc.rollbackToVersion(source.id, first, { pin: true });
+
+      expect(result).toMatchObject({
+        status: "rolled_back",
+        previousVersionId: second,
+        restored: 1,
+        reused: 1,
+        pinned: true,
+      });
+      expect(mockRestore).toHaveBeenCalledTimes(1);
+      expect(mockRestore.mock.calls[0][1].url).toBe("https://docs.example.com/b.md");
+      expect(state.versions.find((v) => v.versionId === first)!.status).toBe("active");
+      expect(state.versions.find((v) => v.versionId === second)!.status).toBe("archived");
+      // kd-1 (a.md) kept, kd-3 (the newer b.md) retired, kd-4 restored
+      expect(activeLinkIds()).toEqual(["kd-1", "kd-4"]);
+      expect(mockRemove).toHaveBeenCalledWith(runtime, ["kd-3"]);
+      expect(state.sources.get(source.id)!.pinnedVersionId).toBe(first);
+    });
+
+    it("should remove re-added documents and keep serving when the switch fails", async () => {
+      const svc = new ReconciliationService(runtime);
+      const { first, second } = await twoVersions(svc);
+      state.failActivation = true;
+
+      const result = await svc.rollbackToVersion(source.id, first);
+
+      expect(result.status).toBe("failed");
+      expect(result.error).toBe("transaction aborted");
+      expect(mockRemove).toHaveBeenCalledWith(runtime, ["kd-4"]);
+      expect(state.versions.find((v) => v.status === "active")!.versionId).toBe(second);
+      expect(activeLinkIds()).toEqual(["kd-1", "kd-3"]);
+      expect(state.sources.get(source.id)!.pinnedVersionId).toBeUndefined();
+    });
+
+    it("should refuse versions whose documents are gone", async () => {
+      const svc = new ReconciliationService(runtime);
+      const { first } = await twoVersions(svc);
+      state.docs = state.docs.filter((d) => d.versionId !== first);
+
+      const result = await svc.rollbackToVersion(source.id, first);
+
+      expect(result.status).toBe("not_retained");
+      expect(mockRestore).not.toHaveBeenCalled();
+    });
+
+    it("should not roll back while another reconcile holds the lease", async () => {
+      const svc = new ReconciliationService(runtime);
+      const { first } = await twoVersions(svc);
+      state.sources.get(source.id)!.leaseExpiresAt = new Date(Date.now() + 60_000);
+
+      const result = await svc.rollbackToVersion(source.id, first);
+
+      expect(result.status).toBe("skipped_in_progress");
+    });
+  });
+
+  describe("source health", () => {
+    it("should count consecutive failures and back off exponentially", async () => {
+      const svc = new ReconciliationService(runtime);
+      state.preview = pages(["a.md"]);
+      await svc.verifyAndReconcileOne(source);
+
+      state.preview = pages([]);
+      const before = Date.now();
+      const failed = await svc.verifyAndReconcileOne(source);
+      expect(failed.status).toBe("failed");
+      let row = state.sources.get(source.id)!;
+      expect(row.consecutiveFailures).toBe(1);
+      expect(row.lastErrorCode).toBe("empty_content");
+      expect(row.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(before + 60 * 60 * 1000);
+
+      const skipped = await svc.verifyAndReconcileOne(source);
+      expect(skipped.status).toBe("skipped_backoff");
+      expect(skipped.error).toMatch(/after 1 failed sync/);
+      expect(skipped.retryAfter).toEqual(row.nextAttemptAt);
+
+      await svc.verifyAndReconcileOne(source, { ignoreCooldown: true });
+      row = state.sources.get(source.id)!;
+      expect(row.consecutiveFailures).toBe(2);
+      expect(row.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(before + 2 * 60 * 60 * 1000);
+    });
+
+    it("should record thrown errors with their classified code", async () => {
+      const svc = new ReconciliationService(runtime);
+      state.preview = pages(["a.md"]);
+      (svc as any).reconcileLeased = async () => {
+        throw new Error("HTTP 404 (Not Found) for https://docs.example.com/llms.txt");
+      };
+
+      await expect(svc.verifyAndReconcileOne(source)).rejects.toThrow("HTTP 404");
+      expect(state.sources.get(source.id)!.lastErrorCode).toBe("source_gone");
+    });
+
+    it("should disable a source after too many failures and re-enable it on success", async () => {
+      const svc = new ReconciliationService(runtime);
+      state.sources.set(source.id, {
+        leaseHolder: null,
+        leaseExpiresAt: null,
+        lastReconciledAt: null,
+        enabled: true,
+        consecutiveFailures: SOURCE_HEALTH_DEFAULTS.MAX_CONSECUTIVE_FAILURES - 1,
+      });
+      const base = (svc as any).reconcileLeased.bind(svc);
+      (svc as any).reconcileLeased = async () => ({ sourceId: source.id, status: "failed", error: "timed out" });
+
+      await svc.verifyAndReconcileOne(source);
+      let row = state.sources.get(source.id)!;
+      expect(row.enabled).toBe(false);
+      expect(row.autoDisabledAt).toBeInstanceOf(Date);
+      expect(row.lastErrorCode).toBe("timeout");
+
+      (svc as any).reconcileLeased = base;
+      state.preview = pages(["a.md"]);
+      const result = await svc.verifyAndReconcileOne(source, { ignoreCooldown: true });
+      expect(result.status).toBe("reconciled");
+      row = state.sources.get(source.id)!;
+      expect(row.enabled).toBe(true);
+      expect(row.consecutiveFailures).toBe(0);
+      expect(row.autoDisabledAt).toBeNull();
+    });
+
+    it("should leave health alone when a run is skipped", async () => {
+      state.policy = { reconcileCooldownMs: 60_000 };
+      const svc = new ReconciliationService(runtime);
+      state.preview = pages(["a.md"]);
+      await svc.verifyAndReconcileOne(source);
+      state.sources.get(source.id)!.consecutiveFailures = 2;
+
+      expect((await svc.verifyAndReconcileOne(source)).status).toBe("skipped_cooldown");
+      expect(state.sources.get(source.id)!.consecutiveFailures).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createMockRuntime } from "./setup";
+
+const docs = vi.hoisted(() => ({ listCatalog: vi.fn(), getByUrl: vi.fn() }));
+const aliases = vi.hoisted(() => ({ list: vi.fn(), get: vi.fn(), set: vi.fn(), remove: vi.fn() }));
+
+vi.mock("../src/db/autognosticDocumentsRepository", () => ({
+  AutognosticDocumentsRepository: class {
+    listCatalog = docs.listCatalog;
+  },
+  autognosticDocumentsRepository: {
+    getByUrl: (_runtime: unknown, url: string) => docs.getByUrl(url),
+  },
+}));
+
+vi.mock("../src/db/autognosticDocumentAliasesRepository", () => ({
+  AutognosticDocumentAliasesRepository: class {
+    list = aliases.list;
+    get = aliases.get;
+    set = aliases.set;
+    remove = aliases.remove;
+  },
+}));
+
+import { matchDocuments, resolveDocument, formatDocumentChoices } from "../src/integration/resolveDocument";
+import { SetDocumentAliasAction, extractAlias } from "../src/actions/setDocumentAliasAction";
+
+function entry(url: string, title: string | null, paperMetadata: Record<string, unknown> | null = null) {
+  return { id: `id-${url}`, url, title, sourceId: "papers", storedAt: null, paperMetadata };
+}
+
+const ATTENTION = entry("https://arxiv.org/pdf/1706.03762.pdf", null, {
+  doi: "10.48550/arXiv.1706.03762",
+  title: "Attention Is All You Need",
+  authors: ["Ashish Vaswani", "Noam Shazeer"],
+  publishedDate: "2017-06-12",
+});
+const TENSOR = entry("https://arxiv.org/pdf/1803.07416.pdf", "Tensor2Tensor for Neural Machine Translation", {
+  title: "Tensor2Tensor for Neural Machine Translation",
+  authors: ["Ashish Vaswani", "Samy Bengio"],
+  publishedDate: "2018-03-16",
+});
+const RATE_LIMITS = entry("https://docs.example.com/guides/rate-limits.md", "Rate limits");
+const CATALOG = [ATTENTION, TENSOR, RATE_LIMITS];
+
+const runtime = createMockRuntime() as any;
+
+describe("matchDocuments", () => {
+  it("should match titles, filenames and DOIs", () => {
+    expect(matchDocuments(CATALOG, [], "quote the abstract of attention is all you need")[0])
+      .toMatchObject({ url: ATTENTION.url, matchedOn: "title" });
+    expect(matchDocuments(CATALOG, [], "what does rate-limits.md say about retries")[0])
+      .toMatchObject({ url: RATE_LIMITS.url, matchedOn: "filename" });
+    expect(matchDocuments(CATALOG, [], "quote 10.48550/arxiv.1706.03762, section 3")[0])
+      .toMatchObject({ url: ATTENTION.url, matchedOn: "doi", score: 1 });
+  });
+
+  it("should match aliases as whole phrases", () => {
+    const stored = [{ alias: "the transformer paper", url: ATTENTION.url }];
+
+    expect(matchDocuments(CATALOG, stored, "read the conclusion of the Transformer paper")[0])
+      .toMatchObject({ url: ATTENTION.url, matchedOn: "alias" });
+    expect(matchDocuments(CATALOG, stored, "the transformers paper")).toEqual([]);
+  });
+
+  it("should let a year settle which of an author's papers is meant", () => {
+    const [best, next] = matchDocuments(CATALOG, [], "the Vaswani 2017 paper");
+
+    expect(best).toMatchObject({ url: ATTENTION.url, matchedOn: "author" });
+    expect(best.score).toBeGreaterThan(next.score);
+  });
+
+  it("should only consider the newest copy of each URL and ignore unrelated text", () => {
+    const older = { ...RATE_LIMITS, id: "older", title: "Quotas" };
+
+    expect(matchDocuments([RATE_LIMITS, older], [], "the quotas page")).toEqual([]);
+    expect(matchDocuments(CATALOG, [], "read me line 5")).toEqual([]);
+  });
+});
+
+describe("resolveDocument", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    docs.listCatalog.mockResolvedValue(CATALOG);
+    aliases.list.mockResolvedValue([]);
+  });
+
+  it("should take a URL without reading the catalog", async () => {
+    const result = await resolveDocument(runtime, "quote line 2 of https://docs.example.com/guides/rate-limits.md.");
+
+    expect(result).toEqual({ status: "resolved", url: RATE_LIMITS.url, matchedOn: "url" });
+    expect(docs.listCatalog).not.toHaveBeenCalled();
+  });
+
+  it("should resolve a single clear match", async () => {
+    const result = await resolveDocument(runtime, "quote the abstract of the Vaswani paper", {
+      reference: "Attention Is All You Need",
+    });
+
+    expect(result).toMatchObject({ status: "resolved", url: ATTENTION.url, matchedOn: "title" });
+  });
+
+  it("should return every close match when the reference is ambiguous", async () => {
+    const result = await resolveDocument(runtime, "quote the abstract of the Vaswani paper");
+
+    expect(result.status).toBe("ambiguous");
+    if (result.status !== "ambiguous") return;
+    expect(result.candidates.map((c) => c.url)).toEqual([ATTENTION.url, TENSOR.url]);
+    expect(formatDocumentChoices(result.candidates)).toBe(
+      "That could be 2 documents:\n" +
+      "1. Attention Is All You Need — Vaswani et al. — https://arxiv.org/pdf/1706.03762.pdf\n" +
+      "2. Tensor2Tensor for Neural Machine Translation — Vaswani et al. — https://arxiv.org/pdf/1803.07416.pdf\n" +
+      "Which one do you mean? Reply with its URL or full title."
+    );
+  });
+
+  it("should report none when nothing stored is named", async () => {
+    expect(await resolveDocument(runtime, "repeat the last line")).toEqual({ status: "none" });
+  });
+});
+
+describe("SET_DOCUMENT_ALIAS action", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    docs.listCatalog.mockResolvedValue(CATALOG);
+    docs.getByUrl.mockResolvedValue([{ id: "doc-1" }]);
+    aliases.list.mockResolvedValue([]);
+    aliases.get.mockResolvedValue(null);
+  });
+
+  it("should pull the alias out of the message", () => {
+    expect(extractAlias('Call https://arxiv.org/pdf/1706.03762.pdf "the transformer paper"')).toBe("the transformer paper");
+    expect(extractAlias("alias the rate limits guide as quota docs.")).toBe("quota docs");
+    expect(extractAlias("what is an alias?")).toBeNull();
+  });
+
+  it("should save a folded alias for the document the message names", async () => {
+    const callback = vi.fn();
+    const result = (await SetDocumentAliasAction.handler(
+      runtime,
+      { content: { text: 'Call Attention Is All You Need "The Transformer Paper"' } } as any,
+      undefined,
+      undefined,
+      callback
+    )) as any;
+
+    expect(aliases.set).toHaveBeenCalledWith("the transformer paper", ATTENTION.url);
+    expect(result.success).toBe(true);
+    expect(result.text).toBe(`Saved the alias "the transformer paper" for ${ATTENTION.url}.`);
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({ action: "SET_DOCUMENT_ALIAS" }));
+  });
+
+  it("should remove an alias", async () => {
+    aliases.get.mockResolvedValue({ alias: "quota docs", url: RATE_LIMITS.url });
+
+    const result = (await SetDocumentAliasAction.handler(
+      runtime,
+      { content: { text: 'remove the alias "quota docs"' } } as any,
+      undefined,
+      undefined,
+      undefined
+    )) as any;
+
+    expect(aliases.remove).toHaveBeenCalledWith("quota docs");
+    expect(aliases.set).not.toHaveBeenCalled();
+    expect(result.data).toMatchObject({ removed: true, url: RATE_LIMITS.url });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createMockRuntime } from "./setup";
+
+const focus = vi.hoisted(() => ({ get: vi.fn(), set: vi.fn() }));
+
+vi.mock("../src/db/autognosticRoomFocusRepository", () => ({
+  AutognosticRoomFocusRepository: class {
+    get = focus.get;
+    set = focus.set;
+  },
+}));
+
+vi.mock("../src/db/autognosticDocumentsRepository", () => ({
+  AutognosticDocumentsRepository: class {
+    listCatalog = async () => [];
+  },
+}));
+
+vi.mock("../src/db/autognosticDocumentAliasesRepository", () => ({
+  AutognosticDocumentAliasesRepository: class {
+    list = async () => [];
+  },
+}));
+
+import { rememberFocus, stepFrom, unitSpan } from "../src/integration/roomFocus";
+import { resolveDocument } from "../src/integration/resolveDocument";
+import { analyzeDocument } from "../src/services/DocumentAnalyzer";
+
+const URL = "https://example.com/essay.txt";
+const profile = analyzeDocument([
+  "Alpha starts here. Alpha ends here.",
+  "",
+  "Beta is the middle. Beta goes on.",
+  "",
+  "Gamma closes the essay.",
+].join("\n"));
+
+const runtime = createMockRuntime() as any;
+
+describe("stepFrom", () => {
+  it("should start at the top with no position and stop at the end", () => {
+    expect(stepFrom(profile, null, "paragraph", "forward", 1)).toEqual([0]);
+    expect(stepFrom(profile, null, "sentence", "back", 1)).toEqual([]);
+
+    const last = unitSpan(profile, "paragraph", 2, 2);
+    expect(stepFrom(profile, last, "paragraph", "forward", 1)).toEqual([]);
+  });
+
+  it("should cross units: sentences after or before a paragraph", () => {
+    const middle = unitSpan(profile, "paragraph", 1, 1);
+
+    expect(stepFrom(profile, middle, "sentence", "forward", 1)).toEqual([4]);
+    expect(stepFrom(profile, middle, "sentence", "back", 2)).toEqual([0, 1]);
+  });
+
+  it("should skip blank lines", () => {
+    const first = unitSpan(profile, "line", 0, 0);
+
+    expect(stepFrom(profile, first, "line", "forward", 2)).toEqual([2, 4]);
+  });
+});
+
+describe("rememberFocus", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should keep the last passage when the same document is named again", async () => {
+    const position = unitSpan(profile, "sentence", 2, 2);
+    focus.get.mockResolvedValue({ url: URL, position, updatedAt: new Date() });
+
+    await rememberFocus(runtime, "room-1", URL);
+
+    expect(focus.set).toHaveBeenCalledWith("room-1", URL, position);
+  });
+
+  it("should start a new document without a position, and skip rooms it cannot save", async () => {
+    focus.get.mockResolvedValue({ url: "https://example.com/other.txt", position: unitSpan(profile, "line", 0, 0) });
+    await rememberFocus(runtime, "room-1", URL);
+    expect(focus.set).toHaveBeenCalledWith("room-1", URL, null);
+
+    focus.set.mockRejectedValueOnce(new Error("db down"));
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await expect(rememberFocus(runtime, "room-1", URL, null)).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+
+    await rememberFocus(runtime, undefined, URL, null);
+    expect(focus.set).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("resolveDocument with a room", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should fall back to the room's focus when nothing is named", async () => {
+    focus.get.mockResolvedValue({ url: URL, position: null, updatedAt: new Date() });
+
+    expect(await resolveDocument(runtime, "read me the next paragraph", { roomId: "room-1" }))
+      .toEqual({ status: "resolved", url: URL, matchedOn: "focus" });
+    expect(focus.get).toHaveBeenCalledWith("room-1");
+  });
+
+  it("should report none without a room", async () => {
+    expect(await resolveDocument(runtime, "read me the next paragraph")).toEqual({ status: "none" });
+    expect(focus.get).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { analyzeDocument } from "../src/services/DocumentAnalyzer";
+
+const repo = vi.hoisted(() => ({
+  searchFullText: vi.fn(),
+  searchTerms: vi.fn(),
+  updateProfile: vi.fn(),
+}));
+
+vi.mock("../src/db/autognosticDocumentsRepository", () => ({
+  AutognosticDocumentsRepository: class {
+    searchFullText = repo.searchFullText;
+    searchTerms = repo.searchTerms;
+    updateProfile = repo.updateProfile;
+  },
+}));
+
+import {
+  queryTerms,
+  scoreDocument,
+  findSnippets,
+  searchDocuments,
+} from "../src/integration/searchDocuments";
+import { SearchDocumentsAction, extractSearchQuery } from "../src/actions/searchDocumentsAction";
+
+const RATE_LIMITS = [
+  "# Quotas",
+  "",
+  "Every API token has a request budget. Requests over the budget are rejected with HTTP 429.",
+  "",
+  "Rate limiting applies per token, not per IP address. Retry once the rate limit window resets.",
+].join("\n");
+
+const AUTH = [
+  "# Authentication",
+  "",
+  "Send the token in the Authorization header. Tokens that exceed their rate limit are throttled.",
+].join("\n");
+
+function row(url: string, content: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id: `id-${url}`,
+    url,
+    title: null,
+    sourceId: "docs",
+    versionId: "v1",
+    content,
+    profile: analyzeDocument(content),
+    rank: 0,
+    ...overrides,
+  };
+}
+
+const runtime = { agentId: "agent" } as any;
+
+describe("queryTerms", () => {
+  it("should drop stopwords, operators and excluded words", () => {
+    expect(queryTerms('what about "Rate Limiting" or quotas -billing')).toEqual(["about", "rate", "limiting", "quotas"]);
+  });
+});
+
+describe("findSnippets", () => {
+  it("should quote the sentences matching the most terms with their line numbers", () => {
+    const snippets = findSnippets(analyzeDocument(RATE_LIMITS), ["rate", "limiting"]);
+
+    expect(snippets[0]).toMatchObject({
+      sentence: "Rate limiting applies per token, not per IP address.",
+      lineNumber: 5,
+    });
+    expect(snippets.map((s) => s.sentence)).toEqual([
+      "Rate limiting applies per token, not per IP address.",
+      "Retry once the rate limit window resets.",
+    ]);
+  });
+
+  it("should trim a long sentence around its first match", () => {
+    const long = `${"filler words here ".repeat(30)}the rate limit is strict ${"more filler ".repeat(20)}.`;
+    const [snippet] = findSnippets(analyzeDocument(long), ["rate"]);
+
+    expect(snippet.sentence.length).toBeLessThanOrEqual(242);
+    expect(snippet.sentence).toContain("the rate limit is strict");
+    expect(snippet.sentence.startsWith("…")).toBe(true);
+  });
+});
+
+describe("scoreDocument", () => {
+  it("should require every term and favour more occurrences", () => {
+    const rate = scoreDocument({ title: null, content: RATE_LIMITS }, ["rate", "limiting"]);
+    const auth = scoreDocument({ title: null, content: AUTH }, ["rate", "limiting"]);
+
+    expect(rate).toBeGreaterThan(auth);
+    expect(auth).toBeGreaterThan(0); // "limit" matches "limiting" by stem
+    expect(scoreDocument({ title: null, content: AUTH }, ["rate", "quota"])).toBe(0);
+  });
+});
+
+describe("searchDocuments", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return full-text hits in rank order with one entry per URL", async () => {
+    repo.searchFullText.mockResolvedValue([
+      row("https://docs.example.com/rate-limits.md", RATE_LIMITS, { rank: 0.8, title: "Rate limits" }),
+      row("https://docs.example.com/auth.md", AUTH, { rank: 0.3 }),
+      row("https://docs.example.com/auth.md", AUTH, { rank: 0.1, id: "older-copy" }),
+    ]);
+
+    const result = await searchDocuments(runtime, "rate limiting");
+
+    expect(repo.searchFullText).toHaveBeenCalledWith("rate limiting", expect.objectContaining({ sourceId: undefined }));
+    expect(repo.searchTerms).not.toHaveBeenCalled();
+    expect(result.method).toBe("fulltext");
+    expect(result.hits.map((h) => [h.url, h.score])).toEqual([
+      ["https://docs.example.com/rate-limits.md", 0.8],
+      ["https://docs.example.com/auth.md", 0.3],
+    ]);
+    expect(result.hits[1].snippets[0]).toMatchObject({ lineNumber: 3 });
+  });
+
+  it("should fall back to term matching when full-text search fails", async () => {
+    repo.searchFullText.mockRejectedValue(new Error('function websearch_to_tsquery does not exist'));
+    repo.searchTerms.mockResolvedValue([
+      row("https://docs.example.com/auth.md", AUTH),
+      row("https://docs.example.com/rate-limits.md", RATE_LIMITS),
+    ]);
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const result = await searchDocuments(runtime, "rate limiting", { sourceId: "docs" });
+
+    expect(repo.searchTerms).toHaveBeenCalledWith(["rate", "limit"], expect.objectContaining({ sourceId: "docs" }));
+    expect(result.method).toBe("terms");
+    expect(result.hits.map((h) => h.url)).toEqual([
+      "https://docs.example.com/rate-limits.md",
+      "https://docs.example.com/auth.md",
+    ]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("should profile documents stored without one", async () => {
+    repo.searchFullText.mockResolvedValue([row("https://docs.example.com/auth.md", AUTH, { profile: null, rank: 0.5 })]);
+
+    const result = await searchDocuments(runtime, "rate limit");
+
+    expect(result.hits[0].snippets).toHaveLength(1);
+    expect(repo.updateProfile).toHaveBeenCalledWith("https://docs.example.com/auth.md", expect.any(Object), "id-https://docs.example.com/auth.md");
+  });
+});
+
+describe("SEARCH_DOCUMENTS action", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should pull the query out of natural language", () => {
+    expect(extractSearchQuery("Which of my documents mention rate limiting?")).toBe("rate limiting");
+    expect(extractSearchQuery("search all my docs for \"retry budget\"")).toBe("retry budget");
+    expect(extractSearchQuery("find documents about OAuth scopes")).toBe("OAuth scopes");
+    expect(extractSearchQuery("Is pagination mentioned in any of my documents?")).toBe("pagination");
+    expect(extractSearchQuery("quote line 5 of https://docs.example.com/auth.md")).toBeNull();
+  });
+
+  it("should list ranked documents with their matching lines", async () => {
+    repo.searchFullText.mockResolvedValue([
+      row("https://docs.example.com/rate-limits.md", RATE_LIMITS, { rank: 0.8, title: "Rate limits" }),
+    ]);
+    const callback = vi.fn();
+
+    const result = (await SearchDocumentsAction.handler(
+      runtime,
+      { content: { text: "which of my documents mention rate limiting" } } as any,
+      undefined,
+      undefined,
+      callback
+    )) as any;
+
+    expect(result.success).toBe(true);
+    expect(result.text).toContain('Found 1 document matching "rate limiting":');
+    expect(result.text).toContain("1. Rate limits — https://docs.example.com/rate-limits.md (source docs)");
+    expect(result.text).toContain('Line 5: "Rate limiting applies per token, not per IP address."');
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({ action: "SEARCH_DOCUMENTS" }));
+  });
+
+  it("should say when nothing matches", async () => {
+    repo.searchFullText.mockResolvedValue([]);
+
+    const result = (await SearchDocumentsAction.handler(
+      runtime,
+      { content: { text: "search my documents", query: "webhooks" } } as any,
+      undefined,
+      undefined,
+      undefined
+    )) as any;
+
+    expect(result.success).toBe(true);
+    expect(result.text).toBe('No stored documents match "webhooks".');
+  });
+});
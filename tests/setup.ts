@@ -8,6 +8,9 @@ vi.mock("@elizaos/core", () => ({
     error: vi.fn(),
     debug: vi.fn(),
   },
+  Service: class {
+    constructor(public runtime?: unknown) {}
+  },
 }));
 
 // Global test utilities
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  backoffDelayMs,
+  describeSourceHealth,
+  formatSourceHealth,
+} from "../src/orchestrator/sourceHealth";
+import { SOURCE_HEALTH_DEFAULTS } from "../src/config/constants";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+const HOUR = 60 * 60 * 1000;
+
+function row(overrides: Record<string, unknown> = {}) {
+  return {
+    sourceUrl: "https://docs.example.com/llms.txt",
+    consecutiveFailures: 0,
+    lastErrorCode: null,
+    lastError: null,
+    lastSuccessAt: null,
+    nextAttemptAt: null,
+    autoDisabledAt: null,
+    ...overrides,
+  } as any;
+}
+
+describe("backoffDelayMs", () => {
+  it("should double with each consecutive failure", () => {
+    expect(backoffDelayMs(1)).toBe(HOUR);
+    expect(backoffDelayMs(2)).toBe(2 * HOUR);
+    expect(backoffDelayMs(4)).toBe(8 * HOUR);
+  });
+
+  it("should cap at the maximum", () => {
+    expect(backoffDelayMs(30)).toBe(SOURCE_HEALTH_DEFAULTS.BACKOFF_MAX_MS);
+  });
+});
+
+describe("describeSourceHealth", () => {
+  it("should report a source without failures as healthy", () => {
+    const health = describeSourceHealth(row(), NOW);
+    expect(health.state).toBe("healthy");
+    expect(formatSourceHealth(health)).toBe("");
+  });
+
+  it("should explain a backing-off source with the factory's message", () => {
+    const health = describeSourceHealth(
+      row({
+        consecutiveFailures: 3,
+        lastErrorCode: "source_gone",
+        lastError: "HTTP 404 (Not Found)",
+        nextAttemptAt: new Date(NOW.getTime() + 4 * HOUR),
+      }),
+      NOW
+    );
+    expect(health.state).toBe("backing_off");
+    expect(health.reason).toContain("no longer exists");
+    expect(formatSourceHealth(health)).toBe(
+      "3 failed syncs in a row: The source no longer exists at this address (HTTP 404/410); " +
+        "next attempt after 2026-10-19 16:00 UTC"
+    );
+  });
+
+  it("should report a source whose backoff has passed as failing", () => {
+    const health = describeSourceHealth(
+      row({ consecutiveFailures: 1, lastErrorCode: "timeout", nextAttemptAt: new Date(NOW.getTime() - 1) }),
+      NOW
+    );
+    expect(health.state).toBe("failing");
+    expect(formatSourceHealth(health)).toBe("1 failed sync in a row: The source took too long to respond");
+  });
+
+  it("should report an auto-disabled source", () => {
+    const health = describeSourceHealth(
+      row({ consecutiveFailures: 7, lastErrorCode: "server_error", autoDisabledAt: NOW }),
+      NOW
+    );
+    expect(health.state).toBe("disabled");
+    expect(formatSourceHealth(health)).toMatch(/^disabled after 7 failed syncs in a row: .*server.*Refresh it to retry$/);
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { isValidCron, nextCronTime, parseCron } from "../src/utils/cronSchedule";
+import {
+  computeNextSyncAt,
+  describeSchedule,
+  parseInterval,
+} from "../src/orchestrator/syncSchedule";
+import { AutognosticValidationError } from "../src/errors/ValidationError";
+
+const state = vi.hoisted(() => ({
+  due: [] as any[],
+  nextSyncAt: new Map<string, Date | null>(),
+  synced: [] as Array<{ id: string; lastSyncAt: Date; nextSyncAt?: Date }>,
+  reconciled: [] as string[],
+  results: new Map<string, string>(),
+  retryAfter: new Map<string, Date>(),
+  logWrites: 0,
+}));
+
+vi.mock("../src/db/autognosticSourcesRepository", () => ({
+  AutognosticSourcesRepository: class {
+    async listDue() {
+      return state.due;
+    }
+    async setNextSyncAt(id: string, next: Date | null) {
+      state.nextSyncAt.set(id, next);
+    }
+    async updateSyncTimestamps(id: string, lastSyncAt: Date, nextSyncAt?: Date) {
+      state.synced.push({ id, lastSyncAt, nextSyncAt });
+    }
+  },
+}));
+
+vi.mock("../src/orchestrator/ReconciliationService", () => ({
+  ReconciliationService: class {
+    async pruneVersionHistory() {}
+  },
+}));
+
+vi.mock("../src/services/JobQueueService", () => ({
+  getJobQueueService: () => ({
+    async submit(_kind: string, source: { id: string }) {
+      state.reconciled.push(source.id);
+      const status = state.results.get(source.id) ?? "up_to_date";
+      if (status === "throw") throw new Error("HTTP 500");
+      return { sourceId: source.id, status, retryAfter: state.retryAfter.get(source.id) };
+    },
+  }),
+}));
+
+vi.mock("../src/db/getDb", () => ({
+  // Only sync_log writes reach the database here
+  getDb: async () => {
+    state.logWrites++;
+    throw new Error("no database in tests");
+  },
+}));
+
+const DEFAULTS = { cronExpression: "0 3 * * *", timezone: "UTC" };
+const noJitter = () => 0;
+
+function schedule(overrides: Record<string, unknown> = {}) {
+  return { syncCron: null, syncIntervalMinutes: null, syncJitterMinutes: 0, ...overrides } as any;
+}
+
+describe("parseCron", () => {
+  it("should expand ranges, steps, lists and names", () => {
+    const fields = parseCron("*/15 9-17 * jan,jul mon-fri");
+    expect([...fields.minutes]).toEqual([0, 15, 30, 45]);
+    expect(fields.hours.size).toBe(9);
+    expect([...fields.months]).toEqual([1, 7]);
+    expect([...fields.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("should treat 7 as Sunday and accept macros", () => {
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    expect(isValidCron("@weekly")).toBe(true);
+  });
+
+  it("should reject malformed expressions with a validation error", () => {
+    expect(() => parseCron("0 3 * *")).toThrow(AutognosticValidationError);
+    expect(isValidCron("61 * * * *")).toBe(false);
+    expect(isValidCron("*/0 * * * *")).toBe(false);
+    expect(isValidCron("0 5-2 * * *")).toBe(false);
+  });
+});
+
+describe("nextCronTime", () => {
+  it("should return the next matching minute strictly after the given time", () => {
+    const after = new Date("2026-10-19T03:00:00Z");
+    expect(nextCronTime("0 3 * * *", after)?.toISOString()).toBe("2026-10-20T03:00:00.000Z");
+    expect(nextCronTime("0 * * * *", new Date("2026-10-19T03:20:10Z"))?.toISOString())
+      .toBe("2026-10-19T04:00:00.000Z");
+  });
+
+  it("should match either day field when both are restricted", () => {
+    // The 20th (a Tuesday) comes before Friday the 23rd
+    const next = nextCronTime("0 0 20 * 5", new Date("2026-10-19T12:00:00Z"));
+    expect(next?.toISOString()).toBe("2026-10-20T00:00:00.000Z");
+  });
+
+  it("should read the expression as wall-clock time in the time zone", () => {
+    const next = nextCronTime("0 9 * * *", new Date("2026-10-19T00:00:00Z"), "America/New_York");
+    expect(next?.toISOString()).toBe("2026-10-19T13:00:00.000Z");
+  });
+
+  it("should skip a local time that a DST change removes", () => {
+    // 02:30 does not exist in New York on 2026-03-08
+    const next = nextCronTime("30 2 * * *", new Date("2026-03-08T00:00:00Z"), "America/New_York");
+    expect(next?.toISOString()).toBe("2026-03-09T06:30:00.000Z");
+  });
+
+  it("should return null for an expression that never matches", () => {
+    expect(nextCronTime("0 0 31 2 *", new Date("2026-10-19T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("parseInterval", () => {
+  it("should accept unit suffixes, words and plain names", () => {
+    expect(parseInterval("30m")).toBe(30);
+    expect(parseInterval("6h")).toBe(360);
+    expect(parseInterval("every 2 days")).toBe(2 * 24 * 60);
+    expect(parseInterval("Weekly")).toBe(7 * 24 * 60);
+  });
+
+  it("should reject unknown formats and intervals below the minimum", () => {
+    expect(() => parseInterval("soon")).toThrow(AutognosticValidationError);
+    expect(() => parseInterval("6 fortnights")).toThrow(/Invalid interval/);
+    expect(() => parseInterval("1m")).toThrow(/minimum/);
+  });
+});
+
+describe("computeNextSyncAt", () => {
+  const from = new Date("2026-10-19T10:15:00Z");
+
+  it("should prefer the source cron over its interval and the default", () => {
+    const next = computeNextSyncAt(
+      schedule({ syncCron: "0 * * * *", syncIntervalMinutes: 600 }),
+      from,
+      DEFAULTS,
+      noJitter
+    );
+    expect(next?.toISOString()).toBe("2026-10-19T11:00:00.000Z");
+  });
+
+  it("should add the interval to the start time", () => {
+    const next = computeNextSyncAt(schedule({ syncIntervalMinutes: 360 }), from, DEFAULTS, noJitter);
+    expect(next?.toISOString()).toBe("2026-10-19T16:15:00.000Z");
+  });
+
+  it("should fall back to the default cron", () => {
+    const next = computeNextSyncAt(schedule(), from, DEFAULTS, noJitter);
+    expect(next?.toISOString()).toBe("2026-10-20T03:00:00.000Z");
+  });
+
+  it("should delay by up to the jitter", () => {
+    const s = schedule({ syncIntervalMinutes: 60, syncJitterMinutes: 10 });
+    const base = computeNextSyncAt(s, from, DEFAULTS, noJitter)!.getTime();
+    const late = computeNextSyncAt(s, from, DEFAULTS, () => 0.5)!.getTime();
+    expect(late - base).toBe(5 * 60_000);
+  });
+});
+
+describe("describeSchedule", () => {
+  it("should describe intervals in the largest whole unit", () => {
+    expect(describeSchedule(schedule({ syncIntervalMinutes: 60 }), DEFAULTS)).toBe("every hour");
+    expect(describeSchedule(schedule({ syncIntervalMinutes: 2880, syncJitterMinutes: 15 }), DEFAULTS))
+      .toBe("every 2 days (up to 15 min jitter)");
+  });
+
+  it("should name the default cron for sources without their own schedule", () => {
+    expect(describeSchedule(schedule(), DEFAULTS)).toBe('default schedule, cron "0 3 * * *" (UTC)');
+  });
+});
+
+describe("ScheduledSyncService.runSync", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+
+  function source(id: string, overrides: Record<string, unknown> = {}) {
+    return {
+      id,
+      sourceUrl: `https://${id}.example.com/llms.txt`,
+      enabled: true,
+      createdAt: new Date("2026-01-01T00:00:00Z"),
+      lastSyncAt: new Date("2026-10-19T11:00:00Z"),
+      nextSyncAt: new Date("2026-10-19T11:59:00Z"),
+      ...schedule({ syncIntervalMinutes: 60 }),
+      ...overrides,
+    };
+  }
+
+  async function run() {
+    const { ScheduledSyncService } = await import("../src/services/ScheduledSyncService");
+    await new ScheduledSyncService({ agentId: "agent" } as any).runSync(now);
+  }
+
+  beforeEach(() => {
+    state.due = [];
+    state.nextSyncAt.clear();
+    state.synced = [];
+    state.reconciled = [];
+    state.results.clear();
+    state.retryAfter.clear();
+    state.logWrites = 0;
+  });
+
+  it("should sync due sources and store their next time from their own schedule", async () => {
+    state.due = [source("changelog")];
+    await run();
+
+    expect(state.reconciled).toEqual(["changelog"]);
+    expect(state.synced).toHaveLength(1);
+    const next = state.synced[0].nextSyncAt!.getTime();
+    expect(next - state.synced[0].lastSyncAt.getTime()).toBe(60 * 60_000);
+  });
+
+  it("should only schedule a never-computed source whose slot has not come round", async () => {
+    state.due = [
+      source("fresh", { nextSyncAt: null, lastSyncAt: new Date("2026-10-19T11:30:00Z") }),
+      source("stale", { nextSyncAt: null, lastSyncAt: new Date("2026-10-19T10:30:00Z") }),
+    ];
+    await run();
+
+    expect(state.reconciled).toEqual(["stale"]);
+    expect(state.nextSyncAt.get("fresh")?.toISOString()).toBe("2026-10-19T12:30:00.000Z");
+  });
+
+  it("should move a failing source on to its next slot without recording a sync", async () => {
+    state.due = [source("broken")];
+    state.results.set("broken", "throw");
+    await run();
+
+    expect(state.synced).toHaveLength(0);
+    expect(state.nextSyncAt.get("broken")!.getTime()).toBeGreaterThan(now.getTime());
+  });
+
+  it("should defer a skipped source past its backoff without logging the tick", async () => {
+    const retryAfter = new Date("2026-10-21T00:00:00Z");
+    state.due = [source("flaky")];
+    state.results.set("flaky", "skipped_backoff");
+    state.retryAfter.set("flaky", retryAfter);
+    await run();
+
+    expect(state.synced).toHaveLength(0);
+    expect(state.nextSyncAt.get("flaky")).toEqual(retryAfter);
+    expect(state.logWrites).toBe(0);
+  });
+
+  it("should keep the next slot when it comes after the cooldown", async () => {
+    state.due = [source("busy")];
+    state.results.set("busy", "skipped_cooldown");
+    state.retryAfter.set("busy", new Date(now.getTime() + 60_000));
+    await run();
+
+    expect(state.nextSyncAt.get("busy")!.getTime()).toBeGreaterThanOrEqual(now.getTime() + 60 * 60_000);
+  });
+
+  it("should not submit a job for a source still backing off or leased elsewhere", async () => {
+    const nextAttemptAt = new Date("2026-10-20T00:00:00Z");
+    state.due = [
+      source("flaky", { nextAttemptAt }),
+      source("busy", { leaseHolder: "other", leaseExpiresAt: new Date(now.getTime() + 5 * 60_000) }),
+    ];
+    await run();
+
+    expect(state.reconciled).toEqual([]);
+    expect(state.nextSyncAt.get("flaky")).toEqual(nextAttemptAt);
+    expect(state.nextSyncAt.get("busy")!.getTime()).toBeGreaterThan(now.getTime());
+    expect(state.logWrites).toBe(0);
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { SyncStatusAction } from "../src/actions/syncStatusAction";
+import { getSyncStatus } from "../src/integration/syncStatus";
+
+const state = vi.hoisted(() => ({
+  sources: [] as any[],
+  runs: [] as any[],
+  currentRun: null as any,
+}));
+
+vi.mock("../src/db/autognosticSourcesRepository", () => ({
+  AutognosticSourcesRepository: class {
+    async listAll() {
+      return state.sources;
+    }
+    async getById(id: string) {
+      return state.sources.find((s) => s.id === id) ?? null;
+    }
+  },
+}));
+
+vi.mock("../src/db/autognosticSyncLogRepository", () => ({
+  AutognosticSyncLogRepository: class {
+    async listRecent(limit: number) {
+      return state.runs.slice(0, limit);
+    }
+    async listWithSourceErrors(sourceId: string, limit: number) {
+      return state.runs
+        .filter((r) => (r.errors ?? []).some((e: any) => e.sourceId === sourceId))
+        .slice(0, limit);
+    }
+  },
+}));
+
+vi.mock("../src/services/ScheduledSyncService", () => ({
+  getScheduledSyncService: () => ({
+    getStatus: () => ({
+      enabled: true,
+      active: true,
+      defaultCron: "0 3 * * *",
+      timezone: "UTC",
+      tickCron: "* * * * *",
+      currentRun: state.currentRun,
+    }),
+  }),
+}));
+
+const runtime = { agentId: "agent" } as any;
+
+function source(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    sourceUrl: `https://${id}.example.com/llms.txt`,
+    enabled: true,
+    versionTrackingEnabled: true,
+    isStaticContent: false,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    lastSyncAt: new Date("2026-10-19T03:00:00Z"),
+    nextSyncAt: new Date("2099-01-01T03:00:00Z"),
+    syncCron: null,
+    syncIntervalMinutes: null,
+    syncJitterMinutes: null,
+    consecutiveFailures: 0,
+    lastErrorCode: null,
+    lastError: null,
+    lastFailureAt: null,
+    lastSuccessAt: new Date("2026-10-19T03:00:00Z"),
+    nextAttemptAt: null,
+    autoDisabledAt: null,
+    ...overrides,
+  };
+}
+
+function run(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    startedAt: new Date("2026-10-19T03:00:00Z"),
+    completedAt: new Date("2026-10-19T03:00:42Z"),
+    status: "completed",
+    sourcesChecked: 2,
+    sourcesUpdated: 1,
+    sourcesSkipped: 0,
+    documentsAdded: 3,
+    documentsRemoved: 0,
+    errors: null,
+    ...overrides,
+  };
+}
+
+async function ask(text: string, args: Record<string, unknown> = {}) {
+  const callback = vi.fn();
+  const result = await SyncStatusAction.handler(
+    runtime,
+    { content: { text, ...args } } as any,
+    undefined,
+    undefined,
+    callback
+  );
+  return { result: result as any, callback };
+}
+
+describe("getSyncStatus", () => {
+  beforeEach(() => {
+    state.sources = [];
+    state.runs = [];
+    state.currentRun = null;
+  });
+
+  it("should report the earliest next sync among scheduled sources", async () => {
+    state.sources = [
+      source("manual", { nextSyncAt: new Date("2099-02-01T00:00:00Z") }),
+      source("changelog", { nextSyncAt: new Date("2099-01-01T01:00:00Z") }),
+      source("paper", { isStaticContent: true, nextSyncAt: new Date("2098-01-01T00:00:00Z") }),
+    ];
+
+    const report = await getSyncStatus(runtime);
+    expect(report.scheduler.nextRunSourceId).toBe("changelog");
+    expect(report.scheduler.nextRunAt?.toISOString()).toBe("2099-01-01T01:00:00.000Z");
+    expect(report.sources.find((s) => s.sourceId === "paper")?.scheduled).toBe(false);
+  });
+
+  it("should push the next sync out to the end of a backoff", async () => {
+    state.sources = [
+      source("flaky", {
+        consecutiveFailures: 2,
+        nextSyncAt: new Date("2099-01-01T00:00:00Z"),
+        nextAttemptAt: new Date("2099-01-02T00:00:00Z"),
+      }),
+    ];
+
+    const report = await getSyncStatus(runtime);
+    expect(report.sources[0].nextSyncAt?.toISOString()).toBe("2099-01-02T00:00:00.000Z");
+  });
+
+  it("should summarise recent runs from the sync log", async () => {
+    state.runs = [run("sync-2"), run("sync-1", { status: "running", completedAt: null })];
+
+    const report = await getSyncStatus(runtime, { limit: 1 });
+    expect(report.recentRuns).toHaveLength(1);
+    expect(report.recentRuns[0]).toMatchObject({ id: "sync-2", durationMs: 42_000, errors: [] });
+  });
+});
+
+describe("SYNC_STATUS action", () => {
+  beforeEach(() => {
+    state.sources = [];
+    state.runs = [];
+    state.currentRun = null;
+  });
+
+  it("should list recent runs, the running sync and each source", async () => {
+    state.sources = [source("eliza-docs")];
+    state.runs = [run("sync-2", { errors: [{ sourceId: "eliza-docs", error: "HTTP 503" }] })];
+    state.currentRun = {
+      id: "sync-3",
+      startedAt: new Date(),
+      total: 4,
+      checked: 1,
+      currentSourceId: "eliza-docs",
+    };
+
+    const { result, callback } = await ask("show sync status");
+    expect(result.success).toBe(true);
+    expect(result.text).toContain("Running now: sync-3, 1 of 4 source(s) done, syncing eliza-docs");
+    expect(result.text).toContain("2026-10-19 03:00 UTC completed in 42s: checked 2, updated 1, skipped 0, 1 error(s)");
+    expect(result.text).toContain("- eliza-docs: last synced 2026-10-19 03:00 UTC; next 2099-01-01 03:00 UTC");
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({ action: "SYNC_STATUS" }));
+  });
+
+  it("should explain a failing source named in the question", async () => {
+    state.sources = [
+      source("eliza"),
+      source("eliza-docs", {
+        consecutiveFailures: 3,
+        lastErrorCode: "source_gone",
+        lastError: "HTTP 404 fetching https://eliza-docs.example.com/llms.txt",
+        lastFailureAt: new Date("2026-10-19T03:01:00Z"),
+      }),
+    ];
+    state.runs = [
+      run("sync-2", { errors: [{ sourceId: "eliza-docs", error: "HTTP 404 fetching llms.txt" }] }),
+      run("sync-1", { errors: [{ sourceId: "eliza", error: "timeout" }] }),
+    ];
+
+    const { result } = await ask("why did the eliza-docs sync fail?");
+    expect(result.success).toBe(true);
+    expect(result.text).toContain("Sync status for eliza-docs");
+    expect(result.text).toContain("3 failed sync(s) in a row");
+    expect(result.text).toContain("(HTTP 404 fetching https://eliza-docs.example.com/llms.txt)");
+    expect(result.text).toContain("Errors in recent runs:\n- 2026-10-19 03:00 UTC: HTTP 404 fetching llms.txt");
+    expect(result.text).not.toContain("timeout");
+  });
+
+  it("should report an unknown source", async () => {
+    const { result } = await ask("sync status", { sourceId: "missing" });
+    expect(result.success).toBe(false);
+    expect(result.text).toBe("Source missing not found.");
+  });
+});
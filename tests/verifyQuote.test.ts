@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { verifyQuote } from "../src/integration/verifyQuote";
+
+const DOC = [
+  "The Method",
+  "",
+  "We apply a conﬁdence threshold of 0.9 to every prediction. Predictions be-",
+  "low the threshold are sent for human review.",
+  "",
+  "The authors write that “no single model dominates” across    tasks — a point worth noting.",
+].join("\n");
+
+describe("verifyQuote", () => {
+  it("should find a verbatim quote at its exact offsets", () => {
+    const claim = "sent for human review";
+    const result = verifyQuote(DOC, claim);
+
+    expect(result).toMatchObject({ match: "exact", score: 1, verbatim: claim });
+    expect(DOC.slice(result.charPosition, result.charEnd)).toBe(claim);
+  });
+
+  it("should match through ligatures and line-break hyphenation", () => {
+    const result = verifyQuote(DOC, "a confidence threshold of 0.9 to every prediction. Predictions below the threshold");
+
+    expect(result.match).toBe("normalized");
+    expect(result.verbatim).toBe("a conﬁdence threshold of 0.9 to every prediction. Predictions be-\nlow the threshold");
+  });
+
+  it("should match through smart quotes, dashes and runs of whitespace", () => {
+    const result = verifyQuote(DOC, '"no single model dominates" across tasks - a point');
+
+    expect(result.match).toBe("normalized");
+    expect(result.verbatim).toBe("“no single model dominates” across    tasks — a point");
+  });
+
+  it("should not verify a claim that differs only in case", () => {
+    const result = verifyQuote(DOC, "every prediction. predictions below the threshold");
+
+    expect(result.match).toBe("approximate");
+    expect(result.score).toBeLessThan(1);
+    expect(result.verbatim).toBe("every prediction. Predictions be-\nlow the threshold");
+  });
+
+  it("should return the closest passage for a paraphrase, scored below 1", () => {
+    const result = verifyQuote(DOC, "no one model dominates across the tasks");
+
+    expect(result.match).toBe("approximate");
+    expect(result.score).toBeGreaterThan(0.6);
+    expect(result.score).toBeLessThan(1);
+    expect(result.verbatim).toBe("“no single model dominates” across    tasks");
+  });
+
+  it("should report no match for text the document does not contain", () => {
+    expect(verifyQuote(DOC, "gradient descent converges quickly").match).toBe("none");
+    expect(verifyQuote(DOC, "   ")).toEqual({ match: "none", score: 0 });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { runPool } from "../src/utils/workerPool";
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("runPool", () => {
+  it("should return results in input order regardless of completion order", async () => {
+    const { results, skipped } = await runPool(
+      [30, 10, 20],
+      async (ms) => {
+        await delay(ms);
+        return ms * 2;
+      },
+      { concurrency: 3 }
+    );
+    expect(results).toEqual([60, 20, 40]);
+    expect(skipped).toBe(0);
+  });
+
+  it("should never run more than `concurrency` workers at once", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    await runPool(
+      Array.from({ length: 12 }, (_, i) => i),
+      async () => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await delay(5);
+        inFlight--;
+      },
+      { concurrency: 4 }
+    );
+    expect(peak).toBe(4);
+  });
+
+  it("should start items in input order", async () => {
+    const started: number[] = [];
+    await runPool(
+      [0, 1, 2, 3, 4],
+      async (n) => {
+        started.push(n);
+        await delay(5 - n);
+      },
+      { concurrency: 2 }
+    );
+    expect(started).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("should treat a concurrency below 1 as serial", async () => {
+    let peak = 0;
+    let inFlight = 0;
+    await runPool(
+      [1, 2, 3],
+      async () => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await delay(1);
+        inFlight--;
+      },
+      { concurrency: 0 }
+    );
+    expect(peak).toBe(1);
+  });
+
+  it("should handle an empty list", async () => {
+    const { results, skipped } = await runPool([], async () => 1, { concurrency: 4 });
+    expect(results).toEqual([]);
+    expect(skipped).toBe(0);
+  });
+
+  it("should stop starting items once the deadline passes", async () => {
+    const { results, skipped } = await runPool(
+      ["a", "b", "c", "d"],
+      async (s) => {
+        await delay(20);
+        return s;
+      },
+      { concurrency: 1, deadline: Date.now() + 10 }
+    );
+    // "a" was already running when the deadline passed and still completes
+    expect(results).toEqual(["a", undefined, undefined, undefined]);
+    expect(skipped).toBe(3);
+  });
+
+  it("should let in-flight items finish and rethrow the first error", async () => {
+    const finished: string[] = [];
+    const run = runPool(
+      ["slow", "bad", "never"],
+      async (s) => {
+        if (s === "bad") throw new Error("boom");
+        await delay(10);
+        finished.push(s);
+      },
+      { concurrency: 2 }
+    );
+    await expect(run).rejects.toThrow("boom");
+    expect(finished).toEqual(["slow"]);
+  });
+});